@@ -2,32 +2,280 @@
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { trpc } from '@/utils/trpc';
-import { useState, useEffect, useCallback } from 'react';
-import type { Item, CreateItemInput, UpdateItemInput } from '../../server/src/schema';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Item, CreateItemInput, UpdateItemInput, Location, Category, Tag, CurrentUser, Permission, ItemChangeEvent, ExpiringLot, Loan } from '../../server/src/schema';
 import { ItemForm } from '@/components/ItemForm'; // Import the new component
+import { ItemFilters, type ItemListFilters } from '@/components/ItemFilters';
+import { StockMovementPanel } from '@/components/StockMovementPanel';
+import { StockTransferForm } from '@/components/StockTransferForm';
+import { KitPanel } from '@/components/KitPanel';
+import { LocationManager } from '@/components/LocationManager';
+import { CategoryManager } from '@/components/CategoryManager';
+import { categoryOptions, type CategoryOption } from '@/utils/categories';
+import { formatQuantity } from '@/utils/units';
+import { ItemCard } from '@/components/ItemCard';
+import { ReorderAlerts } from '@/components/ReorderAlerts';
+import { ExpiringLots } from '@/components/ExpiringLots';
+import { ImportItemsDialog } from '@/components/ImportItemsDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { AuditTimeline } from '@/components/AuditTimeline';
+import { TrashView } from '@/components/TrashView';
+import { ScanPanel } from '@/components/ScanPanel';
+import { PrintLabelsDialog } from '@/components/PrintLabelsDialog';
+import { PurchasingView } from '@/components/PurchasingView';
+import { SalesView } from '@/components/SalesView';
+import { ValuationView } from '@/components/ValuationView';
+import { LoansView } from '@/components/LoansView';
+import { StockTakesView } from '@/components/StockTakesView';
+import { CheckOutForm } from '@/components/CheckOutForm';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Toaster } from '@/components/ui/sonner';
+import { toast } from 'sonner';
 
-function App() {
+const PAGE_SIZE = 12;
+const RELOAD_DELAY_MS = 250; // Bulk changes push one event per item; the reloads they cause wait for a pause
+
+const defaultItemListFilters: ItemListFilters = {
+  name: '',
+  minQuantity: null,
+  maxQuantity: null,
+  locationId: null,
+  categoryId: null,
+  tags: [],
+  sortBy: 'created_at',
+  sortOrder: 'desc'
+};
+
+interface AppProps {
+  currentUser: CurrentUser;
+  onLogout: () => void;
+}
+
+function App({ currentUser, onLogout }: AppProps) {
   const [items, setItems] = useState<Item[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedItemForEdit, setSelectedItemForEdit] = useState<Item | null>(null);
+  const [filters, setFilters] = useState<ItemListFilters>(defaultItemListFilters);
+  // Cursors of every page visited so far; the last entry is the current page (null = first page)
+  const [cursorHistory, setCursorHistory] = useState<(number | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [lowStockItems, setLowStockItems] = useState<Item[]>([]);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
+  const [expiryHorizonDays, setExpiryHorizonDays] = useState(30); // Shared by the expiring lots panel and the item cards
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [checkOutItem, setCheckOutItem] = useState<Item | null>(null);
+  const [selectedItemIds, setSelectedItemIds] = useState<number[]>([]); // Kept across pages so labels can be printed for any mix
+  const [itemChangeCount, setItemChangeCount] = useState(0); // Bumped after pushed item changes, so side panels reload
+
+  const currentCursor = cursorHistory[cursorHistory.length - 1];
+
+  // The server enforces permissions; these only hide what the current user's role cannot do
+  const can = (permission: Permission) => currentUser.permissions.includes(permission);
+  const canEditItems = can('items:edit') || can('stock:write');
+  const hasActiveFilters =
+    filters.name !== '' || filters.minQuantity !== null || filters.maxQuantity !== null || filters.locationId !== null ||
+    filters.categoryId !== null || filters.tags.length > 0;
+  const categoryLabels = new Map<number, string>(
+    categoryOptions(categories).map((option: CategoryOption) => [option.id, option.label])
+  );
 
   const loadItems = useCallback(async () => {
     setIsLoading(true);
     try {
-      const result = await trpc.getItems.query();
-      setItems(result);
+      const result = await trpc.getItems.query({
+        cursor: currentCursor,
+        limit: PAGE_SIZE,
+        sortBy: filters.sortBy,
+        sortOrder: filters.sortOrder,
+        name: filters.name || undefined,
+        minQuantity: filters.minQuantity ?? undefined,
+        maxQuantity: filters.maxQuantity ?? undefined,
+        locationId: filters.locationId ?? undefined,
+        categoryId: filters.categoryId ?? undefined,
+        tags: filters.tags.length > 0 ? filters.tags : undefined
+      });
+      setItems(result.items);
+      setNextCursor(result.nextCursor);
     } catch (error) {
       console.error('Failed to load items:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [currentCursor, filters]);
 
   useEffect(() => {
     loadItems();
   }, [loadItems]);
 
+  // The subscription outlives filter and page changes, so it reloads through a ref to the current query
+  const loadItemsRef = useRef(loadItems);
+  useEffect(() => {
+    loadItemsRef.current = loadItems;
+  }, [loadItems]);
+
+  // Changes made by anyone, from any screen, are pushed by the server and applied to the current page in place.
+  // Subscribed once: resubscribing on every filter change would drop the events sent in between.
+  // Anything that has to be reloaded is reloaded once per burst, so an import of thousands of rows costs a few requests.
+  useEffect(() => {
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    let reloadItems = false;
+    const scheduleReload = (withItems: boolean) => {
+      reloadItems = reloadItems || withItems;
+      if (reloadTimer !== null) {
+        clearTimeout(reloadTimer);
+      }
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        setItemChangeCount((prev: number) => prev + 1);
+        if (reloadItems) {
+          reloadItems = false;
+          loadItemsRef.current();
+        }
+      }, RELOAD_DELAY_MS);
+    };
+
+    const subscription = trpc.onItemChange.subscribe(undefined, {
+      onData: (event: ItemChangeEvent) => {
+        // Where a new (or restored) item lands depends on the active sort and filters, so let the server place it
+        scheduleReload(event.type === 'created');
+        if (event.type === 'updated') {
+          setItems((prev: Item[]) => prev.map((item: Item) => (item.id === event.item.id ? event.item : item)));
+        } else if (event.type === 'deleted') {
+          setItems((prev: Item[]) => prev.filter((item: Item) => item.id !== event.item_id));
+          setSelectedItemIds((prev: number[]) => prev.filter((id: number) => id !== event.item_id));
+        }
+      },
+      onError: (error: unknown) => {
+        console.error('Item change subscription failed:', error);
+      }
+    });
+    return () => {
+      subscription.unsubscribe();
+      if (reloadTimer !== null) {
+        clearTimeout(reloadTimer);
+      }
+    };
+  }, []);
+
+  const loadLowStockItems = useCallback(async () => {
+    try {
+      const result = await trpc.getLowStockItems.query();
+      setLowStockItems(result);
+    } catch (error) {
+      console.error('Failed to load low stock items:', error);
+    }
+  }, []);
+
+  // Any item change (create, edit, stock movement, delete) can change what needs reordering, on this page or not
+  useEffect(() => {
+    loadLowStockItems();
+  }, [itemChangeCount, loadLowStockItems]);
+
+  const loadExpiringLots = useCallback(async () => {
+    try {
+      const result = await trpc.getExpiringLots.query({ within_days: expiryHorizonDays });
+      setExpiringLots(result);
+    } catch (error) {
+      console.error('Failed to load expiring lots:', error);
+    }
+  }, [expiryHorizonDays]);
+
+  // Stock movements use lots up, so reload alongside the reorder alerts
+  useEffect(() => {
+    loadExpiringLots();
+  }, [itemChangeCount, loadExpiringLots]);
+
+  const loadLocations = useCallback(async () => {
+    try {
+      const result = await trpc.getLocations.query();
+      setLocations(result);
+    } catch (error) {
+      console.error('Failed to load locations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const result = await trpc.getCategories.query();
+      setCategories(result);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const result = await trpc.getTags.query();
+      setTagNames(result.map((tag: Tag) => tag.name));
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  }, []);
+
+  // Tags are created on the fly when items are saved, so refresh the suggestions whenever an item changes
+  useEffect(() => {
+    loadTags();
+  }, [itemChangeCount, loadTags]);
+
+  // Opens an item that may not be on the current page
+  const openItemById = useCallback((itemId: number) => {
+    trpc.getItemById.query(itemId)
+      .then((item: Item) => {
+        setSelectedItemForEdit(item);
+        setIsDialogOpen(true);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to open item:', error);
+        toast(`Item ${itemId} could not be opened`);
+      });
+  }, []);
+
+  // Printed labels carry a QR code linking to ?item=<id>, which opens that item straight away
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const linkedId = Number(url.searchParams.get('item'));
+    if (!Number.isInteger(linkedId) || linkedId <= 0) {
+      return;
+    }
+    url.searchParams.delete('item');
+    window.history.replaceState(null, '', url);
+    openItemById(linkedId);
+  }, [openItemById]);
+
+  const handleCategoryCreated = (category: Category) => {
+    setCategories((prev: Category[]) => [...prev, category]);
+  };
+
+  const handleLocationCreated = (location: Location) => {
+    setLocations((prev: Location[]) => [...prev, location].sort((a: Location, b: Location) => a.name.localeCompare(b.name)));
+  };
+
+  const handleFiltersChange = (newFilters: ItemListFilters) => {
+    setFilters(newFilters);
+    setCursorHistory([null]); // Any filter or sort change starts again from the first page
+  };
+
+  const goToNextPage = () => {
+    if (nextCursor !== null) {
+      setCursorHistory((prev: (number | null)[]) => [...prev, nextCursor]);
+    }
+  };
+
+  const goToPreviousPage = () => {
+    setCursorHistory((prev: (number | null)[]) => (prev.length > 1 ? prev.slice(0, -1) : prev));
+  };
+
   const handleItemSubmit = async (data: CreateItemInput | UpdateItemInput) => {
     setIsLoading(true);
     try {
@@ -45,23 +293,39 @@ function App() {
         // It's a CreateItemInput. We assert the type here because ItemForm's state
         // ensures that when initialData is null, the submitted data matches CreateItemInput.
         const createData = data as CreateItemInput;
-        const newItem = await trpc.createItem.mutate(createData);
-        setItems((prev: Item[]) => [...prev, newItem]);
+        await trpc.createItem.mutate(createData);
+        // Reload the current page, since the new item's position depends on the active sort and filters
+        await loadItems();
       }
     } catch (error) {
       console.error('Failed to process item:', error);
-      alert(`Error processing item: ${error instanceof Error ? error.message : String(error)}`);
-      throw error; // Re-throw to indicate failure to the form
+      throw error; // Re-throw so the form can show the error next to the fields it is about
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleRestoreItem = async (itemId: number) => {
+    try {
+      await trpc.restoreItem.mutate(itemId);
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to restore item:', error);
+      toast.error(`Error restoring item: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   const handleDeleteItem = async (itemId: number) => {
     setIsLoading(true);
     try {
+      const deletedItem = items.find((item: Item) => item.id === itemId);
       await trpc.deleteItem.mutate(itemId);
-      setItems((prev: Item[]) => prev.filter((item: Item) => item.id !== itemId));
+      // Deleting only moves the item to the trash, so it can be undone right away
+      toast(`"${deletedItem?.name ?? 'Item'}" moved to the trash`, {
+        action: { label: 'Undo', onClick: () => handleRestoreItem(itemId) }
+      });
+      // Reload so the page is filled up again with the next item in line
+      await loadItems();
     } catch (error) {
       console.error('Failed to delete item:', error);
       alert(`Error deleting item: ${error instanceof Error ? error.message : String(error)}`);
@@ -70,6 +334,30 @@ function App() {
     }
   };
 
+  // Stock movements change the quantity without closing the dialog, so keep both the list and the edited item in sync
+  const handleStockChanged = (updatedItem: Item) => {
+    setItems((prev: Item[]) => prev.map((item: Item) => (item.id === updatedItem.id ? updatedItem : item)));
+    // Scan mode adjusts stock while the edit dialog may be closed or showing another item
+    setSelectedItemForEdit((prev: Item | null) => (prev?.id === updatedItem.id ? updatedItem : prev));
+  };
+
+  const handleCheckedOut = async (loan: Loan) => {
+    setCheckOutItem(null);
+    toast(`${loan.item_name} checked out to ${loan.borrower} until ${loan.due_on}`);
+    try {
+      const updatedItem = await trpc.getItemById.query(loan.item_id);
+      if (updatedItem) {
+        handleStockChanged(updatedItem);
+      }
+    } catch (error) {
+      console.error('Failed to refresh item:', error);
+    }
+  };
+
+  const handleSelectedChange = (itemId: number, selected: boolean) => {
+    setSelectedItemIds((prev: number[]) => (selected ? [...prev, itemId] : prev.filter((id: number) => id !== itemId)));
+  };
+
   const openEditDialog = (item: Item) => {
     setSelectedItemForEdit(item);
     setIsDialogOpen(true);
@@ -82,50 +370,156 @@ function App() {
 
   return (
     <div className="container mx-auto p-4">
+      <div className="flex justify-end items-center gap-2 text-sm text-gray-600">
+        Signed in as <span className="font-medium">{currentUser.username}</span>
+        <Button variant="ghost" size="sm" onClick={onLogout}>Log out</Button>
+      </div>
       <h1 className="text-3xl font-extrabold mb-6 text-center text-indigo-700">🛒 Inventory Tracker</h1>
 
+      <ReorderAlerts items={lowStockItems} onSelect={canEditItems ? openEditDialog : undefined} />
+      <ExpiringLots
+        lots={expiringLots}
+        horizonDays={expiryHorizonDays}
+        onHorizonChange={setExpiryHorizonDays}
+        onSelect={canEditItems ? openItemById : undefined}
+      />
+
+      {can('items:create') && (
+        <div className="bg-white p-6 rounded-lg shadow-lg mb-8">
+          <h2 className="text-2xl font-semibold mb-4 text-indigo-600">Add New Item</h2>
+          <ItemForm
+            onSubmit={handleItemSubmit}
+            isLoading={isLoading}
+            submitButtonText="Create Item"
+            categories={categories}
+            tagSuggestions={tagNames}
+          />
+        </div>
+      )}
+
       <div className="bg-white p-6 rounded-lg shadow-lg mb-8">
-        <h2 className="text-2xl font-semibold mb-4 text-indigo-600">Add New Item</h2>
-        <ItemForm
-          onSubmit={handleItemSubmit}
-          isLoading={isLoading}
-          submitButtonText="Create Item"
+        <h2 className="text-2xl font-semibold mb-4 text-indigo-600">Locations</h2>
+        <LocationManager
+          locations={locations}
+          onLocationCreated={can('locations:manage') ? handleLocationCreated : undefined}
         />
       </div>
 
-      <h2 className="text-2xl font-semibold mb-4 text-indigo-600">Current Inventory</h2>
-      {isLoading && items.length === 0 ? (
-        <p className="text-gray-500 text-center">Loading items...</p>
-      ) : items.length === 0 ? (
-        <p className="text-gray-500 text-center">No items yet. Add one above!</p>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {items.map((item: Item) => (
-            <div key={item.id} className="border p-5 rounded-lg shadow-sm bg-white hover:shadow-md transition-shadow duration-200">
-              <h3 className="text-xl font-bold text-gray-800 mb-2">{item.name}</h3>
-              {item.description && (
-                <p className="text-gray-600 text-sm mb-3 italic">{item.description}</p>
-              )}
-              <div className="flex justify-between items-center mt-3">
-                <span className="text-lg font-semibold text-green-700">Quantity: {item.quantity}</span>
-                <span className="text-xs text-gray-400">Created: {new Date(item.created_at).toLocaleDateString()}</span>
-              </div>
-              <div className="flex space-x-2 mt-4">
-                <Button onClick={() => openEditDialog(item)} className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md transition-colors duration-200">
-                  Edit
-                </Button>
-                <Button onClick={() => handleDeleteItem(item.id)} className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md transition-colors duration-200" disabled={isLoading}>
-                  Delete
-                </Button>
-              </div>
-            </div>
-          ))}
+      <div className="bg-white p-6 rounded-lg shadow-lg mb-8">
+        <h2 className="text-2xl font-semibold mb-4 text-indigo-600">Categories</h2>
+        <CategoryManager
+          categories={categories}
+          onCategoryCreated={can('categories:manage') ? handleCategoryCreated : undefined}
+        />
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-semibold text-indigo-600">Current Inventory</h2>
+        <div className="flex gap-2">
+          <ExportMenu filters={filters} />
+          {can('items:create') && <ImportItemsDialog onImported={loadItems} allowUpsert={can('items:edit')} />}
         </div>
-      )}
+      </div>
+      <Tabs defaultValue="inventory">
+        <TabsList className="mb-4">
+          <TabsTrigger value="inventory">Inventory</TabsTrigger>
+          <TabsTrigger value="scan">Scan</TabsTrigger>
+          <TabsTrigger value="purchasing">Purchasing</TabsTrigger>
+          <TabsTrigger value="sales">Sales</TabsTrigger>
+          <TabsTrigger value="loans">Loans</TabsTrigger>
+          {can('stock:write') && <TabsTrigger value="stocktakes">Stock takes</TabsTrigger>}
+          {can('valuation:read') && <TabsTrigger value="valuation">Valuation</TabsTrigger>}
+          {/* Only users who can delete items have a trash to look at */}
+          {can('items:delete') && <TabsTrigger value="trash">Trash</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="inventory">
+          {selectedItemIds.length > 0 && (
+            <div className="flex items-center gap-3 mb-4 p-3 rounded-lg bg-indigo-50">
+              <span className="text-sm text-indigo-800">{selectedItemIds.length} selected</span>
+              <PrintLabelsDialog itemIds={selectedItemIds} />
+              <Button variant="ghost" onClick={() => setSelectedItemIds([])}>
+                Clear selection
+              </Button>
+            </div>
+          )}
+          <ItemFilters
+            filters={filters}
+            locations={locations}
+            categories={categories}
+            tagSuggestions={tagNames}
+            onChange={handleFiltersChange}
+          />
+          {isLoading && items.length === 0 ? (
+            <p className="text-gray-500 text-center">Loading items...</p>
+          ) : items.length === 0 ? (
+            <p className="text-gray-500 text-center">
+              {hasActiveFilters ? 'No items match the current filters.' : can('items:create') ? 'No items yet. Add one above!' : 'No items yet.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {items.map((item: Item) => (
+                <ItemCard
+                  key={item.id}
+                  item={item}
+                  isLoading={isLoading}
+                  categoryLabel={item.category_id !== null ? categoryLabels.get(item.category_id) : undefined}
+                  expiryHorizonDays={expiryHorizonDays}
+                  isSelected={selectedItemIds.includes(item.id)}
+                  onSelectedChange={handleSelectedChange}
+                  onEdit={canEditItems ? openEditDialog : undefined}
+                  onDelete={can('items:delete') ? handleDeleteItem : undefined}
+                  onCheckOut={can('stock:write') ? setCheckOutItem : undefined}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-6">
+            <Button onClick={goToPreviousPage} disabled={isLoading || cursorHistory.length === 1} variant="outline">
+              Previous
+            </Button>
+            <span className="text-sm text-gray-500">Page {cursorHistory.length}</span>
+            <Button onClick={goToNextPage} disabled={isLoading || nextCursor === null} variant="outline">
+              Next
+            </Button>
+          </div>
+        </TabsContent>
+        <TabsContent value="scan">
+          <ScanPanel
+            onItemUpdated={handleStockChanged}
+            onOpen={canEditItems ? openEditDialog : undefined}
+            allowStockChanges={can('stock:write')}
+          />
+        </TabsContent>
+        <TabsContent value="purchasing">
+          <PurchasingView locations={locations} canManage={can('purchasing:manage')} canReceive={can('stock:write')} />
+        </TabsContent>
+        <TabsContent value="sales">
+          <SalesView locations={locations} canManage={can('stock:write')} />
+        </TabsContent>
+        <TabsContent value="loans">
+          <LoansView locations={locations} canManage={can('stock:write')} />
+        </TabsContent>
+        {can('stock:write') && (
+          <TabsContent value="stocktakes">
+            <StockTakesView locations={locations} canManage={can('stocktakes:manage')} />
+          </TabsContent>
+        )}
+        {can('valuation:read') && (
+          <TabsContent value="valuation">
+            <ValuationView />
+          </TabsContent>
+        )}
+        {can('items:delete') && (
+          <TabsContent value="trash">
+            <TrashView onRestored={loadItems} />
+          </TabsContent>
+        )}
+      </Tabs>
 
       {/* Edit Item Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="sm:max-w-[425px]">
+        <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Item</DialogTitle>
             <DialogDescription>
@@ -139,8 +533,33 @@ function App() {
               isLoading={isLoading}
               submitButtonText="Save Changes"
               onFormSuccess={closeEditDialog} // Close dialog on successful update
+              canEditDetails={can('items:edit')}
+              canEditQuantity={can('stock:write')}
+              categories={categories}
+              tagSuggestions={tagNames}
+            />
+          )}
+          {/* Serialized units keep the location they were received at */}
+          {selectedItemForEdit && can('stock:write') && !selectedItemForEdit.serialized && (
+            <div className="space-y-2 border-t pt-4">
+              <h3 className="text-lg font-semibold text-gray-800">Transfer between locations</h3>
+              <StockTransferForm item={selectedItemForEdit} locations={locations} onItemUpdated={handleStockChanged} />
+            </div>
+          )}
+          {selectedItemForEdit && can('stock:write') && (
+            <StockMovementPanel item={selectedItemForEdit} locations={locations} onItemUpdated={handleStockChanged} />
+          )}
+          {/* Serialized items cannot be kits or kit components */}
+          {selectedItemForEdit && !selectedItemForEdit.serialized && (
+            <KitPanel
+              item={selectedItemForEdit}
+              locations={locations}
+              onItemUpdated={handleStockChanged}
+              canEditComponents={can('items:edit')}
+              canAssemble={can('stock:write')}
             />
           )}
+          {selectedItemForEdit && can('audit:read') && <AuditTimeline item={selectedItemForEdit} />}
           <DialogFooter>
             <Button onClick={closeEditDialog} className="bg-gray-200 text-gray-800 hover:bg-gray-300">
               Cancel
@@ -148,6 +567,18 @@ function App() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={checkOutItem !== null} onOpenChange={(open: boolean) => !open && setCheckOutItem(null)}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Check out {checkOutItem?.name}</DialogTitle>
+            <DialogDescription>{checkOutItem && formatQuantity(checkOutItem.available, checkOutItem.base_unit)} available to lend</DialogDescription>
+          </DialogHeader>
+          {checkOutItem && <CheckOutForm key={checkOutItem.id} item={checkOutItem} onCheckedOut={handleCheckedOut} />}
+        </DialogContent>
+      </Dialog>
+
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,87 @@
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditEntry, AuditOperation, Item } from '../../../server/src/schema';
+
+interface AuditTimelineProps {
+  item: Item;
+}
+
+const operationLabels: Record<AuditOperation, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Moved to trash',
+  restore: 'Restored from trash',
+  purge: 'Deleted permanently'
+};
+
+// Lists (tags, barcodes, units) and the stock per location come as arrays and objects rather than single values
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '—' : value.join(', ');
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length === 0 ? '—' : entries.map(([key, entry]) => `${key}: ${String(entry)}`).join(', ');
+  }
+  return String(value);
+};
+
+export function AuditTimeline({ item }: AuditTimelineProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getAuditLog.query({ item_id: item.id });
+      setEntries(result.entries);
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [item]); // Reload whenever the parent hands over an updated item
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <h3 className="text-lg font-semibold text-gray-800">Change history</h3>
+      <div className="max-h-48 overflow-y-auto">
+        {isLoading && entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No recorded changes.</p>
+        ) : (
+          <ol className="border-l-2 border-indigo-100 ml-1 space-y-3 text-sm">
+            {entries.map((entry: AuditEntry) => (
+              <li key={entry.id} className="pl-3">
+                <div>
+                  <span className="font-medium">{operationLabels[entry.operation]}</span>
+                  <span className="text-gray-500"> by {entry.actor_username ?? 'system'}</span>
+                  <span className="text-xs text-gray-400 ml-2">{new Date(entry.created_at).toLocaleString()}</span>
+                </div>
+                {/* Creates list every field already visible on the item, so only updates spell out their changes */}
+                {entry.operation === 'update' && (
+                  <ul className="text-gray-600">
+                    {Object.entries(entry.changes).map(([field, change]: [string, AuditEntry['changes'][string]]) => (
+                      <li key={field}>
+                        {field}: <span className="line-through text-gray-400">{formatValue(change.before)}</span>{' '}
+                        → {formatValue(change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { CurrentUser } from '../../../server/src/schema';
+import { LoginScreen } from '@/components/LoginScreen';
+
+interface AuthGateProps {
+  // Rendered only once a user is signed in
+  children: (user: CurrentUser, onLogout: () => void) => React.ReactNode;
+}
+
+export function AuthGate({ children }: AuthGateProps) {
+  // undefined while the session is being checked, null when nobody is signed in
+  const [user, setUser] = useState<CurrentUser | null | undefined>(undefined);
+
+  const loadUser = useCallback(async () => {
+    try {
+      setUser(await trpc.me.query());
+    } catch (err) {
+      console.error('Failed to check session:', err);
+      setUser(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (err) {
+      console.error('Logout failed:', err);
+    }
+    setUser(null);
+  };
+
+  if (user === undefined) {
+    return <p className="text-center text-gray-500 p-8">Loading...</p>;
+  }
+  if (user === null) {
+    return <LoginScreen onLoggedIn={setUser} />;
+  }
+  return <>{children(user, handleLogout)}</>;
+}
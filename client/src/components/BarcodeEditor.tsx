@@ -0,0 +1,86 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useState } from 'react';
+import type { Barcode, BarcodeSymbology } from '../../../server/src/schema';
+
+interface BarcodeEditorProps {
+  value: Barcode[];
+  onChange: (barcodes: Barcode[]) => void;
+  disabled?: boolean;
+}
+
+const symbologyLabels: Record<BarcodeSymbology, string> = {
+  ean13: 'EAN-13',
+  upca: 'UPC-A',
+  code128: 'Code 128'
+};
+
+// Lists an item's barcodes and adds new ones; the server checks lengths and check digits on save
+export function BarcodeEditor({ value, onChange, disabled = false }: BarcodeEditorProps) {
+  const [symbology, setSymbology] = useState<BarcodeSymbology>('ean13');
+  const [code, setCode] = useState('');
+
+  const handleAdd = () => {
+    const trimmed = code.trim();
+    if (trimmed !== '' && !value.some((barcode: Barcode) => barcode.code === trimmed)) {
+      onChange([...value, { symbology, code: trimmed }]);
+    }
+    setCode('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((barcode: Barcode) => (
+            <Badge key={barcode.code} variant="outline" className="gap-1 font-mono">
+              <span className="text-gray-500">{symbologyLabels[barcode.symbology]}</span> {barcode.code}
+              {!disabled && (
+                <button
+                  type="button"
+                  aria-label={`Remove barcode ${barcode.code}`}
+                  onClick={() => onChange(value.filter((existing: Barcode) => existing.code !== barcode.code))}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <div className="flex gap-2">
+          <Select value={symbology} onValueChange={(selected: string) => setSymbology(selected as BarcodeSymbology)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(symbologyLabels) as BarcodeSymbology[]).map((option: BarcodeSymbology) => (
+                <SelectItem key={option} value={option}>{symbologyLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Barcode"
+            value={code}
+            className="font-mono"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              // Scanners finish with Enter; add the code instead of submitting the whole form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={code.trim() === ''}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { categoryOptions, type CategoryOption } from '@/utils/categories';
+import { useState } from 'react';
+import type { Category, CreateCategoryInput } from '../../../server/src/schema';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  onCategoryCreated?: (category: Category) => void; // Omitted for users who cannot manage categories, hiding the form
+}
+
+const NO_PARENT = 'none';
+
+export function CategoryManager({ categories, onCategoryCreated }: CategoryManagerProps) {
+  const [formData, setFormData] = useState<CreateCategoryInput>({ name: '', parent_id: null });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = categoryOptions(categories);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const category = await trpc.createCategory.mutate(formData);
+      onCategoryCreated?.(category);
+      setFormData({ name: '', parent_id: null });
+    } catch (err) {
+      console.error('Failed to create category:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create category.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {onCategoryCreated && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input
+            placeholder="Category name"
+            value={formData.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateCategoryInput) => ({ ...prev, name: e.target.value }))
+            }
+            required
+          />
+          <Select
+            value={formData.parent_id === null ? NO_PARENT : String(formData.parent_id)}
+            onValueChange={(value: string) =>
+              setFormData((prev: CreateCategoryInput) => ({ ...prev, parent_id: value === NO_PARENT ? null : parseInt(value) }))
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PARENT}>Top-level category</SelectItem>
+              {options.map((option: CategoryOption) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  Inside {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Adding...' : 'Add Category'}
+          </Button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {options.length === 0 ? (
+        <p className="text-sm text-gray-500">No categories yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {options.map((option: CategoryOption) => (
+            <span key={option.id} className="px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm">
+              {option.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
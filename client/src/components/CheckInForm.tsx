@@ -0,0 +1,101 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { formatQuantity, parseQuantity } from '@/utils/units';
+import { useState } from 'react';
+import type { Loan, LoanUnit, Location } from '../../../server/src/schema';
+
+interface CheckInFormProps {
+  loan: Loan;
+  locations: Location[];
+  onCheckedIn: (loan: Loan) => void;
+}
+
+// Select items cannot use an empty value, so these get sentinels of their own
+const SAME_PLACE = 'same';
+const UNASSIGNED = 'unassigned';
+
+// Takes back all or part of a loan; units are ticked off one by one, other stock by quantity
+export function CheckInForm({ loan, locations, onCheckedIn }: CheckInFormProps) {
+  const outstandingUnits = loan.units.filter((unit: LoanUnit) => unit.returned_at === null);
+  const [quantity, setQuantity] = useState(loan.outstanding);
+  const [serialNumbers, setSerialNumbers] = useState<string[]>(() => outstandingUnits.map((unit: LoanUnit) => unit.serial_number));
+  const [locationValue, setLocationValue] = useState<string>(SAME_PLACE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleUnit = (serialNumber: string, selected: boolean) => {
+    setSerialNumbers((prev: string[]) => (selected ? [...prev, serialNumber] : prev.filter((existing: string) => existing !== serialNumber)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const updated = await trpc.checkInLoan.mutate({
+        loan_id: loan.id,
+        ...(loan.units.length > 0 ? { serial_numbers: serialNumbers } : { quantity }),
+        location_id: locationValue === SAME_PLACE ? undefined : locationValue === UNASSIGNED ? null : parseInt(locationValue)
+      });
+      onCheckedIn(updated);
+    } catch (err) {
+      console.error('Failed to check in loan:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {loan.units.length > 0 ? (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {outstandingUnits.map((unit: LoanUnit) => (
+            <label key={unit.serial_number} className="flex items-center gap-2 text-sm font-mono">
+              <Checkbox
+                checked={serialNumbers.includes(unit.serial_number)}
+                onCheckedChange={(checked: boolean | 'indeterminate') => toggleUnit(unit.serial_number, checked === true)}
+              />
+              {unit.serial_number}
+            </label>
+          ))}
+        </div>
+      ) : (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Returning
+          <Input
+            type="number"
+            min="0.001"
+            step="0.001"
+            max={loan.outstanding}
+            className="w-24"
+            value={quantity}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(parseQuantity(e.target.value))}
+            required
+          />
+          of {formatQuantity(loan.outstanding)}
+        </label>
+      )}
+      <Select value={locationValue} onValueChange={setLocationValue}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SAME_PLACE}>Back where it came from</SelectItem>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {locations.map((location: Location) => (
+            <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting || (loan.units.length > 0 ? serialNumbers.length === 0 : quantity <= 0)}>
+        {isSubmitting ? 'Checking in...' : 'Check in'}
+      </Button>
+    </form>
+  );
+}
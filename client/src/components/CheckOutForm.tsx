@@ -0,0 +1,138 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage, getFieldErrors } from '@/utils/errors';
+import { isoDateFromToday } from '@/utils/loans';
+import { formatQuantity, parseQuantity } from '@/utils/units';
+import { useState } from 'react';
+import type { Item, ItemLocationStock, Loan } from '../../../server/src/schema';
+
+interface CheckOutFormProps {
+  item: Item;
+  onCheckedOut: (loan: Loan) => void;
+}
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+// Lends an item to someone: a quantity, or for serialized items the units picked from those in stock
+export function CheckOutForm({ item, onCheckedOut }: CheckOutFormProps) {
+  const [borrower, setBorrower] = useState('');
+  const [dueOn, setDueOn] = useState(() => isoDateFromToday(14));
+  const [quantity, setQuantity] = useState(1);
+  const [serialNumbers, setSerialNumbers] = useState<string[]>([]);
+  const [locationValue, setLocationValue] = useState<string>(UNASSIGNED);
+  const [note, setNote] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const toggleUnit = (serialNumber: string, selected: boolean) => {
+    setSerialNumbers((prev: string[]) => (selected ? [...prev, serialNumber] : prev.filter((existing: string) => existing !== serialNumber)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const loan = await trpc.checkOutItem.mutate({
+        item_id: item.id,
+        borrower,
+        due_on: dueOn,
+        ...(item.serialized ? { serial_numbers: serialNumbers } : { quantity }),
+        location_id: locationValue === UNASSIGNED ? null : parseInt(locationValue),
+        note
+      });
+      onCheckedOut(loan);
+    } catch (err) {
+      console.error('Failed to check out item:', err);
+      setFieldErrors(getFieldErrors(err));
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Input
+        placeholder="Borrower"
+        value={borrower}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBorrower(e.target.value)}
+        aria-invalid={fieldErrors.borrower !== undefined}
+        required
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Due back on
+        <Input
+          type="date"
+          className="w-44"
+          value={dueOn}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueOn(e.target.value)}
+          aria-invalid={fieldErrors.due_on !== undefined}
+          required
+        />
+      </label>
+      {item.serialized ? (
+        item.serial_numbers.length === 0 ? (
+          <p className="text-sm text-gray-500">No units are in stock.</p>
+        ) : (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {item.serial_numbers.map((serialNumber: string) => (
+              <label key={serialNumber} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={serialNumbers.includes(serialNumber)}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => toggleUnit(serialNumber, checked === true)}
+                />
+                {serialNumber}
+              </label>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0.001"
+            step="0.001"
+            max={item.available}
+            className="w-24"
+            value={quantity}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(parseQuantity(e.target.value))}
+            aria-label="Quantity"
+            aria-invalid={fieldErrors.quantity !== undefined}
+            required
+          />
+          {item.locations.length > 0 && (
+            <Select value={locationValue} onValueChange={setLocationValue}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>From unassigned stock</SelectItem>
+                {item.locations.map((stock: ItemLocationStock) => (
+                  <SelectItem key={stock.location_id} value={String(stock.location_id)}>
+                    From {stock.location_name} ({formatQuantity(stock.quantity, item.base_unit)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+      <Input
+        placeholder="Note (optional)"
+        value={note || ''}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNote(e.target.value || null)}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting || (item.serialized ? serialNumbers.length === 0 : quantity <= 0)}>
+        {isSubmitting ? 'Checking out...' : 'Check out'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { describeExpiry, expiryHorizonOptions } from '@/utils/lots';
+import type { ExpiringLot } from '../../../server/src/schema';
+
+interface ExpiringLotsProps {
+  lots: ExpiringLot[];
+  horizonDays: number;
+  onHorizonChange: (days: number) => void;
+  onSelect?: (itemId: number) => void; // Omitted when the user cannot open items for editing
+}
+
+export function ExpiringLots({ lots, horizonDays, onHorizonChange, onSelect }: ExpiringLotsProps) {
+  const horizonSelect = (
+    <Select value={String(horizonDays)} onValueChange={(value: string) => onHorizonChange(parseInt(value))}>
+      <SelectTrigger className="w-36 bg-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {expiryHorizonOptions.map((days: number) => (
+          <SelectItem key={days} value={String(days)}>Next {days} days</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Keep the horizon reachable even when nothing is expiring, since it also drives the warnings on item cards
+  if (lots.length === 0) {
+    return (
+      <div className="flex justify-end items-center gap-2 text-sm text-gray-500 mb-4">
+        No lots expiring in the {horizonSelect}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-orange-50 border border-orange-300 p-6 rounded-lg shadow-sm mb-8">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-2xl font-semibold text-orange-800">⏳ Expiring lots ({lots.length})</h2>
+        {horizonSelect}
+      </div>
+      <ul className="divide-y divide-orange-200">
+        {lots.map((lot: ExpiringLot) => (
+          <li key={lot.lot_id} className="py-2 flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <span className="font-semibold text-gray-800">{lot.item_name}</span>
+              <span className="text-sm text-gray-600 ml-2">
+                Lot {lot.lot_number}, {lot.quantity} on hand
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className={`text-sm ${lot.days_left < 0 ? 'font-semibold text-red-700' : 'text-orange-800'}`}>
+                {describeExpiry(lot.days_left)} ({lot.expires_on})
+              </span>
+              {onSelect && (
+                <Button variant="outline" size="sm" onClick={() => onSelect(lot.item_id)}>
+                  Open
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import type { ExportItemsInput } from '../../../server/src/schema';
+import type { ItemListFilters } from '@/components/ItemFilters';
+
+interface ExportMenuProps {
+  filters: ItemListFilters;
+}
+
+type ExportFormat = ExportItemsInput['format'];
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV (.csv)',
+  ndjson: 'JSON lines (.ndjson)',
+  xlsx: 'Excel (.xlsx)'
+};
+
+export function ExportMenu({ filters }: ExportMenuProps) {
+  // The export endpoint streams a file download, so it is opened as a plain URL rather than through tRPC
+  const handleExport = (format: ExportFormat) => {
+    const params = new URLSearchParams({ format, sortBy: filters.sortBy, sortOrder: filters.sortOrder });
+    if (filters.name) {
+      params.set('name', filters.name);
+    }
+    if (filters.minQuantity !== null) {
+      params.set('minQuantity', String(filters.minQuantity));
+    }
+    if (filters.maxQuantity !== null) {
+      params.set('maxQuantity', String(filters.maxQuantity));
+    }
+    if (filters.locationId !== null) {
+      params.set('locationId', String(filters.locationId));
+    }
+    if (filters.categoryId !== null) {
+      params.set('categoryId', String(filters.categoryId));
+    }
+    filters.tags.forEach((tag: string) => params.append('tags', tag));
+    window.location.assign(`/api/export?${params.toString()}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">Export</Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export items matching the filters</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(formatLabels) as ExportFormat[]).map((format: ExportFormat) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {formatLabels[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
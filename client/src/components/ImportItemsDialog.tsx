@@ -0,0 +1,171 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { ImportItemsCsvInput, ImportReport, ImportRowResult } from '../../../server/src/schema';
+
+interface ImportItemsDialogProps {
+  onImported: () => void;
+  allowUpsert?: boolean; // Updating existing items needs permission to edit item details
+}
+
+type ImportMode = ImportItemsCsvInput['mode'];
+
+const actionStyles: Record<ImportRowResult['action'], string> = {
+  create: 'text-green-700',
+  update: 'text-blue-700',
+  error: 'text-red-600'
+};
+
+export function ImportItemsDialog({ onImported, allowUpsert = true }: ImportItemsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setCsv('');
+    setMode('create');
+    setReport(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      reset();
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+      setReport(null); // A new file invalidates the previous report
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await trpc.importItemsCsv.mutate({ csv, mode, dryRun });
+      setReport(result);
+      if (result.committed) {
+        onImported();
+      }
+    } catch (err) {
+      console.error('CSV import failed:', err);
+      setError(err instanceof Error ? err.message : 'CSV import failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Only a clean dry run for the current file and mode can be committed
+  const canCommit = report !== null && report.dryRun && report.errors.length === 0 && report.failed === 0 && report.rows.length > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Import CSV</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import items from CSV</DialogTitle>
+          <DialogDescription>
+            Columns: name, description, quantity (optional: reorder_point, reorder_quantity). The file is validated first;
+            nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          <Textarea
+            placeholder={'name,description,quantity\nHex Bolts,M8 zinc plated,100'}
+            value={csv}
+            rows={6}
+            className="font-mono text-xs"
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+              setCsv(e.target.value);
+              setReport(null);
+            }}
+          />
+          <Select
+            value={mode}
+            onValueChange={(value: string) => {
+              setMode(value as ImportMode);
+              setReport(null);
+            }}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="create">Create new items only (existing names are errors)</SelectItem>
+              {allowUpsert && <SelectItem value="upsert">Create or update items matched by name</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {report && (
+          <div className="space-y-2">
+            {report.committed ? (
+              <p className="text-green-700 font-medium">
+                Import complete: {report.created} created, {report.updated} updated.
+              </p>
+            ) : (
+              <p className="text-sm text-gray-700">
+                {report.created} to create, {report.updated} to update, {report.failed} with errors.
+              </p>
+            )}
+            {report.errors.map((message: string) => (
+              <p key={message} className="text-sm text-red-600">{message}</p>
+            ))}
+            {report.rows.length > 0 && (
+              <div className="max-h-64 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row: ImportRowResult) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.name ?? '—'}</TableCell>
+                        <TableCell className={`whitespace-normal ${actionStyles[row.action]}`}>
+                          {row.action === 'error' ? row.errors.join(' ') : row.action}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => runImport(true)} disabled={isSubmitting || csv.trim() === ''}>
+            {isSubmitting ? 'Checking...' : 'Validate'}
+          </Button>
+          <Button onClick={() => runImport(false)} disabled={isSubmitting || !canCommit}>
+            Import {canCommit ? report.created + report.updated : ''} items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { describeExpiry, daysUntil, lotsExpiringWithin } from '@/utils/lots';
+import { formatQuantity } from '@/utils/units';
+import type { Item, ItemLocationStock, ItemLot } from '../../../server/src/schema';
+
+interface ItemCardProps {
+  item: Item;
+  isLoading: boolean;
+  categoryLabel?: string; // Full path of the item's category, when it has one
+  expiryHorizonDays?: number; // Lots expiring within this many days are flagged
+  isSelected?: boolean;
+  onSelectedChange?: (itemId: number, selected: boolean) => void; // Omitted when the card cannot be selected
+  // Each action is omitted when the current user is not allowed to perform it
+  onEdit?: (item: Item) => void;
+  onDelete?: (itemId: number) => void;
+  onCheckOut?: (item: Item) => void;
+}
+
+export function ItemCard({ item, isLoading, categoryLabel, expiryHorizonDays = 30, isSelected = false, onSelectedChange, onEdit, onDelete, onCheckOut }: ItemCardProps) {
+  const hasBreakdown = item.locations.length > 0;
+  const needsReorder = item.reorder_point !== null && item.available <= item.reorder_point;
+  const expiringLots = lotsExpiringWithin(item, expiryHorizonDays);
+
+  return (
+    <div
+      className={`border p-5 rounded-lg shadow-sm bg-white hover:shadow-md transition-shadow duration-200 ${
+        needsReorder ? 'border-amber-400' : ''
+      } ${isSelected ? 'ring-2 ring-indigo-400' : ''}`}
+    >
+      <div className="flex justify-between items-start gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          {onSelectedChange && (
+            <Checkbox
+              checked={isSelected}
+              onCheckedChange={(checked: boolean | 'indeterminate') => onSelectedChange(item.id, checked === true)}
+              aria-label={`Select ${item.name}`}
+            />
+          )}
+          <h3 className="text-xl font-bold text-gray-800">{item.name}</h3>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          {needsReorder && <Badge variant="destructive">Needs reorder</Badge>}
+          {expiringLots.length > 0 && (
+            <Badge className="bg-orange-500 hover:bg-orange-500">
+              {expiringLots.length === 1 ? 'Lot expiring' : `${expiringLots.length} lots expiring`}
+            </Badge>
+          )}
+        </div>
+      </div>
+      {item.sku && <p className="text-xs text-gray-500 font-mono mb-1">SKU {item.sku}</p>}
+      {categoryLabel && <p className="text-xs text-indigo-600 mb-1">{categoryLabel}</p>}
+      {item.description && (
+        <p className="text-gray-600 text-sm mb-3 italic">{item.description}</p>
+      )}
+      {item.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {item.tags.map((tag: string) => (
+            <Badge key={tag} variant="secondary">{tag}</Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-between items-center mt-3">
+        <div>
+          <span className="text-lg font-semibold text-green-700">On hand: {formatQuantity(item.on_hand, item.base_unit)}</span>
+          {item.serialized && <p className="text-xs text-gray-500">Tracked by serial number</p>}
+          {item.reserved > 0 && item.available >= 0 && (
+            <p className="text-sm text-gray-600">{formatQuantity(item.reserved)} reserved, {formatQuantity(item.available, item.base_unit)} available</p>
+          )}
+          {/* A stock take found less than the open sales orders need */}
+          {item.available < 0 && (
+            <p className="text-sm text-red-600">{formatQuantity(item.reserved)} reserved, {formatQuantity(-item.available, item.base_unit)} short</p>
+          )}
+          {item.on_loan > 0 && <p className="text-sm text-gray-600">{formatQuantity(item.on_loan, item.base_unit)} out on loan</p>}
+          {item.buildable !== null && (
+            <p className="text-sm text-gray-600">Kit · {item.buildable} buildable from components</p>
+          )}
+        </div>
+        <span className="text-xs text-gray-400">Created: {new Date(item.created_at).toLocaleDateString()}</span>
+      </div>
+      {hasBreakdown && (
+        <ul className="mt-3 text-sm text-gray-600 space-y-1">
+          {item.locations.map((stock: ItemLocationStock) => (
+            <li key={stock.location_id} className="flex justify-between">
+              <span>📍 {stock.location_name}</span>
+              <span className="font-medium">{formatQuantity(stock.quantity, item.base_unit)}</span>
+            </li>
+          ))}
+          {item.unassigned_quantity > 0 && (
+            <li className="flex justify-between text-gray-400">
+              <span>Unassigned</span>
+              <span>{formatQuantity(item.unassigned_quantity, item.base_unit)}</span>
+            </li>
+          )}
+        </ul>
+      )}
+      {expiringLots.length > 0 && (
+        <ul className="mt-3 text-sm text-orange-700 space-y-1">
+          {expiringLots.map((lot: ItemLot) => (
+            <li key={lot.id} className="flex justify-between gap-2">
+              <span>⏳ Lot {lot.lot_number}: {formatQuantity(lot.quantity, item.base_unit)}</span>
+              {lot.expires_on !== null && <span>{describeExpiry(daysUntil(lot.expires_on))}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {(onEdit || onDelete || onCheckOut) && (
+        <div className="flex space-x-2 mt-4">
+          {onEdit && (
+            <Button onClick={() => onEdit(item)} className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md transition-colors duration-200">
+              Edit
+            </Button>
+          )}
+          {onCheckOut && (
+            <Button variant="outline" onClick={() => onCheckOut(item)} disabled={isLoading || item.available <= 0}>
+              Check out
+            </Button>
+          )}
+          {onDelete && (
+            <Button onClick={() => onDelete(item.id)} className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md transition-colors duration-200" disabled={isLoading}>
+              Delete
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
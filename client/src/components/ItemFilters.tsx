@@ -0,0 +1,132 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TagPicker } from '@/components/TagPicker';
+import { categoryOptions, type CategoryOption } from '@/utils/categories';
+import type { Category, GetItemsInput, Location } from '../../../server/src/schema';
+
+export interface ItemListFilters {
+  name: string;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+  locationId: number | null;
+  categoryId: number | null; // Includes subcategories
+  tags: string[]; // Items must carry all of them
+  sortBy: GetItemsInput['sortBy'];
+  sortOrder: GetItemsInput['sortOrder'];
+}
+
+interface ItemFiltersProps {
+  filters: ItemListFilters;
+  locations: Location[];
+  categories: Category[];
+  tagSuggestions: string[];
+  onChange: (filters: ItemListFilters) => void;
+}
+
+// Sort options combine column and direction so a single select covers both
+const sortOptions: { value: string; label: string }[] = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'name:asc', label: 'Name (A–Z)' },
+  { value: 'name:desc', label: 'Name (Z–A)' },
+  { value: 'quantity:asc', label: 'Quantity (low to high)' },
+  { value: 'quantity:desc', label: 'Quantity (high to low)' }
+];
+
+const ALL_LOCATIONS = 'all';
+const ALL_CATEGORIES = 'all';
+
+export function ItemFilters({ filters, locations, categories, tagSuggestions, onChange }: ItemFiltersProps) {
+  // Convert the quantity inputs between display (string) and filter (number | null) values
+  const parseQuantity = (value: string): number | null => {
+    const parsed = parseInt(value);
+    return Number.isNaN(parsed) ? null : Math.max(parsed, 0);
+  };
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortOrder] = value.split(':') as [ItemListFilters['sortBy'], ItemListFilters['sortOrder']];
+    onChange({ ...filters, sortBy, sortOrder });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+      <Input
+        placeholder="Search by name"
+        value={filters.name}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...filters, name: e.target.value })}
+      />
+      <Input
+        type="number"
+        placeholder="Min quantity"
+        min="0"
+        value={filters.minQuantity ?? ''}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          onChange({ ...filters, minQuantity: parseQuantity(e.target.value) })
+        }
+      />
+      <Input
+        type="number"
+        placeholder="Max quantity"
+        min="0"
+        value={filters.maxQuantity ?? ''}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          onChange({ ...filters, maxQuantity: parseQuantity(e.target.value) })
+        }
+      />
+      <Select
+        value={filters.locationId === null ? ALL_LOCATIONS : String(filters.locationId)}
+        onValueChange={(value: string) =>
+          onChange({ ...filters, locationId: value === ALL_LOCATIONS ? null : parseInt(value) })
+        }
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Location" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+          {locations.map((location: Location) => (
+            <SelectItem key={location.id} value={String(location.id)}>
+              {location.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.categoryId === null ? ALL_CATEGORIES : String(filters.categoryId)}
+        onValueChange={(value: string) =>
+          onChange({ ...filters, categoryId: value === ALL_CATEGORIES ? null : parseInt(value) })
+        }
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+          {categoryOptions(categories).map((option: CategoryOption) => (
+            <SelectItem key={option.id} value={String(option.id)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <TagPicker
+        value={filters.tags}
+        suggestions={tagSuggestions}
+        onChange={(tags: string[]) => onChange({ ...filters, tags })}
+        placeholder="Filter by tag"
+      />
+      <Select value={`${filters.sortBy}:${filters.sortOrder}`} onValueChange={handleSortChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Sort by" />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
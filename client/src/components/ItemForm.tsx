@@ -1,9 +1,20 @@
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TagPicker } from '@/components/TagPicker';
+import { BarcodeEditor } from '@/components/BarcodeEditor';
+import { SerialNumberEditor } from '@/components/SerialNumberEditor';
+import { UnitEditor } from '@/components/UnitEditor';
 import { useState, useEffect } from 'react';
 // Note the extra ../ because we're in components subfolder relative to client/src/App.tsx
-import type { Item, CreateItemInput, UpdateItemInput } from '../../../server/src/schema';
+import type { Item, CreateItemInput, UpdateItemInput, Category, Barcode, CostingMethod, ItemUnit } from '../../../server/src/schema';
+import { getConflictItem, getErrorMessage, getFieldErrors } from '@/utils/errors';
+import { categoryOptions, type CategoryOption } from '@/utils/categories';
+import { parseCents } from '@/utils/money';
+import { costingMethodLabels } from '@/utils/valuation';
+import { describeUnit, parseQuantity } from '@/utils/units';
 
 interface ItemFormProps {
   onSubmit: (data: CreateItemInput | UpdateItemInput) => Promise<void>;
@@ -11,60 +22,262 @@ interface ItemFormProps {
   isLoading?: boolean;
   submitButtonText: string;
   onFormSuccess?: () => void; // Callback to notify parent on successful submission
+  canEditDetails?: boolean; // Name, description and reorder thresholds
+  canEditQuantity?: boolean;
+  categories?: Category[];
+  tagSuggestions?: string[];
 }
 
-export function ItemForm({ onSubmit, initialData = null, isLoading = false, submitButtonText, onFormSuccess }: ItemFormProps) {
+const emptyFormData: CreateItemInput = {
+  name: '',
+  sku: null,
+  barcodes: [],
+  description: null,
+  quantity: 0,
+  reorder_point: null,
+  reorder_quantity: null,
+  category_id: null,
+  tags: [],
+  costing_method: 'average',
+  lot_tracked: false,
+  serialized: false,
+  serial_numbers: [],
+  base_unit: 'each',
+  units: [],
+  unit_cost_cents: null
+};
+
+const NO_CATEGORY = 'none';
+
+// Lists (tags, barcodes) are compared as sets; everything else by value
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const normalize = (list: unknown[]) => list.map((entry: unknown) => JSON.stringify(entry)).sort().join('\n');
+    return normalize(a) === normalize(b);
+  }
+  return a === b;
+};
+
+// Updates only send the fields that actually changed, so a user allowed to edit some fields
+// (e.g. a clerk changing the quantity) isn't refused because of the untouched ones.
+// The version tells the server which state of the item the changes were based on.
+const changedFields = (data: UpdateItemInput, original: Item, version: number = original.version): UpdateItemInput => {
+  const saved = toFormData(original);
+  return {
+    ...Object.fromEntries(
+      Object.entries(data).filter(([key, value]) => key !== 'id' && key !== 'version' && !sameValue(value, saved[key as keyof UpdateItemInput]))
+    ),
+    id: original.id,
+    version
+  };
+};
+
+const toFormData = (item: Item): UpdateItemInput => ({
+  id: item.id,
+  version: item.version,
+  name: item.name,
+  sku: item.sku,
+  barcodes: item.barcodes,
+  description: item.description,
+  quantity: item.on_hand,
+  reorder_point: item.reorder_point,
+  reorder_quantity: item.reorder_quantity,
+  category_id: item.category_id,
+  tags: item.tags,
+  costing_method: item.costing_method,
+  lot_tracked: item.lot_tracked,
+  serialized: item.serialized,
+  serial_numbers: item.serial_numbers,
+  base_unit: item.base_unit,
+  units: item.units
+});
+
+const fieldLabels: Record<Exclude<keyof UpdateItemInput, 'id' | 'version'>, string> = {
+  name: 'Name',
+  sku: 'SKU',
+  barcodes: 'Barcodes',
+  description: 'Description',
+  quantity: 'Quantity',
+  reorder_point: 'Reorder point',
+  reorder_quantity: 'Reorder quantity',
+  category_id: 'Category',
+  tags: 'Tags',
+  costing_method: 'Costing method',
+  lot_tracked: 'Lot tracked',
+  serialized: 'Serialized',
+  serial_numbers: 'Serial numbers',
+  base_unit: 'Base unit',
+  units: 'Other units'
+};
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? '—'
+      : value.map((entry: string | Barcode) => (typeof entry === 'string' ? entry : entry.code)).join(', ');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+};
+
+// Empty threshold inputs mean "not set", which the API expects as null
+const parseThreshold = (value: string): number | null => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-red-600">{message}</p> : null;
+}
+
+export function ItemForm({
+  onSubmit,
+  initialData = null,
+  isLoading = false,
+  submitButtonText,
+  onFormSuccess,
+  canEditDetails = true,
+  canEditQuantity = true,
+  categories = [],
+  tagSuggestions = []
+}: ItemFormProps) {
   const [formData, setFormData] = useState<CreateItemInput | UpdateItemInput>(
-    initialData
-      ? { id: initialData.id, name: initialData.name, description: initialData.description, quantity: initialData.quantity }
-      : { name: '', description: null, quantity: 0 }
+    initialData ? toFormData(initialData) : emptyFormData
   );
+  // The saved item the edits are based on; replaced when the user takes over someone else's changes
+  const [baseItem, setBaseItem] = useState<Item | null>(initialData);
+  // The item as someone else saved it while this form was open
+  const [conflict, setConflict] = useState<Item | null>(null);
+  // Server errors about one field are shown under it; anything else goes above the submit button
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  // Cost of the opening quantity, kept as typed until the form is submitted
+  const [openingCost, setOpeningCost] = useState('');
 
   // Effect to update form data when initialData changes (for edit dialog)
   useEffect(() => {
-    if (initialData) {
-      setFormData({
-        id: initialData.id,
-        name: initialData.name,
-        description: initialData.description,
-        quantity: initialData.quantity
-      });
-    } else {
-      setFormData({ name: '', description: null, quantity: 0 });
-    }
+    setFormData(initialData ? toFormData(initialData) : emptyFormData);
+    setBaseItem(initialData);
+    setConflict(null);
+    setFieldErrors({});
+    setFormError(null);
   }, [initialData]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const submit = async (data: CreateItemInput | UpdateItemInput) => {
+    setFieldErrors({});
+    setFormError(null);
     try {
-      await onSubmit(formData);
+      await onSubmit(data);
       // Reset form only if creating new item and submission was successful
       if (!initialData) {
-        setFormData({ name: '', description: null, quantity: 0 });
+        setFormData(emptyFormData);
+        setOpeningCost('');
       }
+      setConflict(null);
       onFormSuccess?.(); // Call success callback
     } catch (error) {
       console.error("Form submission failed:", error);
-      // The error is already handled by the parent component (App.tsx)
-      // No need to re-throw here unless specific form-level error display is needed
+      // Edit conflicts get their own prompt; other errors are shown next to the field they are about when there is one
+      const current = getConflictItem(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).some(field => field in fieldLabels)) {
+        setFieldErrors(errors);
+      } else {
+        setFormError(getErrorMessage(error));
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (baseItem) {
+      await submit(changedFields(formData as UpdateItemInput, baseItem));
+      return;
+    }
+    const unit_cost_cents = parseCents(openingCost);
+    if (unit_cost_cents === undefined) {
+      setFieldErrors({ unit_cost_cents: 'Enter the unit cost as an amount like 12.50, or leave it blank.' });
+      return;
     }
+    // A serialized item starts with one unit per serial number
+    const data = formData as CreateItemInput;
+    await submit({ ...data, quantity: data.serialized ? data.serial_numbers.length : data.quantity, unit_cost_cents });
   };
 
-  const isUpdate = !!initialData;
+  // Keep the other user's changes and apply only the fields edited here on top
+  const handleMerge = async () => {
+    if (baseItem && conflict) {
+      await submit(changedFields(formData as UpdateItemInput, baseItem, conflict.version));
+    }
+  };
+
+  // Make the item match this form exactly, replacing the other user's changes
+  const handleOverwrite = async () => {
+    if (conflict) {
+      await submit(changedFields(formData as UpdateItemInput, conflict));
+    }
+  };
+
+  const handleDiscard = () => {
+    if (conflict) {
+      setFormData(toFormData(conflict));
+      setBaseItem(conflict);
+      setConflict(null);
+    }
+  };
+
+  const options = categoryOptions(categories);
+  const categoryLabels = new Map<number, string>(options.map((option: CategoryOption) => [option.id, option.label]));
+
+  // Shows a field value in the conflict summary; categories by their path rather than their ID
+  const displayValue = (field: keyof typeof fieldLabels, value: unknown): string => {
+    if (field === 'category_id' && typeof value === 'number') {
+      return categoryLabels.get(value) ?? `#${value}`;
+    }
+    if (field === 'units' && Array.isArray(value)) {
+      return value.length === 0 ? '—' : value.map((unit: ItemUnit) => describeUnit(unit, formData.base_unit ?? 'each')).join(', ');
+    }
+    return field === 'costing_method' && typeof value === 'string' ? costingMethodLabels[value as CostingMethod] : formatValue(value);
+  };
+
+  // Fields the other user changed, compared with what this form started from
+  const theirs = conflict ? toFormData(conflict) : null;
+  const base = baseItem ? toFormData(baseItem) : null;
+  const theirChanges = theirs && base
+    ? (Object.keys(fieldLabels) as (keyof typeof fieldLabels)[]).filter(field => !sameValue(theirs[field], base[field]))
+    : [];
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      {/* Name field: Read-only for update, required for create */}
       <Input
         placeholder="Item name"
         value={formData.name || ''}
         onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
           setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, name: e.target.value }))
         }
-        required={!isUpdate}
-        disabled={isUpdate} // Name should not be editable during an update operation
-        className={isUpdate ? "bg-gray-100 cursor-not-allowed" : ""}
+        required
+        disabled={!canEditDetails} // Renaming is restricted to roles that may edit item details
+        className={!canEditDetails ? "bg-gray-100 cursor-not-allowed" : ""}
+        aria-invalid={fieldErrors.name !== undefined}
+      />
+      <FieldError message={fieldErrors.name} />
+      <Input
+        placeholder="SKU (optional)"
+        value={formData.sku || ''}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, sku: e.target.value.trim() || null }))
+        }
+        disabled={!canEditDetails}
+        className="font-mono"
+        aria-invalid={fieldErrors.sku !== undefined}
       />
+      <FieldError message={fieldErrors.sku} />
       <Input
         placeholder="Description (optional)"
         value={formData.description || ''}
@@ -74,18 +287,207 @@ export function ItemForm({ onSubmit, initialData = null, isLoading = false, subm
             description: e.target.value || null // Convert empty string back to null
           }))
         }
+        disabled={!canEditDetails}
+        aria-invalid={fieldErrors.description !== undefined}
       />
-      <Input
-        type="number"
-        placeholder="Quantity"
-        value={formData.quantity}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-          setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, quantity: parseInt(e.target.value) || 0 }))
+      <FieldError message={fieldErrors.description} />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <Checkbox
+          checked={formData.serialized ?? false}
+          onCheckedChange={(checked: boolean | 'indeterminate') =>
+            setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, serialized: checked === true }))
+          }
+          disabled={!canEditDetails}
+        />
+        Serialized (track each unit by its serial number)
+      </label>
+      <FieldError message={fieldErrors.serialized} />
+      {formData.serialized ? (
+        <SerialNumberEditor
+          value={formData.serial_numbers ?? []}
+          onChange={(serial_numbers: string[]) =>
+            setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, serial_numbers }))
+          }
+          disabled={!canEditQuantity}
+        />
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            placeholder="Quantity"
+            value={formData.quantity}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, quantity: parseQuantity(e.target.value) }))
+            }
+            min="0"
+            step="0.001"
+            required
+            disabled={!canEditQuantity}
+            aria-invalid={fieldErrors.quantity !== undefined}
+          />
+          <Input
+            className="w-32"
+            placeholder="Unit"
+            aria-label="Base unit"
+            title="Unit the quantity is counted in, e.g. each, m or kg"
+            value={formData.base_unit ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, base_unit: e.target.value }))
+            }
+            required
+            disabled={!canEditDetails}
+            aria-invalid={fieldErrors.base_unit !== undefined}
+          />
+        </div>
+      )}
+      <FieldError message={fieldErrors.serial_numbers} />
+      <FieldError message={fieldErrors.quantity} />
+      <FieldError message={fieldErrors.base_unit} />
+      {!formData.serialized && (
+        <>
+          <UnitEditor
+            baseUnit={formData.base_unit || 'each'}
+            value={formData.units ?? []}
+            onChange={(units: ItemUnit[]) => setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, units }))}
+            disabled={!canEditDetails}
+          />
+          <FieldError message={fieldErrors.units} />
+        </>
+      )}
+      {!initialData && (
+        <>
+          <Input
+            placeholder="Unit cost of the opening quantity (optional), e.g. 12.50"
+            inputMode="decimal"
+            value={openingCost}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpeningCost(e.target.value)}
+            disabled={!canEditQuantity}
+            aria-invalid={fieldErrors.unit_cost_cents !== undefined}
+          />
+          <FieldError message={fieldErrors.unit_cost_cents} />
+        </>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          placeholder="Reorder point (optional)"
+          value={formData.reorder_point ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, reorder_point: parseThreshold(e.target.value) }))
+          }
+          min="0"
+          disabled={!canEditDetails}
+          aria-invalid={fieldErrors.reorder_point !== undefined}
+        />
+        <Input
+          type="number"
+          placeholder="Reorder quantity (optional)"
+          value={formData.reorder_quantity ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, reorder_quantity: parseThreshold(e.target.value) }))
+          }
+          min="1"
+          disabled={!canEditDetails}
+          aria-invalid={fieldErrors.reorder_quantity !== undefined}
+        />
+      </div>
+      <FieldError message={fieldErrors.reorder_point} />
+      <FieldError message={fieldErrors.reorder_quantity} />
+      <Select
+        value={formData.category_id == null ? NO_CATEGORY : String(formData.category_id)}
+        onValueChange={(value: string) =>
+          setFormData((prev: CreateItemInput | UpdateItemInput) => ({
+            ...prev,
+            category_id: value === NO_CATEGORY ? null : parseInt(value)
+          }))
         }
-        min="0"
-        required
+        disabled={!canEditDetails}
+      >
+        <SelectTrigger className="w-full" aria-invalid={fieldErrors.category_id !== undefined}>
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+          {options.map((option: CategoryOption) => (
+            <SelectItem key={option.id} value={String(option.id)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <FieldError message={fieldErrors.category_id} />
+      <Select
+        value={formData.costing_method ?? 'average'}
+        onValueChange={(value: string) =>
+          setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, costing_method: value as CostingMethod }))
+        }
+        disabled={!canEditDetails}
+      >
+        <SelectTrigger className="w-full" aria-invalid={fieldErrors.costing_method !== undefined}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(costingMethodLabels) as CostingMethod[]).map((method: CostingMethod) => (
+            <SelectItem key={method} value={method}>{costingMethodLabels[method]} costing</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <FieldError message={fieldErrors.costing_method} />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <Checkbox
+          checked={formData.lot_tracked ?? false}
+          onCheckedChange={(checked: boolean | 'indeterminate') =>
+            setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, lot_tracked: checked === true }))
+          }
+          disabled={!canEditDetails}
+        />
+        Track lots and expiry dates (receipts must name a lot)
+      </label>
+      <FieldError message={fieldErrors.lot_tracked} />
+      <TagPicker
+        value={formData.tags ?? []}
+        suggestions={tagSuggestions}
+        onChange={(tags: string[]) => setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, tags }))}
+        allowCreate
+        disabled={!canEditDetails}
+      />
+      <FieldError message={fieldErrors.tags} />
+      <BarcodeEditor
+        value={formData.barcodes ?? []}
+        onChange={(barcodes: Barcode[]) => setFormData((prev: CreateItemInput | UpdateItemInput) => ({ ...prev, barcodes }))}
+        disabled={!canEditDetails}
       />
-      <Button type="submit" disabled={isLoading}>
+      <FieldError message={fieldErrors.barcodes} />
+      {conflict && (
+        <div className="border border-amber-300 bg-amber-50 rounded-md p-3 space-y-2 text-sm">
+          <p className="font-medium text-amber-800">Someone else saved changes to this item while you were editing.</p>
+          {theirChanges.length > 0 && (
+            <ul className="text-gray-700">
+              {theirChanges.map((field: keyof typeof fieldLabels) => (
+                <li key={field}>
+                  {fieldLabels[field]}: {displayValue(field, base?.[field])} → <span className="font-medium">{displayValue(field, theirs?.[field])}</span>
+                  {!sameValue((formData as UpdateItemInput)[field], base?.[field]) && (
+                    <span className="text-amber-700"> (you changed it to {displayValue(field, (formData as UpdateItemInput)[field])})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" size="sm" onClick={handleMerge} disabled={isLoading}>
+              Merge my changes
+            </Button>
+            <Button type="button" size="sm" variant="destructive" onClick={handleOverwrite} disabled={isLoading}>
+              Overwrite theirs
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={handleDiscard} disabled={isLoading}>
+              Discard mine
+            </Button>
+          </div>
+        </div>
+      )}
+      <FieldError message={formError ?? undefined} />
+      <Button type="submit" disabled={isLoading || conflict !== null}>
         {isLoading ? 'Processing...' : submitButtonText}
       </Button>
     </form>
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { trpc } from '@/utils/trpc';
+import { useEffect, useState } from 'react';
+import type { Item } from '../../../server/src/schema';
+
+interface ItemPickerProps {
+  onSelect: (item: Item) => void;
+  excludeIds?: number[]; // Items already picked, left out of the results
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const SEARCH_LIMIT = 10;
+const SEARCH_DELAY_MS = 250;
+
+// Searches items by name on the server, since the inventory can be far larger than one page
+export function ItemPicker({ onSelect, excludeIds = [], placeholder = 'Add item', disabled = false }: ItemPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Item[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    // Wait for a pause in typing, and ignore answers to searches that have since changed
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const page = await trpc.getItems.query({ name: search.trim() || undefined, sortBy: 'name', sortOrder: 'asc', limit: SEARCH_LIMIT });
+        if (isCurrent) {
+          setResults(page.items);
+        }
+      } catch (err) {
+        console.error('Item search failed:', err);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [isOpen, search]);
+
+  const available = results.filter((item: Item) => !excludeIds.includes(item.id));
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled}>
+          {placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-72" align="start">
+        {/* Results are already filtered by the server */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search items..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No matching items.</CommandEmpty>
+            {available.length > 0 && (
+              <CommandGroup>
+                {available.map((item: Item) => (
+                  <CommandItem
+                    key={item.id}
+                    value={String(item.id)}
+                    onSelect={() => {
+                      onSelect(item);
+                      setIsOpen(false);
+                      setSearch('');
+                    }}
+                  >
+                    <span className="flex-1">{item.name}</span>
+                    {item.sku && <span className="text-xs text-gray-500 font-mono">{item.sku}</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
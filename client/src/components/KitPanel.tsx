@@ -0,0 +1,234 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ItemPicker } from '@/components/ItemPicker';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage, getShortages } from '@/utils/errors';
+import { formatQuantity, parseQuantity } from '@/utils/units';
+import { useState, useEffect } from 'react';
+import type { Item, KitComponent, KitShortage, Location } from '../../../server/src/schema';
+
+interface KitPanelProps {
+  item: Item;
+  locations: Location[];
+  onItemUpdated: (item: Item) => void;
+  canEditComponents?: boolean; // Changing the bill of materials
+  canAssemble?: boolean; // Building and taking apart kits, which moves stock
+}
+
+type KitAction = 'assemble' | 'disassemble';
+
+const actionLabels: Record<KitAction, string> = {
+  assemble: 'Assemble',
+  disassemble: 'Take apart'
+};
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+const sameComponents = (a: KitComponent[], b: KitComponent[]): boolean =>
+  a.length === b.length && a.every((component: KitComponent, index: number) =>
+    component.item_id === b[index].item_id && component.quantity === b[index].quantity);
+
+// The bill of materials of an item, and assembling kits from it. Any item becomes a kit once it has components.
+export function KitPanel({ item, locations, onItemUpdated, canEditComponents = false, canAssemble = false }: KitPanelProps) {
+  const [components, setComponents] = useState<KitComponent[]>(item.components);
+  const [isSaving, setIsSaving] = useState(false);
+  const [componentsError, setComponentsError] = useState<string | null>(null);
+  const [action, setAction] = useState<KitAction>('assemble');
+  const [quantity, setQuantity] = useState<number>(1);
+  const [locationValue, setLocationValue] = useState<string>(UNASSIGNED);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shortages, setShortages] = useState<KitShortage[]>([]);
+
+  // Start over from the saved bill of materials whenever the parent hands over an updated item
+  useEffect(() => {
+    setComponents(item.components);
+  }, [item]);
+
+  const addComponent = (picked: Item) => {
+    setComponents((prev: KitComponent[]) => [
+      ...prev,
+      { item_id: picked.id, item_name: picked.name, base_unit: picked.base_unit, quantity: 1 }
+    ]);
+  };
+
+  const setComponentQuantity = (itemId: number, componentQuantity: number) => {
+    setComponents((prev: KitComponent[]) =>
+      prev.map((component: KitComponent) => (component.item_id === itemId ? { ...component, quantity: componentQuantity } : component))
+    );
+  };
+
+  const handleSaveComponents = async () => {
+    setIsSaving(true);
+    setComponentsError(null);
+    try {
+      const updatedItem = await trpc.setKitComponents.mutate({
+        item_id: item.id,
+        components: components.map(({ item_id, quantity: componentQuantity }: KitComponent) => ({ item_id, quantity: componentQuantity }))
+      });
+      onItemUpdated(updatedItem);
+    } catch (err) {
+      console.error('Failed to save kit components:', err);
+      setComponentsError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setShortages([]);
+    try {
+      const input = {
+        item_id: item.id,
+        quantity,
+        location_id: locationValue === UNASSIGNED ? null : parseInt(locationValue),
+        note: null
+      };
+      const updatedItem = action === 'assemble'
+        ? await trpc.assembleKit.mutate(input)
+        : await trpc.disassembleKit.mutate(input);
+      onItemUpdated(updatedItem);
+      setQuantity(1);
+    } catch (err) {
+      console.error('Failed to record kit assembly:', err);
+      // Shortages are listed one per line instead of in one long message
+      const short = getShortages(err);
+      setShortages(short);
+      setError(short.length > 0 ? `Not enough stock to ${action === 'assemble' ? 'assemble' : 'take apart'} ${quantity}:` : getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isKit = item.components.length > 0;
+  if (!isKit && !canEditComponents) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h3 className="text-lg font-semibold text-gray-800">Kit components</h3>
+
+      {components.length === 0 ? (
+        <p className="text-sm text-gray-500">Add components to build this item as a kit.</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {components.map((component: KitComponent) => (
+            <li key={component.item_id} className="flex items-center gap-2">
+              <span className="flex-1 text-gray-800">{component.item_name}</span>
+              {canEditComponents ? (
+                <>
+                  <Input
+                    type="number"
+                    className="w-24"
+                    min="0.001"
+                    step="0.001"
+                    value={component.quantity}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setComponentQuantity(component.item_id, parseQuantity(e.target.value))}
+                    aria-label={`Quantity of ${component.item_name} per kit`}
+                  />
+                  <span className="w-12 text-gray-500">{component.base_unit}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setComponents((prev: KitComponent[]) => prev.filter((existing: KitComponent) => existing.item_id !== component.item_id))}
+                    aria-label={`Remove ${component.item_name}`}
+                  >
+                    ×
+                  </Button>
+                </>
+              ) : (
+                <span className="text-gray-600">{formatQuantity(component.quantity, component.base_unit)} per kit</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canEditComponents && (
+        <div className="flex gap-2">
+          <ItemPicker
+            onSelect={addComponent}
+            excludeIds={[item.id, ...components.map((component: KitComponent) => component.item_id)]}
+            placeholder="Add component"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSaveComponents}
+            disabled={isSaving || sameComponents(components, item.components) || components.some((component: KitComponent) => component.quantity <= 0)}
+          >
+            {isSaving ? 'Saving...' : 'Save components'}
+          </Button>
+        </div>
+      )}
+      {componentsError && <p className="text-sm text-red-600">{componentsError}</p>}
+
+      {isKit && (
+        <p className="text-sm text-gray-600">
+          Components on hand make {item.buildable === 1 ? '1 more kit' : `${item.buildable ?? 0} more kits`}.
+        </p>
+      )}
+      {isKit && canAssemble && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={action} onValueChange={(value: string) => setAction(value as KitAction)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(actionLabels) as KitAction[]).map((key: KitAction) => (
+                  <SelectItem key={key} value={key}>
+                    {actionLabels[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              className="w-24"
+              min="1"
+              value={quantity}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(parseInt(e.target.value) || 0)}
+              aria-label="Number of kits"
+              required
+            />
+            {locations.length > 0 && (
+              <Select value={locationValue} onValueChange={setLocationValue}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>
+                  {locations.map((location: Location) => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {shortages.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {shortages.map((shortage: KitShortage) => (
+                <li key={shortage.item_id}>
+                  {shortage.item_name}: {formatQuantity(shortage.required)} needed, {formatQuantity(shortage.available)} available
+                </li>
+              ))}
+            </ul>
+          )}
+          <Button type="submit" disabled={isSubmitting || quantity < 1}>
+            {isSubmitting ? 'Recording...' : `${actionLabels[action]} kits`}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
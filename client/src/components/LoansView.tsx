@@ -0,0 +1,131 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckInForm } from '@/components/CheckInForm';
+import { trpc } from '@/utils/trpc';
+import { loanStatusLabels, loanStatusOf, loanStatusStyles } from '@/utils/loans';
+import { formatQuantity } from '@/utils/units';
+import { useState, useEffect, useCallback } from 'react';
+import type { Loan, LoanStatus, LoanUnit, Location } from '../../../server/src/schema';
+
+interface LoansViewProps {
+  locations: Location[];
+  canManage?: boolean; // Checking loans back in
+}
+
+const ALL_LOANS = 'all';
+
+// Loans of stock to borrowers, overdue ones first by default
+export function LoansView({ locations, canManage = false }: LoansViewProps) {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LoanStatus | null>('overdue');
+  const [checkInLoan, setCheckInLoan] = useState<Loan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadLoans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLoans(await trpc.getLoans.query({ status: statusFilter ?? undefined }));
+    } catch (err) {
+      console.error('Failed to load loans:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadLoans();
+  }, [loadLoans]);
+
+  const handleCheckedIn = () => {
+    setCheckInLoan(null);
+    loadLoans();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Select
+        value={statusFilter ?? ALL_LOANS}
+        onValueChange={(value: string) => setStatusFilter(value === ALL_LOANS ? null : (value as LoanStatus))}
+      >
+        <SelectTrigger className="w-52">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="overdue">Overdue loans</SelectItem>
+          <SelectItem value="open">All open loans</SelectItem>
+          <SelectItem value="returned">Returned loans</SelectItem>
+          <SelectItem value={ALL_LOANS}>All loans</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {isLoading && loans.length === 0 ? (
+        <p className="text-gray-500 text-center">Loading loans...</p>
+      ) : loans.length === 0 ? (
+        <p className="text-gray-500 text-center">{statusFilter === 'overdue' ? 'Nothing is overdue.' : 'No loans to show.'}</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Borrower</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Out</TableHead>
+                <TableHead>Due</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loans.map((loan: Loan) => {
+                const status = loanStatusOf(loan);
+                return (
+                  <TableRow key={loan.id}>
+                    <TableCell className="font-medium">
+                      {loan.item_name}
+                      {loan.units.length > 0 && (
+                        <span className="block text-xs font-mono text-gray-500">
+                          {loan.units.map((unit: LoanUnit) => unit.serial_number).join(', ')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{loan.borrower}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${loanStatusStyles[status]}`}>
+                        {loanStatusLabels[status]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatQuantity(loan.outstanding)} of {formatQuantity(loan.quantity)}</TableCell>
+                    <TableCell className={loan.overdue ? 'text-red-600 font-medium' : undefined}>{loan.due_on}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {loan.returned_at === null && (
+                          <Button size="sm" variant="outline" onClick={() => setCheckInLoan(loan)}>Check in</Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={checkInLoan !== null} onOpenChange={(open: boolean) => !open && setCheckInLoan(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Check in {checkInLoan?.item_name}</DialogTitle>
+            <DialogDescription>
+              {checkInLoan && formatQuantity(checkInLoan.outstanding)} still out with {checkInLoan?.borrower}, due {checkInLoan?.due_on}
+            </DialogDescription>
+          </DialogHeader>
+          {checkInLoan && (
+            <CheckInForm key={checkInLoan.id} loan={checkInLoan} locations={locations} onCheckedIn={handleCheckedIn} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
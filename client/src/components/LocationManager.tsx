@@ -0,0 +1,95 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { Location, CreateLocationInput } from '../../../server/src/schema';
+
+interface LocationManagerProps {
+  locations: Location[];
+  onLocationCreated?: (location: Location) => void; // Omitted for users who cannot manage locations, hiding the form
+}
+
+const NO_PARENT = 'none';
+
+export function LocationManager({ locations, onLocationCreated }: LocationManagerProps) {
+  const [formData, setFormData] = useState<CreateLocationInput>({ name: '', description: null, parent_id: null });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locationNames = new Map<number, string>(locations.map((location: Location) => [location.id, location.name]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const location = await trpc.createLocation.mutate(formData);
+      onLocationCreated?.(location);
+      setFormData({ name: '', description: null, parent_id: null });
+    } catch (err) {
+      console.error('Failed to create location:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create location.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {onLocationCreated && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Input
+            placeholder="Location name"
+            value={formData.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateLocationInput) => ({ ...prev, name: e.target.value }))
+            }
+            required
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={formData.description || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateLocationInput) => ({ ...prev, description: e.target.value || null }))
+            }
+          />
+          <Select
+            value={formData.parent_id === null ? NO_PARENT : String(formData.parent_id)}
+            onValueChange={(value: string) =>
+              setFormData((prev: CreateLocationInput) => ({ ...prev, parent_id: value === NO_PARENT ? null : parseInt(value) }))
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PARENT}>Top-level location</SelectItem>
+              {locations.map((location: Location) => (
+                <SelectItem key={location.id} value={String(location.id)}>
+                  Inside {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Adding...' : 'Add Location'}
+          </Button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {locations.length === 0 ? (
+        <p className="text-sm text-gray-500">No locations yet. All stock is unassigned.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {locations.map((location: Location) => (
+            <span key={location.id} className="px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm">
+              {location.parent_id !== null && `${locationNames.get(location.parent_id) ?? '?'} / `}
+              {location.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { CurrentUser, LoginInput } from '../../../server/src/schema';
+
+interface LoginScreenProps {
+  onLoggedIn: (user: CurrentUser) => void;
+}
+
+export function LoginScreen({ onLoggedIn }: LoginScreenProps) {
+  const [formData, setFormData] = useState<LoginInput>({ username: '', password: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = await trpc.login.mutate(formData);
+      onLoggedIn(user);
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError(err instanceof Error ? err.message : 'Login failed.');
+      setFormData((prev: LoginInput) => ({ ...prev, password: '' }));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-lg w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-extrabold text-center text-indigo-700">🛒 Inventory Tracker</h1>
+        <Input
+          placeholder="Username"
+          autoComplete="username"
+          value={formData.username}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: LoginInput) => ({ ...prev, username: e.target.value }))
+          }
+          required
+        />
+        <Input
+          type="password"
+          placeholder="Password"
+          autoComplete="current-password"
+          value={formData.password}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: LoginInput) => ({ ...prev, password: e.target.value }))
+          }
+          required
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </form>
+    </div>
+  );
+}
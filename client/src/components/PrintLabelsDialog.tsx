@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useState } from 'react';
+import type { LabelTemplate } from '../../../server/src/schema';
+
+interface PrintLabelsDialogProps {
+  itemIds: number[];
+}
+
+const templateLabels: Record<LabelTemplate, string> = {
+  avery_5160: 'Avery 5160 — Letter, 30 per sheet (2⅝" × 1")',
+  avery_5163: 'Avery 5163 — Letter, 10 per sheet (4" × 2")',
+  avery_l7160: 'Avery L7160 — A4, 21 per sheet (63.5 × 38.1 mm)',
+  avery_l7163: 'Avery L7163 — A4, 14 per sheet (99.1 × 38.1 mm)',
+  avery_l7165: 'Avery L7165 — A4, 8 per sheet (99.1 × 67.7 mm)'
+};
+
+export function PrintLabelsDialog({ itemIds }: PrintLabelsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [template, setTemplate] = useState<LabelTemplate>('avery_5160');
+  const [skip, setSkip] = useState<number>(0);
+
+  // The label sheet is a PDF rendered by the server, so it opens in a new tab where the browser can print it
+  const handlePrint = () => {
+    const params = new URLSearchParams({ template, skip: String(skip) });
+    itemIds.forEach((id: number) => params.append('itemIds', String(id)));
+    window.open(`/api/labels?${params.toString()}`, '_blank');
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Print labels</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Print labels</DialogTitle>
+          <DialogDescription>
+            One label per selected item with its name, SKU, a Code 128 barcode and a QR code linking back here.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Select value={template} onValueChange={(value: string) => setTemplate(value as LabelTemplate)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(templateLabels) as LabelTemplate[]).map((key: LabelTemplate) => (
+                <SelectItem key={key} value={key}>{templateLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Skip labels already used on the sheet
+            <Input
+              type="number"
+              min="0"
+              className="w-20"
+              value={skip}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSkip(Math.max(0, parseInt(e.target.value) || 0))}
+            />
+          </label>
+        </div>
+        <DialogFooter>
+          <Button onClick={handlePrint}>
+            Print {itemIds.length} {itemIds.length === 1 ? 'label' : 'labels'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { formatUnitCost } from '@/utils/money';
+import { formatQuantity, parseQuantity, perUnit } from '@/utils/units';
+import { purchaseOrderStatusLabels, purchaseOrderStatusStyles } from '@/utils/purchase_orders';
+import { useState } from 'react';
+import type { Location, PurchaseOrder, PurchaseOrderLine } from '../../../server/src/schema';
+
+interface PurchaseOrderDetailProps {
+  order: PurchaseOrder;
+  locations: Location[];
+  onChanged: (order: PurchaseOrder) => void;
+  // Each group of actions is hidden when the current user is not allowed to perform it
+  canManage?: boolean; // Send and close
+  canReceive?: boolean;
+}
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+// Rounded like the server does, so 0.3 - 0.1 doesn't leave a sliver outstanding
+const outstandingOf = (line: PurchaseOrderLine): number => Math.round((line.quantity_ordered - line.quantity_received) * 1000) / 1000;
+
+// Lot a line is received into; only lot-tracked items need one, which the server checks
+interface LotFields {
+  lot_number: string;
+  expires_on: string;
+}
+
+export function PurchaseOrderDetail({ order, locations, onChanged, canManage = false, canReceive = false }: PurchaseOrderDetailProps) {
+  // Quantities to book per line, defaulting to everything still outstanding
+  const [receiving, setReceiving] = useState<Record<number, number>>(() =>
+    Object.fromEntries(order.lines.map((line: PurchaseOrderLine) => [line.id, outstandingOf(line)]))
+  );
+  const [lots, setLots] = useState<Record<number, LotFields>>({});
+  const [locationValue, setLocationValue] = useState<string>(UNASSIGNED);
+  const [note, setNote] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isReceivable = order.status === 'sent' || order.status === 'partially_received';
+
+  const run = async (action: () => Promise<PurchaseOrder>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const updated = await action();
+      setReceiving(Object.fromEntries(updated.lines.map((line: PurchaseOrderLine) => [line.id, outstandingOf(line)])));
+      setLots({});
+      setNote(null);
+      onChanged(updated);
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReceive = () => {
+    const lines = order.lines
+      .filter((line: PurchaseOrderLine) => (receiving[line.id] ?? 0) > 0)
+      .map((line: PurchaseOrderLine) => {
+        const lot = lots[line.id];
+        const lotNumber = lot?.lot_number.trim() ?? '';
+        return {
+          line_id: line.id,
+          quantity: receiving[line.id],
+          lot_number: lotNumber === '' ? undefined : lotNumber,
+          expires_on: lotNumber === '' || !lot?.expires_on ? undefined : lot.expires_on
+        };
+      });
+    run(
+      () => trpc.receivePurchaseOrder.mutate({
+        purchase_order_id: order.id,
+        location_id: locationValue === UNASSIGNED ? null : parseInt(locationValue),
+        lines,
+        note
+      }),
+      'Failed to receive purchase order'
+    );
+  };
+
+  const updateLot = (lineId: number, changes: Partial<LotFields>) => {
+    setLots((prev: Record<number, LotFields>) => ({
+      ...prev,
+      [lineId]: { ...(prev[lineId] ?? { lot_number: '', expires_on: '' }), ...changes }
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${purchaseOrderStatusStyles[order.status]}`}>
+          {purchaseOrderStatusLabels[order.status]}
+        </span>
+        <span className="text-sm text-gray-600">{order.supplier_name}</span>
+        <span className="text-xs text-gray-400">
+          Created {new Date(order.created_at).toLocaleDateString()}
+          {order.sent_at && ` · sent ${new Date(order.sent_at).toLocaleDateString()}`}
+          {order.closed_at && ` · closed ${new Date(order.closed_at).toLocaleDateString()}`}
+        </span>
+      </div>
+      {order.notes && <p className="text-sm text-gray-600 italic">{order.notes}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Ordered</TableHead>
+            <TableHead className="text-right">Received</TableHead>
+            <TableHead className="text-right">Unit cost</TableHead>
+            {canReceive && isReceivable && <TableHead className="text-right">Receive now</TableHead>}
+            {canReceive && isReceivable && <TableHead>Lot and expiry</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.lines.map((line: PurchaseOrderLine) => (
+            <TableRow key={line.id}>
+              <TableCell>{line.item_name}</TableCell>
+              <TableCell className="text-right">{formatQuantity(line.quantity_ordered, line.base_unit)}</TableCell>
+              <TableCell className="text-right">{formatQuantity(line.quantity_received, line.base_unit)}</TableCell>
+              <TableCell className="text-right">
+                {line.unit_cost_cents === null ? '—' : `${formatUnitCost(line.unit_cost_cents)} ${perUnit(line.base_unit)}`}
+              </TableCell>
+              {canReceive && isReceivable && (
+                <TableCell className="text-right">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    max={outstandingOf(line)}
+                    className="w-20 ml-auto"
+                    value={receiving[line.id] ?? 0}
+                    disabled={outstandingOf(line) === 0}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setReceiving((prev: Record<number, number>) => ({ ...prev, [line.id]: Math.max(0, parseQuantity(e.target.value)) }))
+                    }
+                    aria-label={`Quantity of ${line.item_name} to receive`}
+                  />
+                </TableCell>
+              )}
+              {canReceive && isReceivable && (
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Input
+                      className="w-28"
+                      placeholder="Lot"
+                      value={lots[line.id]?.lot_number ?? ''}
+                      disabled={outstandingOf(line) === 0}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLot(line.id, { lot_number: e.target.value })}
+                      aria-label={`Lot number of ${line.item_name}`}
+                    />
+                    <Input
+                      type="date"
+                      className="w-36"
+                      value={lots[line.id]?.expires_on ?? ''}
+                      disabled={outstandingOf(line) === 0}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLot(line.id, { expires_on: e.target.value })}
+                      aria-label={`Expiry date of ${line.item_name}`}
+                    />
+                  </div>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {canReceive && isReceivable && (
+        <div className="flex flex-wrap gap-2">
+          <Select value={locationValue} onValueChange={setLocationValue}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {locations.map((location: Location) => (
+                <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="flex-1 min-w-40"
+            placeholder="Delivery note (optional)"
+            value={note || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNote(e.target.value || null)}
+          />
+          <Button
+            onClick={handleReceive}
+            disabled={isBusy || order.lines.every((line: PurchaseOrderLine) => !(receiving[line.id] > 0))}
+          >
+            Receive
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {canManage && order.status !== 'closed' && (
+        <div className="flex gap-2 border-t pt-4">
+          {order.status === 'draft' && (
+            <Button onClick={() => run(() => trpc.sendPurchaseOrder.mutate(order.id), 'Failed to send purchase order')} disabled={isBusy}>
+              Mark as sent
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => run(() => trpc.closePurchaseOrder.mutate(order.id), 'Failed to close purchase order')}
+            disabled={isBusy}
+          >
+            {order.status === 'received' ? 'Close' : order.status === 'draft' ? 'Discard draft' : 'Close and cancel the rest'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ItemPicker } from '@/components/ItemPicker';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage, getFieldErrors } from '@/utils/errors';
+import { parseCents } from '@/utils/money';
+import { parseQuantity, unitNamesOf } from '@/utils/units';
+import { useState } from 'react';
+import type { Item, Supplier, PurchaseOrder } from '../../../server/src/schema';
+
+interface PurchaseOrderFormProps {
+  suppliers: Supplier[];
+  onCreated: (order: PurchaseOrder) => void;
+}
+
+interface DraftLine {
+  item_id: number;
+  item_name: string;
+  quantity_ordered: number;
+  units: string[]; // The item's units, base unit first
+  unit: string; // Unit the quantity and cost are entered in
+  unit_cost: string; // As typed; converted to cents on save
+}
+
+// Builds a new draft order. Items default to their reorder quantity, which is what usually gets ordered.
+export function PurchaseOrderForm({ suppliers, onCreated }: PurchaseOrderFormProps) {
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [notes, setNotes] = useState<string | null>(null);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const addLine = (item: Item) => {
+    setLines((prev: DraftLine[]) => [
+      ...prev,
+      { item_id: item.id, item_name: item.name, quantity_ordered: item.reorder_quantity ?? 1, units: unitNamesOf(item), unit: item.base_unit, unit_cost: '' }
+    ]);
+  };
+
+  const updateLine = (itemId: number, changes: Partial<DraftLine>) => {
+    setLines((prev: DraftLine[]) =>
+      prev.map((line: DraftLine) => (line.item_id === itemId ? { ...line, ...changes } : line))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (supplierId === null) {
+      setFieldErrors({ supplier_id: 'Choose a supplier.' });
+      return;
+    }
+    const costs = lines.map((line: DraftLine) => parseCents(line.unit_cost));
+    if (costs.includes(undefined)) {
+      setFieldErrors({ lines: 'Enter unit costs as amounts like 12.50, or leave them blank.' });
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const order = await trpc.createPurchaseOrder.mutate({
+        supplier_id: supplierId,
+        notes,
+        lines: lines.map(({ item_id, quantity_ordered, unit }: DraftLine, index: number) => ({ item_id, quantity_ordered, unit, unit_cost_cents: costs[index] ?? null }))
+      });
+      onCreated(order);
+      setSupplierId(null);
+      setNotes(null);
+      setLines([]);
+    } catch (err) {
+      console.error('Failed to create purchase order:', err);
+      setFieldErrors(getFieldErrors(err));
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Select
+        value={supplierId === null ? '' : String(supplierId)}
+        onValueChange={(value: string) => setSupplierId(parseInt(value))}
+      >
+        <SelectTrigger className="w-full" aria-invalid={fieldErrors.supplier_id !== undefined}>
+          <SelectValue placeholder="Supplier" />
+        </SelectTrigger>
+        <SelectContent>
+          {suppliers.map((supplier: Supplier) => (
+            <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {fieldErrors.supplier_id && <p className="text-sm text-red-600">{fieldErrors.supplier_id}</p>}
+
+      <div className="space-y-2">
+        {lines.map((line: DraftLine) => (
+          <div key={line.item_id} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-gray-800">{line.item_name}</span>
+            <Input
+              type="number"
+              min="0.001"
+              step="0.001"
+              className="w-24"
+              value={line.quantity_ordered}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.item_id, { quantity_ordered: parseQuantity(e.target.value) })}
+              aria-label={`Quantity of ${line.item_name}`}
+            />
+            {line.units.length === 1 ? (
+              <span className="w-16 text-sm text-gray-600">{line.unit}</span>
+            ) : (
+              <Select value={line.unit} onValueChange={(unit: string) => updateLine(line.item_id, { unit })}>
+                <SelectTrigger className="w-24" aria-label={`Unit of ${line.item_name}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {line.units.map((name: string) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              className="w-24"
+              placeholder="Unit cost"
+              inputMode="decimal"
+              value={line.unit_cost}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.item_id, { unit_cost: e.target.value })}
+              aria-label={`Unit cost of ${line.item_name}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines((prev: DraftLine[]) => prev.filter((existing: DraftLine) => existing.item_id !== line.item_id))}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <ItemPicker onSelect={addLine} excludeIds={lines.map((line: DraftLine) => line.item_id)} />
+        {fieldErrors.lines && <p className="text-sm text-red-600">{fieldErrors.lines}</p>}
+      </div>
+
+      <Textarea
+        placeholder="Notes for the supplier (optional)"
+        value={notes || ''}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value || null)}
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting || lines.length === 0}>
+        {isSubmitting ? 'Saving...' : 'Save draft'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,176 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SupplierManager } from '@/components/SupplierManager';
+import { PurchaseOrderForm } from '@/components/PurchaseOrderForm';
+import { PurchaseOrderDetail } from '@/components/PurchaseOrderDetail';
+import { trpc } from '@/utils/trpc';
+import { purchaseOrderStatusLabels, purchaseOrderStatusStyles } from '@/utils/purchase_orders';
+import { formatQuantity } from '@/utils/units';
+import { useState, useEffect, useCallback } from 'react';
+import type { Location, PurchaseOrder, PurchaseOrderStatus, PurchaseOrderSummary, Supplier } from '../../../server/src/schema';
+
+interface PurchasingViewProps {
+  locations: Location[];
+  canManage?: boolean; // Suppliers, new orders, sending and closing
+  canReceive?: boolean;
+}
+
+const ALL_STATUSES = 'all';
+
+// Suppliers and the purchase order list; opening an order shows its lines and lifecycle actions
+export function PurchasingView({ locations, canManage = false, canReceive = false }: PurchasingViewProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrderSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | null>(null);
+  const [openOrder, setOpenOrder] = useState<PurchaseOrder | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setSuppliers(await trpc.getSuppliers.query());
+    } catch (err) {
+      console.error('Failed to load suppliers:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOrders(await trpc.getPurchaseOrders.query({ status: statusFilter ?? undefined }));
+    } catch (err) {
+      console.error('Failed to load purchase orders:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleOpen = async (orderId: number) => {
+    try {
+      setOpenOrder(await trpc.getPurchaseOrderById.query(orderId));
+    } catch (err) {
+      console.error('Failed to load purchase order:', err);
+    }
+  };
+
+  const handleSupplierCreated = (supplier: Supplier) => {
+    setSuppliers((prev: Supplier[]) => [...prev, supplier].sort((a: Supplier, b: Supplier) => a.name.localeCompare(b.name)));
+  };
+
+  const handleCreated = (order: PurchaseOrder) => {
+    setIsCreateOpen(false);
+    setOpenOrder(order);
+    loadOrders();
+  };
+
+  const handleChanged = (order: PurchaseOrder) => {
+    setOpenOrder(order);
+    loadOrders();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-white rounded-lg shadow-sm">
+        <h3 className="text-lg font-semibold mb-4 text-gray-700">Suppliers</h3>
+        <SupplierManager suppliers={suppliers} onSupplierCreated={canManage ? handleSupplierCreated : undefined} />
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <Select
+          value={statusFilter ?? ALL_STATUSES}
+          onValueChange={(value: string) => setStatusFilter(value === ALL_STATUSES ? null : (value as PurchaseOrderStatus))}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All purchase orders</SelectItem>
+            {(Object.keys(purchaseOrderStatusLabels) as PurchaseOrderStatus[]).map((status: PurchaseOrderStatus) => (
+              <SelectItem key={status} value={status}>{purchaseOrderStatusLabels[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManage && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={suppliers.length === 0}>New purchase order</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New purchase order</DialogTitle>
+                <DialogDescription>The order is saved as a draft; mark it as sent once it has gone to the supplier.</DialogDescription>
+              </DialogHeader>
+              <PurchaseOrderForm suppliers={suppliers} onCreated={handleCreated} />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {isLoading && orders.length === 0 ? (
+        <p className="text-gray-500 text-center">Loading purchase orders...</p>
+      ) : orders.length === 0 ? (
+        <p className="text-gray-500 text-center">No purchase orders{statusFilter ? ' with this status' : ' yet'}.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order: PurchaseOrderSummary) => (
+                <TableRow key={order.id} className="cursor-pointer" onClick={() => handleOpen(order.id)}>
+                  <TableCell className="font-medium">PO #{order.id}</TableCell>
+                  <TableCell>{order.supplier_name}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${purchaseOrderStatusStyles[order.status]}`}>
+                      {purchaseOrderStatusLabels[order.status]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{formatQuantity(order.quantity_received)} / {formatQuantity(order.quantity_ordered)}</TableCell>
+                  <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={openOrder !== null} onOpenChange={(open: boolean) => !open && setOpenOrder(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Purchase order #{openOrder?.id}</DialogTitle>
+            <DialogDescription>
+              {openOrder?.line_count} {openOrder?.line_count === 1 ? 'line' : 'lines'}, {openOrder && formatQuantity(openOrder.quantity_received)} of {openOrder && formatQuantity(openOrder.quantity_ordered)} units received
+            </DialogDescription>
+          </DialogHeader>
+          {openOrder && (
+            <PurchaseOrderDetail
+              key={openOrder.id}
+              order={openOrder}
+              locations={locations}
+              onChanged={handleChanged}
+              canManage={canManage}
+              canReceive={canReceive}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
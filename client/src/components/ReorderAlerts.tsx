@@ -0,0 +1,41 @@
+import { Button } from '@/components/ui/button';
+import type { Item } from '../../../server/src/schema';
+
+interface ReorderAlertsProps {
+  items: Item[];
+  onSelect?: (item: Item) => void; // Omitted when the user cannot open items for editing
+}
+
+export function ReorderAlerts({ items, onSelect }: ReorderAlertsProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 p-6 rounded-lg shadow-sm mb-8">
+      <h2 className="text-2xl font-semibold mb-4 text-amber-800">⚠️ Needs reorder ({items.length})</h2>
+      <ul className="divide-y divide-amber-200">
+        {items.map((item: Item) => (
+          <li key={item.id} className="py-2 flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <span className="font-semibold text-gray-800">{item.name}</span>
+              <span className="text-sm text-gray-600 ml-2">
+                {item.available} available, reorder point {item.reorder_point}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              {item.reorder_quantity !== null && (
+                <span className="text-sm text-amber-800">Suggested order: {item.reorder_quantity}</span>
+              )}
+              {onSelect && (
+                <Button variant="outline" size="sm" onClick={() => onSelect(item)}>
+                  Open
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { salesOrderStatusLabels, salesOrderStatusStyles } from '@/utils/sales_orders';
+import { formatQuantity } from '@/utils/units';
+import { useState } from 'react';
+import type { Location, SalesOrder, SalesOrderLine } from '../../../server/src/schema';
+
+interface SalesOrderDetailProps {
+  order: SalesOrder;
+  locations: Location[];
+  onChanged: (order: SalesOrder) => void;
+  canFulfil?: boolean; // Fulfil and cancel; hidden for users who cannot move stock
+}
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+export function SalesOrderDetail({ order, locations, onChanged, canFulfil = false }: SalesOrderDetailProps) {
+  const [locationValue, setLocationValue] = useState<string>(UNASSIGNED);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<SalesOrder>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      onChanged(await action());
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${salesOrderStatusStyles[order.status]}`}>
+          {salesOrderStatusLabels[order.status]}
+        </span>
+        <span className="text-sm text-gray-600">{order.customer_name}</span>
+        <span className="text-xs text-gray-400">
+          Placed {new Date(order.created_at).toLocaleDateString()}
+          {order.fulfilled_at && ` · fulfilled ${new Date(order.fulfilled_at).toLocaleDateString()}`}
+          {order.cancelled_at && ` · cancelled ${new Date(order.cancelled_at).toLocaleDateString()}`}
+        </span>
+      </div>
+      {order.notes && <p className="text-sm text-gray-600 italic">{order.notes}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.lines.map((line: SalesOrderLine) => (
+            <TableRow key={line.id}>
+              <TableCell>{line.item_name}</TableCell>
+              <TableCell className="text-right">{formatQuantity(line.quantity, line.base_unit)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {canFulfil && order.status === 'open' && (
+        <div className="flex flex-wrap gap-2 border-t pt-4">
+          <Select value={locationValue} onValueChange={setLocationValue}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {locations.map((location: Location) => (
+                <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => run(
+              () => trpc.fulfilSalesOrder.mutate({
+                sales_order_id: order.id,
+                location_id: locationValue === UNASSIGNED ? null : parseInt(locationValue)
+              }),
+              'Failed to fulfil sales order'
+            )}
+            disabled={isBusy}
+          >
+            Fulfil
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => run(() => trpc.cancelSalesOrder.mutate(order.id), 'Failed to cancel sales order')}
+            disabled={isBusy}
+          >
+            Cancel order
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ItemPicker } from '@/components/ItemPicker';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage, getFieldErrors } from '@/utils/errors';
+import { formatQuantity, parseQuantity, unitNamesOf } from '@/utils/units';
+import { useState } from 'react';
+import type { Item, SalesOrder } from '../../../server/src/schema';
+
+interface SalesOrderFormProps {
+  onCreated: (order: SalesOrder) => void;
+}
+
+interface DraftLine {
+  item_id: number;
+  item_name: string;
+  available: number; // In the base unit, as of when the item was picked; the server has the final say
+  base_unit: string;
+  quantity: number;
+  units: string[]; // The item's units, base unit first
+  unit: string; // Unit the quantity is entered in
+}
+
+// Places a customer order. Its stock is reserved as soon as it is saved.
+export function SalesOrderForm({ onCreated }: SalesOrderFormProps) {
+  const [customerName, setCustomerName] = useState('');
+  const [notes, setNotes] = useState<string | null>(null);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const addLine = (item: Item) => {
+    setLines((prev: DraftLine[]) => [
+      ...prev,
+      { item_id: item.id, item_name: item.name, available: item.available, base_unit: item.base_unit, quantity: 1, units: unitNamesOf(item), unit: item.base_unit }
+    ]);
+  };
+
+  const updateLine = (itemId: number, changes: Partial<DraftLine>) => {
+    setLines((prev: DraftLine[]) =>
+      prev.map((line: DraftLine) => (line.item_id === itemId ? { ...line, ...changes } : line))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const order = await trpc.createSalesOrder.mutate({
+        customer_name: customerName,
+        notes,
+        lines: lines.map(({ item_id, quantity, unit }: DraftLine) => ({ item_id, quantity, unit }))
+      });
+      onCreated(order);
+      setCustomerName('');
+      setNotes(null);
+      setLines([]);
+    } catch (err) {
+      console.error('Failed to create sales order:', err);
+      setFieldErrors(getFieldErrors(err));
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Input
+        placeholder="Customer"
+        value={customerName}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomerName(e.target.value)}
+        aria-invalid={fieldErrors.customer_name !== undefined}
+        required
+      />
+      {fieldErrors.customer_name && <p className="text-sm text-red-600">{fieldErrors.customer_name}</p>}
+
+      <div className="space-y-2">
+        {lines.map((line: DraftLine) => (
+          <div key={line.item_id} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-gray-800">
+              {line.item_name}
+              <span className={`ml-2 text-xs ${line.unit === line.base_unit && line.quantity > line.available ? 'text-red-600' : 'text-gray-500'}`}>
+                {formatQuantity(line.available, line.base_unit)} available
+              </span>
+            </span>
+            <Input
+              type="number"
+              min="0.001"
+              step="0.001"
+              className="w-24"
+              value={line.quantity}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.item_id, { quantity: parseQuantity(e.target.value) })}
+              aria-label={`Quantity of ${line.item_name}`}
+            />
+            {line.units.length === 1 ? (
+              <span className="w-16 text-sm text-gray-600">{line.unit}</span>
+            ) : (
+              <Select value={line.unit} onValueChange={(unit: string) => updateLine(line.item_id, { unit })}>
+                <SelectTrigger className="w-24" aria-label={`Unit of ${line.item_name}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {line.units.map((name: string) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines((prev: DraftLine[]) => prev.filter((existing: DraftLine) => existing.item_id !== line.item_id))}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <ItemPicker onSelect={addLine} excludeIds={lines.map((line: DraftLine) => line.item_id)} />
+        {fieldErrors.lines && <p className="text-sm text-red-600">{fieldErrors.lines}</p>}
+      </div>
+
+      <Textarea
+        placeholder="Notes (optional)"
+        value={notes || ''}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value || null)}
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting || lines.length === 0}>
+        {isSubmitting ? 'Saving...' : 'Place order'}
+      </Button>
+    </form>
+  );
+}
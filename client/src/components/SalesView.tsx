@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SalesOrderForm } from '@/components/SalesOrderForm';
+import { SalesOrderDetail } from '@/components/SalesOrderDetail';
+import { trpc } from '@/utils/trpc';
+import { salesOrderStatusLabels, salesOrderStatusStyles } from '@/utils/sales_orders';
+import { formatQuantity } from '@/utils/units';
+import { useState, useEffect, useCallback } from 'react';
+import type { Location, SalesOrder, SalesOrderLine, SalesOrderStatus } from '../../../server/src/schema';
+
+interface SalesViewProps {
+  locations: Location[];
+  canManage?: boolean; // Placing, fulfilling and cancelling orders
+}
+
+const ALL_STATUSES = 'all';
+
+const totalQuantity = (order: SalesOrder): number =>
+  order.lines.reduce((total: number, line: SalesOrderLine) => total + line.quantity, 0);
+
+// The sales order list; opening an order shows its lines and lets it be fulfilled or cancelled
+export function SalesView({ locations, canManage = false }: SalesViewProps) {
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [statusFilter, setStatusFilter] = useState<SalesOrderStatus | null>(null);
+  const [openOrder, setOpenOrder] = useState<SalesOrder | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOrders(await trpc.getSalesOrders.query({ status: statusFilter ?? undefined }));
+    } catch (err) {
+      console.error('Failed to load sales orders:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleCreated = (order: SalesOrder) => {
+    setIsCreateOpen(false);
+    setOpenOrder(order);
+    loadOrders();
+  };
+
+  const handleChanged = (order: SalesOrder) => {
+    setOpenOrder(order);
+    loadOrders();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <Select
+          value={statusFilter ?? ALL_STATUSES}
+          onValueChange={(value: string) => setStatusFilter(value === ALL_STATUSES ? null : (value as SalesOrderStatus))}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All sales orders</SelectItem>
+            {(Object.keys(salesOrderStatusLabels) as SalesOrderStatus[]).map((status: SalesOrderStatus) => (
+              <SelectItem key={status} value={status}>{salesOrderStatusLabels[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManage && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button>New sales order</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New sales order</DialogTitle>
+                <DialogDescription>The ordered stock is reserved straight away and stays on hand until the order is fulfilled.</DialogDescription>
+              </DialogHeader>
+              <SalesOrderForm onCreated={handleCreated} />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {isLoading && orders.length === 0 ? (
+        <p className="text-gray-500 text-center">Loading sales orders...</p>
+      ) : orders.length === 0 ? (
+        <p className="text-gray-500 text-center">No sales orders{statusFilter ? ' with this status' : ' yet'}.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                <TableHead>Placed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order: SalesOrder) => (
+                <TableRow key={order.id} className="cursor-pointer" onClick={() => setOpenOrder(order)}>
+                  <TableCell className="font-medium">SO #{order.id}</TableCell>
+                  <TableCell>{order.customer_name}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${salesOrderStatusStyles[order.status]}`}>
+                      {salesOrderStatusLabels[order.status]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{totalQuantity(order)}</TableCell>
+                  <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={openOrder !== null} onOpenChange={(open: boolean) => !open && setOpenOrder(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sales order #{openOrder?.id}</DialogTitle>
+            <DialogDescription>
+              {openOrder?.lines.length} {openOrder?.lines.length === 1 ? 'line' : 'lines'}, {openOrder && formatQuantity(totalQuantity(openOrder))} units
+            </DialogDescription>
+          </DialogHeader>
+          {openOrder && (
+            <SalesOrderDetail
+              key={openOrder.id}
+              order={openOrder}
+              locations={locations}
+              onChanged={handleChanged}
+              canFulfil={canManage}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { useRef, useState } from 'react';
+import { serialUnitStatusLabels } from '@/utils/serial_units';
+import { formatQuantity } from '@/utils/units';
+import type { Item, SerialUnit } from '../../../server/src/schema';
+
+interface ScanPanelProps {
+  onItemUpdated: (item: Item) => void;
+  // Either action is omitted when the current user is not allowed to perform it
+  onOpen?: (item: Item) => void;
+  allowStockChanges?: boolean;
+}
+
+// Handheld scanners type the code and press Enter, so the input stays focused between scans
+export function ScanPanel({ onItemUpdated, onOpen, allowStockChanges = false }: ScanPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [item, setItem] = useState<Item | null>(null);
+  const [unit, setUnit] = useState<SerialUnit | null>(null); // Set when the code was the serial number of a unit
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim() === '') {
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      setItem(await trpc.getItemByBarcode.query(code));
+      setUnit(null);
+    } catch (err) {
+      // Labels on serialized units carry their serial number rather than an item barcode
+      try {
+        const lookup = await trpc.getSerialUnit.query(code);
+        setItem(lookup.item);
+        setUnit(lookup.unit);
+      } catch {
+        console.error('Barcode lookup failed:', err);
+        setItem(null);
+        setUnit(null);
+        setError(getErrorMessage(err));
+      }
+    } finally {
+      setCode('');
+      setIsBusy(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleAdjust = async (delta: number) => {
+    if (!item) {
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const updated = await trpc.adjustStock.mutate({ item_id: item.id, location_id: null, delta, note: 'Scan mode' });
+      setItem(updated);
+      onItemUpdated(updated);
+    } catch (err) {
+      console.error('Failed to adjust stock:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <form onSubmit={handleLookup}>
+        <Input
+          ref={inputRef}
+          autoFocus
+          placeholder="Scan or type a barcode, SKU or serial number, then press Enter"
+          value={code}
+          className="font-mono"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+          disabled={isBusy}
+        />
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {item && (
+        <div className="border p-5 rounded-lg shadow-sm bg-white space-y-3">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{item.name}</h3>
+            {item.sku && <p className="text-xs text-gray-500 font-mono">SKU {item.sku}</p>}
+            {unit && (
+              <p className="text-sm text-gray-600">
+                Unit <span className="font-mono">{unit.serial_number}</span> · {serialUnitStatusLabels[unit.status]}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {allowStockChanges && !item.serialized && (
+              <Button variant="outline" onClick={() => handleAdjust(-1)} disabled={isBusy || item.unassigned_quantity === 0}>
+                −1
+              </Button>
+            )}
+            <span className="text-lg font-semibold text-green-700">On hand: {formatQuantity(item.on_hand, item.base_unit)}</span>
+            {allowStockChanges && !item.serialized && (
+              <Button variant="outline" onClick={() => handleAdjust(1)} disabled={isBusy}>
+                +1
+              </Button>
+            )}
+          </div>
+          {/* Scan mode only moves unassigned stock; location stock is handled in the item dialog */}
+          {allowStockChanges && !item.serialized && item.unassigned_quantity !== item.on_hand && (
+            <p className="text-xs text-gray-500">{formatQuantity(item.unassigned_quantity, item.base_unit)} unassigned, the rest is held at locations.</p>
+          )}
+          {onOpen && (
+            <Button variant="outline" size="sm" onClick={() => onOpen(item)}>
+              Open item
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
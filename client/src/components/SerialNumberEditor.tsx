@@ -0,0 +1,71 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useState } from 'react';
+
+interface SerialNumberEditorProps {
+  value: string[];
+  onChange: (serialNumbers: string[]) => void;
+  disabled?: boolean;
+}
+
+// Lists the units of a serialized item that are in stock. Several serial numbers can be pasted at once,
+// separated by spaces, commas or line breaks; removing one retires that unit when the item is saved.
+export function SerialNumberEditor({ value, onChange, disabled = false }: SerialNumberEditorProps) {
+  const [entry, setEntry] = useState('');
+
+  const handleAdd = () => {
+    const added = entry.split(/[\s,]+/).filter((serial: string) => serial !== '' && !value.includes(serial));
+    if (added.length > 0) {
+      onChange([...value, ...new Set(added)]);
+    }
+    setEntry('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        {value.length === 1 ? '1 unit' : `${value.length} units`} in stock
+      </p>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+          {value.map((serial: string) => (
+            <Badge key={serial} variant="outline" className="gap-1 font-mono">
+              {serial}
+              {!disabled && (
+                <button
+                  type="button"
+                  aria-label={`Remove serial number ${serial}`}
+                  onClick={() => onChange(value.filter((existing: string) => existing !== serial))}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Serial number(s)"
+            value={entry}
+            className="font-mono"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEntry(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              // Scanners finish with Enter; add the serial instead of submitting the whole form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={entry.trim() === ''}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
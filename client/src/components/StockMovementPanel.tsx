@@ -0,0 +1,255 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { formatUnitCost, parseCents } from '@/utils/money';
+import { formatQuantity, parseQuantity, perUnit, unitNamesOf } from '@/utils/units';
+import { useState, useEffect, useCallback } from 'react';
+import type { Item, Location, StockMovement, MovementReason } from '../../../server/src/schema';
+
+interface StockMovementPanelProps {
+  item: Item;
+  locations: Location[];
+  onItemUpdated: (item: Item) => void;
+}
+
+type StockAction = 'receive' | 'sale' | 'damage' | 'adjust';
+
+const actionLabels: Record<StockAction, string> = {
+  receive: 'Receive stock',
+  sale: 'Issue (sale)',
+  damage: 'Issue (damaged)',
+  adjust: 'Adjust (+/-)'
+};
+
+const reasonLabels: Record<MovementReason, string> = {
+  receipt: 'Receipt',
+  sale: 'Sale',
+  adjustment: 'Adjustment',
+  damage: 'Damage',
+  transfer: 'Transfer',
+  checkout: 'Checked out',
+  checkin: 'Checked in',
+  assembly: 'Kit assembly',
+  disassembly: 'Kit taken apart'
+};
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+export function StockMovementPanel({ item, locations, onItemUpdated }: StockMovementPanelProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [action, setAction] = useState<StockAction>('receive');
+  const [amount, setAmount] = useState<number>(1);
+  const [note, setNote] = useState<string | null>(null);
+  const [unitCost, setUnitCost] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [locationValue, setLocationValue] = useState<string>(UNASSIGNED);
+  // Receipts and issues can be entered in any of the item's units; adjustments are always in the base unit
+  const [unit, setUnit] = useState<string>(item.base_unit);
+
+  const locationNames = new Map<number, string>(locations.map((location: Location) => [location.id, location.name]));
+
+  const loadMovements = useCallback(async () => {
+    setIsLoadingHistory(true);
+    try {
+      const result = await trpc.getItemMovements.query({ item_id: item.id });
+      setMovements(result);
+    } catch (err) {
+      console.error('Failed to load stock movements:', err);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [item]); // Reload whenever the parent hands over an updated item, e.g. after a movement or transfer
+
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements]);
+
+  // Fall back to the base unit when the unit picked is no longer one of the item's
+  useEffect(() => {
+    setUnit((current: string) => (unitNamesOf(item).includes(current) ? current : item.base_unit));
+  }, [item]);
+
+  const unitNames = unitNamesOf(item);
+  const enteredUnit = action === 'adjust' ? item.base_unit : unit;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const unit_cost_cents = parseCents(unitCost);
+    if (action === 'receive' && unit_cost_cents === undefined) {
+      setError('Enter the unit cost as an amount like 12.50, or leave it blank.');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const location_id = locationValue === UNASSIGNED ? null : parseInt(locationValue);
+      let updatedItem: Item;
+      if (action === 'receive') {
+        updatedItem = await trpc.receiveStock.mutate({
+          item_id: item.id,
+          location_id,
+          quantity: amount,
+          unit: enteredUnit,
+          unit_cost_cents: unit_cost_cents ?? null,
+          // An existing lot keeps its expiry date, so a blank date is only sent for new lots
+          lot_number: lotNumber.trim() === '' ? undefined : lotNumber.trim(),
+          expires_on: expiresOn === '' ? undefined : expiresOn,
+          note
+        });
+      } else if (action === 'adjust') {
+        updatedItem = await trpc.adjustStock.mutate({ item_id: item.id, location_id, delta: amount, note });
+      } else {
+        updatedItem = await trpc.issueStock.mutate({ item_id: item.id, location_id, quantity: amount, unit: enteredUnit, reason: action, note });
+      }
+      onItemUpdated(updatedItem);
+      setAmount(1);
+      setNote(null);
+      setUnitCost('');
+      setLotNumber('');
+      setExpiresOn('');
+    } catch (err) {
+      console.error('Failed to record stock movement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record stock movement.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <h3 className="text-lg font-semibold text-gray-800">Stock movements</h3>
+
+      {item.serialized ? (
+        <p className="text-sm text-gray-500">Stock of this item changes as serial numbers are added or removed above.</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={action} onValueChange={(value: string) => setAction(value as StockAction)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(actionLabels) as StockAction[]).map((key: StockAction) => (
+                  <SelectItem key={key} value={key}>
+                    {actionLabels[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              className="w-24"
+              value={amount}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(parseQuantity(e.target.value))}
+              // Adjustments are signed, everything else is a positive amount
+              min={action === 'adjust' ? undefined : '0.001'}
+              step="0.001"
+              required
+            />
+            {action === 'adjust' || unitNames.length === 1 ? (
+              <span className="self-center text-sm text-gray-600">{item.base_unit}</span>
+            ) : (
+              <Select value={unit} onValueChange={setUnit}>
+                <SelectTrigger className="w-28" aria-label="Unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {unitNames.map((name: string) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {locations.length > 0 && (
+            <Select value={locationValue} onValueChange={setLocationValue}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>
+                {locations.map((location: Location) => (
+                  <SelectItem key={location.id} value={String(location.id)}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {action === 'receive' && (
+            <Input
+              placeholder={`Unit cost (optional), e.g. 12.50 ${perUnit(enteredUnit)}`}
+              inputMode="decimal"
+              value={unitCost}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUnitCost(e.target.value)}
+            />
+          )}
+          {action === 'receive' && item.lot_tracked && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Lot number"
+                value={lotNumber}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLotNumber(e.target.value)}
+                required
+              />
+              <Input
+                type="date"
+                className="w-44"
+                aria-label="Expiry date"
+                title="Expiry date (leave blank if the lot does not expire)"
+                value={expiresOn}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpiresOn(e.target.value)}
+              />
+            </div>
+          )}
+          <Input
+            placeholder="Note (optional)"
+            value={note || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNote(e.target.value || null)}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" disabled={isSubmitting || amount === 0}>
+            {isSubmitting ? 'Recording...' : 'Record movement'}
+          </Button>
+        </form>
+      )}
+
+      <div className="max-h-48 overflow-y-auto">
+        {isLoadingHistory && movements.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-gray-500">No stock movements recorded yet.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {movements.map((movement: StockMovement) => (
+              <li key={movement.id} className="py-2 flex justify-between gap-2">
+                <div>
+                  <span className="font-medium">{reasonLabels[movement.reason]}</span>
+                  {movement.location_id !== null && (
+                    <span className="text-gray-500"> @ {locationNames.get(movement.location_id) ?? 'Unknown location'}</span>
+                  )}
+                  {movement.serial_number !== null && <span className="text-gray-500 font-mono"> · {movement.serial_number}</span>}
+                  {movement.lot_number !== null && <span className="text-gray-500"> · lot {movement.lot_number}</span>}
+                  {movement.unit_cost_cents !== null && <span className="text-gray-500"> at {formatUnitCost(movement.unit_cost_cents)} {perUnit(item.base_unit)}</span>}
+                  {movement.note && <span className="text-gray-500 italic"> — {movement.note}</span>}
+                  <div className="text-xs text-gray-400">{new Date(movement.created_at).toLocaleString()}</div>
+                </div>
+                <span className={movement.delta > 0 ? 'font-semibold text-green-700' : 'font-semibold text-red-600'}>
+                  {movement.delta > 0 ? '+' : ''}{formatQuantity(movement.delta, item.base_unit)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
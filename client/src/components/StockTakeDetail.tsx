@@ -0,0 +1,157 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { formatQuantity, parseQuantity } from '@/utils/units';
+import { formatVariance, stockTakeStatusLabels, stockTakeStatusStyles } from '@/utils/stock_takes';
+import { useState } from 'react';
+import type { StockTake, StockTakeLine } from '../../../server/src/schema';
+
+interface StockTakeDetailProps {
+  stockTake: StockTake;
+  onChanged: (stockTake: StockTake) => void;
+  canManage?: boolean; // Approve and cancel; counters only enter counts
+}
+
+// Counts typed but not saved yet, by item ID
+type DraftCounts = Record<number, string>;
+
+export function StockTakeDetail({ stockTake, onChanged, canManage = false }: StockTakeDetailProps) {
+  const [drafts, setDrafts] = useState<DraftCounts>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCounting = stockTake.status === 'counting';
+  // Blind counts come back without expected quantities for counters
+  const showsExpected = stockTake.lines.some((line: StockTakeLine) => line.expected_quantity !== null);
+  const changedCounts = stockTake.lines
+    .filter((line: StockTakeLine) => drafts[line.item_id] !== undefined && drafts[line.item_id] !== '')
+    .map((line: StockTakeLine) => ({ item_id: line.item_id, counted_quantity: parseQuantity(drafts[line.item_id]) }));
+  const countedLines = stockTake.lines.filter((line: StockTakeLine) => line.counted_quantity !== null).length;
+
+  const run = async (action: () => Promise<StockTake>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      onChanged(await action());
+      setDrafts({});
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${stockTakeStatusStyles[stockTake.status]}`}>
+          {stockTakeStatusLabels[stockTake.status]}
+        </span>
+        <span className="text-sm text-gray-600">
+          {stockTake.location_name ? `Stock at ${stockTake.location_name}` : 'Total stock'}
+          {stockTake.blind && ' · blind count'}
+        </span>
+        <span className="text-xs text-gray-400">
+          Started {new Date(stockTake.created_at).toLocaleDateString()}
+          {stockTake.approved_at && ` · approved ${new Date(stockTake.approved_at).toLocaleDateString()}`}
+          {stockTake.cancelled_at && ` · cancelled ${new Date(stockTake.cancelled_at).toLocaleDateString()}`}
+        </span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            {showsExpected && <TableHead className="text-right">Expected</TableHead>}
+            <TableHead className="text-right">Counted</TableHead>
+            {showsExpected && <TableHead className="text-right">Variance</TableHead>}
+            <TableHead>Counted by</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stockTake.lines.map((line: StockTakeLine) => (
+            <TableRow key={line.id}>
+              <TableCell>{line.item_name}</TableCell>
+              {showsExpected && (
+                <TableCell className="text-right">
+                  {line.expected_quantity !== null && formatQuantity(line.expected_quantity, line.base_unit)}
+                </TableCell>
+              )}
+              <TableCell className="text-right">
+                {isCounting ? (
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    className="w-28 ml-auto"
+                    placeholder={line.counted_quantity !== null ? formatQuantity(line.counted_quantity) : line.base_unit}
+                    value={drafts[line.item_id] ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setDrafts((prev: DraftCounts) => ({ ...prev, [line.item_id]: e.target.value }))
+                    }
+                    aria-label={`Counted quantity of ${line.item_name}`}
+                  />
+                ) : line.counted_quantity !== null ? (
+                  formatQuantity(line.counted_quantity, line.base_unit)
+                ) : (
+                  <span className="text-gray-400">Not counted</span>
+                )}
+              </TableCell>
+              {showsExpected && (
+                <TableCell
+                  className={`text-right ${line.variance === null || line.variance === 0 ? 'text-gray-500' : line.variance < 0 ? 'text-red-600 font-medium' : 'text-green-700 font-medium'}`}
+                >
+                  {line.variance !== null && formatVariance(line.variance)}
+                </TableCell>
+              )}
+              <TableCell className="text-xs text-gray-500">
+                {line.counted_at && `${line.counted_by ?? 'Unknown'}, ${new Date(line.counted_at).toLocaleString()}`}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isCounting && (
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <Button
+            onClick={() => run(
+              () => trpc.recordStockTakeCounts.mutate({ stock_take_id: stockTake.id, counts: changedCounts }),
+              'Failed to save counts'
+            )}
+            disabled={isBusy || changedCounts.length === 0}
+          >
+            Save counts
+          </Button>
+          {canManage && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => run(() => trpc.approveStockTake.mutate(stockTake.id), 'Failed to approve stock take')}
+                disabled={isBusy || changedCounts.length > 0 || countedLines === 0}
+                title={changedCounts.length > 0 ? 'Save the counts first' : undefined}
+              >
+                Approve and adjust stock
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => run(() => trpc.cancelStockTake.mutate(stockTake.id), 'Failed to cancel stock take')}
+                disabled={isBusy}
+              >
+                Cancel stock take
+              </Button>
+            </>
+          )}
+          <span className="text-xs text-gray-500">
+            {countedLines} of {stockTake.lines.length} counted{canManage && '; items left uncounted are not adjusted'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
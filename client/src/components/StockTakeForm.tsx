@@ -0,0 +1,122 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ItemPicker } from '@/components/ItemPicker';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage, getFieldErrors } from '@/utils/errors';
+import { useState } from 'react';
+import type { Item, Location, StockTake } from '../../../server/src/schema';
+
+interface StockTakeFormProps {
+  locations: Location[];
+  onCreated: (stockTake: StockTake) => void;
+}
+
+interface PickedItem {
+  id: number;
+  name: string;
+}
+
+// Select items cannot use an empty value, so counting total stock gets its own sentinel
+const ALL_LOCATIONS = 'all';
+
+// Starts a stock take. Expected quantities are taken as soon as it is saved.
+export function StockTakeForm({ locations, onCreated }: StockTakeFormProps) {
+  const [name, setName] = useState('');
+  const [blind, setBlind] = useState(false);
+  const [locationValue, setLocationValue] = useState<string>(ALL_LOCATIONS);
+  const [items, setItems] = useState<PickedItem[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const addItem = (item: Item) => {
+    setItems((prev: PickedItem[]) => [...prev, { id: item.id, name: item.name }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const stockTake = await trpc.createStockTake.mutate({
+        name,
+        blind,
+        location_id: locationValue === ALL_LOCATIONS ? null : parseInt(locationValue),
+        item_ids: items.length > 0 ? items.map((item: PickedItem) => item.id) : undefined
+      });
+      onCreated(stockTake);
+      setName('');
+      setBlind(false);
+      setLocationValue(ALL_LOCATIONS);
+      setItems([]);
+    } catch (err) {
+      console.error('Failed to start stock take:', err);
+      setFieldErrors(getFieldErrors(err));
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Input
+        placeholder="Name, e.g. Year-end count"
+        value={name}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+        aria-invalid={fieldErrors.name !== undefined}
+        required
+      />
+      {fieldErrors.name && <p className="text-sm text-red-600">{fieldErrors.name}</p>}
+
+      <Select value={locationValue} onValueChange={setLocationValue}>
+        <SelectTrigger className="w-full" aria-invalid={fieldErrors.location_id !== undefined}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_LOCATIONS}>Total stock of each item</SelectItem>
+          {locations.map((location: Location) => (
+            <SelectItem key={location.id} value={String(location.id)}>Stock at {location.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {fieldErrors.location_id && <p className="text-sm text-red-600">{fieldErrors.location_id}</p>}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <Checkbox checked={blind} onCheckedChange={(checked: boolean | 'indeterminate') => setBlind(checked === true)} />
+        Blind count: counters don't see the expected quantities
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">
+          {items.length === 0
+            ? locationValue === ALL_LOCATIONS ? 'Every item will be counted.' : 'Every item held at this location will be counted.'
+            : `Only the ${items.length} chosen ${items.length === 1 ? 'item' : 'items'} will be counted.`}
+        </p>
+        {items.map((item: PickedItem) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-gray-800">{item.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setItems((prev: PickedItem[]) => prev.filter((existing: PickedItem) => existing.id !== item.id))}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <ItemPicker onSelect={addItem} excludeIds={items.map((item: PickedItem) => item.id)} placeholder="Count only some items" />
+        {fieldErrors.item_ids && <p className="text-sm text-red-600">{fieldErrors.item_ids}</p>}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Starting...' : 'Start stock take'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StockTakeForm } from '@/components/StockTakeForm';
+import { StockTakeDetail } from '@/components/StockTakeDetail';
+import { trpc } from '@/utils/trpc';
+import { stockTakeStatusLabels, stockTakeStatusStyles } from '@/utils/stock_takes';
+import { useState, useEffect, useCallback } from 'react';
+import type { Location, StockTake, StockTakeLine, StockTakeStatus } from '../../../server/src/schema';
+
+interface StockTakesViewProps {
+  locations: Location[];
+  canManage?: boolean; // Starting, approving and cancelling stock takes
+}
+
+const ALL_STATUSES = 'all';
+
+const countedLines = (stockTake: StockTake): number =>
+  stockTake.lines.filter((line: StockTakeLine) => line.counted_quantity !== null).length;
+
+// Stock takes still being counted first by default; opening one lets its counts be entered
+export function StockTakesView({ locations, canManage = false }: StockTakesViewProps) {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StockTakeStatus | null>('counting');
+  const [openStockTake, setOpenStockTake] = useState<StockTake | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadStockTakes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStockTakes(await trpc.getStockTakes.query({ status: statusFilter ?? undefined }));
+    } catch (err) {
+      console.error('Failed to load stock takes:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadStockTakes();
+  }, [loadStockTakes]);
+
+  const handleCreated = (stockTake: StockTake) => {
+    setIsCreateOpen(false);
+    setOpenStockTake(stockTake);
+    loadStockTakes();
+  };
+
+  const handleChanged = (stockTake: StockTake) => {
+    setOpenStockTake(stockTake);
+    loadStockTakes();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <Select
+          value={statusFilter ?? ALL_STATUSES}
+          onValueChange={(value: string) => setStatusFilter(value === ALL_STATUSES ? null : (value as StockTakeStatus))}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All stock takes</SelectItem>
+            {(Object.keys(stockTakeStatusLabels) as StockTakeStatus[]).map((status: StockTakeStatus) => (
+              <SelectItem key={status} value={status}>{stockTakeStatusLabels[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManage && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button>New stock take</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New stock take</DialogTitle>
+                <DialogDescription>Expected quantities are taken now; approving the count adjusts stock by the differences found.</DialogDescription>
+              </DialogHeader>
+              <StockTakeForm locations={locations} onCreated={handleCreated} />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {isLoading && stockTakes.length === 0 ? (
+        <p className="text-gray-500 text-center">Loading stock takes...</p>
+      ) : stockTakes.length === 0 ? (
+        <p className="text-gray-500 text-center">No stock takes{statusFilter ? ' with this status' : ' yet'}.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stock take</TableHead>
+                <TableHead>Counting</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead>Started</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stockTakes.map((stockTake: StockTake) => (
+                <TableRow key={stockTake.id} className="cursor-pointer" onClick={() => setOpenStockTake(stockTake)}>
+                  <TableCell className="font-medium">
+                    #{stockTake.id} {stockTake.name}
+                    {stockTake.blind && <span className="ml-2 text-xs text-gray-500">Blind</span>}
+                  </TableCell>
+                  <TableCell>{stockTake.location_name ?? 'Total stock'}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${stockTakeStatusStyles[stockTake.status]}`}>
+                      {stockTakeStatusLabels[stockTake.status]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{countedLines(stockTake)} of {stockTake.lines.length}</TableCell>
+                  <TableCell>{new Date(stockTake.created_at).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={openStockTake !== null} onOpenChange={(open: boolean) => !open && setOpenStockTake(null)}>
+        <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Stock take #{openStockTake?.id}: {openStockTake?.name}</DialogTitle>
+            <DialogDescription>
+              {openStockTake && countedLines(openStockTake)} of {openStockTake?.lines.length} items counted
+            </DialogDescription>
+          </DialogHeader>
+          {openStockTake && (
+            <StockTakeDetail
+              key={openStockTake.id}
+              stockTake={openStockTake}
+              onChanged={handleChanged}
+              canManage={canManage}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { parseQuantity } from '@/utils/units';
+import { useState } from 'react';
+import type { Item, Location } from '../../../server/src/schema';
+
+interface StockTransferFormProps {
+  item: Item;
+  locations: Location[];
+  onItemUpdated: (item: Item) => void;
+}
+
+// Select items cannot use an empty value, so unassigned stock gets its own sentinel
+const UNASSIGNED = 'unassigned';
+
+const toLocationId = (value: string): number | null => (value === UNASSIGNED ? null : parseInt(value));
+
+export function StockTransferForm({ item, locations, onItemUpdated }: StockTransferFormProps) {
+  const [fromValue, setFromValue] = useState<string>(UNASSIGNED);
+  const [toValue, setToValue] = useState<string>(locations.length > 0 ? String(locations[0].id) : UNASSIGNED);
+  const [quantity, setQuantity] = useState<number>(1);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const updatedItem = await trpc.transferStock.mutate({
+        item_id: item.id,
+        from_location_id: toLocationId(fromValue),
+        to_location_id: toLocationId(toValue),
+        quantity
+      });
+      onItemUpdated(updatedItem);
+      setQuantity(1);
+    } catch (err) {
+      console.error('Failed to transfer stock:', err);
+      setError(err instanceof Error ? err.message : 'Failed to transfer stock.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (locations.length === 0) {
+    return <p className="text-sm text-gray-500">Create a location to start assigning stock.</p>;
+  }
+
+  const locationOptions = (
+    <>
+      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+      {locations.map((location: Location) => (
+        <SelectItem key={location.id} value={String(location.id)}>
+          {location.name}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2 items-center">
+        <Select value={fromValue} onValueChange={setFromValue}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="From" />
+          </SelectTrigger>
+          <SelectContent>{locationOptions}</SelectContent>
+        </Select>
+        <span className="text-gray-500">→</span>
+        <Select value={toValue} onValueChange={setToValue}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="To" />
+          </SelectTrigger>
+          <SelectContent>{locationOptions}</SelectContent>
+        </Select>
+        <Input
+          type="number"
+          className="w-20"
+          min="0.001"
+          step="0.001"
+          value={quantity}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(parseQuantity(e.target.value))}
+          required
+        />
+        <span className="self-center text-sm text-gray-600">{item.base_unit}</span>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={isSubmitting || fromValue === toValue || quantity <= 0}>
+        {isSubmitting ? 'Transferring...' : 'Transfer'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,86 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { getErrorMessage } from '@/utils/errors';
+import { useState } from 'react';
+import type { Supplier, CreateSupplierInput } from '../../../server/src/schema';
+
+interface SupplierManagerProps {
+  suppliers: Supplier[];
+  onSupplierCreated?: (supplier: Supplier) => void; // Omitted for users who cannot manage purchasing, hiding the form
+}
+
+const emptyFormData: CreateSupplierInput = { name: '', email: null, phone: null, notes: null };
+
+export function SupplierManager({ suppliers, onSupplierCreated }: SupplierManagerProps) {
+  const [formData, setFormData] = useState<CreateSupplierInput>(emptyFormData);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const supplier = await trpc.createSupplier.mutate(formData);
+      onSupplierCreated?.(supplier);
+      setFormData(emptyFormData);
+    } catch (err) {
+      console.error('Failed to create supplier:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {onSupplierCreated && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Input
+            placeholder="Supplier name"
+            value={formData.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateSupplierInput) => ({ ...prev, name: e.target.value }))
+            }
+            required
+          />
+          <Input
+            type="email"
+            placeholder="Email (optional)"
+            value={formData.email || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateSupplierInput) => ({ ...prev, email: e.target.value || null }))
+            }
+          />
+          <Input
+            placeholder="Phone (optional)"
+            value={formData.phone || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateSupplierInput) => ({ ...prev, phone: e.target.value || null }))
+            }
+          />
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Adding...' : 'Add Supplier'}
+          </Button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {suppliers.length === 0 ? (
+        <p className="text-sm text-gray-500">No suppliers yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {suppliers.map((supplier: Supplier) => (
+            <span
+              key={supplier.id}
+              className="px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm"
+              title={[supplier.email, supplier.phone].filter(Boolean).join(' · ')}
+            >
+              {supplier.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
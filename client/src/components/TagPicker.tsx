@@ -0,0 +1,79 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useState } from 'react';
+
+interface TagPickerProps {
+  value: string[];
+  suggestions: string[]; // Tags already in use, offered as you type
+  onChange: (tags: string[]) => void;
+  allowCreate?: boolean; // Item forms may add new tags; filters can only pick existing ones
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export function TagPicker({ value, suggestions, onChange, allowCreate = false, placeholder = 'Add tag', disabled = false }: TagPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  // Same normalisation as the server, so "Fragile " and "fragile" are one tag
+  const typed = search.trim().toLowerCase();
+  const available = suggestions.filter((tag: string) => !value.includes(tag));
+  const canCreate = allowCreate && typed !== '' && !value.includes(typed) && !suggestions.includes(typed);
+
+  const addTag = (tag: string) => {
+    onChange([...value, tag]);
+    setSearch('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing: string) => existing !== tag));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value.map((tag: string) => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          {tag}
+          {!disabled && (
+            <button type="button" aria-label={`Remove tag ${tag}`} onClick={() => removeTag(tag)} className="text-gray-500 hover:text-gray-800">
+              ×
+            </button>
+          )}
+        </Badge>
+      ))}
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled}>
+            {placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-56" align="start">
+          <Command>
+            <CommandInput placeholder="Search tags..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{allowCreate ? 'Type to create a tag.' : 'No matching tags.'}</CommandEmpty>
+              {canCreate && (
+                <CommandGroup>
+                  <CommandItem value={`create:${typed}`} onSelect={() => addTag(typed)}>
+                    Create “{typed}”
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              {available.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {available.map((tag: string) => (
+                    <CommandItem key={tag} value={tag} onSelect={() => addTag(tag)}>
+                      {tag}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
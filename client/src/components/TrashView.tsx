@@ -0,0 +1,114 @@
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import { formatQuantity } from '@/utils/units';
+import { useState, useEffect, useCallback } from 'react';
+import type { Item } from '../../../server/src/schema';
+
+interface TrashViewProps {
+  onRestored: (item: Item) => void;
+}
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const [items, setItems] = useState<Item[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getDeletedItems.query();
+      setItems(result);
+    } catch (err) {
+      console.error('Failed to load trash:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleRestore = async (item: Item) => {
+    setError(null);
+    try {
+      const restored = await trpc.restoreItem.mutate(item.id);
+      setItems((prev: Item[]) => prev.filter((trashed: Item) => trashed.id !== item.id));
+      onRestored(restored);
+    } catch (err) {
+      console.error('Failed to restore item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore item.');
+    }
+  };
+
+  const handlePurge = async (item: Item) => {
+    setError(null);
+    try {
+      await trpc.purgeItem.mutate(item.id);
+      setItems((prev: Item[]) => prev.filter((trashed: Item) => trashed.id !== item.id));
+    } catch (err) {
+      console.error('Failed to purge item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete item permanently.');
+    }
+  };
+
+  if (isLoading && items.length === 0) {
+    return <p className="text-gray-500 text-center">Loading trash...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {items.length === 0 ? (
+        <p className="text-gray-500 text-center">The trash is empty.</p>
+      ) : (
+        <ul className="divide-y bg-white rounded-lg shadow-sm">
+          {items.map((item: Item) => (
+            <li key={item.id} className="p-4 flex flex-wrap justify-between items-center gap-2">
+              <div>
+                <span className="font-semibold text-gray-800">{item.name}</span>
+                <span className="text-sm text-gray-500 ml-2">Quantity: {formatQuantity(item.on_hand, item.base_unit)}</span>
+                {item.deleted_at && (
+                  <div className="text-xs text-gray-400">Deleted {new Date(item.deleted_at).toLocaleString()}</div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+                  Restore
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" size="sm">Delete permanently</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete "{item.name}" permanently?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The item, its stock and its movement history are removed for good. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handlePurge(item)}>Delete permanently</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
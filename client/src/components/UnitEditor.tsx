@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useState } from 'react';
+import type { ItemUnit } from '../../../server/src/schema';
+import { describeUnit, parseQuantity } from '@/utils/units';
+
+interface UnitEditorProps {
+  baseUnit: string;
+  value: ItemUnit[];
+  onChange: (units: ItemUnit[]) => void;
+  disabled?: boolean;
+}
+
+// Lists the units an item can also be counted in, each as a number of base units (a box of 100, a drum of 250 m).
+// The server rejects a unit named like the base unit.
+export function UnitEditor({ baseUnit, value, onChange, disabled = false }: UnitEditorProps) {
+  const [name, setName] = useState('');
+  const [factor, setFactor] = useState('');
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    const parsed = parseQuantity(factor);
+    if (trimmed !== '' && parsed > 0) {
+      // Adding a unit that already exists replaces its factor
+      onChange([...value.filter((unit: ItemUnit) => unit.name !== trimmed), { name: trimmed, factor: parsed }]);
+    }
+    setName('');
+    setFactor('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((unit: ItemUnit) => (
+            <Badge key={unit.name} variant="outline" className="gap-1">
+              {describeUnit(unit, baseUnit)}
+              {!disabled && (
+                <button
+                  type="button"
+                  aria-label={`Remove unit ${unit.name}`}
+                  onClick={() => onChange(value.filter((existing: ItemUnit) => existing.name !== unit.name))}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Other unit, e.g. box"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+          />
+          <Input
+            type="number"
+            className="w-32"
+            placeholder={`${baseUnit} in it`}
+            aria-label={`Number of ${baseUnit} in one`}
+            value={factor}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFactor(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              // Add the unit instead of submitting the whole form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            min="0.000001"
+            step="any"
+          />
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={name.trim() === '' || parseQuantity(factor) <= 0}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { formatCents } from '@/utils/money';
+import { costingMethodLabels } from '@/utils/valuation';
+import { useState, useEffect, useCallback } from 'react';
+import type { InventoryValuation, ItemValuation } from '../../../server/src/schema';
+
+// What the stock is worth, per item and in total, today or as of the end of a chosen day
+export function ValuationView() {
+  const [asOfDate, setAsOfDate] = useState(''); // yyyy-mm-dd from the date input; blank means now
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadValuation = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Value at the end of the chosen local day, so that day's movements are included
+      const as_of = asOfDate === '' ? undefined : new Date(`${asOfDate}T23:59:59.999`);
+      setValuation(await trpc.getInventoryValuation.query({ as_of }));
+    } catch (err) {
+      console.error('Failed to load inventory valuation:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [asOfDate]);
+
+  useEffect(() => {
+    loadValuation();
+  }, [loadValuation]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="valuation-date" className="text-sm text-gray-600">Value as of</label>
+        <Input
+          id="valuation-date"
+          type="date"
+          className="w-44"
+          value={asOfDate}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAsOfDate(e.target.value)}
+        />
+        {asOfDate === '' && <span className="text-sm text-gray-500">(now)</span>}
+      </div>
+
+      {isLoading && valuation === null ? (
+        <p className="text-gray-500 text-center">Valuing inventory...</p>
+      ) : valuation === null || valuation.items.length === 0 ? (
+        <p className="text-gray-500 text-center">No items to value.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Costing</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Unit cost</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {valuation.items.map((item: ItemValuation) => (
+                <TableRow key={item.item_id}>
+                  <TableCell>
+                    {item.name}
+                    {item.sku && <span className="ml-2 text-xs text-gray-500 font-mono">{item.sku}</span>}
+                  </TableCell>
+                  <TableCell>{costingMethodLabels[item.costing_method]}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.unit_cost_cents === null ? '—' : formatCents(item.unit_cost_cents)}</TableCell>
+                  <TableCell className="text-right">{formatCents(item.value_cents)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">{formatCents(valuation.total_value_cents)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { Category } from '../../../server/src/schema';
+
+export interface CategoryOption {
+  id: number;
+  label: string; // Full path, e.g. "Hardware / Fasteners"
+}
+
+// Labels every category with its full path so nested categories read clearly in a flat list, sorted by that path
+export const categoryOptions = (categories: Category[]): CategoryOption[] => {
+  const byId = new Map<number, Category>(categories.map((category: Category) => [category.id, category]));
+  const pathOf = (category: Category): string => {
+    const names = [category.name];
+    let parent = category.parent_id !== null ? byId.get(category.parent_id) : undefined;
+    // The depth bound guards against a cycle in the data
+    while (parent && names.length <= categories.length) {
+      names.unshift(parent.name);
+      parent = parent.parent_id !== null ? byId.get(parent.parent_id) : undefined;
+    }
+    return names.join(' / ');
+  };
+  return categories
+    .map((category: Category) => ({ id: category.id, label: pathOf(category) }))
+    .sort((a: CategoryOption, b: CategoryOption) => a.label.localeCompare(b.label));
+};
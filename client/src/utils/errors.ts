@@ -0,0 +1,30 @@
+import { TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../../server/src';
+import type { Item, KitShortage } from '../../../server/src/schema';
+
+// The item as it is now when an update was rejected because someone else saved first, otherwise null
+export const getConflictItem = (error: unknown): Item | null => {
+  if (!(error instanceof TRPCClientError)) {
+    return null;
+  }
+  const { data } = error as TRPCClientError<AppRouter>;
+  return data?.code === 'CONFLICT' ? data.currentItem : null;
+};
+
+// Server messages keyed by input field, so forms can show each one next to its input
+export const getFieldErrors = (error: unknown): Record<string, string> => {
+  if (!(error instanceof TRPCClientError)) {
+    return {};
+  }
+  return (error as TRPCClientError<AppRouter>).data?.fieldErrors ?? {};
+};
+
+export const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Components that were short when kits could not be assembled or taken apart, otherwise an empty list
+export const getShortages = (error: unknown): KitShortage[] => {
+  if (!(error instanceof TRPCClientError)) {
+    return [];
+  }
+  return (error as TRPCClientError<AppRouter>).data?.shortages ?? [];
+};
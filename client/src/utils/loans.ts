@@ -0,0 +1,23 @@
+import type { Loan, LoanStatus } from '../../../server/src/schema';
+
+export const loanStatusLabels: Record<LoanStatus, string> = {
+  open: 'Out on loan',
+  overdue: 'Overdue',
+  returned: 'Returned'
+};
+
+export const loanStatusStyles: Record<LoanStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  overdue: 'bg-red-100 text-red-700',
+  returned: 'bg-gray-200 text-gray-500'
+};
+
+export const loanStatusOf = (loan: Loan): LoanStatus =>
+  loan.returned_at !== null ? 'returned' : loan.overdue ? 'overdue' : 'open';
+
+// yyyy-mm-dd of the local day `days` from today, for date inputs
+export const isoDateFromToday = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
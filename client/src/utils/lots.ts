@@ -0,0 +1,25 @@
+import type { Item, ItemLot } from '../../../server/src/schema';
+
+// Horizons offered for expiry warnings, in days
+export const expiryHorizonOptions = [7, 14, 30, 60, 90];
+
+// Whole days from today until a yyyy-mm-dd date; negative once it has passed
+export const daysUntil = (date: string): number => {
+  const today = new Date();
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / 86_400_000);
+};
+
+export const describeExpiry = (daysLeft: number): string => {
+  if (daysLeft < 0) {
+    return `expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+  }
+  if (daysLeft === 0) {
+    return 'expires today';
+  }
+  return `expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+// The item's lots with stock that expire within the horizon (or already have)
+export const lotsExpiringWithin = (item: Item, horizonDays: number): ItemLot[] =>
+  item.lots.filter((lot: ItemLot) => lot.expires_on !== null && daysUntil(lot.expires_on) <= horizonDays);
@@ -0,0 +1,29 @@
+// Amounts travel as whole cents; these helpers convert at the edges without going through floating point
+
+// 123456 -> "1,234.56"
+export const formatCents = (cents: number): string => {
+  const sign = cents < 0 ? '-' : '';
+  const absolute = Math.abs(cents);
+  return `${sign}${Math.floor(absolute / 100).toLocaleString()}.${String(absolute % 100).padStart(2, '0')}`;
+};
+
+// Costs per base unit of stock bought in packs can be fractions of a cent: 0.5 -> "0.005"
+export const formatUnitCost = (cents: number): string =>
+  Number.isInteger(cents) ? formatCents(cents) : (cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+
+// "12.5" -> 1250; blank means "no price", and anything that isn't a plain amount with up to two decimals is rejected
+export const parseCents = (value: string): number | null | undefined => {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return null;
+  }
+  const match = /^(\d+)(?:\.(\d{0,2}))?$/.exec(trimmed);
+  if (!match) {
+    return undefined;
+  }
+  return parseInt(match[1]) * 100 + parseInt((match[2] ?? '').padEnd(2, '0'));
+};
+
+// Shows a stored amount in an input the way a user would type it
+export const centsToInput = (cents: number | null): string =>
+  cents === null ? '' : `${Math.floor(cents / 100)}.${String(cents % 100).padStart(2, '0')}`;
@@ -0,0 +1,17 @@
+import type { PurchaseOrderStatus } from '../../../server/src/schema';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  closed: 'Closed'
+};
+
+export const purchaseOrderStatusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-700',
+  closed: 'bg-gray-200 text-gray-500'
+};
@@ -0,0 +1,13 @@
+import type { SalesOrderStatus } from '../../../server/src/schema';
+
+export const salesOrderStatusLabels: Record<SalesOrderStatus, string> = {
+  open: 'Open',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled'
+};
+
+export const salesOrderStatusStyles: Record<SalesOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  fulfilled: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-200 text-gray-500'
+};
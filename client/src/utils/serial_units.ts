@@ -0,0 +1,7 @@
+import type { SerialUnitStatus } from '../../../server/src/schema';
+
+export const serialUnitStatusLabels: Record<SerialUnitStatus, string> = {
+  in_stock: 'In stock',
+  checked_out: 'Checked out',
+  retired: 'Retired'
+};
@@ -0,0 +1,17 @@
+import type { StockTakeStatus } from '../../../server/src/schema';
+
+export const stockTakeStatusLabels: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled'
+};
+
+export const stockTakeStatusStyles: Record<StockTakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-200 text-gray-500'
+};
+
+// "+2", "-1.5" or "0", so shortfalls and surpluses read at a glance
+export const formatVariance = (variance: number): string =>
+  `${variance > 0 ? '+' : ''}${variance.toLocaleString(undefined, { maximumFractionDigits: 3 })}`;
@@ -0,0 +1,22 @@
+import type { Item, ItemUnit } from '../../../server/src/schema';
+
+// Quantities can be fractional (2.5 m); show at most the three decimals the server keeps
+export const formatQuantity = (quantity: number, unit?: string): string => {
+  const formatted = quantity.toLocaleString(undefined, { maximumFractionDigits: 3 });
+  return unit === undefined ? formatted : `${formatted} ${unit}`;
+};
+
+// Names of the units stock of the item can be entered in, base unit first
+export const unitNamesOf = (item: Item): string[] => [item.base_unit, ...item.units.map((unit: ItemUnit) => unit.name)];
+
+// "box (100 each)"
+export const describeUnit = (unit: ItemUnit, baseUnit: string): string => `${unit.name} (${formatQuantity(unit.factor, baseUnit)})`;
+
+// Parses a typed quantity; anything that is not a number counts as 0 so the submit button stays disabled
+export const parseQuantity = (value: string): number => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+// "each", or "per m" for items counted in another unit, after a price
+export const perUnit = (unit: string): string => (unit === 'each' ? 'each' : `per ${unit}`);
@@ -0,0 +1,6 @@
+import type { CostingMethod } from '../../../server/src/schema';
+
+export const costingMethodLabels: Record<CostingMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Weighted average'
+};
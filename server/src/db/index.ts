@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Transaction handle passed to db.transaction() callbacks, for helpers that must run inside one
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -1,17 +1,428 @@
 
-import { serial, text, pgTable, timestamp, integer, unique } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, pgEnum, timestamp, date, boolean, integer, numeric, unique, index, uniqueIndex, jsonb, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+// Stock is counted in each item's base unit and can be fractional (metres of cable), to three decimal places.
+// The driver returns numeric columns as strings; see helpers/units.ts for the conversions.
+const quantityColumn = (name: string) => numeric(name, { precision: 14, scale: 3 });
+
+// Costs per base unit can come to fractions of a cent (a box of 1000 for 500¢ is 0.5¢ each), so they keep six decimals;
+// valuations round to whole cents only once a quantity has been multiplied back in. See helpers/valuation.ts.
+const unitCostColumn = (name: string) => numeric(name, { precision: 18, scale: 6 });
+
+// How the cost of stock leaving an item is worked out, see helpers/valuation.ts
+export const costingMethodEnum = pgEnum('costing_method', ['fifo', 'average']);
 
 export const itemsTable = pgTable('items', {
   id: serial('id').primaryKey(),
-  name: text('name').notNull().unique(), // Enforce uniqueness for item names
+  name: text('name').notNull(), // Unique among items that are not in the trash, see the index below
+  sku: text('sku'), // Nullable: not every item has a stock keeping unit; unique among active items like the name
   description: text('description'), // Nullable by default
-  quantity: integer('quantity').notNull().default(0), // Ensures non-negative integer values, with a default
+  quantity: quantityColumn('quantity').notNull().default('0'), // On hand, in the base unit; never negative
+  base_unit: text('base_unit').notNull().default('each'), // What quantities are counted in, e.g. "each" or "m"
+  reserved: quantityColumn('reserved').notNull().default('0'), // Committed to open sales orders, in the base unit; never more than quantity
+  reorder_point: integer('reorder_point'), // Nullable: no low-stock alert when not set
+  reorder_quantity: integer('reorder_quantity'), // Nullable: suggested amount to order when restocking
+  category_id: integer('category_id').references((): AnyPgColumn => categoriesTable.id), // Null for uncategorised items
+  costing_method: costingMethodEnum('costing_method').notNull().default('average'),
+  lot_tracked: boolean('lot_tracked').notNull().default(false), // Receipts must then name the lot they belong to
+  serialized: boolean('serialized').notNull().default(false), // Quantity is then the number of serial units in stock
   created_at: timestamp('created_at').defaultNow().notNull(), // Automatically set creation timestamp
+  deleted_at: timestamp('deleted_at'), // Set when the item is moved to the trash; null for active items
+  version: integer('version').notNull().default(1), // Bumped on every write, for optimistic concurrency control
+}, (table) => [
+  // A trashed item keeps its name, so only active items have to be unique
+  uniqueIndex('items_name_active_unique').on(table.name).where(sql`${table.deleted_at} is null`),
+  uniqueIndex('items_sku_active_unique').on(table.sku).where(sql`${table.deleted_at} is null`),
+]);
+
+// Alternative units an item is bought or used in, e.g. a box holding 100 of the base unit
+export const itemUnitsTable = pgTable('item_units', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  factor: numeric('factor', { precision: 14, scale: 6 }).notNull(), // Base units in one of this unit
+}, (table) => [
+  unique('item_units_item_name_unique').on(table.item_id, table.name),
+]);
+
+// Bill of materials: the components that go into one unit of a kit. Kits can contain other kits, but never themselves.
+// Items used in a kit cannot be purged, so the kit can always be taken apart again.
+export const kitComponentsTable = pgTable('kit_components', {
+  id: serial('id').primaryKey(),
+  kit_item_id: integer('kit_item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  component_item_id: integer('component_item_id').notNull().references(() => itemsTable.id),
+  quantity: quantityColumn('quantity').notNull(), // Per kit, in the component's base unit
+}, (table) => [
+  unique('kit_components_kit_component_unique').on(table.kit_item_id, table.component_item_id),
+  index('kit_components_component_item_id_idx').on(table.component_item_id),
+]);
+
+export const barcodeSymbologyEnum = pgEnum('barcode_symbology', ['ean13', 'upca', 'code128']);
+
+// Barcodes printed on an item's labels. A code identifies exactly one item, even while that item is in the trash.
+export const itemBarcodesTable = pgTable('item_barcodes', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  symbology: barcodeSymbologyEnum('symbology').notNull(),
+  code: text('code').notNull().unique(),
+}, (table) => [
+  index('item_barcodes_item_id_idx').on(table.item_id),
+]);
+
+// Places where stock is kept: a warehouse or storeroom, or a bin inside one (via parent_id)
+export const locationsTable = pgTable('locations', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'), // Nullable by default
+  parent_id: integer('parent_id').references((): AnyPgColumn => locationsTable.id), // Null for top-level locations
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Hierarchical item categories: "Hardware" can contain "Fasteners" (via parent_id)
+export const categoriesTable = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  parent_id: integer('parent_id').references((): AnyPgColumn => categoriesTable.id), // Null for top-level categories
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Free-form labels for items. Names are stored lower-case, so "Fragile" and "fragile" are the same tag.
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Which tags each item carries
+export const itemTagsTable = pgTable('item_tags', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  unique('item_tags_item_tag_unique').on(table.item_id, table.tag_id),
+  index('item_tags_tag_id_idx').on(table.tag_id),
+]);
+
+// Quantity of each item held at each location.
+// items.quantity remains the item total; whatever is not held at a location is "unassigned".
+export const itemStockTable = pgTable('item_stock', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  location_id: integer('location_id').notNull().references(() => locationsTable.id),
+  quantity: quantityColumn('quantity').notNull().default('0'),
+}, (table) => [
+  unique('item_stock_item_location_unique').on(table.item_id, table.location_id),
+]);
+
+// Why the stock level of an item changed
+export const movementReasonEnum = pgEnum('movement_reason', ['receipt', 'sale', 'adjustment', 'damage', 'transfer', 'checkout', 'checkin', 'assembly', 'disassembly']);
+
+// Batches of an item received together, which expire together. Lot quantities never add up to more than the
+// item's quantity; anything beyond them (stock from before the item was lot-tracked, adjustments) is unlotted.
+export const lotsTable = pgTable('lots', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  lot_number: text('lot_number').notNull(),
+  expires_on: date('expires_on'), // yyyy-mm-dd; null for lots that don't expire
+  quantity: quantityColumn('quantity').notNull().default('0'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('lots_item_lot_number_unique').on(table.item_id, table.lot_number),
+  index('lots_expires_on_idx').on(table.expires_on),
+]);
+
+export const serialUnitStatusEnum = pgEnum('serial_unit_status', ['in_stock', 'checked_out', 'retired']);
+
+// Individually identified units of serialized items, e.g. one laptop. A serial number identifies exactly one unit,
+// of any item, for good: retired units keep theirs so the history stays unambiguous.
+export const serialUnitsTable = pgTable('serial_units', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  serial_number: text('serial_number').notNull().unique(),
+  status: serialUnitStatusEnum('status').notNull().default('in_stock'),
+  location_id: integer('location_id').references(() => locationsTable.id), // Where the unit is kept; null when unassigned
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  retired_at: timestamp('retired_at'),
+}, (table) => [
+  index('serial_units_item_id_idx').on(table.item_id),
+]);
+
+// Stock lent to someone inside the organisation. Lent stock leaves the item's quantity through the movement ledger
+// and comes back with one or more returns; the loan is closed (returned_at) once everything is back.
+export const loansTable = pgTable('loans', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  borrower: text('borrower').notNull(),
+  quantity: quantityColumn('quantity').notNull(), // In the item's base unit, like item stock
+  quantity_returned: quantityColumn('quantity_returned').notNull().default('0'),
+  location_id: integer('location_id').references(() => locationsTable.id), // Where the stock was taken from; null for unassigned stock
+  due_on: date('due_on').notNull(), // yyyy-mm-dd
+  note: text('note'),
+  checked_out_at: timestamp('checked_out_at').defaultNow().notNull(),
+  returned_at: timestamp('returned_at'),
+}, (table) => [
+  index('loans_item_id_idx').on(table.item_id),
+  index('loans_due_on_idx').on(table.due_on),
+]);
+
+// The units lent on a loan of a serialized item, each returned on its own
+export const loanUnitsTable = pgTable('loan_units', {
+  id: serial('id').primaryKey(),
+  loan_id: integer('loan_id').notNull().references(() => loansTable.id, { onDelete: 'cascade' }),
+  serial_unit_id: integer('serial_unit_id').notNull().references(() => serialUnitsTable.id, { onDelete: 'cascade' }),
+  returned_at: timestamp('returned_at'),
+}, (table) => [
+  unique('loan_units_loan_unit_unique').on(table.loan_id, table.serial_unit_id),
+]);
+
+// Append-only ledger of every change to an item's quantity
+export const stockMovementsTable = pgTable('stock_movements', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  delta: quantityColumn('delta').notNull(), // Signed change in the base unit: positive adds stock, negative removes it
+  location_id: integer('location_id').references(() => locationsTable.id), // Null when the unassigned stock changed
+  reason: movementReasonEnum('reason').notNull(),
+  note: text('note'), // Nullable by default
+  unit_cost_cents: unitCostColumn('unit_cost_cents'), // What each base unit added cost; null when no price was given (and for removals)
+  lot_id: integer('lot_id').references(() => lotsTable.id, { onDelete: 'cascade' }), // Lot the units went into or came out of
+  serial_unit_id: integer('serial_unit_id').references(() => serialUnitsTable.id, { onDelete: 'cascade' }), // The unit that came or went, for serialized items
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('stock_movements_item_id_idx').on(table.item_id),
+]);
+
+// Vendors that stock is ordered from
+export const suppliersTable = pgTable('suppliers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  email: text('email'), // Nullable by default
+  phone: text('phone'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// See purchaseOrderStatusSchema in ../schema.ts for the lifecycle
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['draft', 'sent', 'partially_received', 'received', 'closed']);
+
+export const purchaseOrdersTable = pgTable('purchase_orders', {
+  id: serial('id').primaryKey(),
+  supplier_id: integer('supplier_id').notNull().references(() => suppliersTable.id),
+  status: purchaseOrderStatusEnum('status').notNull().default('draft'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  sent_at: timestamp('sent_at'), // Set when the order leaves the draft state
+  closed_at: timestamp('closed_at'),
+}, (table) => [
+  index('purchase_orders_supplier_id_idx').on(table.supplier_id),
+]);
+
+// What was ordered of each item and how much of it has arrived so far.
+// Items on an order cannot be purged, so the order history stays intact.
+export const purchaseOrderLinesTable = pgTable('purchase_order_lines', {
+  id: serial('id').primaryKey(),
+  purchase_order_id: integer('purchase_order_id').notNull().references(() => purchaseOrdersTable.id, { onDelete: 'cascade' }),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id),
+  quantity_ordered: quantityColumn('quantity_ordered').notNull(), // In the base unit, like everything received against it
+  quantity_received: quantityColumn('quantity_received').notNull().default('0'),
+  unit_cost_cents: unitCostColumn('unit_cost_cents'), // Agreed price per base unit, booked as the cost of each receipt; null when unknown
+}, (table) => [
+  unique('purchase_order_lines_order_item_unique').on(table.purchase_order_id, table.item_id),
+  index('purchase_order_lines_item_id_idx').on(table.item_id),
+]);
+
+// Sales orders are open while their stock is reserved, until they are either fulfilled or cancelled
+export const salesOrderStatusEnum = pgEnum('sales_order_status', ['open', 'fulfilled', 'cancelled']);
+
+// Outgoing customer orders
+export const salesOrdersTable = pgTable('sales_orders', {
+  id: serial('id').primaryKey(),
+  customer_name: text('customer_name').notNull(),
+  status: salesOrderStatusEnum('status').notNull().default('open'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  fulfilled_at: timestamp('fulfilled_at'),
+  cancelled_at: timestamp('cancelled_at'),
+});
+
+// What each sales order takes of an item. While the order is open the quantity counts towards items.reserved.
+export const salesOrderLinesTable = pgTable('sales_order_lines', {
+  id: serial('id').primaryKey(),
+  sales_order_id: integer('sales_order_id').notNull().references(() => salesOrdersTable.id, { onDelete: 'cascade' }),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id),
+  quantity: quantityColumn('quantity').notNull(), // In the base unit
+}, (table) => [
+  unique('sales_order_lines_order_item_unique').on(table.sales_order_id, table.item_id),
+  index('sales_order_lines_item_id_idx').on(table.item_id),
+]);
+
+// Stock takes are counted until they are approved, which posts the variances as adjustments, or cancelled
+export const stockTakeStatusEnum = pgEnum('stock_take_status', ['counting', 'approved', 'cancelled']);
+
+// Physical counts of a set of items, either of their whole stock or of what one location holds
+export const stockTakesTable = pgTable('stock_takes', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  status: stockTakeStatusEnum('status').notNull().default('counting'),
+  blind: boolean('blind').notNull().default(false), // Counters don't get to see the expected quantities
+  location_id: integer('location_id').references(() => locationsTable.id), // Null counts each item's total stock
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  approved_by: integer('approved_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  approved_at: timestamp('approved_at'),
+  cancelled_at: timestamp('cancelled_at'),
+});
+
+// One item of a stock take: what the system held when the count started, and what was counted
+export const stockTakeLinesTable = pgTable('stock_take_lines', {
+  id: serial('id').primaryKey(),
+  stock_take_id: integer('stock_take_id').notNull().references(() => stockTakesTable.id, { onDelete: 'cascade' }),
+  item_id: integer('item_id').notNull().references(() => itemsTable.id, { onDelete: 'cascade' }),
+  expected_quantity: quantityColumn('expected_quantity').notNull(), // Snapshot taken when the stock take was created
+  counted_quantity: quantityColumn('counted_quantity'), // Null until someone has counted the item
+  counted_by: integer('counted_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  counted_at: timestamp('counted_at'),
+}, (table) => [
+  unique('stock_take_lines_take_item_unique').on(table.stock_take_id, table.item_id),
+  index('stock_take_lines_item_id_idx').on(table.item_id),
+]);
+
+// What a user is allowed to do; see helpers/permissions.ts for the permissions of each role
+export const userRoleEnum = pgEnum('user_role', ['viewer', 'clerk', 'manager']);
+
+// People who can sign in. Passwords are only ever stored as scrypt hashes.
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  password_hash: text('password_hash').notNull(), // "scrypt$<salt>$<hash>", see helpers/auth.ts
+  role: userRoleEnum('role').notNull().default('viewer'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Signed-in browser sessions. Only a SHA-256 hash of the cookie token is stored.
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  token_hash: text('token_hash').notNull().unique(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const auditOperationEnum = pgEnum('audit_operation', ['create', 'update', 'delete', 'restore', 'purge']);
+
+// Field-level changes of an item row: every field for creates and deletes, only the changed ones for updates
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Who changed which item and how. Entries outlive the items they describe, so item_id is not a foreign key.
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  item_id: integer('item_id').notNull(),
+  item_name: text('item_name').notNull(), // Name at the time of the change, so deleted items stay recognisable
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null for scripts and tests
+  operation: auditOperationEnum('operation').notNull(),
+  changes: jsonb('changes').$type<AuditChanges>().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_log_item_id_idx').on(table.item_id),
+]);
+
 // TypeScript type for the table schema
 export type Item = typeof itemsTable.$inferSelect; // For SELECT operations
 export type NewItem = typeof itemsTable.$inferInsert; // For INSERT operations
 
+export type ItemUnit = typeof itemUnitsTable.$inferSelect;
+export type NewItemUnit = typeof itemUnitsTable.$inferInsert;
+
+export type KitComponent = typeof kitComponentsTable.$inferSelect;
+export type NewKitComponent = typeof kitComponentsTable.$inferInsert;
+
+export type ItemBarcode = typeof itemBarcodesTable.$inferSelect;
+export type NewItemBarcode = typeof itemBarcodesTable.$inferInsert;
+
+export type Location = typeof locationsTable.$inferSelect;
+export type NewLocation = typeof locationsTable.$inferInsert;
+
+export type Category = typeof categoriesTable.$inferSelect;
+export type NewCategory = typeof categoriesTable.$inferInsert;
+
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type ItemTag = typeof itemTagsTable.$inferSelect;
+export type NewItemTag = typeof itemTagsTable.$inferInsert;
+
+export type ItemStock = typeof itemStockTable.$inferSelect;
+export type NewItemStock = typeof itemStockTable.$inferInsert;
+
+export type Lot = typeof lotsTable.$inferSelect;
+export type NewLot = typeof lotsTable.$inferInsert;
+
+export type SerialUnit = typeof serialUnitsTable.$inferSelect;
+export type NewSerialUnit = typeof serialUnitsTable.$inferInsert;
+
+export type Loan = typeof loansTable.$inferSelect;
+export type NewLoan = typeof loansTable.$inferInsert;
+
+export type LoanUnit = typeof loanUnitsTable.$inferSelect;
+export type NewLoanUnit = typeof loanUnitsTable.$inferInsert;
+
+export type StockMovement = typeof stockMovementsTable.$inferSelect;
+export type NewStockMovement = typeof stockMovementsTable.$inferInsert;
+
+export type Supplier = typeof suppliersTable.$inferSelect;
+export type NewSupplier = typeof suppliersTable.$inferInsert;
+
+export type PurchaseOrder = typeof purchaseOrdersTable.$inferSelect;
+export type NewPurchaseOrder = typeof purchaseOrdersTable.$inferInsert;
+
+export type PurchaseOrderLine = typeof purchaseOrderLinesTable.$inferSelect;
+export type NewPurchaseOrderLine = typeof purchaseOrderLinesTable.$inferInsert;
+
+export type SalesOrder = typeof salesOrdersTable.$inferSelect;
+export type NewSalesOrder = typeof salesOrdersTable.$inferInsert;
+
+export type SalesOrderLine = typeof salesOrderLinesTable.$inferSelect;
+export type NewSalesOrderLine = typeof salesOrderLinesTable.$inferInsert;
+
+export type StockTake = typeof stockTakesTable.$inferSelect;
+export type NewStockTake = typeof stockTakesTable.$inferInsert;
+
+export type StockTakeLine = typeof stockTakeLinesTable.$inferSelect;
+export type NewStockTakeLine = typeof stockTakeLinesTable.$inferInsert;
+
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+
 // Important: Export all tables and relations for proper query building
-export const tables = { items: itemsTable };
+export const tables = {
+  items: itemsTable,
+  itemUnits: itemUnitsTable,
+  kitComponents: kitComponentsTable,
+  itemBarcodes: itemBarcodesTable,
+  locations: locationsTable,
+  categories: categoriesTable,
+  tags: tagsTable,
+  itemTags: itemTagsTable,
+  itemStock: itemStockTable,
+  lots: lotsTable,
+  serialUnits: serialUnitsTable,
+  loans: loansTable,
+  loanUnits: loanUnitsTable,
+  stockMovements: stockMovementsTable,
+  suppliers: suppliersTable,
+  purchaseOrders: purchaseOrdersTable,
+  purchaseOrderLines: purchaseOrderLinesTable,
+  salesOrders: salesOrdersTable,
+  salesOrderLines: salesOrderLinesTable,
+  stockTakes: stockTakesTable,
+  stockTakeLines: stockTakeLinesTable,
+  users: usersTable,
+  sessions: sessionsTable,
+  auditLog: auditLogTable,
+};
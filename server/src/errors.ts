@@ -0,0 +1,117 @@
+import { type Item, type KitShortage } from './schema';
+
+// Domain errors are what handlers throw for expected failures. The router maps each type to a tRPC error code
+// and sends the machine-readable cause along, so clients can react without parsing messages.
+export type DomainErrorType = 'not_found' | 'conflict' | 'validation' | 'insufficient_stock' | 'unauthenticated';
+
+export type DomainErrorCause =
+  | { type: 'not_found'; field: string | null; resource: string; id: number | string }
+  | { type: 'conflict'; field: string | null }
+  | { type: 'validation'; field: string | null }
+  | { type: 'insufficient_stock'; field: string | null; item_id: number; location_id: number | null; requested: number }
+  | { type: 'unauthenticated'; field: string | null };
+
+export abstract class DomainError extends Error {
+  abstract readonly type: DomainErrorType;
+  // The input field the error is about, so a form can show the message next to it
+  readonly field: string | null;
+
+  constructor(message: string, field: string | null = null) {
+    super(message);
+    this.name = new.target.name;
+    this.field = field;
+  }
+
+  abstract toCause(): DomainErrorCause;
+}
+
+// A referenced record doesn't exist (or is in the trash where active records are expected)
+export class NotFoundError extends DomainError {
+  readonly type = 'not_found';
+  readonly resource: string;
+  readonly id: number | string; // Barcodes and other codes are looked up as text
+
+  constructor(resource: string, id: number | string, message?: string, field: string | null = null) {
+    super(message ?? `${resource.charAt(0).toUpperCase()}${resource.slice(1)} with ID ${id} not found.`, field);
+    this.resource = resource;
+    this.id = id;
+  }
+
+  toCause(): DomainErrorCause {
+    return { type: this.type, field: this.field, resource: this.resource, id: this.id };
+  }
+}
+
+// The change clashes with the current state, e.g. a name that is already taken
+export class ConflictError extends DomainError {
+  readonly type = 'conflict';
+
+  toCause(): DomainErrorCause {
+    return { type: this.type, field: this.field };
+  }
+}
+
+// The input passed the schema but doesn't make sense against the data, e.g. a cursor from another listing
+export class ValidationError extends DomainError {
+  readonly type = 'validation';
+
+  toCause(): DomainErrorCause {
+    return { type: this.type, field: this.field };
+  }
+}
+
+// The credentials given don't match a user; deliberately doesn't say which part was wrong
+export class AuthenticationError extends DomainError {
+  readonly type = 'unauthenticated';
+
+  toCause(): DomainErrorCause {
+    return { type: this.type, field: this.field };
+  }
+}
+
+// A movement or edit would take stock below zero, or below what is held at locations
+export class InsufficientStockError extends DomainError {
+  readonly type = 'insufficient_stock';
+  readonly item_id: number;
+  readonly location_id: number | null;
+  readonly requested: number;
+
+  constructor(message: string, details: { item_id: number; location_id: number | null; requested: number }, field: string | null = null) {
+    super(message, field);
+    this.item_id = details.item_id;
+    this.location_id = details.location_id;
+    this.requested = details.requested;
+  }
+
+  toCause(): DomainErrorCause {
+    return { type: this.type, field: this.field, item_id: this.item_id, location_id: this.location_id, requested: this.requested };
+  }
+}
+
+// Thrown when kits cannot be assembled (or taken apart) because some of the stock is missing.
+// Lists every component that falls short, not just the first, so they can all be restocked in one go.
+export class KitShortageError extends InsufficientStockError {
+  readonly shortages: KitShortage[];
+
+  constructor(message: string, details: { item_id: number; location_id: number | null; requested: number }, shortages: KitShortage[]) {
+    super(message, details, 'quantity');
+    this.shortages = shortages;
+  }
+}
+
+// Thrown when an update was based on an outdated version of an item.
+// Carries the item as it is now, so the caller can offer to merge or overwrite.
+export class VersionConflictError extends ConflictError {
+  readonly current: Item;
+
+  constructor(current: Item) {
+    super(`Item with ID ${current.id} was changed by someone else since you loaded it (now at version ${current.version}).`, 'version');
+    this.current = current;
+  }
+}
+
+// Postgres reports unique constraint violations as SQLSTATE 23505 along with the constraint name
+export const isUniqueViolation = (error: unknown, constraint: string): boolean =>
+  typeof error === 'object' && error !== null &&
+  (error as { code?: unknown }).code === '23505' &&
+  (error as { constraint?: unknown }).constraint === constraint;
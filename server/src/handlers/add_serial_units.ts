@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { addUnitsToStock } from '../helpers/serial_units';
+import { type AddSerialUnitsInput, type Item } from '../schema';
+import { ConflictError, isUniqueViolation, NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Receives units of a serialized item, each identified by its serial number
+export const addSerialUnits = async (input: AddSerialUnitsInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    const row = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], async () => {
+      const [item] = await tx.select()
+        .from(itemsTable)
+        .where(and(eq(itemsTable.id, input.item_id), isNull(itemsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (!item) {
+        throw new NotFoundError('item', input.item_id, undefined, 'item_id');
+      }
+      return addUnitsToStock(tx, item, input.serial_numbers, {
+        location_id: input.location_id,
+        reason: 'receipt',
+        note: input.note,
+        unit_cost_cents: input.unit_cost_cents,
+      });
+    }));
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to add serial units to item ID ${input.item_id}:`, error);
+    if (isUniqueViolation(error, 'serial_units_serial_number_unique')) {
+      throw new ConflictError('One of the serial numbers is already in use.', 'serial_numbers');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { auditStockChange } from '../helpers/audit';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { type AdjustStockInput, type Item } from '../schema';
+
+export const adjustStock = async (input: AdjustStockInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    // Manual corrections can go either way, but still never below zero
+    const row = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], () =>
+      applyStockMovement(tx, {
+        item_id: input.item_id,
+        location_id: input.location_id,
+        delta: input.delta,
+        reason: 'adjustment',
+        note: input.note,
+      })
+    ));
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to adjust stock for item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
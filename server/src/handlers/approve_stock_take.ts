@@ -0,0 +1,98 @@
+import { db, type Transaction } from '../db';
+import { itemsTable, itemStockTable, stockTakeLinesTable, stockTakesTable, type Item as ItemRow, type StockTake as StockTakeRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { assertStockTakeCounting, loadStockTake, lockStockTake } from '../helpers/stock_takes';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { roundQuantity, toQuantity } from '../helpers/units';
+import { type StockTake } from '../schema';
+import { and, asc, eq, gt, isNotNull } from 'drizzle-orm';
+
+// Approves a stock take and posts each counted variance as an adjustment, all in one transaction.
+// Adjustments are by counted minus expected, so stock that moved while the count was under way is not undone.
+// Items nobody counted are left as they are, and so are items that have since gone to the trash, whose stock is frozen.
+// A count is recorded even when it comes in below what is reserved for sales orders: the item's available stock
+// then goes negative, which flags the orders that can no longer all be fulfilled.
+export const approveStockTake = async (id: number, actorId: number | null = null): Promise<StockTake> => {
+  try {
+    const adjustedRows = await db.transaction(async (tx) => {
+      const stockTake = await lockStockTake(tx, id);
+      assertStockTakeCounting(stockTake, 'approved');
+
+      const lines = await tx.select()
+        .from(stockTakeLinesTable)
+        .where(and(eq(stockTakeLinesTable.stock_take_id, id), isNotNull(stockTakeLinesTable.counted_quantity)))
+        .orderBy(asc(stockTakeLinesTable.item_id))
+        .execute();
+
+      const rows: ItemRow[] = [];
+      for (const line of lines) {
+        const variance = roundQuantity(toQuantity(line.counted_quantity!) - toQuantity(line.expected_quantity));
+        if (variance === 0) {
+          continue;
+        }
+        const [item] = await tx.select()
+          .from(itemsTable)
+          .where(eq(itemsTable.id, line.item_id))
+          .for('update')
+          .execute();
+        if (item.deleted_at !== null || item.serialized) {
+          continue;
+        }
+        rows.push(await auditStockChange(tx, actorId, [item.id], () => postVariance(tx, stockTake, item, variance)));
+      }
+
+      await tx.update(stockTakesTable)
+        .set({ status: 'approved', approved_by: actorId, approved_at: new Date() })
+        .where(eq(stockTakesTable.id, id))
+        .execute();
+      return rows;
+    });
+
+    for (const item of await loadItemDetails(adjustedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+    return await loadStockTake(id, true);
+  } catch (error) {
+    console.error(`Failed to approve stock take with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+// A count at one location adjusts the stock there. A count of an item's whole stock has no single place to adjust:
+// a surplus goes to the unassigned stock, and a shortfall comes out of the unassigned stock first, then out of
+// the locations holding the item in ID order.
+const postVariance = async (tx: Transaction, stockTake: StockTakeRow, item: ItemRow, variance: number): Promise<ItemRow> => {
+  const note = `Stock take #${stockTake.id}: ${stockTake.name}`;
+  if (stockTake.location_id !== null || variance > 0) {
+    return applyStockMovement(tx, { item_id: item.id, location_id: stockTake.location_id, delta: variance, reason: 'adjustment', note, count: true });
+  }
+
+  const held = await tx.select({ location_id: itemStockTable.location_id, quantity: itemStockTable.quantity })
+    .from(itemStockTable)
+    .where(and(eq(itemStockTable.item_id, item.id), gt(itemStockTable.quantity, '0')))
+    .orderBy(asc(itemStockTable.location_id))
+    .execute();
+  const unassigned = roundQuantity(toQuantity(item.quantity) - held.reduce((total, stock) => total + toQuantity(stock.quantity), 0));
+
+  const sources = [
+    { location_id: null, quantity: unassigned },
+    ...held.map(stock => ({ location_id: stock.location_id, quantity: toQuantity(stock.quantity) })),
+  ];
+  let row = item;
+  let remaining = -variance;
+  for (const source of sources) {
+    const taken = Math.min(remaining, source.quantity);
+    if (taken <= 0) {
+      continue;
+    }
+    row = await applyStockMovement(tx, { item_id: item.id, location_id: source.location_id, delta: -taken, reason: 'adjustment', note, count: true });
+    remaining = roundQuantity(remaining - taken);
+  }
+  if (remaining > 0) {
+    // More missing than the item holds, which only happens when stock left after the count; let the movement refuse it
+    row = await applyStockMovement(tx, { item_id: item.id, location_id: null, delta: -remaining, reason: 'adjustment', note, count: true });
+  }
+  return row;
+};
@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { describeShortages, findShortages, lockKit } from '../helpers/kits';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { roundQuantity } from '../helpers/units';
+import { currentUnitCost } from '../helpers/valuation';
+import { type Item, type KitAssemblyInput } from '../schema';
+import { KitShortageError } from '../errors';
+
+// Builds kits out of their components in one transaction: the components leave stock and the kits arrive,
+// or nothing changes at all. When any component is short, the error lists every one that is.
+export const assembleKit = async (input: KitAssemblyInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    const rows = await db.transaction(async (tx) => {
+      const { kit, components } = await lockKit(tx, input.item_id);
+      return auditStockChange(tx, actorId, [kit.id, ...components.map(component => component.item.id)], async () => {
+        const needs = components.map(component => ({ item: component.item, required: roundQuantity(component.quantity * input.quantity) }));
+
+        const shortages = await findShortages(tx, needs, input.location_id);
+        if (shortages.length > 0) {
+          throw new KitShortageError(
+            `Not enough stock to assemble ${input.quantity} × "${kit.name}": ${describeShortages(shortages)}.`,
+            { item_id: kit.id, location_id: input.location_id, requested: input.quantity },
+            shortages
+          );
+        }
+
+        // Kits are valued at what went into them, priced before the components leave
+        let costCents = 0;
+        for (const need of needs) {
+          costCents += need.required * (await currentUnitCost(tx, need.item.id, need.item.costing_method) ?? 0);
+        }
+
+        const updated: ItemRow[] = [];
+        for (const need of needs) {
+          updated.push(await applyStockMovement(tx, {
+            item_id: need.item.id,
+            location_id: input.location_id,
+            delta: -need.required,
+            reason: 'assembly',
+            note: input.note ?? `Assembled into ${kit.name}`,
+          }));
+        }
+        const assembled = await applyStockMovement(tx, {
+          item_id: kit.id,
+          location_id: input.location_id,
+          delta: input.quantity,
+          reason: 'assembly',
+          note: input.note,
+          unit_cost_cents: costCents > 0 ? costCents / input.quantity : null, // Unpriced components leave the kit at its current cost
+        });
+        return [assembled, ...updated];
+      });
+    });
+
+    const [item, ...components] = await loadItemDetails(rows);
+    for (const changed of [item, ...components]) {
+      publishItemChange({ type: 'updated', item: changed });
+    }
+    return item;
+  } catch (error) {
+    console.error(`Failed to assemble kit item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
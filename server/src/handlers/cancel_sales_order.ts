@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { salesOrderLinesTable, salesOrdersTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { assertSalesOrderOpen, loadSalesOrder, lockSalesOrder, releaseReservation } from '../helpers/sales_orders';
+import { toQuantity } from '../helpers/units';
+import { type SalesOrder } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Cancels an open order and gives its reserved stock back
+export const cancelSalesOrder = async (id: number, actorId: number | null = null): Promise<SalesOrder> => {
+  try {
+    const releasedRows = await db.transaction(async (tx) => {
+      const order = await lockSalesOrder(tx, id);
+      assertSalesOrderOpen(order, 'cancelled');
+
+      const lines = await tx.select()
+        .from(salesOrderLinesTable)
+        .where(eq(salesOrderLinesTable.sales_order_id, id))
+        .orderBy(asc(salesOrderLinesTable.item_id)) // Same lock order as when the stock was reserved
+        .execute();
+
+      const rows = await auditStockChange(tx, actorId, lines.map(line => line.item_id), async () => {
+        const changed: ItemRow[] = [];
+        for (const line of lines) {
+          changed.push(await releaseReservation(tx, line.item_id, toQuantity(line.quantity)));
+        }
+        return changed;
+      });
+
+      await tx.update(salesOrdersTable)
+        .set({ status: 'cancelled', cancelled_at: new Date() })
+        .where(eq(salesOrdersTable.id, id))
+        .execute();
+      return rows;
+    });
+
+    for (const item of await loadItemDetails(releasedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+    return await loadSalesOrder(id);
+  } catch (error) {
+    console.error(`Failed to cancel sales order with ID ${id}:`, error);
+    throw error;
+  }
+};
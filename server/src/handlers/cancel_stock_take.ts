@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { stockTakesTable } from '../db/schema';
+import { assertStockTakeCounting, loadStockTake, lockStockTake } from '../helpers/stock_takes';
+import { type StockTake } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Abandons a stock take; its counts are kept for reference but nothing is adjusted
+export const cancelStockTake = async (id: number): Promise<StockTake> => {
+  try {
+    await db.transaction(async (tx) => {
+      const stockTake = await lockStockTake(tx, id);
+      assertStockTakeCounting(stockTake, 'cancelled');
+
+      await tx.update(stockTakesTable)
+        .set({ status: 'cancelled', cancelled_at: new Date() })
+        .where(eq(stockTakesTable.id, id))
+        .execute();
+    });
+
+    return await loadStockTake(id, true);
+  } catch (error) {
+    console.error(`Failed to cancel stock take with ID ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,102 @@
+import { db } from '../db';
+import { loansTable, loanUnitsTable, serialUnitsTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { loadLoan, lockLoan } from '../helpers/loans';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { fromQuantity, roundQuantity, toQuantity } from '../helpers/units';
+import { type CheckInLoanInput, type Loan } from '../schema';
+import { ConflictError, ValidationError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Books stock coming back from a loan, in full or in part. Returned stock goes back to where it was taken from
+// unless another location is given; the loan is closed once everything is back.
+export const checkInLoan = async (input: CheckInLoanInput, actorId: number | null = null): Promise<Loan> => {
+  try {
+    const row = await db.transaction(async (tx) => {
+      const loan = await lockLoan(tx, input.loan_id);
+      return auditStockChange(tx, actorId, [loan.item_id], async () => {
+        if (loan.returned_at !== null) {
+          throw new ConflictError(`Loan #${loan.id} has already been returned in full.`, 'loan_id');
+        }
+        const outstanding = roundQuantity(toQuantity(loan.quantity) - toQuantity(loan.quantity_returned));
+        const note = `Loan #${loan.id}: ${loan.borrower}`;
+
+        const lentUnits = await tx.select({ loan_unit_id: loanUnitsTable.id, unit: serialUnitsTable })
+          .from(loanUnitsTable)
+          .innerJoin(serialUnitsTable, eq(loanUnitsTable.serial_unit_id, serialUnitsTable.id))
+          .where(and(eq(loanUnitsTable.loan_id, loan.id), isNull(loanUnitsTable.returned_at)))
+          .execute();
+
+        let returned: number;
+        let row: ItemRow | null = null;
+        if (lentUnits.length > 0) {
+          if (input.quantity !== undefined) {
+            throw new ValidationError('Units of a serialized item are returned by serial number.', 'serial_numbers');
+          }
+          const serialNumbers = input.serial_numbers ?? lentUnits.map(({ unit }) => unit.serial_number);
+          const notLent = serialNumbers.find(serialNumber => !lentUnits.some(({ unit }) => unit.serial_number === serialNumber));
+          if (notLent !== undefined) {
+            throw new ValidationError(`Unit ${notLent} is not out on loan #${loan.id}.`, 'serial_numbers');
+          }
+
+          const returning = lentUnits.filter(({ unit }) => serialNumbers.includes(unit.serial_number));
+          for (const { loan_unit_id, unit } of returning) {
+            const location_id = input.location_id !== undefined ? input.location_id : unit.location_id;
+            await tx.update(serialUnitsTable)
+              .set({ status: 'in_stock', location_id })
+              .where(eq(serialUnitsTable.id, unit.id))
+              .execute();
+            await tx.update(loanUnitsTable)
+              .set({ returned_at: new Date() })
+              .where(eq(loanUnitsTable.id, loan_unit_id))
+              .execute();
+            row = await applyStockMovement(tx, {
+              item_id: loan.item_id,
+              location_id,
+              delta: 1,
+              reason: 'checkin',
+              note,
+              serial_unit_id: unit.id,
+            });
+          }
+          returned = returning.length;
+        } else {
+          if (input.serial_numbers !== undefined) {
+            throw new ValidationError(`Loan #${loan.id} is not of individual units; enter the quantity returned.`, 'quantity');
+          }
+          returned = input.quantity ?? outstanding;
+          if (returned > outstanding) {
+            throw new ValidationError(`Only ${outstanding} ${outstanding === 1 ? 'is' : 'are'} still out on loan #${loan.id}, cannot return ${returned}.`, 'quantity');
+          }
+          row = await applyStockMovement(tx, {
+            item_id: loan.item_id,
+            location_id: input.location_id !== undefined ? input.location_id : loan.location_id,
+            delta: returned,
+            reason: 'checkin',
+            note,
+          });
+        }
+
+        await tx.update(loansTable)
+          .set({
+            quantity_returned: fromQuantity(roundQuantity(toQuantity(loan.quantity_returned) + returned)),
+            returned_at: returned === outstanding ? new Date() : null,
+          })
+          .where(eq(loansTable.id, loan.id))
+          .execute();
+
+        return row;
+      });
+    });
+
+    if (row) {
+      publishItemChange({ type: 'updated', item: await loadItemDetail(row) });
+    }
+    return await loadLoan(input.loan_id);
+  } catch (error) {
+    console.error(`Failed to check in loan with ID ${input.loan_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { itemsTable, loansTable, loanUnitsTable, serialUnitsTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { loadLoan } from '../helpers/loans';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { fromQuantity } from '../helpers/units';
+import { type CheckOutItemInput, type Loan } from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+// Lends stock to a borrower: a quantity of a plain item, or specific units of a serialized one.
+// The stock leaves the item through the movement ledger, so it can't be sold or issued while it is away.
+export const checkOutItem = async (input: CheckOutItemInput, actorId: number | null = null): Promise<Loan> => {
+  try {
+    const { loanId, row } = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], async () => {
+      const [item] = await tx.select()
+        .from(itemsTable)
+        .where(and(eq(itemsTable.id, input.item_id), isNull(itemsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (!item) {
+        throw new NotFoundError('item', input.item_id, undefined, 'item_id');
+      }
+      if (item.serialized && input.serial_numbers === undefined) {
+        throw new ValidationError(`"${item.name}" is serialized; choose the units to lend by serial number.`, 'serial_numbers');
+      }
+      if (!item.serialized && input.quantity === undefined) {
+        throw new ValidationError(`"${item.name}" is not serialized; enter the quantity to lend.`, 'quantity');
+      }
+
+      const serialNumbers = input.serial_numbers ?? [];
+      if (new Set(serialNumbers).size !== serialNumbers.length) {
+        throw new ValidationError('A unit can only be lent once per loan.', 'serial_numbers');
+      }
+      const units = serialNumbers.length === 0 ? [] : await tx.select()
+        .from(serialUnitsTable)
+        .where(and(eq(serialUnitsTable.item_id, item.id), inArray(serialUnitsTable.serial_number, serialNumbers)))
+        .for('update')
+        .execute();
+
+      const missing = serialNumbers.find(serialNumber => !units.some(unit => unit.serial_number === serialNumber));
+      if (missing !== undefined) {
+        throw new NotFoundError('serial unit', missing, `"${item.name}" has no unit with serial number "${missing}".`, 'serial_numbers');
+      }
+      const unavailable = units.find(unit => unit.status !== 'in_stock');
+      if (unavailable) {
+        throw new ConflictError(`Unit ${unavailable.serial_number} is ${unavailable.status === 'retired' ? 'retired' : 'already checked out'}.`, 'serial_numbers');
+      }
+
+      const quantity = input.quantity ?? units.length;
+      const [loan] = await tx.insert(loansTable)
+        .values({
+          item_id: item.id,
+          borrower: input.borrower,
+          quantity: fromQuantity(quantity),
+          location_id: item.serialized ? null : input.location_id, // Units go back to where each of them was kept
+          due_on: input.due_on,
+          note: input.note,
+        })
+        .returning()
+        .execute();
+      const note = `Loan #${loan.id}: ${input.borrower}`;
+
+      let row: ItemRow = item;
+      if (!item.serialized) {
+        row = await applyStockMovement(tx, {
+          item_id: item.id,
+          location_id: input.location_id,
+          delta: -quantity,
+          reason: 'checkout',
+          note,
+        });
+      }
+      for (const unit of units) {
+        await tx.update(serialUnitsTable)
+          .set({ status: 'checked_out' })
+          .where(eq(serialUnitsTable.id, unit.id))
+          .execute();
+        await tx.insert(loanUnitsTable)
+          .values({ loan_id: loan.id, serial_unit_id: unit.id })
+          .execute();
+        row = await applyStockMovement(tx, {
+          item_id: item.id,
+          location_id: unit.location_id,
+          delta: -1,
+          reason: 'checkout',
+          note,
+          serial_unit_id: unit.id,
+        });
+      }
+
+      return { loanId: loan.id, row };
+    }));
+
+    publishItemChange({ type: 'updated', item: await loadItemDetail(row) });
+    return await loadLoan(loanId);
+  } catch (error) {
+    console.error(`Failed to check out item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { purchaseOrdersTable } from '../db/schema';
+import { assertPurchaseOrderStatus, loadPurchaseOrder, lockPurchaseOrder } from '../helpers/purchase_orders';
+import { type PurchaseOrder } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Ends an order. Closing before everything arrived cancels whatever is still outstanding.
+export const closePurchaseOrder = async (id: number): Promise<PurchaseOrder> => {
+  try {
+    await db.transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, id);
+      assertPurchaseOrderStatus(order, ['draft', 'sent', 'partially_received', 'received'], 'closed');
+
+      await tx.update(purchaseOrdersTable)
+        .set({ status: 'closed', closed_at: new Date() })
+        .where(eq(purchaseOrdersTable.id, id))
+        .execute();
+    });
+
+    return await loadPurchaseOrder(id);
+  } catch (error) {
+    console.error(`Failed to close purchase order with ID ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { type CreateCategoryInput, type Category } from '../schema';
+import { ConflictError, isUniqueViolation, NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createCategory = async (input: CreateCategoryInput): Promise<Category> => {
+  try {
+    // Validate the parent category exists before nesting under it
+    if (input.parent_id !== null) {
+      const parent = await db.select({ id: categoriesTable.id })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, input.parent_id))
+        .execute();
+
+      if (parent.length === 0) {
+        throw new NotFoundError('category', input.parent_id, `Parent category with ID ${input.parent_id} not found.`, 'parent_id');
+      }
+    }
+
+    const result = await db.insert(categoriesTable)
+      .values({
+        name: input.name,
+        parent_id: input.parent_id,
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category creation failed:', error);
+    if (isUniqueViolation(error, 'categories_name_unique')) {
+      throw new ConflictError(`A category named "${input.name}" already exists.`, 'name');
+    }
+    throw error;
+  }
+};
@@ -1,33 +1,111 @@
 
 import { db } from '../db';
-import { itemsTable } from '../db/schema';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { recordItemAudit } from '../helpers/audit';
+import { assertCategoryExists } from '../helpers/categories';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { setItemTags } from '../helpers/tags';
+import { assertScanCodesFree, setItemBarcodes } from '../helpers/barcodes';
+import { addUnitsToStock } from '../helpers/serial_units';
+import { fromQuantity, setItemUnits, toQuantity } from '../helpers/units';
+import { fromUnitCost } from '../helpers/valuation';
 import { type CreateItemInput, type Item } from '../schema';
+import { ConflictError, isUniqueViolation, ValidationError } from '../errors';
 
-export const createItem = async (input: CreateItemInput): Promise<Item> => {
+// `actorId` is the signed-in user making the change, recorded in the audit log
+export const createItem = async (input: CreateItemInput, actorId: number | null = null): Promise<Item> => {
   try {
     // Insert item record into the database
     // The 'quantity' field will use the value from input, which will have Zod's default(0) applied if not provided
     // in an upstream Zod parsing step (e.g., API route validation). In this handler, input.quantity is guaranteed to be a number.
     // The 'created_at' field has defaultNow() in the schema and will be set automatically by the database.
-    const result = await db.insert(itemsTable)
-      .values({
-        name: input.name,
-        description: input.description, // description can be string or null
-        quantity: input.quantity,       // quantity is guaranteed to be a number
-      })
-      .returning() // Return all fields of the newly inserted row
-      .execute();
-
-    // Drizzle returns an array of inserted rows. We expect one row for a single insert.
-    const newItem = result[0];
-
-    // No numeric type conversions needed as 'quantity' is an integer, not a numeric/decimal type.
+    if (input.serialized && input.lot_tracked) {
+      throw new ValidationError('An item cannot be both lot-tracked and serialized.', 'serialized');
+    }
+    if (!input.serialized && input.serial_numbers.length > 0) {
+      throw new ValidationError('Only serialized items have serial numbers.', 'serial_numbers');
+    }
+    if (input.serialized && input.quantity !== input.serial_numbers.length) {
+      throw new ValidationError('The quantity of a serialized item is the number of its serial numbers.', 'quantity');
+    }
+
+    const newItem = await db.transaction(async (tx) => {
+      if (input.category_id !== null) {
+        await assertCategoryExists(tx, input.category_id);
+      }
+      await assertScanCodesFree(tx, null, input.sku, input.barcodes);
+
+      const result = await tx.insert(itemsTable)
+        .values({
+          name: input.name,
+          sku: input.sku,
+          description: input.description, // description can be string or null
+          quantity: fromQuantity(input.serialized ? 0 : input.quantity), // Serialized units are added one by one below
+          base_unit: input.base_unit,
+          reorder_point: input.reorder_point,
+          reorder_quantity: input.reorder_quantity,
+          category_id: input.category_id,
+          costing_method: input.costing_method,
+          lot_tracked: input.lot_tracked, // Opening stock is unlotted; lots start with the first receipt
+          serialized: input.serialized,
+        })
+        .returning() // Return all fields of the newly inserted row
+        .execute();
+
+      // Drizzle returns an array of inserted rows. We expect one row for a single insert.
+      let item = result[0];
+
+      // Record the starting quantity in the movement ledger so the history always adds up to the current stock.
+      if (item.serialized) {
+        item = await addUnitsToStock(tx, item, input.serial_numbers, {
+          location_id: null,
+          reason: 'adjustment',
+          note: 'Initial quantity',
+          unit_cost_cents: input.unit_cost_cents,
+        });
+      } else if (toQuantity(item.quantity) > 0) {
+        await tx.insert(stockMovementsTable)
+          .values({
+            item_id: item.id,
+            delta: item.quantity,
+            reason: 'adjustment',
+            note: 'Initial quantity',
+            unit_cost_cents: input.unit_cost_cents === null ? null : fromUnitCost(input.unit_cost_cents),
+          })
+          .execute();
+      }
+
+      await setItemUnits(tx, item.id, input.base_unit, input.units);
+      await setItemTags(tx, item.id, input.tags);
+      await setItemBarcodes(tx, item.id, input.barcodes);
+      await recordItemAudit(tx, actorId, null, item);
+
+      return item;
+    });
+
+    // 'quantity' is a numeric column and comes back as a string; the helper converts it along with the other details.
     // 'created_at' is already a Date object from Drizzle.
-    return newItem;
+    // A new item starts with all of its stock unassigned; the helper fills in the (empty) location breakdown.
+    const createdItem = await loadItemDetail(newItem);
+    publishItemChange({ type: 'created', item: createdItem });
+    return createdItem;
   } catch (error: any) {
     // Log the error for debugging purposes.
-    // This could be, for example, a unique constraint violation for the 'name' field.
     console.error('Item creation failed:', error);
+    // Another active item already uses the name; report it against the field instead of as a database failure.
+    if (isUniqueViolation(error, 'items_name_active_unique')) {
+      throw new ConflictError(`An item named "${input.name}" already exists.`, 'name');
+    }
+    if (isUniqueViolation(error, 'items_sku_active_unique')) {
+      throw new ConflictError(`Another item already has the SKU "${input.sku}".`, 'sku');
+    }
+    if (isUniqueViolation(error, 'item_barcodes_code_unique')) {
+      throw new ConflictError('One of the barcodes is already assigned to another item.', 'barcodes');
+    }
+    if (isUniqueViolation(error, 'serial_units_serial_number_unique')) {
+      throw new ConflictError('One of the serial numbers is already in use.', 'serial_numbers');
+    }
     // Re-throw the error to be handled by the caller or higher-level error middleware.
     throw error;
   }
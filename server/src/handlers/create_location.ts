@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { locationsTable } from '../db/schema';
+import { type CreateLocationInput, type Location } from '../schema';
+import { ConflictError, isUniqueViolation, NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createLocation = async (input: CreateLocationInput): Promise<Location> => {
+  try {
+    // Validate the parent location exists before inserting a bin under it
+    if (input.parent_id !== null) {
+      const parent = await db.select({ id: locationsTable.id })
+        .from(locationsTable)
+        .where(eq(locationsTable.id, input.parent_id))
+        .execute();
+
+      if (parent.length === 0) {
+        throw new NotFoundError('location', input.parent_id, `Parent location with ID ${input.parent_id} not found.`, 'parent_id');
+      }
+    }
+
+    const result = await db.insert(locationsTable)
+      .values({
+        name: input.name,
+        description: input.description,
+        parent_id: input.parent_id,
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Location creation failed:', error);
+    if (isUniqueViolation(error, 'locations_name_unique')) {
+      throw new ConflictError(`A location named "${input.name}" already exists.`, 'name');
+    }
+    throw error;
+  }
+};
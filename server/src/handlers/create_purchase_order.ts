@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { purchaseOrdersTable } from '../db/schema';
+import { assertSupplierExists, loadPurchaseOrder, setPurchaseOrderLines } from '../helpers/purchase_orders';
+import { type CreatePurchaseOrderInput, type PurchaseOrder } from '../schema';
+
+// New orders are drafts until they are sent to the supplier
+export const createPurchaseOrder = async (input: CreatePurchaseOrderInput): Promise<PurchaseOrder> => {
+  try {
+    const id = await db.transaction(async (tx) => {
+      await assertSupplierExists(tx, input.supplier_id);
+
+      const [order] = await tx.insert(purchaseOrdersTable)
+        .values({ supplier_id: input.supplier_id, notes: input.notes })
+        .returning()
+        .execute();
+
+      await setPurchaseOrderLines(tx, order.id, input.lines);
+      return order.id;
+    });
+
+    return await loadPurchaseOrder(id);
+  } catch (error) {
+    console.error('Purchase order creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { salesOrderLinesTable, salesOrdersTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { loadSalesOrder, reserveStock } from '../helpers/sales_orders';
+import { fromQuantity, toBaseQuantity } from '../helpers/units';
+import { type CreateSalesOrderInput, type SalesOrder } from '../schema';
+
+// Places an order and reserves its stock in the same transaction: either every line is reserved or the order is not created.
+// Lines entered in another unit are reserved and stored in the base unit.
+export const createSalesOrder = async (input: CreateSalesOrderInput, actorId: number | null = null): Promise<SalesOrder> => {
+  try {
+    const { id, reservedRows } = await db.transaction(async (tx) => auditStockChange(tx, actorId, input.lines.map(line => line.item_id), async () => {
+      const [order] = await tx.insert(salesOrdersTable)
+        .values({ customer_name: input.customer_name, notes: input.notes })
+        .returning()
+        .execute();
+
+      // Item rows are locked in ID order, so orders for the same items in a different order cannot deadlock
+      const rows: ItemRow[] = [];
+      const lines: typeof salesOrderLinesTable.$inferInsert[] = [];
+      for (const line of [...input.lines].sort((a, b) => a.item_id - b.item_id)) {
+        const { quantity } = await toBaseQuantity(tx, line.item_id, line.quantity, line.unit);
+        rows.push(await reserveStock(tx, line.item_id, quantity));
+        lines.push({ sales_order_id: order.id, item_id: line.item_id, quantity: fromQuantity(quantity) });
+      }
+
+      await tx.insert(salesOrderLinesTable)
+        .values(lines)
+        .execute();
+      return { id: order.id, reservedRows: rows };
+    }));
+
+    for (const item of await loadItemDetails(reservedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+    return await loadSalesOrder(id);
+  } catch (error) {
+    console.error('Sales order creation failed:', error);
+    throw error;
+  }
+};
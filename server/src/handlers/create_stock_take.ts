@@ -0,0 +1,75 @@
+import { db } from '../db';
+import { itemsTable, itemStockTable, locationsTable, stockTakeLinesTable, stockTakesTable } from '../db/schema';
+import { loadStockTake } from '../helpers/stock_takes';
+import { type CreateStockTakeInput, type StockTake } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { and, asc, eq, gt, inArray, isNull } from 'drizzle-orm';
+
+// Starts a stock take and snapshots what the system expects to be counted: each item's total stock, or what it holds
+// at the location being counted. Serialized items are left out, since their units are accounted for one by one.
+// `actorId` is the signed-in user starting the count.
+export const createStockTake = async (input: CreateStockTakeInput, actorId: number | null = null): Promise<StockTake> => {
+  try {
+    const id = await db.transaction(async (tx) => {
+      if (input.location_id !== null) {
+        const location = await tx.select({ id: locationsTable.id })
+          .from(locationsTable)
+          .where(eq(locationsTable.id, input.location_id))
+          .execute();
+
+        if (location.length === 0) {
+          throw new NotFoundError('location', input.location_id, undefined, 'location_id');
+        }
+      }
+
+      const items = await tx.select({ id: itemsTable.id, name: itemsTable.name, quantity: itemsTable.quantity, serialized: itemsTable.serialized })
+        .from(itemsTable)
+        .where(and(
+          isNull(itemsTable.deleted_at),
+          input.item_ids === undefined ? eq(itemsTable.serialized, false) : inArray(itemsTable.id, input.item_ids)
+        ))
+        .orderBy(asc(itemsTable.id))
+        .execute();
+
+      const missing = input.item_ids?.find(itemId => !items.some(item => item.id === itemId));
+      if (missing !== undefined) {
+        throw new NotFoundError('item', missing, undefined, 'item_ids');
+      }
+      const serialized = items.find(item => item.serialized);
+      if (serialized) {
+        throw new ValidationError(`"${serialized.name}" is serialized; its units are checked by serial number instead.`, 'item_ids');
+      }
+
+      // At a location, the count is of what the items hold there. Without a list of items, that is every item with stock there.
+      const stockRows = input.location_id === null ? [] : await tx.select({ item_id: itemStockTable.item_id, quantity: itemStockTable.quantity })
+        .from(itemStockTable)
+        .where(and(eq(itemStockTable.location_id, input.location_id), gt(itemStockTable.quantity, '0')))
+        .execute();
+      const stockByItem = new Map(stockRows.map(row => [row.item_id, row.quantity]));
+
+      const counted = input.location_id !== null && input.item_ids === undefined ? items.filter(item => stockByItem.has(item.id)) : items;
+      if (counted.length === 0) {
+        throw new ValidationError('There are no items to count.', 'item_ids');
+      }
+
+      const [stockTake] = await tx.insert(stockTakesTable)
+        .values({ name: input.name, blind: input.blind, location_id: input.location_id, created_by: actorId })
+        .returning()
+        .execute();
+
+      await tx.insert(stockTakeLinesTable)
+        .values(counted.map(item => ({
+          stock_take_id: stockTake.id,
+          item_id: item.id,
+          expected_quantity: input.location_id === null ? item.quantity : stockByItem.get(item.id) ?? '0',
+        })))
+        .execute();
+      return stockTake.id;
+    });
+
+    return await loadStockTake(id, true);
+  } catch (error) {
+    console.error('Stock take creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { suppliersTable } from '../db/schema';
+import { type CreateSupplierInput, type Supplier } from '../schema';
+import { ConflictError, isUniqueViolation } from '../errors';
+
+export const createSupplier = async (input: CreateSupplierInput): Promise<Supplier> => {
+  try {
+    const result = await db.insert(suppliersTable)
+      .values({
+        name: input.name,
+        email: input.email,
+        phone: input.phone,
+        notes: input.notes,
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Supplier creation failed:', error);
+    if (isUniqueViolation(error, 'suppliers_name_unique')) {
+      throw new ConflictError(`A supplier named "${input.name}" already exists.`, 'name');
+    }
+    throw error;
+  }
+};
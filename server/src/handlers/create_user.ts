@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { hashPassword } from '../helpers/auth';
+import { type CreateUserInput, type User } from '../schema';
+import { ConflictError, isUniqueViolation } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createUser = async (input: CreateUserInput): Promise<User> => {
+  try {
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new ConflictError(`Username "${input.username}" is already taken.`, 'username');
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        username: input.username,
+        password_hash: await hashPassword(input.password),
+        role: input.role,
+      })
+      .returning({
+        id: usersTable.id,
+        username: usersTable.username,
+        role: usersTable.role,
+        created_at: usersTable.created_at,
+      })
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('User creation failed:', error);
+    // The check above can lose a race with a concurrent signup for the same name; the constraint catches it
+    if (isUniqueViolation(error, 'users_username_unique')) {
+      throw new ConflictError(`Username "${input.username}" is already taken.`, 'username');
+    }
+    throw error;
+  }
+};
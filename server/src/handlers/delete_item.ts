@@ -1,23 +1,49 @@
-
 import { db } from '../db';
-import { itemsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { itemsTable, loansTable } from '../db/schema';
+import { recordItemAudit } from '../helpers/audit';
+import { publishItemChange } from '../helpers/item_events';
+import { toQuantity } from '../helpers/units';
+import { ConflictError, NotFoundError } from '../errors';
+import { and, eq, isNull, sql } from 'drizzle-orm';
 
-export const deleteItem = async (id: number): Promise<void> => {
+// Moves an item to the trash; it can be brought back with restoreItem or removed for good with purgeItem.
+// `actorId` is the signed-in user making the change, recorded in the audit log.
+export const deleteItem = async (id: number, actorId: number | null = null): Promise<void> => {
   try {
-    // Delete item record by its ID.
-    // Drizzle's delete operation for PostgreSQL returns an object
-    // with 'rowCount' indicating how many rows were affected.
-    const result = await db.delete(itemsTable)
-      .where(eq(itemsTable.id, id))
-      .execute();
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select()
+        .from(itemsTable)
+        .where(and(eq(itemsTable.id, id), isNull(itemsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (!before) {
+        throw new NotFoundError('item', id);
+      }
+      // Stock of trashed items is frozen, so open sales orders could never be fulfilled
+      if (toQuantity(before.reserved) > 0) {
+        throw new ConflictError(`Item with ID ${id} has ${toQuantity(before.reserved)} units reserved for open sales orders; cancel or fulfil them first.`);
+      }
+      // Nor could lent stock be checked back in
+      const [openLoan] = await tx.select({ id: loansTable.id })
+        .from(loansTable)
+        .where(and(eq(loansTable.item_id, id), isNull(loansTable.returned_at)))
+        .limit(1)
+        .execute();
+      if (openLoan) {
+        throw new ConflictError(`Item with ID ${id} is out on loan; check it in first.`);
+      }
+
+      const [after] = await tx.update(itemsTable)
+        .set({ deleted_at: new Date(), version: sql`${itemsTable.version} + 1` })
+        .where(eq(itemsTable.id, id))
+        .returning()
+        .execute();
+
+      await recordItemAudit(tx, actorId, before, after, 'delete');
+    });
 
-    // Although the function returns Promise<void>,
-    // it's good practice to log if no item was found for deletion,
-    // as it might indicate an issue in the calling logic.
-    if (result.rowCount === 0) {
-      console.warn(`Delete operation for item ID ${id} completed, but no item was found.`);
-    }
+    publishItemChange({ type: 'deleted', item_id: id });
   } catch (error) {
     // Log the error with context and re-throw it
     console.error(`Failed to delete item with ID ${id}:`, error);
@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { describeShortages, findShortages, lockKit } from '../helpers/kits';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { roundQuantity } from '../helpers/units';
+import { type Item, type KitAssemblyInput } from '../schema';
+import { KitShortageError } from '../errors';
+
+// Takes kits apart again: the kits leave stock and their components return to it, following the kit's
+// current bill of materials. The returned components are valued at their current cost.
+export const disassembleKit = async (input: KitAssemblyInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    const rows = await db.transaction(async (tx) => {
+      const { kit, components } = await lockKit(tx, input.item_id);
+      return auditStockChange(tx, actorId, [kit.id, ...components.map(component => component.item.id)], async () => {
+        const shortages = await findShortages(tx, [{ item: kit, required: input.quantity }], input.location_id);
+        if (shortages.length > 0) {
+          throw new KitShortageError(
+            `Not enough stock to take apart ${input.quantity} × "${kit.name}": ${describeShortages(shortages)}.`,
+            { item_id: kit.id, location_id: input.location_id, requested: input.quantity },
+            shortages
+          );
+        }
+
+        const disassembled = await applyStockMovement(tx, {
+          item_id: kit.id,
+          location_id: input.location_id,
+          delta: -input.quantity,
+          reason: 'disassembly',
+          note: input.note,
+        });
+        const updated: ItemRow[] = [];
+        for (const component of components) {
+          updated.push(await applyStockMovement(tx, {
+            item_id: component.item.id,
+            location_id: input.location_id,
+            delta: roundQuantity(component.quantity * input.quantity),
+            reason: 'disassembly',
+            note: input.note ?? `Taken out of ${kit.name}`,
+          }));
+        }
+        return [disassembled, ...updated];
+      });
+    });
+
+    const [item, ...components] = await loadItemDetails(rows);
+    for (const changed of [item, ...components]) {
+      publishItemChange({ type: 'updated', item: changed });
+    }
+    return item;
+  } catch (error) {
+    console.error(`Failed to disassemble kit item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
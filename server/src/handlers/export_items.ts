@@ -0,0 +1,91 @@
+import type { ServerResponse } from 'node:http';
+import { once } from 'node:events';
+import type { Writable } from 'node:stream';
+import * as ExcelJS from 'exceljs';
+import { formatCsvRow } from '../helpers/csv';
+import { getItems } from './get_items';
+import { itemSchema, type ExportItemsInput, type Item } from '../schema';
+
+// Anything the export can be written to: the HTTP response in production, a plain stream in tests
+export type ExportTarget = Writable & Pick<ServerResponse, 'setHeader'>;
+
+// Column order follows the API item shape so every format lines up with getItems
+export const EXPORT_COLUMNS = Object.keys(itemSchema.shape) as (keyof Item)[];
+
+const BATCH_SIZE = 100;
+
+const contentTypes: Record<ExportItemsInput['format'], string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Walks every matching item in list order, one page at a time, so memory use stays flat
+async function* matchingItems(input: ExportItemsInput): AsyncGenerator<Item> {
+  const { format, ...filters } = input;
+  let cursor: number | null = null;
+  do {
+    const page = await getItems({ ...filters, cursor, limit: BATCH_SIZE });
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+}
+
+// Flattens a value for a text cell: nested values (the location breakdown) become JSON
+const formatCell = (value: Item[keyof Item]): string => {
+  if (value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Respects backpressure so a slow client doesn't make the whole export pile up in memory
+const writeChunk = async (target: Writable, chunk: string): Promise<void> => {
+  if (!target.write(chunk)) {
+    await once(target, 'drain');
+  }
+};
+
+export const exportItems = async (input: ExportItemsInput, target: ExportTarget): Promise<void> => {
+  try {
+    const filename = `items-${new Date().toISOString().slice(0, 10)}.${input.format}`;
+    target.setHeader('Content-Type', contentTypes[input.format]);
+    target.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (input.format === 'xlsx') {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: target });
+      const worksheet = workbook.addWorksheet('Items');
+      worksheet.addRow(EXPORT_COLUMNS).commit();
+      for await (const item of matchingItems(input)) {
+        // Dates and numbers keep their native cell types; only the location breakdown is flattened
+        worksheet.addRow(EXPORT_COLUMNS.map(column => {
+          const value = item[column];
+          return Array.isArray(value) ? formatCell(value) : value;
+        })).commit();
+      }
+      worksheet.commit();
+      await workbook.commit(); // Also ends the target stream
+      return;
+    }
+
+    if (input.format === 'csv') {
+      await writeChunk(target, formatCsvRow(EXPORT_COLUMNS));
+    }
+    for await (const item of matchingItems(input)) {
+      if (input.format === 'csv') {
+        await writeChunk(target, formatCsvRow(EXPORT_COLUMNS.map(column => formatCell(item[column]))));
+      } else {
+        // Build the object in column order so every line has the same key order
+        const record = Object.fromEntries(EXPORT_COLUMNS.map(column => [column, item[column]]));
+        await writeChunk(target, JSON.stringify(record) + '\n');
+      }
+    }
+    target.end();
+  } catch (error) {
+    console.error('Item export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { salesOrderLinesTable, salesOrdersTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { assertSalesOrderOpen, loadSalesOrder, lockSalesOrder, releaseReservation } from '../helpers/sales_orders';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { toQuantity } from '../helpers/units';
+import { type FulfilSalesOrderInput, type SalesOrder } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Ships an open order: each line's reservation is turned into a sale through the movement ledger.
+// All of it happens in one transaction, so a shortfall at the chosen location ships nothing.
+export const fulfilSalesOrder = async (input: FulfilSalesOrderInput, actorId: number | null = null): Promise<SalesOrder> => {
+  try {
+    const orderId = input.sales_order_id;
+    const issuedRows = await db.transaction(async (tx) => {
+      const order = await lockSalesOrder(tx, orderId);
+      assertSalesOrderOpen(order, 'fulfilled');
+
+      const lines = await tx.select()
+        .from(salesOrderLinesTable)
+        .where(eq(salesOrderLinesTable.sales_order_id, orderId))
+        .orderBy(asc(salesOrderLinesTable.item_id)) // Same lock order as when the stock was reserved
+        .execute();
+
+      const rows = await auditStockChange(tx, actorId, lines.map(line => line.item_id), async () => {
+        const changed: ItemRow[] = [];
+        for (const line of lines) {
+          // Release first, otherwise the movement would be refused for eating into reserved stock
+          await releaseReservation(tx, line.item_id, toQuantity(line.quantity));
+          changed.push(await applyStockMovement(tx, {
+            item_id: line.item_id,
+            location_id: input.location_id,
+            delta: -toQuantity(line.quantity),
+            reason: 'sale',
+            note: `SO #${orderId}`,
+          }));
+        }
+        return changed;
+      });
+
+      await tx.update(salesOrdersTable)
+        .set({ status: 'fulfilled', fulfilled_at: new Date() })
+        .where(eq(salesOrdersTable.id, orderId))
+        .execute();
+      return rows;
+    });
+
+    for (const item of await loadItemDetails(issuedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+    return await loadSalesOrder(orderId);
+  } catch (error) {
+    console.error(`Failed to fulfil sales order with ID ${input.sales_order_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { auditLogTable, usersTable } from '../db/schema';
+import { type AuditLogPage, type GetAuditLogInput } from '../schema';
+import { and, desc, eq, gte, lt, lte, type SQL } from 'drizzle-orm';
+
+export const getAuditLog = async (input: GetAuditLogInput): Promise<AuditLogPage> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.item_id !== undefined) {
+      conditions.push(eq(auditLogTable.item_id, input.item_id));
+    }
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, input.actor_id));
+    }
+    if (input.operation !== undefined) {
+      conditions.push(eq(auditLogTable.operation, input.operation));
+    }
+    if (input.since !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.since));
+    }
+    if (input.until !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.until));
+    }
+    // Entries are append-only, so the ID order is also the chronological order and makes a simple cursor
+    if (input.cursor) {
+      conditions.push(lt(auditLogTable.id, input.cursor));
+    }
+
+    // Fetch one extra row to find out whether another page follows
+    const results = await db.select({
+      id: auditLogTable.id,
+      item_id: auditLogTable.item_id,
+      item_name: auditLogTable.item_name,
+      actor_id: auditLogTable.actor_id,
+      actor_username: usersTable.username,
+      operation: auditLogTable.operation,
+      changes: auditLogTable.changes,
+      created_at: auditLogTable.created_at,
+    })
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.actor_id, usersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const hasMore = results.length > input.limit;
+    const entries = hasMore ? results.slice(0, input.limit) : results;
+
+    return {
+      entries,
+      nextCursor: hasMore ? entries[entries.length - 1].id : null,
+    };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
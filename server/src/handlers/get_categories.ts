@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { type Category } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getCategories = async (): Promise<Category[]> => {
+  try {
+    return await db.select()
+      .from(categoriesTable)
+      .orderBy(asc(categoriesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch categories:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { loadItemDetails } from '../helpers/item_details';
+import { type Item } from '../schema';
+import { desc, isNotNull } from 'drizzle-orm';
+
+export const getDeletedItems = async (): Promise<Item[]> => {
+  try {
+    // Most recently trashed first
+    const results = await db.select()
+      .from(itemsTable)
+      .where(isNotNull(itemsTable.deleted_at))
+      .orderBy(desc(itemsTable.deleted_at), desc(itemsTable.id))
+      .execute();
+
+    return await loadItemDetails(results);
+  } catch (error) {
+    console.error('Failed to fetch deleted items:', error);
+    throw error;
+  }
+};
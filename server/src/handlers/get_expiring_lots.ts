@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { itemsTable, lotsTable } from '../db/schema';
+import { type ExpiringLot, type GetExpiringLotsInput } from '../schema';
+import { toQuantity } from '../helpers/units';
+import { and, asc, eq, gt, isNull, lte, sql } from 'drizzle-orm';
+
+export const getExpiringLots = async (input: GetExpiringLotsInput): Promise<ExpiringLot[]> => {
+  try {
+    // Lots that have run out or belong to trashed items need no attention. Dates are compared in the
+    // database so "today" is the same day for every client.
+    const results = await db.select({
+      lot_id: lotsTable.id,
+      item_id: lotsTable.item_id,
+      item_name: itemsTable.name,
+      lot_number: lotsTable.lot_number,
+      expires_on: sql<string>`${lotsTable.expires_on}`,
+      quantity: lotsTable.quantity,
+      days_left: sql<number>`(${lotsTable.expires_on} - current_date)::int`,
+    })
+      .from(lotsTable)
+      .innerJoin(itemsTable, eq(lotsTable.item_id, itemsTable.id))
+      .where(and(
+        isNull(itemsTable.deleted_at),
+        gt(lotsTable.quantity, '0'),
+        lte(lotsTable.expires_on, sql`current_date + ${input.within_days}::int`)
+      ))
+      // Soonest first, then by item name so the order is stable
+      .orderBy(asc(lotsTable.expires_on), asc(itemsTable.name), asc(lotsTable.lot_number))
+      .execute();
+
+    return results.map(lot => ({ ...lot, quantity: toQuantity(lot.quantity) }));
+  } catch (error) {
+    console.error('Failed to fetch expiring lots:', error);
+    throw error;
+  }
+};
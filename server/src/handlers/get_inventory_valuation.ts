@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { toQuantity } from '../helpers/units';
+import { toUnitCost, UNCOSTED_REASONS, valueStock, type CostedMovement } from '../helpers/valuation';
+import { type GetInventoryValuationInput, type InventoryValuation, type ItemValuation } from '../schema';
+import { and, asc, gt, isNull, lte, notInArray, or } from 'drizzle-orm';
+
+// Values the inventory as it stood at a point in time by replaying the movement ledger up to then.
+// Each item is valued with its current costing method, so switching methods restates past valuations too.
+export const getInventoryValuation = async (input: GetInventoryValuationInput): Promise<InventoryValuation> => {
+  try {
+    const asOf = input.as_of ?? new Date();
+
+    // Items that existed and were not in the trash at the date
+    const items = await db.select({
+      id: itemsTable.id,
+      name: itemsTable.name,
+      sku: itemsTable.sku,
+      costing_method: itemsTable.costing_method,
+    })
+      .from(itemsTable)
+      .where(and(
+        lte(itemsTable.created_at, asOf),
+        or(isNull(itemsTable.deleted_at), gt(itemsTable.deleted_at, asOf))
+      ))
+      .orderBy(asc(itemsTable.name), asc(itemsTable.id))
+      .execute();
+
+    const movements = await db.select({
+      item_id: stockMovementsTable.item_id,
+      delta: stockMovementsTable.delta,
+      unit_cost_cents: stockMovementsTable.unit_cost_cents,
+    })
+      .from(stockMovementsTable)
+      .where(and(lte(stockMovementsTable.created_at, asOf), notInArray(stockMovementsTable.reason, UNCOSTED_REASONS)))
+      .orderBy(asc(stockMovementsTable.created_at), asc(stockMovementsTable.id))
+      .execute();
+
+    const movementsByItem = new Map<number, CostedMovement[]>();
+    for (const { item_id, delta, unit_cost_cents } of movements) {
+      const list = movementsByItem.get(item_id) ?? [];
+      list.push({ delta: toQuantity(delta), unit_cost_cents: toUnitCost(unit_cost_cents) });
+      movementsByItem.set(item_id, list);
+    }
+
+    const valuations: ItemValuation[] = items.map(item => {
+      const { quantity, value_cents } = valueStock(item.costing_method, movementsByItem.get(item.id) ?? []);
+      return {
+        item_id: item.id,
+        name: item.name,
+        sku: item.sku,
+        costing_method: item.costing_method,
+        quantity,
+        value_cents,
+        unit_cost_cents: quantity > 0 ? Math.round(value_cents / quantity) : null,
+      };
+    });
+
+    return {
+      as_of: asOf,
+      items: valuations,
+      total_value_cents: valuations.reduce((total, item) => total + item.value_cents, 0),
+    };
+  } catch (error) {
+    console.error('Failed to value the inventory:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { itemBarcodesTable, itemsTable } from '../db/schema';
+import { loadItemDetail } from '../helpers/item_details';
+import { type Item } from '../schema';
+import { NotFoundError } from '../errors';
+import { and, asc, eq, isNull, or, sql } from 'drizzle-orm';
+
+// Finds the active item behind a scanned code. Shelf labels may carry either a barcode of the item or its SKU
+// (as Code 128), so both are checked. Saving an item keeps its SKU off other items' barcodes and the reverse,
+// but should both ever match, the barcode wins, so the same scan always finds the same item.
+export const getItemByBarcode = async (code: string): Promise<Item> => {
+  try {
+    const trimmed = code.trim();
+    const result = await db.select({ item: itemsTable })
+      .from(itemsTable)
+      .leftJoin(itemBarcodesTable, eq(itemBarcodesTable.item_id, itemsTable.id))
+      .where(and(
+        isNull(itemsTable.deleted_at),
+        or(eq(itemBarcodesTable.code, trimmed), eq(itemsTable.sku, trimmed))
+      ))
+      .orderBy(sql`${itemBarcodesTable.code} is distinct from ${trimmed}`, asc(itemsTable.id)) // Barcode matches first
+      .limit(1)
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError('item', trimmed, `No item found for code "${trimmed}".`, 'code');
+    }
+
+    return await loadItemDetail(result[0].item);
+  } catch (error) {
+    console.error(`Barcode lookup failed for "${code}":`, error);
+    throw error;
+  }
+};
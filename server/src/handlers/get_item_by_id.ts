@@ -1,28 +1,30 @@
 
 import { db } from '../db';
 import { itemsTable } from '../db/schema';
+import { loadItemDetail } from '../helpers/item_details';
 import { type Item } from '../schema';
-import { eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
 
-export const getItemById = async (id: number): Promise<Item | null> => {
+export const getItemById = async (id: number): Promise<Item> => {
     try {
-        // Select an item from the itemsTable where the id matches the input id.
+        // Select an item from the itemsTable where the id matches the input id, skipping items in the trash.
         // We limit the result to 1 since 'id' is a primary key and unique.
         const result = await db.select()
             .from(itemsTable)
-            .where(eq(itemsTable.id, id))
+            .where(and(eq(itemsTable.id, id), isNull(itemsTable.deleted_at)))
             .limit(1)
             .execute();
 
-        // If no item is found (result array is empty), return null.
+        // If no item is found (result array is empty), report it so the API can answer with NOT_FOUND.
         if (result.length === 0) {
-            return null;
+            throw new NotFoundError('item', id);
         }
 
-        // Return the first (and only) item found.
+        // Return the first (and only) item found, with its per-location stock breakdown attached.
         // Drizzle automatically handles the conversion of integer/serial columns to numbers
         // and timestamp columns to Date objects, so no manual parseFloat/toString is needed here.
-        return result[0];
+        return await loadItemDetail(result[0]);
     } catch (error) {
         // Log the error for debugging purposes and rethrow it to be handled by the caller.
         console.error(`Failed to retrieve item with ID ${id}:`, error);
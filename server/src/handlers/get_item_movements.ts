@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { lotsTable, serialUnitsTable, stockMovementsTable } from '../db/schema';
+import { type GetItemMovementsInput, type StockMovement } from '../schema';
+import { toQuantity } from '../helpers/units';
+import { toUnitCost } from '../helpers/valuation';
+import { desc, eq, getTableColumns } from 'drizzle-orm';
+
+export const getItemMovements = async (input: GetItemMovementsInput): Promise<StockMovement[]> => {
+  try {
+    // Most recent movements first; the ID breaks ties between movements recorded in the same instant
+    const movements = await db.select({
+      ...getTableColumns(stockMovementsTable),
+      lot_number: lotsTable.lot_number,
+      serial_number: serialUnitsTable.serial_number,
+    })
+      .from(stockMovementsTable)
+      .leftJoin(lotsTable, eq(stockMovementsTable.lot_id, lotsTable.id))
+      .leftJoin(serialUnitsTable, eq(stockMovementsTable.serial_unit_id, serialUnitsTable.id))
+      .where(eq(stockMovementsTable.item_id, input.item_id))
+      .orderBy(desc(stockMovementsTable.created_at), desc(stockMovementsTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return movements.map(movement => ({ ...movement, delta: toQuantity(movement.delta), unit_cost_cents: toUnitCost(movement.unit_cost_cents) }));
+  } catch (error) {
+    console.error(`Failed to fetch stock movements for item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
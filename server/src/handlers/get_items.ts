@@ -1,8 +1,102 @@
+import { db } from '../db';
+import { itemsTable, itemStockTable, itemTagsTable, tagsTable } from '../db/schema';
+import { categoryWithDescendants } from '../helpers/categories';
+import { loadItemDetails } from '../helpers/item_details';
+import { type GetItemsInput, type ItemPage } from '../schema';
+import { ValidationError } from '../errors';
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNull, lte, sql, type SQL } from 'drizzle-orm';
 
-import { type Item } from '../schema';
+// Backslash is Postgres' default LIKE escape, so "50%" and "a_b" match only themselves
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, (char) => `\\${char}`);
 
-export const getItems = async (): Promise<Item[]> => {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all items from the database.
-    return Promise.resolve([]); // Return an empty array as a placeholder
+export const getItems = async (input: GetItemsInput): Promise<ItemPage> => {
+  try {
+    const sortColumn = {
+      name: itemsTable.name,
+      quantity: itemsTable.quantity,
+      created_at: itemsTable.created_at,
+    }[input.sortBy];
+    const isDescending = input.sortOrder === 'desc';
+
+    // Build conditions array; items in the trash are only listed by getDeletedItems
+    const conditions: SQL<unknown>[] = [isNull(itemsTable.deleted_at)];
+
+    if (input.name) {
+      conditions.push(ilike(itemsTable.name, `%${escapeLikePattern(input.name)}%`));
+    }
+    if (input.minQuantity !== undefined) {
+      conditions.push(gte(itemsTable.quantity, String(input.minQuantity)));
+    }
+    if (input.maxQuantity !== undefined) {
+      conditions.push(lte(itemsTable.quantity, String(input.maxQuantity)));
+    }
+    if (input.locationId !== undefined) {
+      conditions.push(inArray(
+        itemsTable.id,
+        db.select({ item_id: itemStockTable.item_id })
+          .from(itemStockTable)
+          .where(and(eq(itemStockTable.location_id, input.locationId), gt(itemStockTable.quantity, '0')))
+      ));
+    }
+
+    if (input.categoryId !== undefined) {
+      conditions.push(inArray(itemsTable.category_id, categoryWithDescendants(input.categoryId)));
+    }
+    if (input.tags && input.tags.length > 0) {
+      // An item matches when it carries every requested tag
+      const tags = [...new Set(input.tags)];
+      conditions.push(inArray(
+        itemsTable.id,
+        db.select({ item_id: itemTagsTable.item_id })
+          .from(itemTagsTable)
+          .innerJoin(tagsTable, eq(itemTagsTable.tag_id, tagsTable.id))
+          .where(inArray(tagsTable.name, tags))
+          .groupBy(itemTagsTable.item_id)
+          .having(sql`count(*) = ${tags.length}`)
+      ));
+    }
+
+    // Keyset pagination: continue strictly after the cursor item in the current sort order.
+    // The item ID is used as a tie-breaker so that rows sharing the same sort value are neither skipped nor repeated.
+    // The cursor's sort value is read in SQL rather than passed back in: a JS Date only keeps milliseconds,
+    // so comparing against the round-tripped created_at would skip or repeat rows stored with microseconds.
+    if (input.cursor) {
+      const cursorResult = await db.select({ id: itemsTable.id })
+        .from(itemsTable)
+        .where(eq(itemsTable.id, input.cursor))
+        .execute();
+
+      if (cursorResult.length === 0) {
+        throw new ValidationError(`Cursor item with ID ${input.cursor} not found.`, 'cursor');
+      }
+
+      const cursorRow = db.select({ sort_value: sortColumn, id: itemsTable.id })
+        .from(itemsTable)
+        .where(eq(itemsTable.id, input.cursor));
+      conditions.push(isDescending
+        ? sql`(${sortColumn}, ${itemsTable.id}) < ${cursorRow}`
+        : sql`(${sortColumn}, ${itemsTable.id}) > ${cursorRow}`);
+    }
+
+    const order = isDescending ? desc : asc;
+
+    // Fetch one extra row to find out whether another page follows
+    const results = await db.select()
+      .from(itemsTable)
+      .where(and(...conditions))
+      .orderBy(order(sortColumn), order(itemsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const hasMore = results.length > input.limit;
+    const rows = hasMore ? results.slice(0, input.limit) : results;
+
+    return {
+      items: await loadItemDetails(rows),
+      nextCursor: hasMore ? rows[rows.length - 1].id : null,
+    };
+  } catch (error) {
+    console.error('Failed to fetch items:', error);
+    throw error;
+  }
 };
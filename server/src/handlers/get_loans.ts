@@ -0,0 +1,26 @@
+import { loansTable } from '../db/schema';
+import { loadLoans } from '../helpers/loans';
+import { type GetLoansInput, type Loan } from '../schema';
+import { and, eq, isNotNull, isNull, lt, sql, type SQL } from 'drizzle-orm';
+
+export const getLoans = async (input: GetLoansInput): Promise<Loan[]> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.status === 'open') {
+      conditions.push(isNull(loansTable.returned_at));
+    } else if (input.status === 'overdue') {
+      // Compared in the database so "today" is the same day for every client
+      conditions.push(isNull(loansTable.returned_at), lt(loansTable.due_on, sql`current_date`));
+    } else if (input.status === 'returned') {
+      conditions.push(isNotNull(loansTable.returned_at));
+    }
+    if (input.item_id !== undefined) {
+      conditions.push(eq(loansTable.item_id, input.item_id));
+    }
+
+    return await loadLoans(conditions.length > 0 ? and(...conditions) : undefined);
+  } catch (error) {
+    console.error('Failed to fetch loans:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { locationsTable } from '../db/schema';
+import { type Location } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getLocations = async (): Promise<Location[]> => {
+  try {
+    return await db.select()
+      .from(locationsTable)
+      .orderBy(asc(locationsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch locations:', error);
+    throw error;
+  }
+};
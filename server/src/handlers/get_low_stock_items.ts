@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { loadItemDetails } from '../helpers/item_details';
+import { type Item } from '../schema';
+import { and, asc, desc, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+
+export const getLowStockItems = async (): Promise<Item[]> => {
+  try {
+    // Items without a reorder point never trigger an alert. Reserved stock is already spoken for,
+    // so the threshold is compared with what is still available.
+    const available = sql`${itemsTable.quantity} - ${itemsTable.reserved}`;
+    const results = await db.select()
+      .from(itemsTable)
+      .where(and(
+        isNull(itemsTable.deleted_at),
+        isNotNull(itemsTable.reorder_point),
+        lte(available, itemsTable.reorder_point)
+      ))
+      // Largest shortfall first, then alphabetically so the order is stable
+      .orderBy(desc(sql`${itemsTable.reorder_point} - ${available}`), asc(itemsTable.name))
+      .execute();
+
+    return await loadItemDetails(results);
+  } catch (error) {
+    console.error('Failed to fetch low stock items:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { loadPurchaseOrder } from '../helpers/purchase_orders';
+import { type PurchaseOrder } from '../schema';
+
+export const getPurchaseOrderById = async (id: number): Promise<PurchaseOrder> => {
+  try {
+    return await loadPurchaseOrder(id);
+  } catch (error) {
+    console.error(`Failed to fetch purchase order with ID ${id}:`, error);
+    throw error;
+  }
+};
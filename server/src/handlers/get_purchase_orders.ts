@@ -0,0 +1,24 @@
+import { purchaseOrdersTable } from '../db/schema';
+import { selectPurchaseOrderSummaries } from '../helpers/purchase_orders';
+import { type GetPurchaseOrdersInput, type PurchaseOrderSummary } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+export const getPurchaseOrders = async (input: GetPurchaseOrdersInput): Promise<PurchaseOrderSummary[]> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.status !== undefined) {
+      conditions.push(eq(purchaseOrdersTable.status, input.status));
+    }
+    if (input.supplier_id !== undefined) {
+      conditions.push(eq(purchaseOrdersTable.supplier_id, input.supplier_id));
+    }
+
+    return await selectPurchaseOrderSummaries()
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrdersTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch purchase orders:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { loadSalesOrder } from '../helpers/sales_orders';
+import { type SalesOrder } from '../schema';
+
+export const getSalesOrderById = async (id: number): Promise<SalesOrder> => {
+  try {
+    return await loadSalesOrder(id);
+  } catch (error) {
+    console.error(`Failed to fetch sales order with ID ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { salesOrdersTable } from '../db/schema';
+import { loadSalesOrder } from '../helpers/sales_orders';
+import { type GetSalesOrdersInput, type SalesOrder } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const getSalesOrders = async (input: GetSalesOrdersInput): Promise<SalesOrder[]> => {
+  try {
+    const orders = await db.select({ id: salesOrdersTable.id })
+      .from(salesOrdersTable)
+      .where(input.status === undefined ? undefined : eq(salesOrdersTable.status, input.status))
+      .orderBy(desc(salesOrdersTable.id))
+      .execute();
+
+    return await Promise.all(orders.map(order => loadSalesOrder(order.id)));
+  } catch (error) {
+    console.error('Failed to fetch sales orders:', error);
+    throw error;
+  }
+};
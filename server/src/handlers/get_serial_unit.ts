@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { itemsTable, serialUnitsTable } from '../db/schema';
+import { loadItemDetail } from '../helpers/item_details';
+import { type SerialUnitLookup } from '../schema';
+import { NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// Finds a unit by its serial number. Serial numbers are unique across all items and are never reused,
+// so retired units and units of trashed items are found too.
+export const getSerialUnit = async (serialNumber: string): Promise<SerialUnitLookup> => {
+  try {
+    const trimmed = serialNumber.trim();
+    const result = await db.select({ unit: serialUnitsTable, item: itemsTable })
+      .from(serialUnitsTable)
+      .innerJoin(itemsTable, eq(serialUnitsTable.item_id, itemsTable.id))
+      .where(eq(serialUnitsTable.serial_number, trimmed))
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError('serial unit', trimmed, `No unit found with serial number "${trimmed}".`, 'serial_number');
+    }
+
+    return { unit: result[0].unit, item: await loadItemDetail(result[0].item) };
+  } catch (error) {
+    console.error(`Serial number lookup failed for "${serialNumber}":`, error);
+    throw error;
+  }
+};
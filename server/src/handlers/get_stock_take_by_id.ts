@@ -0,0 +1,12 @@
+import { loadStockTake } from '../helpers/stock_takes';
+import { type StockTake } from '../schema';
+
+// `revealExpected` is false for counters, who don't see the expected quantities of blind counts
+export const getStockTakeById = async (id: number, revealExpected = true): Promise<StockTake> => {
+  try {
+    return await loadStockTake(id, revealExpected);
+  } catch (error) {
+    console.error(`Failed to fetch stock take with ID ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { stockTakesTable } from '../db/schema';
+import { loadStockTake } from '../helpers/stock_takes';
+import { type GetStockTakesInput, type StockTake } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+// `revealExpected` is false for counters, who don't see the expected quantities of blind counts
+export const getStockTakes = async (input: GetStockTakesInput, revealExpected = true): Promise<StockTake[]> => {
+  try {
+    const stockTakes = await db.select({ id: stockTakesTable.id })
+      .from(stockTakesTable)
+      .where(input.status === undefined ? undefined : eq(stockTakesTable.status, input.status))
+      .orderBy(desc(stockTakesTable.id))
+      .execute();
+
+    return await Promise.all(stockTakes.map(stockTake => loadStockTake(stockTake.id, revealExpected)));
+  } catch (error) {
+    console.error('Failed to fetch stock takes:', error);
+    throw error;
+  }
+};
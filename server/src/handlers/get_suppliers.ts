@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { suppliersTable } from '../db/schema';
+import { type Supplier } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getSuppliers = async (): Promise<Supplier[]> => {
+  try {
+    return await db.select()
+      .from(suppliersTable)
+      .orderBy(asc(suppliersTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch suppliers:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type Tag } from '../schema';
+import { asc } from 'drizzle-orm';
+
+// Every tag in use so far, for suggestions when tagging items
+export const getTags = async (): Promise<Tag[]> => {
+  try {
+    return await db.select({ id: tagsTable.id, name: tagsTable.name })
+      .from(tagsTable)
+      .orderBy(asc(tagsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch tags:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,268 @@
+import { db } from '../db';
+import { itemsTable, itemStockTable, type Item as ItemRow } from '../db/schema';
+import { recordItemAudit } from '../helpers/audit';
+import { parseCsv } from '../helpers/csv';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { roundQuantity, toQuantity } from '../helpers/units';
+import { createItemInputSchema, type CreateItemInput, type ImportItemsCsvInput, type ImportReport, type ImportRowResult } from '../schema';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+// Columns accepted in the header row; only `name` is mandatory
+const IMPORT_COLUMNS = ['name', 'description', 'quantity', 'reorder_point', 'reorder_quantity'] as const;
+type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+const MAX_ROWS = 5000;
+
+interface ExistingItem {
+  id: number;
+  quantity: number;
+  assigned: number; // Stock held at locations, which an imported quantity cannot go below
+  reserved: number; // Nor can it go below what is reserved for sales orders
+  serialized: boolean; // Serialized items take their quantity from their units instead
+}
+
+interface ValidRow {
+  item: CreateItemInput;
+  existing: ExistingItem | null;
+}
+
+// Blank numeric cells mean "not provided"; non-numeric text is passed through so Zod reports it
+const toNumber = (value: string): number | string | undefined => {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return undefined;
+  }
+  const parsed = Number(trimmed);
+  return Number.isNaN(parsed) ? trimmed : parsed;
+};
+
+// `actorId` is the signed-in user running the import, recorded in the audit log
+export const importItemsCsv = async (input: ImportItemsCsvInput, actorId: number | null = null): Promise<ImportReport> => {
+  try {
+    const report: ImportReport = {
+      dryRun: input.dryRun,
+      mode: input.mode,
+      committed: false,
+      errors: [],
+      created: 0,
+      updated: 0,
+      failed: 0,
+      rows: [],
+    };
+
+    let lines: string[][];
+    try {
+      lines = parseCsv(input.csv);
+    } catch (error) {
+      report.errors.push(error instanceof Error ? error.message : String(error));
+      return report;
+    }
+
+    // Validate the header row
+    const header = (lines[0] ?? []).map(column => column.trim().toLowerCase());
+    const unknownColumns = header.filter(column => !(IMPORT_COLUMNS as readonly string[]).includes(column));
+    if (unknownColumns.length > 0) {
+      report.errors.push(`Unknown column(s): ${unknownColumns.join(', ')}. Allowed columns: ${IMPORT_COLUMNS.join(', ')}.`);
+    }
+    if (new Set(header).size !== header.length) {
+      report.errors.push('Header contains duplicate columns.');
+    }
+    if (!header.includes('name')) {
+      report.errors.push('Header must contain a "name" column.');
+    }
+
+    // Keep the 1-based record number of every non-blank data row for the report
+    const dataLines = lines
+      .map((fields, index) => ({ fields, line: index + 1 }))
+      .slice(1)
+      .filter(({ fields }) => !(fields.length === 1 && fields[0].trim() === ''));
+
+    if (dataLines.length === 0) {
+      report.errors.push('CSV contains no data rows.');
+    }
+    if (dataLines.length > MAX_ROWS) {
+      report.errors.push(`CSV contains ${dataLines.length} rows; at most ${MAX_ROWS} can be imported at once.`);
+    }
+    if (report.errors.length > 0) {
+      return report;
+    }
+
+    const columns = new Set(header as ImportColumn[]);
+
+    // Look up active items that already use one of the imported names, with the stock they hold at locations.
+    // Names of trashed items are free to reuse.
+    const names = [...new Set(dataLines.map(({ fields }) => (fields[header.indexOf('name')] ?? '').trim()).filter(name => name !== ''))];
+    const existingRows = names.length === 0 ? [] : await db.select({
+      id: itemsTable.id,
+      name: itemsTable.name,
+      quantity: itemsTable.quantity,
+      reserved: itemsTable.reserved,
+      serialized: itemsTable.serialized,
+      assigned: sql<string>`(select coalesce(sum(${itemStockTable.quantity}), 0) from ${itemStockTable} where ${itemStockTable.item_id} = ${itemsTable.id})`,
+    })
+      .from(itemsTable)
+      .where(and(inArray(itemsTable.name, names), isNull(itemsTable.deleted_at)))
+      .execute();
+    const existingByName = new Map<string, ExistingItem>(existingRows.map(({ name, quantity, reserved, assigned, ...item }) => [
+      name,
+      { ...item, quantity: toQuantity(quantity), reserved: toQuantity(reserved), assigned: toQuantity(assigned) },
+    ]));
+
+    const firstLineByName = new Map<string, number>();
+    const validRows: ValidRow[] = [];
+
+    for (const { fields, line } of dataLines) {
+      const errors: string[] = [];
+      const raw = Object.fromEntries(header.map((column, index) => [column, fields[index] ?? ''])) as Record<ImportColumn, string>;
+      const name = raw.name.trim();
+
+      if (fields.length !== header.length) {
+        errors.push(`Expected ${header.length} fields but found ${fields.length}.`);
+      }
+
+      // Build the same shape the createItem procedure receives and let its schema do the validation
+      const candidate = {
+        name,
+        description: columns.has('description') && raw.description.trim() !== '' ? raw.description : null,
+        quantity: columns.has('quantity') ? toNumber(raw.quantity) : undefined,
+        reorder_point: columns.has('reorder_point') ? toNumber(raw.reorder_point) ?? null : null,
+        reorder_quantity: columns.has('reorder_quantity') ? toNumber(raw.reorder_quantity) ?? null : null,
+      };
+      const parsed = createItemInputSchema.safeParse(candidate);
+      if (!parsed.success) {
+        errors.push(...parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+      }
+
+      // Names are unique in itemsTable, so catch clashes within the file and with existing items up front
+      const firstLine = firstLineByName.get(name);
+      if (name !== '' && firstLine !== undefined) {
+        errors.push(`Duplicate name "${name}" (first used on row ${firstLine}).`);
+      } else if (name !== '') {
+        firstLineByName.set(name, line);
+      }
+
+      const existing = existingByName.get(name) ?? null;
+      if (existing && input.mode === 'create') {
+        errors.push(`An item named "${name}" already exists.`);
+      }
+      if (existing && parsed.success && columns.has('quantity') && existing.serialized && parsed.data.quantity !== existing.quantity) {
+        errors.push(`quantity: "${name}" is serialized; its quantity follows its serial numbers.`);
+      } else if (existing && parsed.success && columns.has('quantity') && parsed.data.quantity < existing.assigned) {
+        errors.push(`quantity: ${existing.assigned} units are held at locations, cannot set quantity to ${parsed.data.quantity}.`);
+      } else if (existing && parsed.success && columns.has('quantity') && parsed.data.quantity < existing.reserved) {
+        errors.push(`quantity: ${existing.reserved} units are reserved for sales orders, cannot set quantity to ${parsed.data.quantity}.`);
+      }
+
+      const result: ImportRowResult = {
+        row: line,
+        name: name === '' ? null : name,
+        action: errors.length > 0 ? 'error' : existing ? 'update' : 'create',
+        errors,
+      };
+      report.rows.push(result);
+
+      if (errors.length === 0 && parsed.success) {
+        validRows.push({ item: parsed.data, existing });
+      }
+    }
+
+    report.created = report.rows.filter(row => row.action === 'create').length;
+    report.updated = report.rows.filter(row => row.action === 'update').length;
+    report.failed = report.rows.filter(row => row.action === 'error').length;
+
+    // The import is all-or-nothing: any invalid row means nothing is written
+    if (input.dryRun || report.failed > 0) {
+      return report;
+    }
+
+    // Final state of every imported row, so subscribers can be told once the import has committed
+    const createdRows: ItemRow[] = [];
+    const updatedRows: ItemRow[] = [];
+
+    await db.transaction(async (tx) => {
+      for (const { item, existing } of validRows) {
+        if (existing === null) {
+          const [created] = await tx.insert(itemsTable)
+            .values({
+              name: item.name,
+              description: item.description,
+              quantity: '0', // The opening quantity is added below through the movement ledger
+              reorder_point: item.reorder_point,
+              reorder_quantity: item.reorder_quantity,
+            })
+            .returning()
+            .execute();
+
+          let stocked = created;
+          if (item.quantity > 0) {
+            stocked = await applyStockMovement(tx, {
+              item_id: created.id,
+              location_id: null,
+              delta: item.quantity,
+              reason: 'adjustment',
+              note: 'Initial quantity (CSV import)',
+            });
+          }
+          await recordItemAudit(tx, actorId, null, stocked);
+          createdRows.push(stocked);
+          continue;
+        }
+
+        // Lock the row first so the audit entry and the recorded adjustment compare against exact values
+        const [before] = await tx.select()
+          .from(itemsTable)
+          .where(eq(itemsTable.id, existing.id))
+          .for('update')
+          .execute();
+        let after = before;
+
+        // Upsert: only overwrite the columns present in the file
+        const updateFields: Partial<typeof itemsTable.$inferInsert> = {};
+        if (columns.has('description')) {
+          updateFields.description = item.description;
+        }
+        if (columns.has('reorder_point')) {
+          updateFields.reorder_point = item.reorder_point;
+        }
+        if (columns.has('reorder_quantity')) {
+          updateFields.reorder_quantity = item.reorder_quantity;
+        }
+        if (Object.keys(updateFields).length > 0) {
+          [after] = await tx.update(itemsTable)
+            .set({ ...updateFields, version: sql`${itemsTable.version} + 1` })
+            .where(eq(itemsTable.id, existing.id))
+            .returning()
+            .execute();
+        }
+
+        if (columns.has('quantity') && item.quantity !== toQuantity(after.quantity)) {
+          after = await applyStockMovement(tx, {
+            item_id: existing.id,
+            location_id: null,
+            delta: roundQuantity(item.quantity - toQuantity(after.quantity)),
+            reason: 'adjustment',
+            note: 'CSV import',
+          });
+        }
+
+        await recordItemAudit(tx, actorId, before, after);
+        updatedRows.push(after);
+      }
+    });
+
+    for (const item of await loadItemDetails(createdRows)) {
+      publishItemChange({ type: 'created', item });
+    }
+    for (const item of await loadItemDetails(updatedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+
+    report.committed = true;
+    return report;
+  } catch (error) {
+    console.error('CSV import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { auditStockChange } from '../helpers/audit';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { toBaseQuantity } from '../helpers/units';
+import { type IssueStockInput, type Item } from '../schema';
+
+export const issueStock = async (input: IssueStockInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    // Record the issue as a negative movement in the base unit; the helper refuses to take the quantity below zero
+    const row = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], async () => {
+      const { quantity } = await toBaseQuantity(tx, input.item_id, input.quantity, input.unit);
+      return applyStockMovement(tx, {
+        item_id: input.item_id,
+        location_id: input.location_id,
+        delta: -quantity,
+        reason: input.reason,
+        note: input.note,
+      });
+    }));
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to issue stock for item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { generateSessionToken, hashPassword, hashSessionToken, SESSION_TTL_MS, verifyPassword } from '../helpers/auth';
+import { type LoginInput, type User } from '../schema';
+import { AuthenticationError } from '../errors';
+import { and, eq, lte } from 'drizzle-orm';
+
+export interface LoginResult {
+  user: User;
+  token: string; // Sent to the browser as the session cookie, never stored in plain form
+  expires_at: Date;
+}
+
+// Unknown usernames are checked against a throwaway hash so both failures take the same time
+const dummyPasswordHash = hashPassword('not-a-real-password');
+
+export const login = async (input: LoginInput): Promise<LoginResult> => {
+  try {
+    const results = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+    const user = results[0];
+
+    const isValid = await verifyPassword(input.password, user?.password_hash ?? await dummyPasswordHash);
+    if (!user || !isValid) {
+      throw new AuthenticationError('Invalid username or password.');
+    }
+
+    // Drop this user's expired sessions while we're here
+    await db.delete(sessionsTable)
+      .where(and(eq(sessionsTable.user_id, user.id), lte(sessionsTable.expires_at, new Date())))
+      .execute();
+
+    const token = generateSessionToken();
+    const expires_at = new Date(Date.now() + SESSION_TTL_MS);
+    await db.insert(sessionsTable)
+      .values({ token_hash: hashSessionToken(token), user_id: user.id, expires_at })
+      .execute();
+
+    return {
+      user: { id: user.id, username: user.username, role: user.role, created_at: user.created_at },
+      token,
+      expires_at,
+    };
+  } catch (error) {
+    // Mistyped passwords are routine; only unexpected failures are worth a stack trace
+    if (!(error instanceof AuthenticationError)) {
+      console.error('Login failed:', error);
+    }
+    throw error;
+  }
+};
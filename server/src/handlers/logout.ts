@@ -0,0 +1,15 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+export const logout = async (token: string): Promise<void> => {
+  try {
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .execute();
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,103 @@
+import { finished } from 'node:stream/promises';
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js/node';
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { loadItemDetails } from '../helpers/item_details';
+import { labelPosition, labelTemplates } from '../helpers/label_templates';
+import { type Item, type PrintLabelsInput } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { type ExportTarget } from './export_items';
+import { and, inArray, isNull } from 'drizzle-orm';
+
+const PADDING = 4;
+
+interface LabelContent {
+  item: Item;
+  barcode: Buffer | null;
+  qrCode: Buffer;
+}
+
+// The printed barcode encodes the SKU, so scanning it finds the item; items without one fall back to their first barcode
+const labelCode = (item: Item): string | null => item.sku ?? item.barcodes[0]?.code ?? null;
+
+// QR codes open the item in the web app
+export const itemUrl = (appUrl: string, itemId: number): string => `${appUrl.replace(/\/+$/, '')}/?item=${itemId}`;
+
+// Renders one label per requested ID (repeats print repeated labels) as a PDF sheet.
+// `appUrl` is where the web app is served, for the QR code links.
+export const printLabels = async (input: PrintLabelsInput, appUrl: string, target: ExportTarget): Promise<void> => {
+  try {
+    const layout = labelTemplates[input.template];
+    const perSheet = layout.columns * layout.rows;
+    if (input.skip >= perSheet) {
+      throw new ValidationError(`${layout.name} sheets have ${perSheet} labels, so at most ${perSheet - 1} can be skipped.`, 'skip');
+    }
+
+    const rows = await db.select()
+      .from(itemsTable)
+      .where(and(inArray(itemsTable.id, input.itemIds), isNull(itemsTable.deleted_at)))
+      .execute();
+    const itemsById = new Map<number, Item>((await loadItemDetails(rows)).map(item => [item.id, item]));
+    const missingId = input.itemIds.find(id => !itemsById.has(id));
+    if (missingId !== undefined) {
+      throw new NotFoundError('item', missingId, undefined, 'itemIds');
+    }
+
+    // Render every image up front so a failure is reported before any of the PDF is sent
+    const labels: LabelContent[] = [];
+    for (const id of input.itemIds) {
+      const item = itemsById.get(id)!;
+      const code = labelCode(item);
+      labels.push({
+        item,
+        barcode: code === null ? null : await bwipjs.toBuffer({ bcid: 'code128', text: code, scale: 3, height: 10 }),
+        qrCode: await bwipjs.toBuffer({ bcid: 'qrcode', text: itemUrl(appUrl, item.id), scale: 4 }),
+      });
+    }
+
+    target.setHeader('Content-Type', 'application/pdf');
+    target.setHeader('Content-Disposition', `inline; filename="labels-${input.template}.pdf"`);
+
+    const doc = new PDFDocument({ size: layout.pageSize, margin: 0, autoFirstPage: false });
+    doc.pipe(target);
+
+    labels.forEach(({ item, barcode, qrCode }, index) => {
+      const position = (input.skip + index) % perSheet;
+      if (index === 0 || position === 0) {
+        doc.addPage();
+      }
+      const { x, y } = labelPosition(layout, position);
+
+      // QR code on the right, as tall as the label allows; text and barcode fill the rest
+      const qrSize = layout.labelHeight - 2 * PADDING;
+      doc.image(qrCode, x + layout.labelWidth - PADDING - qrSize, y + PADDING, { fit: [qrSize, qrSize] });
+
+      const textX = x + PADDING;
+      const textWidth = layout.labelWidth - qrSize - 3 * PADDING;
+      let cursorY = y + PADDING;
+
+      doc.font('Helvetica-Bold').fontSize(layout.fontSize);
+      const nameHeight = Math.min(doc.heightOfString(item.name, { width: textWidth }), doc.currentLineHeight(true) * 2);
+      doc.text(item.name, textX, cursorY, { width: textWidth, height: nameHeight, ellipsis: true });
+      cursorY += nameHeight;
+
+      if (item.sku !== null) {
+        doc.font('Helvetica').fontSize(layout.fontSize - 1);
+        doc.text(`SKU ${item.sku}`, textX, cursorY, { width: textWidth, lineBreak: false, ellipsis: true });
+        cursorY += doc.currentLineHeight(true);
+      }
+
+      const barcodeHeight = y + layout.labelHeight - PADDING - cursorY;
+      if (barcode !== null && barcodeHeight > 0) {
+        doc.image(barcode, textX, cursorY + 1, { fit: [textWidth, barcodeHeight - 1], valign: 'bottom' });
+      }
+    });
+
+    doc.end();
+    await finished(target);
+  } catch (error) {
+    console.error('Label printing failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { itemsTable, kitComponentsTable, purchaseOrderLinesTable, salesOrderLinesTable } from '../db/schema';
+import { recordItemAudit } from '../helpers/audit';
+import { ConflictError, NotFoundError } from '../errors';
+import { and, eq, isNotNull } from 'drizzle-orm';
+
+// Permanently deletes an item that is already in the trash, together with its stock and movement history.
+// The audit log keeps its entries, including the final state of the purged row. Items on purchase or sales orders
+// cannot be purged, and neither can components of kits.
+export const purgeItem = async (id: number, actorId: number | null = null): Promise<void> => {
+  try {
+    await db.transaction(async (tx) => {
+      // Orders keep referring to what was ordered, so those items stay in the trash
+      const orderLines = await tx.select({ id: purchaseOrderLinesTable.id })
+        .from(purchaseOrderLinesTable)
+        .where(eq(purchaseOrderLinesTable.item_id, id))
+        .limit(1)
+        .execute();
+      if (orderLines.length > 0) {
+        throw new ConflictError(`Item with ID ${id} is on purchase orders and cannot be purged.`);
+      }
+      const salesLines = await tx.select({ id: salesOrderLinesTable.id })
+        .from(salesOrderLinesTable)
+        .where(eq(salesOrderLinesTable.item_id, id))
+        .limit(1)
+        .execute();
+      if (salesLines.length > 0) {
+        throw new ConflictError(`Item with ID ${id} is on sales orders and cannot be purged.`);
+      }
+      // Kits made from the item could no longer be taken apart
+      const kitLines = await tx.select({ id: kitComponentsTable.id })
+        .from(kitComponentsTable)
+        .where(eq(kitComponentsTable.component_item_id, id))
+        .limit(1)
+        .execute();
+      if (kitLines.length > 0) {
+        throw new ConflictError(`Item with ID ${id} is a component of kits and cannot be purged.`);
+      }
+
+      const result = await tx.delete(itemsTable)
+        .where(and(eq(itemsTable.id, id), isNotNull(itemsTable.deleted_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new NotFoundError('item', id, `Item with ID ${id} not found in the trash.`);
+      }
+
+      await recordItemAudit(tx, actorId, result[0], null, 'purge');
+    });
+  } catch (error) {
+    console.error(`Failed to purge item with ID ${id}:`, error);
+    throw error;
+  }
+};
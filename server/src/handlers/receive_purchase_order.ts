@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { purchaseOrderLinesTable, purchaseOrdersTable, type Item as ItemRow } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetails } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { assertPurchaseOrderStatus, loadPurchaseOrder, lockPurchaseOrder } from '../helpers/purchase_orders';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { fromQuantity, roundQuantity, toBaseQuantity, toQuantity } from '../helpers/units';
+import { toUnitCost } from '../helpers/valuation';
+import { type PurchaseOrder, type ReceivePurchaseOrderInput } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { eq, sql } from 'drizzle-orm';
+
+// Books a delivery against a sent order: every received line adds stock through the movement ledger,
+// and the order becomes received once nothing is outstanding. All of it happens in one transaction.
+// Quantities received in another unit are converted to the base unit the lines are kept in.
+export const receivePurchaseOrder = async (input: ReceivePurchaseOrderInput, actorId: number | null = null): Promise<PurchaseOrder> => {
+  try {
+    const orderId = input.purchase_order_id;
+    const stockedRows = await db.transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, orderId);
+      assertPurchaseOrderStatus(order, ['sent', 'partially_received'], 'received');
+
+      const lines = await tx.select()
+        .from(purchaseOrderLinesTable)
+        .where(eq(purchaseOrderLinesTable.purchase_order_id, orderId))
+        .execute();
+      const linesById = new Map(lines.map(line => [line.id, line]));
+
+      const rows = await auditStockChange(tx, actorId, lines.map(line => line.item_id), async () => {
+        const changed: ItemRow[] = [];
+        for (const received of input.lines) {
+          const line = linesById.get(received.line_id);
+          if (!line) {
+            throw new NotFoundError('purchase order line', received.line_id, `Line ${received.line_id} is not on purchase order #${orderId}.`, 'lines');
+          }
+          const outstanding = roundQuantity(toQuantity(line.quantity_ordered) - toQuantity(line.quantity_received));
+          const { quantity } = await toBaseQuantity(tx, line.item_id, received.quantity, received.unit);
+          if (quantity > outstanding) {
+            throw new ValidationError(
+              `Only ${outstanding} of item ID ${line.item_id} ${outstanding === 1 ? 'is' : 'are'} outstanding on purchase order #${orderId}, cannot receive ${quantity}.`,
+              'lines'
+            );
+          }
+
+          await tx.update(purchaseOrderLinesTable)
+            .set({ quantity_received: sql`${purchaseOrderLinesTable.quantity_received} + ${quantity}` })
+            .where(eq(purchaseOrderLinesTable.id, line.id))
+            .execute();
+          line.quantity_received = fromQuantity(toQuantity(line.quantity_received) + quantity);
+
+          changed.push(await applyStockMovement(tx, {
+            item_id: line.item_id,
+            location_id: input.location_id,
+            delta: quantity,
+            reason: 'receipt',
+            note: input.note ? `PO #${orderId}: ${input.note}` : `PO #${orderId}`,
+            unit_cost_cents: toUnitCost(line.unit_cost_cents),
+            lot: received.lot_number === undefined ? null : { lot_number: received.lot_number, expires_on: received.expires_on },
+          }));
+        }
+        return changed;
+      });
+
+      const complete = lines.every(line => toQuantity(line.quantity_received) >= toQuantity(line.quantity_ordered));
+      await tx.update(purchaseOrdersTable)
+        .set({ status: complete ? 'received' : 'partially_received' })
+        .where(eq(purchaseOrdersTable.id, orderId))
+        .execute();
+
+      return rows;
+    });
+
+    for (const item of await loadItemDetails(stockedRows)) {
+      publishItemChange({ type: 'updated', item });
+    }
+    return await loadPurchaseOrder(orderId);
+  } catch (error) {
+    console.error(`Failed to receive purchase order with ID ${input.purchase_order_id}:`, error);
+    throw error;
+  }
+};
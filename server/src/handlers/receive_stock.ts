@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { auditStockChange } from '../helpers/audit';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { toBaseQuantity } from '../helpers/units';
+import { type ReceiveStockInput, type Item } from '../schema';
+
+export const receiveStock = async (input: ReceiveStockInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    // Record the receipt and increase the quantity in one transaction. Stock received in another unit (a box of 100)
+    // is booked in the base unit, at the exact price of one base unit, so the receipt is valued at what was paid.
+    const row = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], async () => {
+      const { quantity, factor } = await toBaseQuantity(tx, input.item_id, input.quantity, input.unit);
+      return applyStockMovement(tx, {
+        item_id: input.item_id,
+        location_id: input.location_id,
+        delta: quantity,
+        reason: 'receipt',
+        note: input.note,
+        unit_cost_cents: input.unit_cost_cents === null ? null : input.unit_cost_cents / factor,
+        lot: input.lot_number === undefined ? null : { lot_number: input.lot_number, expires_on: input.expires_on },
+      });
+    }));
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to receive stock for item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { stockTakeLinesTable } from '../db/schema';
+import { assertStockTakeCounting, loadStockTake, lockStockTake } from '../helpers/stock_takes';
+import { fromQuantity } from '../helpers/units';
+import { type RecordStockTakeCountsInput, type StockTake } from '../schema';
+import { NotFoundError } from '../errors';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Enters counted quantities. Several devices can count the same stock take at once, each sending the items it counted;
+// counting an item again replaces its earlier count. `revealExpected` is false for counters of a blind count.
+export const recordStockTakeCounts = async (input: RecordStockTakeCountsInput, actorId: number | null = null, revealExpected = true): Promise<StockTake> => {
+  try {
+    await db.transaction(async (tx) => {
+      const stockTake = await lockStockTake(tx, input.stock_take_id, 'share');
+      assertStockTakeCounting(stockTake, 'counted');
+
+      const lines = await tx.select({ id: stockTakeLinesTable.id, item_id: stockTakeLinesTable.item_id })
+        .from(stockTakeLinesTable)
+        .where(and(
+          eq(stockTakeLinesTable.stock_take_id, stockTake.id),
+          inArray(stockTakeLinesTable.item_id, input.counts.map(count => count.item_id))
+        ))
+        .execute();
+
+      const countedAt = new Date();
+      for (const count of input.counts) {
+        const line = lines.find(candidate => candidate.item_id === count.item_id);
+        if (!line) {
+          throw new NotFoundError('item', count.item_id, `Item with ID ${count.item_id} is not part of stock take #${stockTake.id}.`, 'counts');
+        }
+        await tx.update(stockTakeLinesTable)
+          .set({ counted_quantity: fromQuantity(count.counted_quantity), counted_by: actorId, counted_at: countedAt })
+          .where(eq(stockTakeLinesTable.id, line.id))
+          .execute();
+      }
+    });
+
+    return await loadStockTake(input.stock_take_id, revealExpected);
+  } catch (error) {
+    console.error(`Failed to record counts for stock take ID ${input.stock_take_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { recordItemAudit } from '../helpers/audit';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { type Item } from '../schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { and, eq, isNotNull, isNull, sql } from 'drizzle-orm';
+
+// Takes an item back out of the trash, as long as no active item has taken its name or SKU in the meantime
+export const restoreItem = async (id: number, actorId: number | null = null): Promise<Item> => {
+  try {
+    const restored = await db.transaction(async (tx) => {
+      const [before] = await tx.select()
+        .from(itemsTable)
+        .where(and(eq(itemsTable.id, id), isNotNull(itemsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (!before) {
+        throw new NotFoundError('item', id, `Item with ID ${id} not found in the trash.`);
+      }
+
+      const nameTaken = await tx.select({ id: itemsTable.id })
+        .from(itemsTable)
+        .where(and(eq(itemsTable.name, before.name), isNull(itemsTable.deleted_at)))
+        .execute();
+
+      if (nameTaken.length > 0) {
+        throw new ConflictError(`Cannot restore item ID ${id}: another item is already named "${before.name}".`, 'name');
+      }
+
+      if (before.sku !== null) {
+        const skuTaken = await tx.select({ id: itemsTable.id })
+          .from(itemsTable)
+          .where(and(eq(itemsTable.sku, before.sku), isNull(itemsTable.deleted_at)))
+          .execute();
+
+        if (skuTaken.length > 0) {
+          throw new ConflictError(`Cannot restore item ID ${id}: another item already has the SKU "${before.sku}".`, 'sku');
+        }
+      }
+
+      const [after] = await tx.update(itemsTable)
+        .set({ deleted_at: null, version: sql`${itemsTable.version} + 1` })
+        .where(eq(itemsTable.id, id))
+        .returning()
+        .execute();
+
+      await recordItemAudit(tx, actorId, before, after, 'restore');
+      return after;
+    });
+
+    const item = await loadItemDetail(restored);
+    // A restored item reappears in listings just like a new one
+    publishItemChange({ type: 'created', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to restore item with ID ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { serialUnitsTable } from '../db/schema';
+import { auditStockChange } from '../helpers/audit';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { retireUnit } from '../helpers/serial_units';
+import { type RetireSerialUnitInput, type SerialUnitLookup } from '../schema';
+import { NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const retireSerialUnit = async (input: RetireSerialUnitInput, actorId: number | null = null): Promise<SerialUnitLookup> => {
+  try {
+    const { unit, row } = await db.transaction(async (tx) => {
+      // Lock the unit so it is retired (and leaves the stock) exactly once
+      const [existing] = await tx.select()
+        .from(serialUnitsTable)
+        .where(eq(serialUnitsTable.serial_number, input.serial_number))
+        .for('update')
+        .execute();
+
+      if (!existing) {
+        throw new NotFoundError('serial unit', input.serial_number, `No unit found with serial number "${input.serial_number}".`, 'serial_number');
+      }
+      const row = await auditStockChange(tx, actorId, [existing.item_id], () => retireUnit(tx, existing, input.note));
+      const [unit] = await tx.select().from(serialUnitsTable).where(eq(serialUnitsTable.id, existing.id)).execute();
+      return { unit, row };
+    });
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return { unit, item };
+  } catch (error) {
+    console.error(`Failed to retire unit "${input.serial_number}":`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { purchaseOrdersTable } from '../db/schema';
+import { assertPurchaseOrderStatus, loadPurchaseOrder, lockPurchaseOrder } from '../helpers/purchase_orders';
+import { type PurchaseOrder } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Marks a draft as sent to the supplier, after which it can be received against but no longer edited
+export const sendPurchaseOrder = async (id: number): Promise<PurchaseOrder> => {
+  try {
+    await db.transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, id);
+      assertPurchaseOrderStatus(order, ['draft'], 'sent');
+
+      await tx.update(purchaseOrdersTable)
+        .set({ status: 'sent', sent_at: new Date() })
+        .where(eq(purchaseOrdersTable.id, id))
+        .execute();
+    });
+
+    return await loadPurchaseOrder(id);
+  } catch (error) {
+    console.error(`Failed to send purchase order with ID ${id}:`, error);
+    throw error;
+  }
+};
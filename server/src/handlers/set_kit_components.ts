@@ -0,0 +1,92 @@
+import { db } from '../db';
+import { itemsTable, kitComponentsTable } from '../db/schema';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { fromQuantity } from '../helpers/units';
+import { type Item, type SetKitComponentsInput } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+// Replaces the bill of materials of a kit. Components can be kits themselves, as long as none of them
+// (however deeply) contains the kit being edited.
+export const setKitComponents = async (input: SetKitComponentsInput): Promise<Item> => {
+  try {
+    const row = await db.transaction(async (tx) => {
+      const [kit] = await tx.select()
+        .from(itemsTable)
+        .where(and(eq(itemsTable.id, input.item_id), isNull(itemsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (!kit) {
+        throw new NotFoundError('item', input.item_id, undefined, 'item_id');
+      }
+
+      const ids = input.components.map(component => component.item_id);
+      if (new Set(ids).size !== ids.length) {
+        throw new ValidationError('Each component can only be listed once.', 'components');
+      }
+      if (ids.includes(kit.id)) {
+        throw new ValidationError(`"${kit.name}" cannot be a component of itself.`, 'components');
+      }
+      if (kit.serialized && ids.length > 0) {
+        throw new ValidationError(`"${kit.name}" is serialized, so it cannot be assembled from components.`, 'components');
+      }
+
+      const components = ids.length === 0 ? [] : await tx.select({ id: itemsTable.id, name: itemsTable.name, serialized: itemsTable.serialized })
+        .from(itemsTable)
+        .where(and(inArray(itemsTable.id, ids), isNull(itemsTable.deleted_at)))
+        .execute();
+
+      const missing = ids.find(id => !components.some(component => component.id === id));
+      if (missing !== undefined) {
+        throw new NotFoundError('item', missing, undefined, 'components');
+      }
+      const serialized = components.find(component => component.serialized);
+      if (serialized) {
+        throw new ValidationError(`"${serialized.name}" is serialized, so it cannot be a kit component.`, 'components');
+      }
+
+      // Walk down through the components' own bills of materials; meeting the kit there would make it contain itself
+      let level = ids;
+      while (level.length > 0) {
+        const nested = await tx.select({ component_item_id: kitComponentsTable.component_item_id })
+          .from(kitComponentsTable)
+          .where(inArray(kitComponentsTable.kit_item_id, level))
+          .execute();
+        level = [...new Set(nested.map(line => line.component_item_id))];
+        if (level.includes(kit.id)) {
+          throw new ValidationError(`"${kit.name}" is already used in one of these components, so it cannot contain them.`, 'components');
+        }
+      }
+
+      await tx.delete(kitComponentsTable)
+        .where(eq(kitComponentsTable.kit_item_id, kit.id))
+        .execute();
+
+      if (input.components.length > 0) {
+        await tx.insert(kitComponentsTable)
+          .values(input.components.map(component => ({
+            kit_item_id: kit.id,
+            component_item_id: component.item_id,
+            quantity: fromQuantity(component.quantity),
+          })))
+          .execute();
+      }
+
+      const [updated] = await tx.update(itemsTable)
+        .set({ version: sql`${itemsTable.version} + 1` })
+        .where(eq(itemsTable.id, kit.id))
+        .returning()
+        .execute();
+      return updated;
+    });
+
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to set the components of item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { auditStockChange } from '../helpers/audit';
+import { applyStockMovement } from '../helpers/stock_movements';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { type TransferStockInput, type Item } from '../schema';
+
+export const transferStock = async (input: TransferStockInput, actorId: number | null = null): Promise<Item> => {
+  try {
+    // A transfer is a pair of opposite movements in one transaction, so the item total never changes
+    // and a failure on either side (e.g. not enough stock at the source) rolls back both.
+    // The destination is credited first: taking from the source then restores the original total,
+    // so reserved stock can be moved without the debit ever looking like it dips into the reservation.
+    const row = await db.transaction(async (tx) => auditStockChange(tx, actorId, [input.item_id], async () => {
+      await applyStockMovement(tx, {
+        item_id: input.item_id,
+        location_id: input.to_location_id,
+        delta: input.quantity,
+        reason: 'transfer',
+        note: input.note,
+      });
+
+      return applyStockMovement(tx, {
+        item_id: input.item_id,
+        location_id: input.from_location_id,
+        delta: -input.quantity,
+        reason: 'transfer',
+        note: input.note,
+      });
+    }));
+
+    const item = await loadItemDetail(row);
+    publishItemChange({ type: 'updated', item });
+    return item;
+  } catch (error) {
+    console.error(`Failed to transfer stock for item ID ${input.item_id}:`, error);
+    throw error;
+  }
+};
@@ -1,12 +1,23 @@
 
 import { db } from '../db';
-import { itemsTable } from '../db/schema';
+import { itemsTable, itemStockTable, itemUnitsTable, purchaseOrderLinesTable, purchaseOrdersTable, serialUnitsTable, stockMovementsTable, type SerialUnit as SerialUnitRow } from '../db/schema';
+import { diffItemCollections, loadItemCollections, recordItemAudit } from '../helpers/audit';
+import { assertCategoryExists } from '../helpers/categories';
+import { loadItemDetail } from '../helpers/item_details';
+import { publishItemChange } from '../helpers/item_events';
+import { setItemTags } from '../helpers/tags';
+import { assertScanCodesFree, setItemBarcodes } from '../helpers/barcodes';
+import { takeFromLots, type LotPortion } from '../helpers/lots';
+import { addUnitsToStock, retireUnit } from '../helpers/serial_units';
+import { fromQuantity, roundQuantity, setItemUnits, toQuantity } from '../helpers/units';
 import { type UpdateItemInput, type Item } from '../schema';
-import { eq } from 'drizzle-orm';
+import { ConflictError, InsufficientStockError, isUniqueViolation, NotFoundError, ValidationError, VersionConflictError } from '../errors';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
 
-export const updateItem = async (input: UpdateItemInput): Promise<Item> => {
+// `actorId` is the signed-in user making the change, recorded in the audit log
+export const updateItem = async (input: UpdateItemInput, actorId: number | null = null): Promise<Item> => {
   try {
-    const { id, name, description, quantity } = input;
+    const { id, version, name, sku, description, quantity, base_unit, units, reorder_point, reorder_quantity, category_id, tags, barcodes, costing_method, lot_tracked, serialized, serial_numbers } = input;
 
     // Construct the object with fields to update, only including those that are explicitly provided.
     // This ensures that undefined fields in the input do not nullify existing data.
@@ -15,57 +26,228 @@ export const updateItem = async (input: UpdateItemInput): Promise<Item> => {
     if (name !== undefined) {
       updateFields.name = name;
     }
+    // Like `description`, the SKU can be removed by explicitly sending `null`.
+    if (sku !== undefined) {
+      updateFields.sku = sku;
+    }
     // `description` can be explicitly set to `null`, so `null` is a valid update value.
     // We only skip if it's `undefined` (meaning no change requested for description).
     if (description !== undefined) {
       updateFields.description = description;
     }
     if (quantity !== undefined) {
-      updateFields.quantity = quantity;
+      updateFields.quantity = fromQuantity(quantity);
+    }
+    if (base_unit !== undefined) {
+      updateFields.base_unit = base_unit;
+    }
+    // Like `description`, the reorder thresholds can be cleared by explicitly sending `null`.
+    if (reorder_point !== undefined) {
+      updateFields.reorder_point = reorder_point;
+    }
+    if (reorder_quantity !== undefined) {
+      updateFields.reorder_quantity = reorder_quantity;
+    }
+    // Null moves the item out of its category.
+    if (category_id !== undefined) {
+      updateFields.category_id = category_id;
+    }
+    if (costing_method !== undefined) {
+      updateFields.costing_method = costing_method;
+    }
+    if (lot_tracked !== undefined) {
+      updateFields.lot_tracked = lot_tracked;
+    }
+    if (serialized !== undefined) {
+      updateFields.serialized = serialized;
     }
 
-    let updatedItem: Item | undefined;
-
-    // If no fields are provided for update, simply fetch and return the existing item.
-    // This prevents the "No values to set" error from Drizzle.
-    if (Object.keys(updateFields).length === 0) {
-      const existingItemResult = await db.select()
+    const updatedItem = await db.transaction(async (tx) => {
+      // Lock the row so the quantity difference recorded in the ledger matches what is overwritten.
+      // Items in the trash can't be edited until they are restored.
+      const existingItemResult = await tx.select()
         .from(itemsTable)
-        .where(eq(itemsTable.id, id))
+        .where(and(eq(itemsTable.id, id), isNull(itemsTable.deleted_at)))
+        .for('update')
         .execute();
 
       if (existingItemResult.length === 0) {
-        throw new Error(`Item with ID ${id} not found.`);
+        throw new NotFoundError('item', id);
+      }
+      const existingItem = existingItemResult[0];
+      const existingQuantity = toQuantity(existingItem.quantity);
+
+      // Optimistic concurrency: refuse to overwrite changes the caller hasn't seen.
+      if (existingItem.version !== version) {
+        throw new VersionConflictError(await loadItemDetail(existingItem));
+      }
+
+      if (category_id !== undefined && category_id !== null) {
+        await assertCategoryExists(tx, category_id);
+      }
+
+      // A serialized item's quantity is the number of its units in stock, so it follows the serial numbers instead of
+      // being edited, and the setting itself only changes while no units (in stock or checked out) would be affected.
+      const serializedAfter = serialized ?? existingItem.serialized;
+      if (serializedAfter && (lot_tracked ?? existingItem.lot_tracked)) {
+        throw new ValidationError('An item cannot be both lot-tracked and serialized.', 'serialized');
+      }
+      if (serialized !== undefined && serialized !== existingItem.serialized) {
+        const [checkedOut] = await tx.select({ id: serialUnitsTable.id })
+          .from(serialUnitsTable)
+          .where(and(eq(serialUnitsTable.item_id, id), eq(serialUnitsTable.status, 'checked_out')))
+          .limit(1)
+          .execute();
+
+        if (existingQuantity > 0 || checkedOut) {
+          throw new ConflictError(`"${existingItem.name}" has stock; it can only be switched ${serialized ? 'to' : 'from'} serial numbers while it has none.`, 'serialized');
+        }
+        // Purchase orders can't receive serialized stock, so orders still to be received would get stuck
+        const [onOrder] = serialized
+          ? await tx.select({ id: purchaseOrdersTable.id })
+            .from(purchaseOrderLinesTable)
+            .innerJoin(purchaseOrdersTable, eq(purchaseOrderLinesTable.purchase_order_id, purchaseOrdersTable.id))
+            .where(and(eq(purchaseOrderLinesTable.item_id, id), inArray(purchaseOrdersTable.status, ['draft', 'sent', 'partially_received'])))
+            .limit(1)
+            .execute()
+          : [];
+        if (onOrder) {
+          throw new ConflictError(`"${existingItem.name}" is on purchase order #${onOrder.id}; it can only be switched to serial numbers once that order is received or closed.`, 'serialized');
+        }
+      }
+      if (serializedAfter && quantity !== undefined && quantity !== existingQuantity) {
+        throw new ValidationError(`"${existingItem.name}" is serialized; its quantity follows its serial numbers.`, 'quantity');
+      }
+      if (!serializedAfter && serial_numbers !== undefined && serial_numbers.length > 0) {
+        throw new ValidationError('Only serialized items have serial numbers.', 'serial_numbers');
+      }
+
+      // The serial numbers describe the units in stock as a whole: units no longer listed are retired, new serials added
+      let addedSerials: string[] = [];
+      let removedUnits: SerialUnitRow[] = [];
+      if (serializedAfter && serial_numbers !== undefined) {
+        const inStock = await tx.select()
+          .from(serialUnitsTable)
+          .where(and(eq(serialUnitsTable.item_id, id), eq(serialUnitsTable.status, 'in_stock')))
+          .for('update')
+          .execute();
+        const wanted = new Set(serial_numbers);
+        const current = new Set(inStock.map(unit => unit.serial_number));
+        removedUnits = inStock.filter(unit => !wanted.has(unit.serial_number));
+        addedSerials = [...wanted].filter(serialNumber => !current.has(serialNumber));
       }
-      updatedItem = existingItemResult[0];
-    } else {
+
+      // Renaming the base unit leaves the alternative units alone, so it must not take one of their names
+      if (base_unit !== undefined && units === undefined) {
+        const [clash] = await tx.select({ id: itemUnitsTable.id })
+          .from(itemUnitsTable)
+          .where(and(eq(itemUnitsTable.item_id, id), eq(itemUnitsTable.name, base_unit)))
+          .execute();
+
+        if (clash) {
+          throw new ValidationError(`"${base_unit}" is already one of the item's other units.`, 'base_unit');
+        }
+      }
+
+      await assertScanCodesFree(tx, id, sku, barcodes);
+
+      // Tags, barcodes and units live in their own tables; changing them still counts as a change to the item.
+      const collectionsBefore = await loadItemCollections(tx, id);
+      const tagsChanged = tags !== undefined && await setItemTags(tx, id, tags);
+      const barcodesChanged = barcodes !== undefined && await setItemBarcodes(tx, id, barcodes);
+      const unitsChanged = units !== undefined && await setItemUnits(tx, id, base_unit ?? existingItem.base_unit, units);
+      const serialsChanged = addedSerials.length > 0 || removedUnits.length > 0;
+
+      // If no fields are provided for update, simply return the existing item.
+      // This prevents the "No values to set" error from Drizzle.
+      if (Object.keys(updateFields).length === 0 && !tagsChanged && !barcodesChanged && !unitsChanged && !serialsChanged) {
+        return existingItem;
+      }
+
+      // A direct quantity edit only changes the unassigned stock, so it cannot drop below what is held at locations
+      // or what is reserved for sales orders.
+      if (quantity !== undefined && quantity < toQuantity(existingItem.reserved)) {
+        throw new InsufficientStockError(
+          `Insufficient stock for item ID ${id}: ${toQuantity(existingItem.reserved)} units are reserved for sales orders, cannot set quantity to ${quantity}.`,
+          { item_id: id, location_id: null, requested: roundQuantity(existingQuantity - quantity) },
+          'quantity'
+        );
+      }
+      if (quantity !== undefined && quantity < existingQuantity) {
+        const [assigned] = await tx.select({ total: sql<string>`coalesce(sum(${itemStockTable.quantity}), 0)` })
+          .from(itemStockTable)
+          .where(eq(itemStockTable.item_id, id))
+          .execute();
+
+        const assignedTotal = toQuantity(assigned.total);
+        if (quantity < assignedTotal) {
+          throw new InsufficientStockError(
+            `Insufficient stock for item ID ${id}: ${assignedTotal} units are held at locations, cannot set quantity to ${quantity}.`,
+            { item_id: id, location_id: null, requested: roundQuantity(existingQuantity - quantity) },
+            'quantity'
+          );
+        }
+      }
+
       // Fields are provided, perform the update operation
-      const result = await db.update(itemsTable)
-        .set(updateFields)
+      const result = await tx.update(itemsTable)
+        .set({ ...updateFields, version: sql`${itemsTable.version} + 1` })
         .where(eq(itemsTable.id, id))
         .returning()
         .execute();
 
-      // Check if any row was actually updated. If result is empty, the item was not found.
-      if (result.length === 0) {
-        throw new Error(`Item with ID ${id} not found.`);
+      // A direct quantity edit is recorded as an adjustment, so the movement history still explains the stock level.
+      // Lowering it takes the difference out of the lots like any other removal.
+      const delta = roundQuantity(toQuantity(result[0].quantity) - existingQuantity);
+      if (delta !== 0) {
+        const portions: LotPortion[] = delta < 0 ? await takeFromLots(tx, id, -delta) : [{ lot_id: null, quantity: delta }];
+        await tx.insert(stockMovementsTable)
+          .values(portions.map(portion => ({
+            item_id: id,
+            delta: fromQuantity(Math.sign(delta) * portion.quantity),
+            reason: 'adjustment' as const,
+            note: 'Quantity edited',
+            lot_id: portion.lot_id,
+          })))
+          .execute();
       }
-      updatedItem = result[0];
-    }
+
+      // Units go through the movement ledger one by one, after the item itself has been updated
+      let updated = result[0];
+      for (const unit of removedUnits) {
+        updated = await retireUnit(tx, unit, null);
+      }
+      if (addedSerials.length > 0) {
+        updated = await addUnitsToStock(tx, updated, addedSerials, { location_id: null, reason: 'adjustment', note: 'Serial numbers edited' });
+      }
+
+      const collectionChanges = diffItemCollections(collectionsBefore, await loadItemCollections(tx, id));
+      await recordItemAudit(tx, actorId, existingItem, updated, 'update', collectionChanges);
+
+      return updated;
+    });
 
     // Return the updated item, ensuring it conforms to the 'Item' type.
     // Drizzle returns `created_at` as a Date object by default for timestamp columns.
-    // No specific numeric conversions are needed as the `itemsTable` schema does not use `numeric()` columns.
-    return {
-      id: updatedItem.id,
-      name: updatedItem.name,
-      description: updatedItem.description,
-      quantity: updatedItem.quantity,
-      created_at: updatedItem.created_at,
-    };
+    // The numeric `quantity` column comes back as a string; the helper converts it for the API.
+    const item = await loadItemDetail(updatedItem);
+    publishItemChange({ type: 'updated', item });
+    return item;
 
   } catch (error) {
     console.error(`Item update failed for ID ${input.id}:`, error);
+    if (isUniqueViolation(error, 'items_name_active_unique')) {
+      throw new ConflictError(`An item named "${input.name}" already exists.`, 'name');
+    }
+    if (isUniqueViolation(error, 'items_sku_active_unique')) {
+      throw new ConflictError(`Another item already has the SKU "${input.sku}".`, 'sku');
+    }
+    if (isUniqueViolation(error, 'item_barcodes_code_unique')) {
+      throw new ConflictError('One of the barcodes is already assigned to another item.', 'barcodes');
+    }
+    if (isUniqueViolation(error, 'serial_units_serial_number_unique')) {
+      throw new ConflictError('One of the serial numbers is already in use.', 'serial_numbers');
+    }
     // Rethrow the error to be handled by the caller (e.g., API route)
     throw error;
   }
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { purchaseOrdersTable } from '../db/schema';
+import { assertPurchaseOrderStatus, assertSupplierExists, loadPurchaseOrder, lockPurchaseOrder, setPurchaseOrderLines } from '../helpers/purchase_orders';
+import { type PurchaseOrder, type UpdatePurchaseOrderInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Edits a draft; once sent, the supplier has the order as it was
+export const updatePurchaseOrder = async (input: UpdatePurchaseOrderInput): Promise<PurchaseOrder> => {
+  try {
+    await db.transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, input.id);
+      assertPurchaseOrderStatus(order, ['draft'], 'edited');
+
+      if (input.supplier_id !== undefined) {
+        await assertSupplierExists(tx, input.supplier_id);
+      }
+      if (input.supplier_id !== undefined || input.notes !== undefined) {
+        await tx.update(purchaseOrdersTable)
+          .set({ supplier_id: input.supplier_id, notes: input.notes })
+          .where(eq(purchaseOrdersTable.id, input.id))
+          .execute();
+      }
+      if (input.lines !== undefined) {
+        await setPurchaseOrderLines(tx, input.id, input.lines);
+      }
+    });
+
+    return await loadPurchaseOrder(input.id);
+  } catch (error) {
+    console.error(`Failed to update purchase order with ID ${input.id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,176 @@
+import { type Transaction } from '../db';
+import { auditLogTable, itemBarcodesTable, itemsTable, itemStockTable, itemTagsTable, itemUnitsTable, locationsTable, tagsTable, type AuditChanges, type Item as ItemRow } from '../db/schema';
+import { type AuditOperation } from '../schema';
+import { roundQuantity, toQuantity } from './units';
+import { and, asc, eq, gt, inArray } from 'drizzle-orm';
+
+// Dates are kept as ISO strings so the diff survives the round trip through jsonb unchanged;
+// quantities are stored as numbers like everywhere else in the API, not as the driver's numeric strings
+const QUANTITY_FIELDS: (keyof ItemRow)[] = ['quantity', 'reserved'];
+
+const toJsonValue = (field: keyof ItemRow, value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : QUANTITY_FIELDS.includes(field) && typeof value === 'string' ? toQuantity(value) : value;
+
+// Bookkeeping columns that change on every write and would only add noise to the diff
+const IGNORED_FIELDS: (keyof ItemRow)[] = ['version'];
+
+// Field-by-field diff of an item row; a missing side (create or purge) lists every field
+export const diffItemRows = (before: ItemRow | null, after: ItemRow | null): AuditChanges => {
+  const changes: AuditChanges = {};
+  const fields = (Object.keys(after ?? before ?? {}) as (keyof ItemRow)[]).filter(field => !IGNORED_FIELDS.includes(field));
+  for (const field of fields) {
+    const previous = before ? toJsonValue(field, before[field]) : null;
+    const next = after ? toJsonValue(field, after[field]) : null;
+    if (before === null || after === null || previous !== next) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+};
+
+// Tags, barcodes and units of an item as plain strings. They live in their own tables, so edits to them only bump
+// the item's version; comparing these before and after is what puts them in the audit entry.
+export interface ItemCollections {
+  tags: string[];
+  barcodes: string[];
+  units: string[];
+}
+
+export const loadItemCollections = async (tx: Transaction, itemId: number): Promise<ItemCollections> => {
+  const tags = await tx.select({ name: tagsTable.name })
+    .from(itemTagsTable)
+    .innerJoin(tagsTable, eq(itemTagsTable.tag_id, tagsTable.id))
+    .where(eq(itemTagsTable.item_id, itemId))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+  const barcodes = await tx.select({ symbology: itemBarcodesTable.symbology, code: itemBarcodesTable.code })
+    .from(itemBarcodesTable)
+    .where(eq(itemBarcodesTable.item_id, itemId))
+    .orderBy(asc(itemBarcodesTable.code))
+    .execute();
+  const units = await tx.select({ name: itemUnitsTable.name, factor: itemUnitsTable.factor })
+    .from(itemUnitsTable)
+    .where(eq(itemUnitsTable.item_id, itemId))
+    .orderBy(asc(itemUnitsTable.name))
+    .execute();
+
+  return {
+    tags: tags.map(tag => tag.name),
+    barcodes: barcodes.map(barcode => `${barcode.code} (${barcode.symbology})`),
+    units: units.map(unit => `${unit.name} = ${Number(unit.factor)}`),
+  };
+};
+
+export const diffItemCollections = (before: ItemCollections, after: ItemCollections): AuditChanges => {
+  const changes: AuditChanges = {};
+  for (const field of ['tags', 'barcodes', 'units'] as const) {
+    const previous = before[field];
+    const next = after[field];
+    if (previous.length !== next.length || previous.some((value, index) => value !== next[index])) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+};
+
+// Records a change to an item row in the audit log. Without an explicit operation, no `before` is a create
+// and anything else an update; trash operations (delete, restore, purge) name themselves.
+// Changes kept outside the row (tags, stock per location) are passed in as `extraChanges`.
+// Must run in the transaction making the change, so the log can never disagree with the data.
+export const recordItemAudit = async (
+  tx: Transaction,
+  actorId: number | null,
+  before: ItemRow | null,
+  after: ItemRow | null,
+  operation: AuditOperation = before === null ? 'create' : 'update',
+  extraChanges: AuditChanges = {}
+): Promise<void> => {
+  const item = after ?? before;
+  if (!item) {
+    return;
+  }
+
+  const changes = { ...diffItemRows(before, after), ...extraChanges };
+  if (Object.keys(changes).length === 0) {
+    return; // An update that didn't change anything isn't worth an entry
+  }
+
+  await tx.insert(auditLogTable)
+    .values({
+      item_id: item.id,
+      item_name: item.name,
+      actor_id: actorId,
+      operation,
+      changes,
+    })
+    .execute();
+};
+
+// Stock of an item by location name, with what isn't held at any location as "Unassigned"
+const stockByLocation = async (tx: Transaction, item: ItemRow): Promise<Record<string, number>> => {
+  const held = await tx.select({ name: locationsTable.name, quantity: itemStockTable.quantity })
+    .from(itemStockTable)
+    .innerJoin(locationsTable, eq(itemStockTable.location_id, locationsTable.id))
+    .where(and(eq(itemStockTable.item_id, item.id), gt(itemStockTable.quantity, '0')))
+    .orderBy(asc(locationsTable.name))
+    .execute();
+
+  const stock: Record<string, number> = {};
+  const unassigned = roundQuantity(held.reduce((total, row) => total - toQuantity(row.quantity), toQuantity(item.quantity)));
+  if (unassigned > 0) {
+    stock['Unassigned'] = unassigned;
+  }
+  for (const row of held) {
+    stock[row.name] = toQuantity(row.quantity);
+  }
+  return stock;
+};
+
+const sameStock = (before: Record<string, number>, after: Record<string, number>): boolean =>
+  Object.keys(before).length === Object.keys(after).length && Object.entries(before).every(([name, quantity]) => after[name] === quantity);
+
+// Runs a change to the stock of some items (a movement, reservation, loan or assembly) and records it as an update
+// of each of them. The stock per location goes in as a change of its own, so a transfer, which leaves the row alone
+// apart from its version, is on record too. The items are locked up front, in ID order like every other multi-item
+// lock, so the before state is exactly what the change started from.
+export const auditStockChange = async <T>(
+  tx: Transaction,
+  actorId: number | null,
+  itemIds: number[],
+  change: () => Promise<T>
+): Promise<T> => {
+  const ids = [...new Set(itemIds)].sort((a, b) => a - b);
+  if (ids.length === 0) {
+    return change();
+  }
+
+  const before = await tx.select()
+    .from(itemsTable)
+    .where(inArray(itemsTable.id, ids))
+    .orderBy(asc(itemsTable.id))
+    .for('update')
+    .execute();
+  const stockBefore: Record<string, number>[] = [];
+  for (const row of before) {
+    stockBefore.push(await stockByLocation(tx, row));
+  }
+
+  const result = await change();
+
+  const after = await tx.select()
+    .from(itemsTable)
+    .where(inArray(itemsTable.id, ids))
+    .execute();
+  for (const [index, previous] of before.entries()) {
+    const next = after.find(row => row.id === previous.id);
+    if (!next) {
+      continue;
+    }
+    const stockAfter = await stockByLocation(tx, next);
+    const stockChanges: AuditChanges = sameStock(stockBefore[index], stockAfter)
+      ? {}
+      : { locations: { before: stockBefore[index], after: stockAfter } };
+    await recordItemAudit(tx, actorId, previous, next, 'update', stockChanges);
+  }
+  return result;
+};
@@ -0,0 +1,69 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { and, eq, gt } from 'drizzle-orm';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Sessions last a week from sign-in
+
+// Stored as "scrypt$<salt>$<hash>" (hex) so the scheme can be changed later without a migration
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Session tokens are random and only their hash is stored, so a leaked sessions table can't be replayed
+export const generateSessionToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Looks up the user behind a session token, ignoring expired sessions
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const results = await db.select({
+    id: usersTable.id,
+    username: usersTable.username,
+    role: usersTable.role,
+    created_at: usersTable.created_at,
+  })
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(eq(sessionsTable.token_hash, hashSessionToken(token)), gt(sessionsTable.expires_at, new Date())))
+    .execute();
+
+  return results[0] ?? null;
+};
+
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return cookies;
+};
+
+// HttpOnly keeps the token away from page scripts; SameSite=Lax blocks cross-site form posts
+export const serializeSessionCookie = (token: string, expiresAt: Date): string =>
+  `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Expires=${expiresAt.toUTCString()}`;
+
+export const clearSessionCookie = (): string =>
+  `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
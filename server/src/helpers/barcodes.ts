@@ -0,0 +1,71 @@
+import { type Transaction } from '../db';
+import { itemBarcodesTable, itemsTable } from '../db/schema';
+import { type Barcode } from '../schema';
+import { ConflictError } from '../errors';
+import { and, asc, eq, inArray, isNull, ne } from 'drizzle-orm';
+
+// Replaces the barcodes of an item. Returns whether anything changed, so callers know to bump the item's version.
+export const setItemBarcodes = async (tx: Transaction, itemId: number, barcodes: Barcode[]): Promise<boolean> => {
+  // The same code listed twice is one barcode
+  const wanted = [...new Map(barcodes.map(barcode => [barcode.code, barcode])).values()];
+
+  const current = await tx.select({ symbology: itemBarcodesTable.symbology, code: itemBarcodesTable.code })
+    .from(itemBarcodesTable)
+    .where(eq(itemBarcodesTable.item_id, itemId))
+    .orderBy(asc(itemBarcodesTable.id))
+    .execute();
+
+  const key = (barcode: Barcode) => `${barcode.symbology}:${barcode.code}`;
+  const currentKeys = new Set(current.map(key));
+  if (current.length === wanted.length && wanted.every(barcode => currentKeys.has(key(barcode)))) {
+    return false;
+  }
+
+  await tx.delete(itemBarcodesTable)
+    .where(eq(itemBarcodesTable.item_id, itemId))
+    .execute();
+
+  if (wanted.length > 0) {
+    await tx.insert(itemBarcodesTable)
+      .values(wanted.map(barcode => ({ item_id: itemId, ...barcode })))
+      .execute();
+  }
+
+  return true;
+};
+
+// Scanning looks a code up among both barcodes and SKUs, so an item's SKU must not be another item's barcode
+// or the other way round. Each is only unique among its own kind, hence the check here. Codes left undefined
+// are not being changed; `itemId` is null for an item still being created.
+export const assertScanCodesFree = async (
+  tx: Transaction,
+  itemId: number | null,
+  sku: string | null | undefined,
+  barcodes: Barcode[] | undefined
+): Promise<void> => {
+  const otherItems = itemId === null ? undefined : ne(itemsTable.id, itemId);
+
+  if (sku) {
+    const [clash] = await tx.select({ name: itemsTable.name })
+      .from(itemBarcodesTable)
+      .innerJoin(itemsTable, eq(itemBarcodesTable.item_id, itemsTable.id))
+      .where(and(eq(itemBarcodesTable.code, sku), isNull(itemsTable.deleted_at), otherItems))
+      .limit(1)
+      .execute();
+    if (clash) {
+      throw new ConflictError(`"${sku}" is already a barcode of "${clash.name}", so it cannot be used as a SKU.`, 'sku');
+    }
+  }
+
+  const codes = (barcodes ?? []).map(barcode => barcode.code);
+  if (codes.length > 0) {
+    const [clash] = await tx.select({ name: itemsTable.name, sku: itemsTable.sku })
+      .from(itemsTable)
+      .where(and(inArray(itemsTable.sku, codes), isNull(itemsTable.deleted_at), otherItems))
+      .limit(1)
+      .execute();
+    if (clash) {
+      throw new ConflictError(`"${clash.sku}" is already the SKU of "${clash.name}", so it cannot be used as a barcode.`, 'barcodes');
+    }
+  }
+};
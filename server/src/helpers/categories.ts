@@ -0,0 +1,24 @@
+import { type Transaction } from '../db';
+import { categoriesTable } from '../db/schema';
+import { NotFoundError } from '../errors';
+import { eq, sql, type SQL } from 'drizzle-orm';
+
+// Items may only be filed under categories that exist
+export const assertCategoryExists = async (tx: Transaction, categoryId: number): Promise<void> => {
+  const category = await tx.select({ id: categoriesTable.id })
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, categoryId))
+    .execute();
+
+  if (category.length === 0) {
+    throw new NotFoundError('category', categoryId, undefined, 'category_id');
+  }
+};
+
+// Subquery with the IDs of a category and every category below it, however deeply nested
+export const categoryWithDescendants = (categoryId: number): SQL =>
+  sql`(with recursive tree as (
+    select ${categoriesTable.id} as id from ${categoriesTable} where ${categoriesTable.id} = ${categoryId}
+    union
+    select ${categoriesTable.id} from ${categoriesTable} join tree on ${categoriesTable.parent_id} = tree.id
+  ) select id from tree)`;
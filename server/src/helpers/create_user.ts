@@ -0,0 +1,14 @@
+// Creates a user account from the command line, e.g. the first manager after a fresh deploy:
+//   bun run user:create <username> <password> [viewer|clerk|manager]
+import { createUser } from '../handlers/create_user';
+import { createUserInputSchema } from '../schema';
+
+const [username, password, role = 'manager'] = process.argv.slice(2);
+const input = createUserInputSchema.parse({ username, password, role });
+
+createUser(input)
+  .then((user) => {
+    console.log(`Created ${user.role} "${user.username}" (ID ${user.id})`);
+    process.exit(0);
+  })
+  .catch(() => process.exit(1));
@@ -0,0 +1,181 @@
+import { db } from '../db';
+import { itemBarcodesTable, itemsTable, itemStockTable, itemTagsTable, itemUnitsTable, kitComponentsTable, loansTable, locationsTable, lotsTable, serialUnitsTable, tagsTable, type Item as ItemRow } from '../db/schema';
+import { type Barcode, type Item, type ItemLocationStock, type ItemLot, type ItemUnit, type KitComponent } from '../schema';
+import { roundQuantity, toQuantity } from './units';
+import { and, asc, gt, inArray, eq, isNull, sql } from 'drizzle-orm';
+
+// Turns plain itemsTable rows into API items by attaching their per-location stock breakdown, lots, serial numbers,
+// units, kit components, tags and barcodes, with the numeric quantity columns converted to numbers.
+// Uses one query for the whole batch so list pages do not issue a query per item.
+export const loadItemDetails = async (rows: ItemRow[]): Promise<Item[]> => {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const stockRows = await db.select({
+    item_id: itemStockTable.item_id,
+    location_id: itemStockTable.location_id,
+    location_name: locationsTable.name,
+    quantity: itemStockTable.quantity,
+  })
+    .from(itemStockTable)
+    .innerJoin(locationsTable, eq(itemStockTable.location_id, locationsTable.id))
+    .where(and(
+      inArray(itemStockTable.item_id, rows.map(row => row.id)),
+      gt(itemStockTable.quantity, '0')
+    ))
+    .orderBy(asc(locationsTable.name))
+    .execute();
+
+  const stockByItem = new Map<number, ItemLocationStock[]>();
+  for (const { item_id, quantity, ...stock } of stockRows) {
+    const entries = stockByItem.get(item_id) ?? [];
+    entries.push({ ...stock, quantity: toQuantity(quantity) });
+    stockByItem.set(item_id, entries);
+  }
+
+  const tagRows = await db.select({ item_id: itemTagsTable.item_id, name: tagsTable.name })
+    .from(itemTagsTable)
+    .innerJoin(tagsTable, eq(itemTagsTable.tag_id, tagsTable.id))
+    .where(inArray(itemTagsTable.item_id, rows.map(row => row.id)))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  const tagsByItem = new Map<number, string[]>();
+  for (const { item_id, name } of tagRows) {
+    tagsByItem.set(item_id, [...(tagsByItem.get(item_id) ?? []), name]);
+  }
+
+  const barcodeRows = await db.select({
+    item_id: itemBarcodesTable.item_id,
+    symbology: itemBarcodesTable.symbology,
+    code: itemBarcodesTable.code,
+  })
+    .from(itemBarcodesTable)
+    .where(inArray(itemBarcodesTable.item_id, rows.map(row => row.id)))
+    .orderBy(asc(itemBarcodesTable.id))
+    .execute();
+
+  const barcodesByItem = new Map<number, Barcode[]>();
+  for (const { item_id, ...barcode } of barcodeRows) {
+    barcodesByItem.set(item_id, [...(barcodesByItem.get(item_id) ?? []), barcode]);
+  }
+
+  // Lots with stock left, in the order they will be issued
+  const lotRows = await db.select({
+    item_id: lotsTable.item_id,
+    id: lotsTable.id,
+    lot_number: lotsTable.lot_number,
+    expires_on: lotsTable.expires_on,
+    quantity: lotsTable.quantity,
+  })
+    .from(lotsTable)
+    .where(and(
+      inArray(lotsTable.item_id, rows.map(row => row.id)),
+      gt(lotsTable.quantity, '0')
+    ))
+    .orderBy(sql`${lotsTable.expires_on} asc nulls last`, asc(lotsTable.id))
+    .execute();
+
+  const lotsByItem = new Map<number, ItemLot[]>();
+  for (const { item_id, quantity, ...lot } of lotRows) {
+    lotsByItem.set(item_id, [...(lotsByItem.get(item_id) ?? []), { ...lot, quantity: toQuantity(quantity) }]);
+  }
+
+  const unitRows = await db.select({ item_id: itemUnitsTable.item_id, name: itemUnitsTable.name, factor: itemUnitsTable.factor })
+    .from(itemUnitsTable)
+    .where(inArray(itemUnitsTable.item_id, rows.map(row => row.id)))
+    .orderBy(asc(itemUnitsTable.factor), asc(itemUnitsTable.name))
+    .execute();
+
+  const unitsByItem = new Map<number, ItemUnit[]>();
+  for (const { item_id, name, factor } of unitRows) {
+    unitsByItem.set(item_id, [...(unitsByItem.get(item_id) ?? []), { name, factor: Number(factor) }]);
+  }
+
+  const serialRows = await db.select({ item_id: serialUnitsTable.item_id, serial_number: serialUnitsTable.serial_number })
+    .from(serialUnitsTable)
+    .where(and(
+      inArray(serialUnitsTable.item_id, rows.map(row => row.id)),
+      eq(serialUnitsTable.status, 'in_stock')
+    ))
+    .orderBy(asc(serialUnitsTable.serial_number))
+    .execute();
+
+  const serialsByItem = new Map<number, string[]>();
+  for (const { item_id, serial_number } of serialRows) {
+    serialsByItem.set(item_id, [...(serialsByItem.get(item_id) ?? []), serial_number]);
+  }
+
+  // Stock still out on open loans
+  const loanRows = await db.select({
+    item_id: loansTable.item_id,
+    on_loan: sql<string>`sum(${loansTable.quantity} - ${loansTable.quantity_returned})`,
+  })
+    .from(loansTable)
+    .where(and(
+      inArray(loansTable.item_id, rows.map(row => row.id)),
+      isNull(loansTable.returned_at)
+    ))
+    .groupBy(loansTable.item_id)
+    .execute();
+
+  const onLoanByItem = new Map<number, number>(loanRows.map(({ item_id, on_loan }) => [item_id, toQuantity(on_loan)]));
+
+  // Bills of materials, with what is available of each component to work out how many kits could be built
+  const componentRows = await db.select({
+    kit_item_id: kitComponentsTable.kit_item_id,
+    item_id: kitComponentsTable.component_item_id,
+    item_name: itemsTable.name,
+    base_unit: itemsTable.base_unit,
+    quantity: kitComponentsTable.quantity,
+    on_hand: itemsTable.quantity,
+    reserved: itemsTable.reserved,
+    deleted_at: itemsTable.deleted_at,
+  })
+    .from(kitComponentsTable)
+    .innerJoin(itemsTable, eq(kitComponentsTable.component_item_id, itemsTable.id))
+    .where(inArray(kitComponentsTable.kit_item_id, rows.map(row => row.id)))
+    .orderBy(asc(itemsTable.name))
+    .execute();
+
+  const componentsByItem = new Map<number, KitComponent[]>();
+  const buildableByItem = new Map<number, number>();
+  for (const { kit_item_id, quantity, on_hand, reserved, deleted_at, ...component } of componentRows) {
+    const perKit = toQuantity(quantity);
+    componentsByItem.set(kit_item_id, [...(componentsByItem.get(kit_item_id) ?? []), { ...component, quantity: perKit }]);
+    // Trashed components cannot be used; the rounding keeps 0.3 / 0.1 from coming out as 2.999...
+    const available = deleted_at === null ? Math.max(0, toQuantity(on_hand) - toQuantity(reserved)) : 0;
+    const buildable = Math.floor(roundQuantity(available / perKit));
+    buildableByItem.set(kit_item_id, Math.min(buildableByItem.get(kit_item_id) ?? buildable, buildable));
+  }
+
+  return rows.map(({ quantity: storedQuantity, reserved: storedReserved, ...row }) => {
+    const quantity = toQuantity(storedQuantity);
+    const reserved = toQuantity(storedReserved);
+    const locations = stockByItem.get(row.id) ?? [];
+    const assigned = locations.reduce((sum, stock) => sum + stock.quantity, 0);
+    return {
+      ...row,
+      units: unitsByItem.get(row.id) ?? [],
+      on_hand: quantity,
+      reserved,
+      available: roundQuantity(quantity - reserved),
+      on_loan: onLoanByItem.get(row.id) ?? 0,
+      barcodes: barcodesByItem.get(row.id) ?? [],
+      tags: tagsByItem.get(row.id) ?? [],
+      locations,
+      lots: lotsByItem.get(row.id) ?? [],
+      serial_numbers: serialsByItem.get(row.id) ?? [],
+      components: componentsByItem.get(row.id) ?? [],
+      buildable: buildableByItem.get(row.id) ?? null,
+      unassigned_quantity: roundQuantity(quantity - assigned),
+    };
+  });
+};
+
+// Convenience wrapper for handlers returning a single item
+export const loadItemDetail = async (row: ItemRow): Promise<Item> => {
+  const [item] = await loadItemDetails([row]);
+  return item;
+};
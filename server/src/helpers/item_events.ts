@@ -0,0 +1,25 @@
+import { EventEmitter, on } from 'node:events';
+import { type ItemChangeEvent } from '../schema';
+
+// In-process bus for item changes. Handlers publish only after their transaction has committed,
+// so subscribers never see changes that were rolled back.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open subscription, so there is no sensible limit
+
+export const publishItemChange = (event: ItemChangeEvent): void => {
+  emitter.emit('change', event);
+};
+
+// Yields every change published from now on until the signal aborts (the subscriber disconnects)
+export async function* itemChanges(signal?: AbortSignal): AsyncGenerator<ItemChangeEvent> {
+  try {
+    for await (const [event] of on(emitter, 'change', { signal })) {
+      yield event as ItemChangeEvent;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { type Transaction } from '../db';
+import { itemsTable, itemStockTable, kitComponentsTable, locationsTable, type Item as ItemRow } from '../db/schema';
+import { type KitShortage } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { roundQuantity, toQuantity } from './units';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+// A kit locked for assembly, with the component items of its bill of materials
+export interface LockedKit {
+  kit: ItemRow;
+  components: { item: ItemRow; quantity: number }[]; // Quantity needed per kit
+}
+
+// Something an assembly takes out of stock
+export interface StockNeed {
+  item: ItemRow;
+  required: number;
+}
+
+// Locks a kit and all of its components for the rest of the transaction. Rows are locked in ID order,
+// so two assemblies sharing components cannot deadlock.
+export const lockKit = async (tx: Transaction, kitId: number): Promise<LockedKit> => {
+  const lines = await tx.select({ component_item_id: kitComponentsTable.component_item_id, quantity: kitComponentsTable.quantity })
+    .from(kitComponentsTable)
+    .where(eq(kitComponentsTable.kit_item_id, kitId))
+    .orderBy(asc(kitComponentsTable.id))
+    .execute();
+
+  const rows = await tx.select()
+    .from(itemsTable)
+    .where(inArray(itemsTable.id, [kitId, ...lines.map(line => line.component_item_id)]))
+    .orderBy(asc(itemsTable.id))
+    .for('update')
+    .execute();
+
+  const kit = rows.find(row => row.id === kitId);
+  if (!kit || kit.deleted_at !== null) {
+    throw new NotFoundError('item', kitId, undefined, 'item_id');
+  }
+  if (lines.length === 0) {
+    throw new ValidationError(`"${kit.name}" is not a kit; add its components first.`, 'item_id');
+  }
+
+  const components = lines.map(line => ({
+    item: rows.find(row => row.id === line.component_item_id)!,
+    quantity: toQuantity(line.quantity),
+  }));
+  return { kit, components };
+};
+
+// How much of each item can be taken from a location: the stock held there (the unassigned stock for a null location),
+// less whatever the rest of the item's stock cannot cover of its sales order reservations. Trashed items have none to give.
+export const usableStock = async (tx: Transaction, items: ItemRow[], locationId: number | null): Promise<Map<number, number>> => {
+  const stockRows = await tx.select({ item_id: itemStockTable.item_id, location_id: itemStockTable.location_id, quantity: itemStockTable.quantity })
+    .from(itemStockTable)
+    .where(inArray(itemStockTable.item_id, items.map(item => item.id)))
+    .execute();
+
+  return new Map(items.map(item => {
+    if (item.deleted_at !== null) {
+      return [item.id, 0];
+    }
+    const quantity = toQuantity(item.quantity);
+    const stock = stockRows.filter(row => row.item_id === item.id);
+    const assigned = stock.reduce((sum, row) => sum + toQuantity(row.quantity), 0);
+    const atLocation = locationId === null
+      ? quantity - assigned
+      : toQuantity(stock.find(row => row.location_id === locationId)?.quantity ?? '0');
+    return [item.id, roundQuantity(Math.max(0, Math.min(atLocation, quantity - toQuantity(item.reserved))))];
+  }));
+};
+
+// Everything that cannot be taken out in full, so a failed assembly can list all that is missing at once
+export const findShortages = async (tx: Transaction, needs: StockNeed[], locationId: number | null): Promise<KitShortage[]> => {
+  if (locationId !== null) {
+    const location = await tx.select({ id: locationsTable.id })
+      .from(locationsTable)
+      .where(eq(locationsTable.id, locationId))
+      .execute();
+
+    if (location.length === 0) {
+      throw new NotFoundError('location', locationId, undefined, 'location_id');
+    }
+  }
+
+  const usable = await usableStock(tx, needs.map(need => need.item), locationId);
+  return needs
+    .filter(need => need.required > usable.get(need.item.id)!)
+    .map(need => ({ item_id: need.item.id, item_name: need.item.name, required: need.required, available: usable.get(need.item.id)! }));
+};
+
+export const describeShortages = (shortages: KitShortage[]): string =>
+  shortages.map(shortage => `${shortage.item_name} (${shortage.required} needed, ${shortage.available} available)`).join(', ');
@@ -0,0 +1,98 @@
+import { type LabelTemplate } from '../schema';
+
+// PDF coordinates are in points: 72 per inch
+const inch = (value: number) => value * 72;
+const mm = (value: number) => (value * 72) / 25.4;
+
+export interface LabelTemplateLayout {
+  name: string; // Product name, used in messages
+  pageSize: 'LETTER' | 'A4';
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+  fontSize: number; // Size of the item name; the SKU is printed a little smaller
+}
+
+// Measurements are taken from Avery's published templates
+export const labelTemplates: Record<LabelTemplate, LabelTemplateLayout> = {
+  avery_5160: {
+    name: 'Avery 5160',
+    pageSize: 'LETTER',
+    columns: 3,
+    rows: 10,
+    labelWidth: inch(2.625),
+    labelHeight: inch(1),
+    marginTop: inch(0.5),
+    marginLeft: inch(0.1875),
+    columnGap: inch(0.125),
+    rowGap: 0,
+    fontSize: 8,
+  },
+  avery_5163: {
+    name: 'Avery 5163',
+    pageSize: 'LETTER',
+    columns: 2,
+    rows: 5,
+    labelWidth: inch(4),
+    labelHeight: inch(2),
+    marginTop: inch(0.5),
+    marginLeft: inch(0.15625),
+    columnGap: inch(0.1875),
+    rowGap: 0,
+    fontSize: 12,
+  },
+  avery_l7160: {
+    name: 'Avery L7160',
+    pageSize: 'A4',
+    columns: 3,
+    rows: 7,
+    labelWidth: mm(63.5),
+    labelHeight: mm(38.1),
+    marginTop: mm(15.15),
+    marginLeft: mm(7.25),
+    columnGap: mm(2.5),
+    rowGap: 0,
+    fontSize: 9,
+  },
+  avery_l7163: {
+    name: 'Avery L7163',
+    pageSize: 'A4',
+    columns: 2,
+    rows: 7,
+    labelWidth: mm(99.1),
+    labelHeight: mm(38.1),
+    marginTop: mm(15.15),
+    marginLeft: mm(4.65),
+    columnGap: mm(2.5),
+    rowGap: 0,
+    fontSize: 10,
+  },
+  avery_l7165: {
+    name: 'Avery L7165',
+    pageSize: 'A4',
+    columns: 2,
+    rows: 4,
+    labelWidth: mm(99.1),
+    labelHeight: mm(67.7),
+    marginTop: mm(13.1),
+    marginLeft: mm(4.65),
+    columnGap: mm(2.5),
+    rowGap: 0,
+    fontSize: 12,
+  },
+};
+
+// Top-left corner of the label at a position on the sheet, filling rows left to right
+export const labelPosition = (layout: LabelTemplateLayout, index: number): { x: number; y: number } => {
+  const column = index % layout.columns;
+  const row = Math.floor(index / layout.columns);
+  return {
+    x: layout.marginLeft + column * (layout.labelWidth + layout.columnGap),
+    y: layout.marginTop + row * (layout.labelHeight + layout.rowGap),
+  };
+};
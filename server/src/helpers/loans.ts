@@ -0,0 +1,72 @@
+import { db, type Transaction } from '../db';
+import { itemsTable, loansTable, loanUnitsTable, serialUnitsTable, type Loan as LoanRow } from '../db/schema';
+import { type Loan, type LoanUnit } from '../schema';
+import { NotFoundError } from '../errors';
+import { roundQuantity, toQuantity } from './units';
+import { asc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+
+// Loads loans with their item names and lent units, those due first first
+export const loadLoans = async (condition?: SQL): Promise<Loan[]> => {
+  const rows = await db.select({
+    loan: loansTable,
+    item_name: itemsTable.name,
+    overdue: sql<boolean>`(${loansTable.returned_at} is null and ${loansTable.due_on} < current_date)`,
+  })
+    .from(loansTable)
+    .innerJoin(itemsTable, eq(loansTable.item_id, itemsTable.id))
+    .where(condition)
+    .orderBy(asc(loansTable.due_on), asc(loansTable.id))
+    .execute();
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const unitRows = await db.select({
+    loan_id: loanUnitsTable.loan_id,
+    serial_number: serialUnitsTable.serial_number,
+    returned_at: loanUnitsTable.returned_at,
+  })
+    .from(loanUnitsTable)
+    .innerJoin(serialUnitsTable, eq(loanUnitsTable.serial_unit_id, serialUnitsTable.id))
+    .where(inArray(loanUnitsTable.loan_id, rows.map(row => row.loan.id)))
+    .orderBy(asc(serialUnitsTable.serial_number))
+    .execute();
+
+  const unitsByLoan = new Map<number, LoanUnit[]>();
+  for (const { loan_id, ...unit } of unitRows) {
+    unitsByLoan.set(loan_id, [...(unitsByLoan.get(loan_id) ?? []), unit]);
+  }
+
+  return rows.map(({ loan, item_name, overdue }) => ({
+    ...loan,
+    item_name,
+    quantity: toQuantity(loan.quantity),
+    quantity_returned: toQuantity(loan.quantity_returned),
+    outstanding: roundQuantity(toQuantity(loan.quantity) - toQuantity(loan.quantity_returned)),
+    overdue,
+    units: unitsByLoan.get(loan.id) ?? [],
+  }));
+};
+
+export const loadLoan = async (id: number): Promise<Loan> => {
+  const [loan] = await loadLoans(eq(loansTable.id, id));
+  if (!loan) {
+    throw new NotFoundError('loan', id);
+  }
+  return loan;
+};
+
+// Locks the loan row for the rest of the transaction, so concurrent returns cannot bring back more than was lent
+export const lockLoan = async (tx: Transaction, id: number): Promise<LoanRow> => {
+  const [loan] = await tx.select()
+    .from(loansTable)
+    .where(eq(loansTable.id, id))
+    .for('update')
+    .execute();
+
+  if (!loan) {
+    throw new NotFoundError('loan', id, undefined, 'loan_id');
+  }
+  return loan;
+};
@@ -0,0 +1,79 @@
+import { type Transaction } from '../db';
+import { lotsTable } from '../db/schema';
+import { ConflictError } from '../errors';
+import { fromQuantity, roundQuantity, toQuantity } from './units';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+
+// The lot a receipt goes into. Leaving `expires_on` out keeps the date an existing lot already has.
+export interface LotEntry {
+  lot_number: string;
+  expires_on?: string | null;
+}
+
+// Part of a stock change that came out of (or went into) one lot; a null lot is the item's unlotted stock
+export interface LotPortion {
+  lot_id: number | null;
+  quantity: number;
+}
+
+// Adds stock to a lot, creating it on first receipt. The lot row is locked first so concurrent receipts
+// into the same lot add up, and a lot keeps one expiry date for its whole life.
+export const receiveIntoLot = async (tx: Transaction, itemId: number, lot: LotEntry, quantity: number): Promise<number> => {
+  const [existing] = await tx.select()
+    .from(lotsTable)
+    .where(and(eq(lotsTable.item_id, itemId), eq(lotsTable.lot_number, lot.lot_number)))
+    .for('update')
+    .execute();
+
+  if (!existing) {
+    const [created] = await tx.insert(lotsTable)
+      .values({ item_id: itemId, lot_number: lot.lot_number, expires_on: lot.expires_on ?? null, quantity: fromQuantity(quantity) })
+      .returning()
+      .execute();
+    return created.id;
+  }
+
+  if (lot.expires_on !== undefined && lot.expires_on !== existing.expires_on) {
+    throw new ConflictError(
+      `Lot ${lot.lot_number} ${existing.expires_on === null ? 'has no expiry date' : `expires on ${existing.expires_on}`}; a receipt into it cannot change that.`,
+      'expires_on'
+    );
+  }
+  await tx.update(lotsTable)
+    .set({ quantity: sql`${lotsTable.quantity} + ${quantity}` })
+    .where(eq(lotsTable.id, existing.id))
+    .execute();
+  return existing.id;
+};
+
+// Takes stock out first-expiry-first-out: lots that expire soonest go first, lots without a date after
+// those, and unlotted stock (received before the item was lot-tracked) last. The caller has already checked
+// that the item holds enough; the lots are locked so concurrent issues never take the same units.
+export const takeFromLots = async (tx: Transaction, itemId: number, quantity: number): Promise<LotPortion[]> => {
+  const lots = await tx.select({ id: lotsTable.id, quantity: lotsTable.quantity })
+    .from(lotsTable)
+    .where(and(eq(lotsTable.item_id, itemId), gt(lotsTable.quantity, '0')))
+    .orderBy(sql`${lotsTable.expires_on} asc nulls last`, asc(lotsTable.id))
+    .for('update')
+    .execute();
+
+  const portions: LotPortion[] = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining === 0) {
+      break;
+    }
+    const taken = Math.min(remaining, toQuantity(lot.quantity));
+    await tx.update(lotsTable)
+      .set({ quantity: sql`${lotsTable.quantity} - ${taken}` })
+      .where(eq(lotsTable.id, lot.id))
+      .execute();
+    portions.push({ lot_id: lot.id, quantity: taken });
+    remaining = roundQuantity(remaining - taken);
+  }
+
+  if (remaining > 0) {
+    portions.push({ lot_id: null, quantity: remaining });
+  }
+  return portions;
+};
@@ -0,0 +1,50 @@
+import { type CurrentUser, type Permission, type UpdateItemInput, type User, type UserRole } from '../schema';
+
+// Permissions granted to each role; every role includes everything the previous one can do
+const viewerPermissions: Permission[] = ['items:read'];
+const clerkPermissions: Permission[] = [...viewerPermissions, 'items:create', 'stock:write'];
+const managerPermissions: Permission[] = [...clerkPermissions, 'items:edit', 'items:delete', 'locations:manage', 'categories:manage', 'purchasing:manage', 'users:manage', 'audit:read', 'valuation:read', 'stocktakes:manage'];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  viewer: viewerPermissions,
+  clerk: clerkPermissions,
+  manager: managerPermissions,
+};
+
+// updateItem touches fields owned by different permissions, so each provided field is checked on its own
+const updateItemFieldPermissions: Record<Exclude<keyof UpdateItemInput, 'id' | 'version'>, Permission> = {
+  name: 'items:edit',
+  sku: 'items:edit',
+  description: 'items:edit',
+  quantity: 'stock:write',
+  base_unit: 'items:edit',
+  units: 'items:edit',
+  reorder_point: 'items:edit',
+  reorder_quantity: 'items:edit',
+  category_id: 'items:edit',
+  tags: 'items:edit',
+  barcodes: 'items:edit',
+  costing_method: 'items:edit',
+  lot_tracked: 'items:edit',
+  serialized: 'items:edit',
+  serial_numbers: 'stock:write',
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  rolePermissions[role].includes(permission);
+
+export const withPermissions = (user: User): CurrentUser => ({
+  ...user,
+  permissions: [...rolePermissions[user.role]],
+});
+
+// Permissions needed for an updateItem call; fields left undefined are not being changed
+export const permissionsForItemUpdate = (input: UpdateItemInput): Permission[] => {
+  const required = new Set<Permission>();
+  for (const [field, permission] of Object.entries(updateItemFieldPermissions)) {
+    if (input[field as keyof typeof updateItemFieldPermissions] !== undefined) {
+      required.add(permission);
+    }
+  }
+  return [...required];
+};
@@ -0,0 +1,153 @@
+import { db, type Transaction } from '../db';
+import { itemsTable, purchaseOrderLinesTable, purchaseOrdersTable, suppliersTable, type PurchaseOrder as PurchaseOrderRow } from '../db/schema';
+import { type PurchaseOrder, type PurchaseOrderStatus } from '../schema';
+import { fromQuantity, toBaseQuantity, toQuantity } from './units';
+import { fromUnitCost, toUnitCost } from './valuation';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+// Orders with their supplier's name and totals over their lines, ready for further filtering
+export const selectPurchaseOrderSummaries = () => {
+  const totals = db.select({
+    purchase_order_id: purchaseOrderLinesTable.purchase_order_id,
+    line_count: sql<number>`count(*)::int`.as('line_count'),
+    quantity_ordered: sql<string>`sum(${purchaseOrderLinesTable.quantity_ordered})`.as('quantity_ordered'),
+    quantity_received: sql<string>`sum(${purchaseOrderLinesTable.quantity_received})`.as('quantity_received'),
+  })
+    .from(purchaseOrderLinesTable)
+    .groupBy(purchaseOrderLinesTable.purchase_order_id)
+    .as('line_totals');
+
+  return db.select({
+    id: purchaseOrdersTable.id,
+    supplier_id: purchaseOrdersTable.supplier_id,
+    supplier_name: suppliersTable.name,
+    status: purchaseOrdersTable.status,
+    notes: purchaseOrdersTable.notes,
+    line_count: sql<number>`coalesce(${totals.line_count}, 0)`,
+    quantity_ordered: sql<number>`coalesce(${totals.quantity_ordered}, 0)`.mapWith(toQuantity),
+    quantity_received: sql<number>`coalesce(${totals.quantity_received}, 0)`.mapWith(toQuantity),
+    created_at: purchaseOrdersTable.created_at,
+    sent_at: purchaseOrdersTable.sent_at,
+    closed_at: purchaseOrdersTable.closed_at,
+  })
+    .from(purchaseOrdersTable)
+    .innerJoin(suppliersTable, eq(purchaseOrdersTable.supplier_id, suppliersTable.id))
+    .leftJoin(totals, eq(totals.purchase_order_id, purchaseOrdersTable.id))
+    .$dynamic();
+};
+
+// Loads a purchase order with its lines, in the order they were added
+export const loadPurchaseOrder = async (id: number): Promise<PurchaseOrder> => {
+  const [summary] = await selectPurchaseOrderSummaries()
+    .where(eq(purchaseOrdersTable.id, id))
+    .execute();
+
+  if (!summary) {
+    throw new NotFoundError('purchase order', id);
+  }
+
+  const lines = await db.select({
+    id: purchaseOrderLinesTable.id,
+    item_id: purchaseOrderLinesTable.item_id,
+    item_name: itemsTable.name,
+    base_unit: itemsTable.base_unit,
+    quantity_ordered: purchaseOrderLinesTable.quantity_ordered,
+    quantity_received: purchaseOrderLinesTable.quantity_received,
+    unit_cost_cents: purchaseOrderLinesTable.unit_cost_cents,
+  })
+    .from(purchaseOrderLinesTable)
+    .innerJoin(itemsTable, eq(purchaseOrderLinesTable.item_id, itemsTable.id))
+    .where(eq(purchaseOrderLinesTable.purchase_order_id, id))
+    .orderBy(asc(purchaseOrderLinesTable.id))
+    .execute();
+
+  return {
+    ...summary,
+    lines: lines.map(line => ({
+      ...line,
+      quantity_ordered: toQuantity(line.quantity_ordered),
+      quantity_received: toQuantity(line.quantity_received),
+      unit_cost_cents: toUnitCost(line.unit_cost_cents),
+    })),
+  };
+};
+
+// Locks the order row for the rest of the transaction, so status changes and receipts happen one at a time
+export const lockPurchaseOrder = async (tx: Transaction, id: number): Promise<PurchaseOrderRow> => {
+  const [order] = await tx.select()
+    .from(purchaseOrdersTable)
+    .where(eq(purchaseOrdersTable.id, id))
+    .for('update')
+    .execute();
+
+  if (!order) {
+    throw new NotFoundError('purchase order', id);
+  }
+  return order;
+};
+
+const statusLabel = (status: PurchaseOrderStatus): string => status.replace('_', ' ');
+
+// Rejects a lifecycle step the order's current status does not allow
+export const assertPurchaseOrderStatus = (order: PurchaseOrderRow, allowed: PurchaseOrderStatus[], action: string): void => {
+  if (!allowed.includes(order.status)) {
+    throw new ConflictError(
+      `Purchase order #${order.id} is ${statusLabel(order.status)}; only ${allowed.map(statusLabel).join(' or ')} orders can be ${action}.`,
+      'status'
+    );
+  }
+};
+
+export const assertSupplierExists = async (tx: Transaction, id: number): Promise<void> => {
+  const supplier = await tx.select({ id: suppliersTable.id })
+    .from(suppliersTable)
+    .where(eq(suppliersTable.id, id))
+    .execute();
+
+  if (supplier.length === 0) {
+    throw new NotFoundError('supplier', id, undefined, 'supplier_id');
+  }
+};
+
+// Replaces the lines of a draft. Only active items can be ordered, and not serialized ones:
+// receiving could never add their stock, which only arrives unit by unit with serial numbers.
+// Lines ordered in another unit (boxes of 100) are stored in the base unit, at the price of one base unit.
+export const setPurchaseOrderLines = async (
+  tx: Transaction,
+  purchaseOrderId: number,
+  lines: { item_id: number; quantity_ordered: number; unit?: string; unit_cost_cents: number | null }[]
+): Promise<void> => {
+  const itemIds = lines.map(line => line.item_id);
+  const active = await tx.select({ id: itemsTable.id, name: itemsTable.name, serialized: itemsTable.serialized })
+    .from(itemsTable)
+    .where(and(inArray(itemsTable.id, itemIds), isNull(itemsTable.deleted_at)))
+    .execute();
+  const activeIds = new Set(active.map(item => item.id));
+  const missingId = itemIds.find(id => !activeIds.has(id));
+  if (missingId !== undefined) {
+    throw new NotFoundError('item', missingId, undefined, 'lines');
+  }
+  const serialized = active.find(item => item.serialized);
+  if (serialized) {
+    throw new ValidationError(`"${serialized.name}" is serialized; its units are added by serial number, not received through purchase orders.`, 'lines');
+  }
+
+  const values: typeof purchaseOrderLinesTable.$inferInsert[] = [];
+  for (const line of lines) {
+    const { quantity, factor } = await toBaseQuantity(tx, line.item_id, line.quantity_ordered, line.unit);
+    values.push({
+      purchase_order_id: purchaseOrderId,
+      item_id: line.item_id,
+      quantity_ordered: fromQuantity(quantity),
+      unit_cost_cents: line.unit_cost_cents === null ? null : fromUnitCost(line.unit_cost_cents / factor),
+    });
+  }
+
+  await tx.delete(purchaseOrderLinesTable)
+    .where(eq(purchaseOrderLinesTable.purchase_order_id, purchaseOrderId))
+    .execute();
+  await tx.insert(purchaseOrderLinesTable)
+    .values(values)
+    .execute();
+};
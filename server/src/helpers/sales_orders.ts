@@ -0,0 +1,100 @@
+import { db, type Transaction } from '../db';
+import { itemsTable, salesOrderLinesTable, salesOrdersTable, type Item as ItemRow, type SalesOrder as SalesOrderRow } from '../db/schema';
+import { type SalesOrder } from '../schema';
+import { ConflictError, InsufficientStockError, NotFoundError, ValidationError } from '../errors';
+import { roundQuantity, toQuantity } from './units';
+import { and, asc, eq, gte, isNull, sql } from 'drizzle-orm';
+
+// Loads a sales order with its lines, in the order they were added
+export const loadSalesOrder = async (id: number): Promise<SalesOrder> => {
+  const [order] = await db.select()
+    .from(salesOrdersTable)
+    .where(eq(salesOrdersTable.id, id))
+    .execute();
+
+  if (!order) {
+    throw new NotFoundError('sales order', id);
+  }
+
+  const lines = await db.select({
+    id: salesOrderLinesTable.id,
+    item_id: salesOrderLinesTable.item_id,
+    item_name: itemsTable.name,
+    base_unit: itemsTable.base_unit,
+    quantity: salesOrderLinesTable.quantity,
+  })
+    .from(salesOrderLinesTable)
+    .innerJoin(itemsTable, eq(salesOrderLinesTable.item_id, itemsTable.id))
+    .where(eq(salesOrderLinesTable.sales_order_id, id))
+    .orderBy(asc(salesOrderLinesTable.id))
+    .execute();
+
+  return { ...order, lines: lines.map(line => ({ ...line, quantity: toQuantity(line.quantity) })) };
+};
+
+// Locks the order row for the rest of the transaction, so it is fulfilled or cancelled exactly once
+export const lockSalesOrder = async (tx: Transaction, id: number): Promise<SalesOrderRow> => {
+  const [order] = await tx.select()
+    .from(salesOrdersTable)
+    .where(eq(salesOrdersTable.id, id))
+    .for('update')
+    .execute();
+
+  if (!order) {
+    throw new NotFoundError('sales order', id);
+  }
+  return order;
+};
+
+// Rejects a lifecycle step the order's current status does not allow
+export const assertSalesOrderOpen = (order: SalesOrderRow, action: string): void => {
+  if (order.status !== 'open') {
+    throw new ConflictError(`Sales order #${order.id} is ${order.status}; only open orders can be ${action}.`, 'status');
+  }
+};
+
+// Sets stock aside for an order. Like stock movements this is a single conditional UPDATE, so two orders
+// racing for the last units cannot both get them. Serialized items can't be ordered.
+export const reserveStock = async (tx: Transaction, itemId: number, quantity: number): Promise<ItemRow> => {
+  const result = await tx.update(itemsTable)
+    .set({ reserved: sql`${itemsTable.reserved} + ${quantity}`, version: sql`${itemsTable.version} + 1` })
+    .where(and(
+      eq(itemsTable.id, itemId),
+      isNull(itemsTable.deleted_at),
+      eq(itemsTable.serialized, false),
+      gte(sql`${itemsTable.quantity} - ${itemsTable.reserved}`, quantity)
+    ))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    const existing = await tx.select({ name: itemsTable.name, quantity: itemsTable.quantity, reserved: itemsTable.reserved, serialized: itemsTable.serialized })
+      .from(itemsTable)
+      .where(and(eq(itemsTable.id, itemId), isNull(itemsTable.deleted_at)))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError('item', itemId, undefined, 'lines');
+    }
+    // Fulfilling could never issue them: serialized stock only leaves unit by unit
+    if (existing[0].serialized) {
+      throw new ValidationError(`"${existing[0].name}" is serialized; its units are checked out by serial number, not sold through sales orders.`, 'lines');
+    }
+    throw new InsufficientStockError(
+      `Insufficient stock for item ID ${itemId}: ${quantity} requested, but only ${roundQuantity(toQuantity(existing[0].quantity) - toQuantity(existing[0].reserved))} available.`,
+      { item_id: itemId, location_id: null, requested: quantity },
+      'lines'
+    );
+  }
+  return result[0];
+};
+
+// Hands a reservation back, either to the available stock (cancelling) or to be issued (fulfilling)
+export const releaseReservation = async (tx: Transaction, itemId: number, quantity: number): Promise<ItemRow> => {
+  const [item] = await tx.update(itemsTable)
+    .set({ reserved: sql`${itemsTable.reserved} - ${quantity}`, version: sql`${itemsTable.version} + 1` })
+    .where(eq(itemsTable.id, itemId))
+    .returning()
+    .execute();
+  return item;
+};
@@ -0,0 +1,92 @@
+import { type Transaction } from '../db';
+import { locationsTable, serialUnitsTable, type Item as ItemRow, type SerialUnit as SerialUnitRow } from '../db/schema';
+import { type MovementReason } from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { applyStockMovement } from './stock_movements';
+import { eq, inArray } from 'drizzle-orm';
+
+// How units added to stock are booked in the movement ledger
+export interface SerialUnitsEntry {
+  location_id: number | null;
+  reason: MovementReason;
+  note: string | null;
+  unit_cost_cents?: number | null;
+}
+
+// Adds units of a serialized item to stock: one unit row and one ledger entry per serial number, so the
+// item's quantity always equals the number of units in stock. Returns the item row after the last unit.
+export const addUnitsToStock = async (tx: Transaction, item: ItemRow, serialNumbers: string[], entry: SerialUnitsEntry): Promise<ItemRow> => {
+  if (!item.serialized) {
+    throw new ValidationError(`"${item.name}" is not serialized, so units cannot be added to it by serial number.`, 'serial_numbers');
+  }
+  const duplicate = serialNumbers.find((serial, index) => serialNumbers.indexOf(serial) !== index);
+  if (duplicate !== undefined) {
+    throw new ValidationError(`Serial number "${duplicate}" is listed more than once.`, 'serial_numbers');
+  }
+
+  // Checked up front for a clear message; the unique constraint still catches concurrent additions
+  const [taken] = serialNumbers.length === 0 ? [] : await tx.select({ serial_number: serialUnitsTable.serial_number })
+    .from(serialUnitsTable)
+    .where(inArray(serialUnitsTable.serial_number, serialNumbers))
+    .limit(1)
+    .execute();
+  if (taken) {
+    throw new ConflictError(`Serial number "${taken.serial_number}" is already in use.`, 'serial_numbers');
+  }
+
+  // Units reference their location, so check it before the first one is inserted
+  if (entry.location_id !== null) {
+    const location = await tx.select({ id: locationsTable.id })
+      .from(locationsTable)
+      .where(eq(locationsTable.id, entry.location_id))
+      .execute();
+
+    if (location.length === 0) {
+      throw new NotFoundError('location', entry.location_id, undefined, 'location_id');
+    }
+  }
+
+  let row = item;
+  for (const serialNumber of serialNumbers) {
+    const [unit] = await tx.insert(serialUnitsTable)
+      .values({ item_id: item.id, serial_number: serialNumber, location_id: entry.location_id })
+      .returning()
+      .execute();
+
+    row = await applyStockMovement(tx, {
+      item_id: item.id,
+      location_id: entry.location_id,
+      delta: 1,
+      reason: entry.reason,
+      note: entry.note,
+      unit_cost_cents: entry.unit_cost_cents,
+      serial_unit_id: unit.id,
+    });
+  }
+  return row;
+};
+
+// Takes a unit in stock out of service for good, removing it from the item's quantity through the ledger.
+// A unit out on loan has to be checked in first, so its loan never stays open. The caller locks the unit row first.
+export const retireUnit = async (tx: Transaction, unit: SerialUnitRow, note: string | null): Promise<ItemRow> => {
+  if (unit.status === 'retired') {
+    throw new ConflictError(`Unit ${unit.serial_number} has already been retired.`, 'serial_number');
+  }
+  if (unit.status === 'checked_out') {
+    throw new ConflictError(`Unit ${unit.serial_number} is checked out; check it in before retiring it.`, 'serial_number');
+  }
+
+  await tx.update(serialUnitsTable)
+    .set({ status: 'retired', retired_at: new Date() })
+    .where(eq(serialUnitsTable.id, unit.id))
+    .execute();
+
+  return await applyStockMovement(tx, {
+    item_id: unit.item_id,
+    location_id: unit.location_id,
+    delta: -1,
+    reason: 'adjustment',
+    note: note ? `Retired: ${note}` : 'Retired',
+    serial_unit_id: unit.id,
+  });
+};
@@ -0,0 +1,145 @@
+import { type Transaction } from '../db';
+import { itemsTable, itemStockTable, locationsTable, stockMovementsTable, type Item as ItemRow } from '../db/schema';
+import { type MovementReason } from '../schema';
+import { InsufficientStockError, NotFoundError, ValidationError } from '../errors';
+import { receiveIntoLot, takeFromLots, type LotEntry, type LotPortion } from './lots';
+import { fromQuantity, toQuantity } from './units';
+import { fromUnitCost } from './valuation';
+import { and, eq, gte, isNull, sql } from 'drizzle-orm';
+
+export interface StockMovementEntry {
+  item_id: number;
+  location_id: number | null; // Null targets the item's unassigned stock
+  delta: number; // In the item's base unit
+  reason: MovementReason;
+  note: string | null;
+  unit_cost_cents?: number | null; // Purchase price per base unit, for stock coming in; may include fractions of a cent
+  lot?: LotEntry | null; // Lot the stock comes into; required for receipts of lot-tracked items
+  serial_unit_id?: number; // The unit that comes or goes; serialized items only change one unit at a time
+  count?: boolean; // A physical count, which is recorded even when it leaves less than is reserved for sales orders
+}
+
+// Applies a signed quantity change to an item (and, when given, to its stock at one location)
+// and records it in the movement ledger. Stock leaving the item comes out of its lots first-expiry-first-out,
+// with one ledger entry per lot; transfers only move stock between locations and leave the lots alone.
+// Must run inside a transaction so the ledger, location stock and item quantity never disagree.
+export const applyStockMovement = async (tx: Transaction, entry: StockMovementEntry): Promise<ItemRow> => {
+  if (entry.location_id !== null) {
+    const location = await tx.select({ id: locationsTable.id })
+      .from(locationsTable)
+      .where(eq(locationsTable.id, entry.location_id))
+      .execute();
+
+    if (location.length === 0) {
+      throw new NotFoundError('location', entry.location_id, undefined, 'location_id');
+    }
+  }
+
+  // Removing stock must not eat into what is reserved for sales orders, and removing unassigned stock
+  // must not eat into what is held at locations either, so the new total has a floor.
+  // Stock that a count found missing is gone whatever was promised, so counts only keep the second rule.
+  const assignedQuantity = sql`(select coalesce(sum(${itemStockTable.quantity}), 0) from ${itemStockTable} where ${itemStockTable.item_id} = ${itemsTable.id})`;
+  const reservedQuantity = entry.count ? sql`0` : sql`${itemsTable.reserved}`;
+  const minimumTotal = entry.delta >= 0
+    ? sql`0`
+    : entry.location_id === null ? sql`greatest(${assignedQuantity}, ${reservedQuantity})` : reservedQuantity;
+
+  // A single conditional UPDATE keeps the check atomic under concurrent movements
+  const result = await tx.update(itemsTable)
+    .set({ quantity: sql`${itemsTable.quantity} + ${entry.delta}`, version: sql`${itemsTable.version} + 1` })
+    .where(and(
+      eq(itemsTable.id, entry.item_id),
+      isNull(itemsTable.deleted_at), // Stock of trashed items is frozen until they are restored
+      gte(sql`${itemsTable.quantity} + ${entry.delta}`, minimumTotal)
+    ))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    // Distinguish a missing item from a movement that would take stock below zero or into reserved stock
+    const existing = await tx.select({ quantity: itemsTable.quantity, reserved: itemsTable.reserved })
+      .from(itemsTable)
+      .where(and(eq(itemsTable.id, entry.item_id), isNull(itemsTable.deleted_at)))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError('item', entry.item_id, undefined, 'item_id');
+    }
+    const quantity = toQuantity(existing[0].quantity);
+    const reserved = toQuantity(existing[0].reserved);
+    if (!entry.count && quantity + entry.delta < reserved) {
+      throw new InsufficientStockError(
+        `Insufficient stock for item ID ${entry.item_id}: ${-entry.delta} requested, but ${reserved} of ${quantity} units are reserved for sales orders.`,
+        { item_id: entry.item_id, location_id: entry.location_id, requested: -entry.delta },
+        'quantity'
+      );
+    }
+    throw new InsufficientStockError(
+      `Insufficient stock for item ID ${entry.item_id}: ${-entry.delta} requested from unassigned stock.`,
+      { item_id: entry.item_id, location_id: null, requested: -entry.delta },
+      'quantity'
+    );
+  }
+
+  if (entry.location_id !== null) {
+    if (entry.delta > 0) {
+      await tx.insert(itemStockTable)
+        .values({ item_id: entry.item_id, location_id: entry.location_id, quantity: fromQuantity(entry.delta) })
+        .onConflictDoUpdate({
+          target: [itemStockTable.item_id, itemStockTable.location_id],
+          set: { quantity: sql`${itemStockTable.quantity} + ${entry.delta}` },
+        })
+        .execute();
+    } else {
+      const locationResult = await tx.update(itemStockTable)
+        .set({ quantity: sql`${itemStockTable.quantity} + ${entry.delta}` })
+        .where(and(
+          eq(itemStockTable.item_id, entry.item_id),
+          eq(itemStockTable.location_id, entry.location_id),
+          gte(sql`${itemStockTable.quantity} + ${entry.delta}`, 0)
+        ))
+        .returning()
+        .execute();
+
+      if (locationResult.length === 0) {
+        throw new InsufficientStockError(
+          `Insufficient stock for item ID ${entry.item_id} at location ID ${entry.location_id}: ${-entry.delta} requested.`,
+          { item_id: entry.item_id, location_id: entry.location_id, requested: -entry.delta },
+          'quantity'
+        );
+      }
+    }
+  }
+
+  const item = result[0];
+  if (item.serialized && entry.serial_unit_id === undefined) {
+    throw new ValidationError(`"${item.name}" is serialized; its stock changes as units are added, retired or checked out.`, 'quantity');
+  }
+
+  let portions: LotPortion[] = [{ lot_id: null, quantity: Math.abs(entry.delta) }];
+  if (entry.lot && entry.delta > 0) {
+    if (!item.lot_tracked) {
+      throw new ValidationError(`"${item.name}" is not lot-tracked, so its stock cannot be received into a lot.`, 'lot_number');
+    }
+    portions = [{ lot_id: await receiveIntoLot(tx, item.id, entry.lot, entry.delta), quantity: entry.delta }];
+  } else if (entry.reason === 'receipt' && entry.delta > 0 && item.lot_tracked) {
+    throw new ValidationError(`"${item.name}" is lot-tracked; enter the lot number of the stock received.`, 'lot_number');
+  } else if (entry.delta < 0 && entry.reason !== 'transfer') {
+    portions = await takeFromLots(tx, item.id, -entry.delta);
+  }
+
+  await tx.insert(stockMovementsTable)
+    .values(portions.map(portion => ({
+      item_id: entry.item_id,
+      location_id: entry.location_id,
+      delta: fromQuantity(Math.sign(entry.delta) * portion.quantity),
+      reason: entry.reason,
+      note: entry.note,
+      unit_cost_cents: entry.unit_cost_cents == null ? null : fromUnitCost(entry.unit_cost_cents),
+      lot_id: portion.lot_id,
+      serial_unit_id: entry.serial_unit_id ?? null,
+    })))
+    .execute();
+
+  return item;
+};
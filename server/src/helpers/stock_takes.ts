@@ -0,0 +1,84 @@
+import { db, type Transaction } from '../db';
+import { itemsTable, locationsTable, stockTakeLinesTable, stockTakesTable, usersTable, type StockTake as StockTakeRow } from '../db/schema';
+import { type StockTake } from '../schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { roundQuantity, toQuantity } from './units';
+import { asc, eq } from 'drizzle-orm';
+
+// Loads a stock take with its lines. Counters of a blind count get the lines without expected quantities or variances,
+// so `revealExpected` is only true for those allowed to manage stock takes.
+export const loadStockTake = async (id: number, revealExpected: boolean): Promise<StockTake> => {
+  const [stockTake] = await db.select({
+    id: stockTakesTable.id,
+    name: stockTakesTable.name,
+    status: stockTakesTable.status,
+    blind: stockTakesTable.blind,
+    location_id: stockTakesTable.location_id,
+    location_name: locationsTable.name,
+    created_at: stockTakesTable.created_at,
+    approved_at: stockTakesTable.approved_at,
+    cancelled_at: stockTakesTable.cancelled_at,
+  })
+    .from(stockTakesTable)
+    .leftJoin(locationsTable, eq(stockTakesTable.location_id, locationsTable.id))
+    .where(eq(stockTakesTable.id, id))
+    .execute();
+
+  if (!stockTake) {
+    throw new NotFoundError('stock take', id);
+  }
+
+  const lines = await db.select({
+    id: stockTakeLinesTable.id,
+    item_id: stockTakeLinesTable.item_id,
+    item_name: itemsTable.name,
+    base_unit: itemsTable.base_unit,
+    expected_quantity: stockTakeLinesTable.expected_quantity,
+    counted_quantity: stockTakeLinesTable.counted_quantity,
+    counted_by: usersTable.username,
+    counted_at: stockTakeLinesTable.counted_at,
+  })
+    .from(stockTakeLinesTable)
+    .innerJoin(itemsTable, eq(stockTakeLinesTable.item_id, itemsTable.id))
+    .leftJoin(usersTable, eq(stockTakeLinesTable.counted_by, usersTable.id))
+    .where(eq(stockTakeLinesTable.stock_take_id, id))
+    .orderBy(asc(itemsTable.name), asc(stockTakeLinesTable.id))
+    .execute();
+
+  const hideExpected = stockTake.blind && !revealExpected;
+  return {
+    ...stockTake,
+    lines: lines.map(line => {
+      const expected = toQuantity(line.expected_quantity);
+      const counted = line.counted_quantity === null ? null : toQuantity(line.counted_quantity);
+      return {
+        ...line,
+        expected_quantity: hideExpected ? null : expected,
+        counted_quantity: counted,
+        variance: hideExpected || counted === null ? null : roundQuantity(counted - expected),
+      };
+    }),
+  };
+};
+
+// Locks the stock take row for the rest of the transaction, so it is approved or cancelled exactly once.
+// Counts take a shared lock: devices counting at the same time don't wait for each other, only for an approval.
+export const lockStockTake = async (tx: Transaction, id: number, strength: 'update' | 'share' = 'update'): Promise<StockTakeRow> => {
+  const [stockTake] = await tx.select()
+    .from(stockTakesTable)
+    .where(eq(stockTakesTable.id, id))
+    .for(strength)
+    .execute();
+
+  if (!stockTake) {
+    throw new NotFoundError('stock take', id);
+  }
+  return stockTake;
+};
+
+// Rejects a step the stock take's current status does not allow
+export const assertStockTakeCounting = (stockTake: StockTakeRow, action: string): void => {
+  if (stockTake.status !== 'counting') {
+    throw new ConflictError(`Stock take #${stockTake.id} is ${stockTake.status}; only stock takes still being counted can be ${action}.`, 'status');
+  }
+};
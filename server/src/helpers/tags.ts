@@ -0,0 +1,49 @@
+import { type Transaction } from '../db';
+import { itemTagsTable, tagsTable } from '../db/schema';
+import { and, eq, inArray, notInArray } from 'drizzle-orm';
+
+// Replaces the tags of an item, creating tags that don't exist yet.
+// Returns whether anything changed, so callers know to bump the item's version.
+export const setItemTags = async (tx: Transaction, itemId: number, names: string[]): Promise<boolean> => {
+  const wanted = [...new Set(names)];
+
+  const current = await tx.select({ name: tagsTable.name })
+    .from(itemTagsTable)
+    .innerJoin(tagsTable, eq(itemTagsTable.tag_id, tagsTable.id))
+    .where(eq(itemTagsTable.item_id, itemId))
+    .execute();
+  const currentNames = new Set(current.map(tag => tag.name));
+
+  if (currentNames.size === wanted.length && wanted.every(name => currentNames.has(name))) {
+    return false;
+  }
+
+  const tagIds: number[] = [];
+  if (wanted.length > 0) {
+    await tx.insert(tagsTable)
+      .values(wanted.map(name => ({ name })))
+      .onConflictDoNothing({ target: tagsTable.name })
+      .execute();
+
+    const tags = await tx.select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(inArray(tagsTable.name, wanted))
+      .execute();
+    tagIds.push(...tags.map(tag => tag.id));
+  }
+
+  await tx.delete(itemTagsTable)
+    .where(tagIds.length > 0
+      ? and(eq(itemTagsTable.item_id, itemId), notInArray(itemTagsTable.tag_id, tagIds))
+      : eq(itemTagsTable.item_id, itemId))
+    .execute();
+
+  if (tagIds.length > 0) {
+    await tx.insert(itemTagsTable)
+      .values(tagIds.map(tag_id => ({ item_id: itemId, tag_id })))
+      .onConflictDoNothing()
+      .execute();
+  }
+
+  return true;
+};
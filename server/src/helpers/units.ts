@@ -0,0 +1,89 @@
+import { type Transaction } from '../db';
+import { itemsTable, itemUnitsTable } from '../db/schema';
+import { type ItemUnit } from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+// Quantity columns are numeric, which the driver hands over as strings ("12.500"); everything else works in numbers
+export const toQuantity = (value: string): number => Number(value);
+
+export const fromQuantity = (value: number): string => String(roundQuantity(value));
+
+// Drops the floating point noise arithmetic leaves behind, at the three decimals the columns hold
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Replaces the alternative units of an item. Returns whether anything changed, so callers know to bump the item's version.
+export const setItemUnits = async (tx: Transaction, itemId: number, baseUnit: string, units: ItemUnit[]): Promise<boolean> => {
+  const names = units.map(unit => unit.name);
+  if (names.includes(baseUnit)) {
+    throw new ValidationError(`"${baseUnit}" is already the base unit.`, 'units');
+  }
+  if (new Set(names).size !== names.length) {
+    throw new ValidationError('Each unit can only be defined once.', 'units');
+  }
+
+  const current = await tx.select({ name: itemUnitsTable.name, factor: itemUnitsTable.factor })
+    .from(itemUnitsTable)
+    .where(eq(itemUnitsTable.item_id, itemId))
+    .execute();
+  const currentFactors = new Map(current.map(unit => [unit.name, Number(unit.factor)]));
+  if (current.length === units.length && units.every(unit => currentFactors.get(unit.name) === unit.factor)) {
+    return false;
+  }
+
+  await tx.delete(itemUnitsTable)
+    .where(eq(itemUnitsTable.item_id, itemId))
+    .execute();
+
+  if (units.length > 0) {
+    await tx.insert(itemUnitsTable)
+      .values(units.map(unit => ({ item_id: itemId, name: unit.name, factor: String(unit.factor) })))
+      .execute();
+  }
+
+  return true;
+};
+
+// A quantity entered in one of an item's units, converted to its base unit
+export interface BaseQuantity {
+  quantity: number;
+  factor: number; // Base units in the unit it was entered in
+}
+
+// Converts a quantity entered in any unit of the item into its base unit. Leaving the unit out means the base unit.
+export const toBaseQuantity = async (tx: Transaction, itemId: number, quantity: number, unit: string | undefined): Promise<BaseQuantity> => {
+  if (unit === undefined) {
+    return { quantity, factor: 1 };
+  }
+
+  const [item] = await tx.select({ name: itemsTable.name, base_unit: itemsTable.base_unit })
+    .from(itemsTable)
+    .where(and(eq(itemsTable.id, itemId), isNull(itemsTable.deleted_at)))
+    .execute();
+
+  if (!item) {
+    throw new NotFoundError('item', itemId, undefined, 'item_id');
+  }
+  if (unit === item.base_unit) {
+    return { quantity, factor: 1 };
+  }
+
+  const units = await tx.select({ name: itemUnitsTable.name, factor: itemUnitsTable.factor })
+    .from(itemUnitsTable)
+    .where(eq(itemUnitsTable.item_id, itemId))
+    .orderBy(asc(itemUnitsTable.factor))
+    .execute();
+
+  const match = units.find(candidate => candidate.name === unit);
+  if (!match) {
+    const known = [item.base_unit, ...units.map(candidate => candidate.name)].map(name => `"${name}"`).join(', ');
+    throw new ValidationError(`"${unit}" is not a unit of "${item.name}"; use one of ${known}.`, 'unit');
+  }
+
+  const factor = Number(match.factor);
+  const converted = roundQuantity(quantity * factor);
+  if (converted === 0) {
+    throw new ValidationError(`${quantity} ${unit} is less than the smallest quantity of ${item.base_unit} that can be counted.`, 'quantity');
+  }
+  return { quantity: converted, factor };
+};
@@ -0,0 +1,89 @@
+import { type Transaction } from '../db';
+import { stockMovementsTable } from '../db/schema';
+import { type CostingMethod, type MovementReason } from '../schema';
+import { roundQuantity, toQuantity } from './units';
+import { and, asc, eq, notInArray } from 'drizzle-orm';
+
+// A stock movement as far as costing is concerned
+export interface CostedMovement {
+  delta: number;
+  unit_cost_cents: number | null;
+}
+
+export interface StockValue {
+  quantity: number;
+  value_cents: number;
+}
+
+// Unit cost columns are numeric like quantities, so the driver hands them over as strings
+export const toUnitCost = (value: string | null): number | null => (value === null ? null : Number(value));
+
+export const fromUnitCost = (value: number): string => value.toFixed(6);
+
+// Units still on hand from one receipt, for FIFO
+interface CostLayer {
+  quantity: number;
+  unit_cost_cents: number;
+}
+
+// Replays an item's movements, oldest first, and returns what is left and what it cost.
+// Stock added without a price (adjustments, opening stock entered without a cost) is valued at the current
+// unit cost, or at the last known one when the item had run out. Unit costs are kept exact (a screw from a box of
+// 1000 costs a fraction of a cent); only each movement's value is rounded to whole cents, so the remaining value
+// never drifts from the sum of its parts.
+export const valueStock = (method: CostingMethod, movements: CostedMovement[]): StockValue => {
+  let quantity = 0;
+  let value = 0;
+  let lastUnitCost = 0;
+  const layers: CostLayer[] = [];
+
+  for (const { delta, unit_cost_cents } of movements) {
+    if (delta > 0) {
+      const unitCost = unit_cost_cents
+        ?? (method === 'fifo' ? layers.at(-1)?.unit_cost_cents : quantity > 0 ? value / quantity : undefined)
+        ?? lastUnitCost;
+      if (method === 'fifo') {
+        layers.push({ quantity: delta, unit_cost_cents: unitCost });
+      }
+      value += Math.round(delta * unitCost);
+      lastUnitCost = unitCost;
+    } else if (method === 'fifo') {
+      // Oldest receipts leave first
+      let remaining = -delta;
+      while (remaining > 0 && layers.length > 0) {
+        const layer = layers[0];
+        const taken = Math.min(remaining, layer.quantity);
+        layer.quantity = roundQuantity(layer.quantity - taken);
+        value -= Math.round(taken * layer.unit_cost_cents);
+        remaining = roundQuantity(remaining - taken);
+        if (layer.quantity === 0) {
+          layers.shift();
+        }
+      }
+    } else {
+      value = quantity + delta <= 0 ? 0 : value - Math.round(value * -delta / quantity);
+    }
+    quantity = roundQuantity(quantity + delta);
+  }
+
+  return { quantity, value_cents: value };
+};
+
+// Transfers move stock between locations without changing what the item holds, so they don't affect its cost.
+// Lent stock is still owned, so loans and their returns are left out as well.
+export const UNCOSTED_REASONS: MovementReason[] = ['transfer', 'checkout', 'checkin'];
+
+// What one unit of an item's stock is worth right now, unrounded; null when nothing is in stock
+export const currentUnitCost = async (tx: Transaction, itemId: number, method: CostingMethod): Promise<number | null> => {
+  const movements = await tx.select({ delta: stockMovementsTable.delta, unit_cost_cents: stockMovementsTable.unit_cost_cents })
+    .from(stockMovementsTable)
+    .where(and(eq(stockMovementsTable.item_id, itemId), notInArray(stockMovementsTable.reason, UNCOSTED_REASONS)))
+    .orderBy(asc(stockMovementsTable.created_at), asc(stockMovementsTable.id))
+    .execute();
+
+  const { quantity, value_cents } = valueStock(method, movements.map(movement => ({
+    delta: toQuantity(movement.delta),
+    unit_cost_cents: toUnitCost(movement.unit_cost_cents),
+  })));
+  return quantity > 0 ? value_cents / quantity : null;
+};
@@ -1,26 +1,201 @@
 
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import superjson from 'superjson';
-import { z } from 'zod'; // Import z for input validation
+import { z, ZodError } from 'zod'; // Import z for input validation
 
 // Import schemas
-import { createItemInputSchema, updateItemInputSchema, itemSchema } from './schema';
+import {
+  createItemInputSchema,
+  updateItemInputSchema,
+  getItemsInputSchema,
+  receiveStockInputSchema,
+  addSerialUnitsInputSchema,
+  retireSerialUnitInputSchema,
+  checkOutItemInputSchema,
+  checkInLoanInputSchema,
+  getLoansInputSchema,
+  setKitComponentsInputSchema,
+  kitAssemblyInputSchema,
+  issueStockInputSchema,
+  adjustStockInputSchema,
+  getItemMovementsInputSchema,
+  createLocationInputSchema,
+  createCategoryInputSchema,
+  transferStockInputSchema,
+  importItemsCsvInputSchema,
+  exportItemsInputSchema,
+  printLabelsInputSchema,
+  createUserInputSchema,
+  loginInputSchema,
+  getAuditLogInputSchema,
+  createSupplierInputSchema,
+  createPurchaseOrderInputSchema,
+  updatePurchaseOrderInputSchema,
+  getPurchaseOrdersInputSchema,
+  receivePurchaseOrderInputSchema,
+  createSalesOrderInputSchema,
+  getSalesOrdersInputSchema,
+  fulfilSalesOrderInputSchema,
+  getInventoryValuationInputSchema,
+  getExpiringLotsInputSchema,
+  createStockTakeInputSchema,
+  getStockTakesInputSchema,
+  recordStockTakeCountsInputSchema,
+} from './schema';
 
 // Import handlers
 import { createItem } from './handlers/create_item';
 import { getItems } from './handlers/get_items';
+import { getLowStockItems } from './handlers/get_low_stock_items';
+import { getExpiringLots } from './handlers/get_expiring_lots';
 import { getItemById } from './handlers/get_item_by_id';
+import { getItemByBarcode } from './handlers/get_item_by_barcode';
 import { updateItem } from './handlers/update_item';
 import { deleteItem } from './handlers/delete_item';
+import { getDeletedItems } from './handlers/get_deleted_items';
+import { restoreItem } from './handlers/restore_item';
+import { purgeItem } from './handlers/purge_item';
+import { importItemsCsv } from './handlers/import_items_csv';
+import { exportItems } from './handlers/export_items';
+import { printLabels } from './handlers/print_labels';
+import { receiveStock } from './handlers/receive_stock';
+import { addSerialUnits } from './handlers/add_serial_units';
+import { retireSerialUnit } from './handlers/retire_serial_unit';
+import { getSerialUnit } from './handlers/get_serial_unit';
+import { checkOutItem } from './handlers/check_out_item';
+import { checkInLoan } from './handlers/check_in_loan';
+import { getLoans } from './handlers/get_loans';
+import { setKitComponents } from './handlers/set_kit_components';
+import { assembleKit } from './handlers/assemble_kit';
+import { disassembleKit } from './handlers/disassemble_kit';
+import { issueStock } from './handlers/issue_stock';
+import { adjustStock } from './handlers/adjust_stock';
+import { getItemMovements } from './handlers/get_item_movements';
+import { createLocation } from './handlers/create_location';
+import { createCategory } from './handlers/create_category';
+import { getCategories } from './handlers/get_categories';
+import { getTags } from './handlers/get_tags';
+import { getLocations } from './handlers/get_locations';
+import { transferStock } from './handlers/transfer_stock';
+import { createUser } from './handlers/create_user';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { getAuditLog } from './handlers/get_audit_log';
+import { createSupplier } from './handlers/create_supplier';
+import { getSuppliers } from './handlers/get_suppliers';
+import { createPurchaseOrder } from './handlers/create_purchase_order';
+import { getPurchaseOrders } from './handlers/get_purchase_orders';
+import { getPurchaseOrderById } from './handlers/get_purchase_order_by_id';
+import { updatePurchaseOrder } from './handlers/update_purchase_order';
+import { sendPurchaseOrder } from './handlers/send_purchase_order';
+import { receivePurchaseOrder } from './handlers/receive_purchase_order';
+import { closePurchaseOrder } from './handlers/close_purchase_order';
+import { createSalesOrder } from './handlers/create_sales_order';
+import { getSalesOrders } from './handlers/get_sales_orders';
+import { getSalesOrderById } from './handlers/get_sales_order_by_id';
+import { cancelSalesOrder } from './handlers/cancel_sales_order';
+import { fulfilSalesOrder } from './handlers/fulfil_sales_order';
+import { getInventoryValuation } from './handlers/get_inventory_valuation';
+import { createStockTake } from './handlers/create_stock_take';
+import { getStockTakes } from './handlers/get_stock_takes';
+import { getStockTakeById } from './handlers/get_stock_take_by_id';
+import { recordStockTakeCounts } from './handlers/record_stock_take_counts';
+import { approveStockTake } from './handlers/approve_stock_take';
+import { cancelStockTake } from './handlers/cancel_stock_take';
+import { itemChanges } from './helpers/item_events';
+import { clearSessionCookie, getSessionUser, parseCookies, serializeSessionCookie, SESSION_COOKIE } from './helpers/auth';
+import { hasPermission, permissionsForItemUpdate, withPermissions } from './helpers/permissions';
+import { type Permission, type User } from './schema';
+import { DomainError, KitShortageError, VersionConflictError, type DomainErrorType } from './errors';
 
-const t = initTRPC.create({
+// Resolves the signed-in user from the session cookie on every request
+async function createContext({ req, res }: CreateHTTPContextOptions) {
+  const sessionToken = parseCookies(req.headers.cookie)[SESSION_COOKIE] ?? null;
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+  return { req, res, sessionToken, user };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    const domainError = error.cause instanceof DomainError ? error.cause : null;
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Machine-readable details of a handler's domain error (not found, conflict, ...)
+        domainError: domainError ? domainError.toCause() : null,
+        // Messages keyed by input field, from either the input schema or a domain error about one field
+        fieldErrors: error.cause instanceof ZodError
+          ? fieldErrorsFromZod(error.cause)
+          : domainError?.field ? { [domainError.field]: domainError.message } : {},
+        // Conflicts carry the item as it is now, so the client can offer to merge or overwrite
+        currentItem: error.cause instanceof VersionConflictError ? error.cause.current : null,
+        // Failed kit assemblies list every component that is short
+        shortages: error.cause instanceof KitShortageError ? error.cause.shortages : null,
+      },
+    };
+  },
+});
+
+// First message per top-level input field; issues about the input as a whole are left to the error message
+function fieldErrorsFromZod(error: ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0];
+    if (field !== undefined && !(field in fieldErrors)) {
+      fieldErrors[field] = issue.message;
+    }
+  }
+  return fieldErrors;
+}
+
+const domainErrorCodes: Record<DomainErrorType, TRPCError['code']> = {
+  not_found: 'NOT_FOUND',
+  conflict: 'CONFLICT',
+  validation: 'BAD_REQUEST',
+  insufficient_stock: 'UNPROCESSABLE_CONTENT',
+  unauthenticated: 'UNAUTHORIZED',
+};
+
+// Handlers throw domain errors, which tRPC would otherwise report as INTERNAL_SERVER_ERROR.
+// Every procedure is built on this one so they all answer with the matching code instead.
+const publicProcedure = t.procedure.use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof DomainError) {
+    const cause = result.error.cause;
+    throw new TRPCError({ code: domainErrorCodes[cause.type], message: cause.message, cause });
+  }
+  return result;
+});
+
+// Procedures that require a signed-in user; the user is guaranteed non-null in their context
+const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be signed in.' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+const assertPermission = (user: User, permission: Permission) => {
+  if (!hasPermission(user.role, permission)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `The ${user.role} role does not have the "${permission}" permission.` });
+  }
+};
+
+// Procedures that require a signed-in user whose role grants the given permission
+const authorizedProcedure = (permission: Permission) => protectedProcedure.use(({ ctx, next }) => {
+  assertPermission(ctx.user, permission);
+  return next();
 });
 
-const publicProcedure = t.procedure;
 const router = t.router;
 
 const appRouter = router({
@@ -28,39 +203,388 @@ const appRouter = router({
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication procedures
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { user, token, expires_at } = await login(input);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(token, expires_at));
+      return withPermissions(user);
+    }),
+
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      if (ctx.sessionToken) {
+        await logout(ctx.sessionToken);
+      }
+      ctx.res.setHeader('Set-Cookie', clearSessionCookie());
+      return { success: true };
+    }),
+
+  // The signed-in user, or null; lets the client decide whether to show the login screen
+  me: publicProcedure
+    .query(({ ctx }) => (ctx.user ? withPermissions(ctx.user) : null)),
+
+  createUser: authorizedProcedure('users:manage')
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+
   // Item management procedures
-  createItem: publicProcedure
+  createItem: authorizedProcedure('items:create')
     .input(createItemInputSchema)
-    .mutation(({ input }) => createItem(input)),
+    .mutation(({ input, ctx }) => createItem(input, ctx.user.id)),
+
+  getItems: authorizedProcedure('items:read')
+    .input(getItemsInputSchema)
+    .query(({ input }) => getItems(input)),
+
+  // Pushes item changes made by anyone to the client as they happen (server-sent events)
+  onItemChange: authorizedProcedure('items:read')
+    .subscription(async function* ({ signal }) {
+      yield* itemChanges(signal);
+    }),
 
-  getItems: publicProcedure
-    .query(() => getItems()),
+  getLowStockItems: authorizedProcedure('items:read')
+    .query(() => getLowStockItems()),
+  getExpiringLots: authorizedProcedure('items:read')
+    .input(getExpiringLotsInputSchema)
+    .query(({ input }) => getExpiringLots(input)),
 
-  getItemById: publicProcedure
+  getItemById: authorizedProcedure('items:read')
     .input(z.number().int().positive("Item ID must be a positive integer"))
     .query(({ input }) => getItemById(input)),
 
-  updateItem: publicProcedure
+  // Scan-to-lookup: accepts a barcode or SKU exactly as the scanner typed it
+  getItemByBarcode: authorizedProcedure('items:read')
+    .input(z.string().trim().min(1, "Code cannot be empty"))
+    .query(({ input }) => getItemByBarcode(input)),
+
+  // Clerks may change quantities while renaming and other detail edits are for managers, so check per field
+  updateItem: protectedProcedure
     .input(updateItemInputSchema)
-    .mutation(({ input }) => updateItem(input)),
+    .mutation(({ input, ctx }) => {
+      permissionsForItemUpdate(input).forEach(permission => assertPermission(ctx.user, permission));
+      return updateItem(input, ctx.user.id);
+    }),
+
+  deleteItem: authorizedProcedure('items:delete')
+    .input(z.number().int().positive("Item ID must be a positive integer"))
+    .mutation(({ input, ctx }) => deleteItem(input, ctx.user.id)),
+
+  // Trash procedures; deleteItem only moves items to the trash
+  getDeletedItems: authorizedProcedure('items:delete')
+    .query(() => getDeletedItems()),
+
+  restoreItem: authorizedProcedure('items:delete')
+    .input(z.number().int().positive("Item ID must be a positive integer"))
+    .mutation(({ input, ctx }) => restoreItem(input, ctx.user.id)),
 
-  deleteItem: publicProcedure
+  purgeItem: authorizedProcedure('items:delete')
     .input(z.number().int().positive("Item ID must be a positive integer"))
-    .mutation(({ input }) => deleteItem(input)),
+    .mutation(({ input, ctx }) => purgeItem(input, ctx.user.id)),
+
+  importItemsCsv: authorizedProcedure('items:create')
+    .input(importItemsCsvInputSchema)
+    .mutation(({ input, ctx }) => {
+      // Upserts overwrite existing item details
+      if (input.mode === 'upsert') {
+        assertPermission(ctx.user, 'items:edit');
+      }
+      return importItemsCsv(input, ctx.user.id);
+    }),
+
+  getAuditLog: authorizedProcedure('audit:read')
+    .input(getAuditLogInputSchema)
+    .query(({ input }) => getAuditLog(input)),
+
+  // Stock movement procedures
+  receiveStock: authorizedProcedure('stock:write')
+    .input(receiveStockInputSchema)
+    .mutation(({ input, ctx }) => receiveStock(input, ctx.user.id)),
+
+  issueStock: authorizedProcedure('stock:write')
+    .input(issueStockInputSchema)
+    .mutation(({ input, ctx }) => issueStock(input, ctx.user.id)),
+
+  adjustStock: authorizedProcedure('stock:write')
+    .input(adjustStockInputSchema)
+    .mutation(({ input, ctx }) => adjustStock(input, ctx.user.id)),
+
+  getItemMovements: authorizedProcedure('items:read')
+    .input(getItemMovementsInputSchema)
+    .query(({ input }) => getItemMovements(input)),
+
+  transferStock: authorizedProcedure('stock:write')
+    .input(transferStockInputSchema)
+    .mutation(({ input, ctx }) => transferStock(input, ctx.user.id)),
+
+  // Serial number procedures
+  addSerialUnits: authorizedProcedure('stock:write')
+    .input(addSerialUnitsInputSchema)
+    .mutation(({ input, ctx }) => addSerialUnits(input, ctx.user.id)),
+
+  retireSerialUnit: authorizedProcedure('stock:write')
+    .input(retireSerialUnitInputSchema)
+    .mutation(({ input, ctx }) => retireSerialUnit(input, ctx.user.id)),
+
+  getSerialUnit: authorizedProcedure('items:read')
+    .input(z.string().trim().min(1, "Serial number cannot be empty"))
+    .query(({ input }) => getSerialUnit(input)),
+
+  // Loan procedures
+  checkOutItem: authorizedProcedure('stock:write')
+    .input(checkOutItemInputSchema)
+    .mutation(({ input, ctx }) => checkOutItem(input, ctx.user.id)),
+
+  checkInLoan: authorizedProcedure('stock:write')
+    .input(checkInLoanInputSchema)
+    .mutation(({ input, ctx }) => checkInLoan(input, ctx.user.id)),
+
+  getLoans: authorizedProcedure('items:read')
+    .input(getLoansInputSchema)
+    .query(({ input }) => getLoans(input)),
+
+  // Kit procedures: the bill of materials belongs to the item details, building and taking apart kits moves stock
+  setKitComponents: authorizedProcedure('items:edit')
+    .input(setKitComponentsInputSchema)
+    .mutation(({ input }) => setKitComponents(input)),
+
+  assembleKit: authorizedProcedure('stock:write')
+    .input(kitAssemblyInputSchema)
+    .mutation(({ input, ctx }) => assembleKit(input, ctx.user.id)),
+
+  disassembleKit: authorizedProcedure('stock:write')
+    .input(kitAssemblyInputSchema)
+    .mutation(({ input, ctx }) => disassembleKit(input, ctx.user.id)),
+
+  // Location procedures
+  createLocation: authorizedProcedure('locations:manage')
+    .input(createLocationInputSchema)
+    .mutation(({ input }) => createLocation(input)),
+
+  getLocations: authorizedProcedure('items:read')
+    .query(() => getLocations()),
+
+  // Category and tag procedures; tags are created on the fly when items are tagged
+  createCategory: authorizedProcedure('categories:manage')
+    .input(createCategoryInputSchema)
+    .mutation(({ input }) => createCategory(input)),
+
+  getCategories: authorizedProcedure('items:read')
+    .query(() => getCategories()),
+
+  getTags: authorizedProcedure('items:read')
+    .query(() => getTags()),
+
+  // Supplier and purchase order procedures; receiving is stock work, the rest is for purchasing
+  createSupplier: authorizedProcedure('purchasing:manage')
+    .input(createSupplierInputSchema)
+    .mutation(({ input }) => createSupplier(input)),
+
+  getSuppliers: authorizedProcedure('items:read')
+    .query(() => getSuppliers()),
+
+  createPurchaseOrder: authorizedProcedure('purchasing:manage')
+    .input(createPurchaseOrderInputSchema)
+    .mutation(({ input }) => createPurchaseOrder(input)),
+
+  getPurchaseOrders: authorizedProcedure('items:read')
+    .input(getPurchaseOrdersInputSchema)
+    .query(({ input }) => getPurchaseOrders(input)),
+
+  getPurchaseOrderById: authorizedProcedure('items:read')
+    .input(z.number().int().positive("Purchase order ID must be a positive integer"))
+    .query(({ input }) => getPurchaseOrderById(input)),
+
+  updatePurchaseOrder: authorizedProcedure('purchasing:manage')
+    .input(updatePurchaseOrderInputSchema)
+    .mutation(({ input }) => updatePurchaseOrder(input)),
+
+  sendPurchaseOrder: authorizedProcedure('purchasing:manage')
+    .input(z.number().int().positive("Purchase order ID must be a positive integer"))
+    .mutation(({ input }) => sendPurchaseOrder(input)),
+
+  receivePurchaseOrder: authorizedProcedure('stock:write')
+    .input(receivePurchaseOrderInputSchema)
+    .mutation(({ input, ctx }) => receivePurchaseOrder(input, ctx.user.id)),
+
+  closePurchaseOrder: authorizedProcedure('purchasing:manage')
+    .input(z.number().int().positive("Purchase order ID must be a positive integer"))
+    .mutation(({ input }) => closePurchaseOrder(input)),
+
+  // Sales order procedures; placing and shipping orders is stock work
+  createSalesOrder: authorizedProcedure('stock:write')
+    .input(createSalesOrderInputSchema)
+    .mutation(({ input, ctx }) => createSalesOrder(input, ctx.user.id)),
+
+  getSalesOrders: authorizedProcedure('items:read')
+    .input(getSalesOrdersInputSchema)
+    .query(({ input }) => getSalesOrders(input)),
+
+  getSalesOrderById: authorizedProcedure('items:read')
+    .input(z.number().int().positive("Sales order ID must be a positive integer"))
+    .query(({ input }) => getSalesOrderById(input)),
+
+  cancelSalesOrder: authorizedProcedure('stock:write')
+    .input(z.number().int().positive("Sales order ID must be a positive integer"))
+    .mutation(({ input, ctx }) => cancelSalesOrder(input, ctx.user.id)),
+
+  fulfilSalesOrder: authorizedProcedure('stock:write')
+    .input(fulfilSalesOrderInputSchema)
+    .mutation(({ input, ctx }) => fulfilSalesOrder(input, ctx.user.id)),
+
+  // Stock take procedures; counters only see the expected quantities of blind counts once they may manage stock takes
+  createStockTake: authorizedProcedure('stocktakes:manage')
+    .input(createStockTakeInputSchema)
+    .mutation(({ input, ctx }) => createStockTake(input, ctx.user.id)),
+
+  getStockTakes: authorizedProcedure('stock:write')
+    .input(getStockTakesInputSchema)
+    .query(({ input, ctx }) => getStockTakes(input, hasPermission(ctx.user.role, 'stocktakes:manage'))),
+
+  getStockTakeById: authorizedProcedure('stock:write')
+    .input(z.number().int().positive("Stock take ID must be a positive integer"))
+    .query(({ input, ctx }) => getStockTakeById(input, hasPermission(ctx.user.role, 'stocktakes:manage'))),
+
+  recordStockTakeCounts: authorizedProcedure('stock:write')
+    .input(recordStockTakeCountsInputSchema)
+    .mutation(({ input, ctx }) => recordStockTakeCounts(input, ctx.user.id, hasPermission(ctx.user.role, 'stocktakes:manage'))),
+
+  approveStockTake: authorizedProcedure('stocktakes:manage')
+    .input(z.number().int().positive("Stock take ID must be a positive integer"))
+    .mutation(({ input, ctx }) => approveStockTake(input, ctx.user.id)),
+
+  cancelStockTake: authorizedProcedure('stocktakes:manage')
+    .input(z.number().int().positive("Stock take ID must be a positive integer"))
+    .mutation(({ input }) => cancelStockTake(input)),
+
+  getInventoryValuation: authorizedProcedure('valuation:read')
+    .input(getInventoryValuationInputSchema)
+    .query(({ input }) => getInventoryValuation(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
+// Download routes sit outside tRPC, so they check the session cookie themselves.
+// Answers 401/403 and returns false when the request may not go ahead.
+async function authorizeDownload(req: IncomingMessage, res: ServerResponse, permission: Permission, forbiddenMessage: string) {
+  const sessionToken = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+  if (!user) {
+    res.statusCode = 401;
+    res.end('You must be signed in.');
+    return false;
+  }
+  if (!hasPermission(user.role, permission)) {
+    res.statusCode = 403;
+    res.end(forbiddenMessage);
+    return false;
+  }
+  return true;
+}
+
+// Numeric list filters arrive as query-string text, and tags as a repeated parameter;
+// everything else maps onto the schema as-is
+const EXPORT_NUMERIC_PARAMS = ['minQuantity', 'maxQuantity', 'locationId', 'categoryId'];
+
+// Item export lives outside tRPC so large results can be streamed straight into a file download:
+// GET /export?format=csv|ndjson|xlsx plus the same sort and filter parameters as getItems (e.g. &tags=a&tags=b)
+async function handleExport(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const params: Record<string, unknown> = {};
+  url.searchParams.forEach((value, key) => {
+    params[key] = EXPORT_NUMERIC_PARAMS.includes(key) ? Number(value) : value;
+  });
+  if (url.searchParams.has('tags')) {
+    params['tags'] = url.searchParams.getAll('tags');
+  }
+
+  if (!await authorizeDownload(req, res, 'items:read', 'You are not allowed to export items.')) {
+    return;
+  }
+
+  const parsed = exportItemsInputSchema.safeParse(params);
+  if (!parsed.success) {
+    res.statusCode = 400;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: parsed.error.issues }));
+    return;
+  }
+
+  try {
+    await exportItems(parsed.data, res);
+  } catch {
+    // Once streaming has started the status is already sent, so the best we can do is cut the download short
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.statusCode = 500;
+      res.removeHeader('Content-Disposition');
+      res.end('Export failed');
+    }
+  }
+}
+
+// Label sheets are PDFs the browser opens directly for printing:
+// GET /labels?template=avery_5160&skip=0&itemIds=1&itemIds=2
+async function handleLabels(req: IncomingMessage, res: ServerResponse) {
+  if (!await authorizeDownload(req, res, 'items:read', 'You are not allowed to print labels.')) {
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parsed = printLabelsInputSchema.safeParse({
+    itemIds: url.searchParams.getAll('itemIds').map(Number),
+    template: url.searchParams.get('template') ?? undefined,
+    skip: url.searchParams.has('skip') ? Number(url.searchParams.get('skip')) : undefined,
+  });
+  if (!parsed.success) {
+    res.statusCode = 400;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: parsed.error.issues }));
+    return;
+  }
+
+  // QR codes link back to the web app. Behind the dev proxy the Host header names this server,
+  // so unless APP_URL is configured the page that asked for the labels is used instead.
+  const referer = req.headers.referer && URL.canParse(req.headers.referer) ? new URL(req.headers.referer).origin : null;
+  const appUrl = process.env['APP_URL'] || referer || 'http://localhost:5173';
+
+  try {
+    await printLabels(parsed.data, appUrl, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      // Same status codes the tRPC procedures would answer with
+      res.statusCode = error instanceof DomainError
+        ? getHTTPStatusCodeFromError(new TRPCError({ code: domainErrorCodes[error.type] }))
+        : 500;
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.end(error instanceof DomainError ? error.message : 'Label printing failed');
+    }
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (req.method === 'GET' && req.url?.split('?')[0] === '/export') {
+          handleExport(req, res);
+          return;
+        }
+        if (req.method === 'GET' && req.url?.split('?')[0] === '/labels') {
+          handleLabels(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
@@ -1,13 +1,156 @@
 
 import { z } from 'zod';
 
+// Stock is counted in the item's base unit and can be fractional (metres of cable), to three decimal places
+const quantitySchema = z.number().nonnegative().multipleOf(0.001, "Quantities have at most three decimal places");
+const positiveQuantitySchema = quantitySchema.positive("Quantity must be positive");
+
+// Quantity of an item held at a single location
+export const itemLocationStockSchema = z.object({
+  location_id: z.number(),
+  location_name: z.string(),
+  quantity: z.number().nonnegative()
+});
+
+export type ItemLocationStock = z.infer<typeof itemLocationStockSchema>;
+
+// Tag names are case-insensitive and stored lower-case
+const tagNameSchema = z.string().trim().toLowerCase().min(1, "Tag cannot be empty").max(50, "Tag is too long");
+
+// Barcode symbologies printed on item and shelf labels
+export const barcodeSymbologySchema = z.enum(['ean13', 'upca', 'code128']);
+
+export type BarcodeSymbology = z.infer<typeof barcodeSymbologySchema>;
+
+// GTIN check digit (EAN-13, UPC-A): digits are weighted 3 and 1 alternately from the right, excluding the check digit
+export const hasValidGtinCheckDigit = (code: string): boolean => {
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+const barcodeFormats: Record<BarcodeSymbology, { pattern: RegExp; description: string; checkDigit: boolean }> = {
+  ean13: { pattern: /^\d{13}$/, description: 'EAN-13 codes have exactly 13 digits', checkDigit: true },
+  upca: { pattern: /^\d{12}$/, description: 'UPC-A codes have exactly 12 digits', checkDigit: true },
+  // Code 128 carries its checksum in the printed symbol only, so the text just has to be encodable
+  code128: { pattern: /^[\x20-\x7e]{1,48}$/, description: 'Code 128 codes are 1 to 48 printable ASCII characters', checkDigit: false },
+};
+
+// A barcode attached to an item; the code is what a scanner types in
+export const barcodeSchema = z.object({
+  symbology: barcodeSymbologySchema,
+  code: z.string().trim()
+}).superRefine(({ symbology, code }, ctx) => {
+  const format = barcodeFormats[symbology];
+  if (!format.pattern.test(code)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${format.description}.`, path: ['code'] });
+  } else if (format.checkDigit && !hasValidGtinCheckDigit(code)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid check digit in ${code}.`, path: ['code'] });
+  }
+});
+
+export type Barcode = z.infer<typeof barcodeSchema>;
+
+// Stock keeping units are short codes chosen by the business, e.g. "BOLT-M8-50"
+const skuSchema = z.string().trim().min(1, "SKU cannot be empty").max(64, "SKU is too long")
+  .regex(/^[A-Za-z0-9._\/-]+$/, "SKU may only contain letters, digits and . _ / -");
+
+// Costing methods: FIFO values stock at the price of the most recent receipts still on hand,
+// average spreads the cost of every receipt over all units
+export const costingMethodSchema = z.enum(['fifo', 'average']);
+
+export type CostingMethod = z.infer<typeof costingMethodSchema>;
+
+// Money is handled in whole cents throughout, so totals never pick up floating point drift
+const centsSchema = z.number().int().nonnegative();
+
+// Calendar dates without a time of day (yyyy-mm-dd), so they mean the same day in every time zone
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format yyyy-mm-dd")
+  .refine(value => !Number.isNaN(Date.parse(value)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), "Not a valid date");
+
+const lotNumberSchema = z.string().trim().min(1, "Lot number cannot be empty").max(64, "Lot number is too long");
+
+// A lot of an item with stock left in it
+export const itemLotSchema = z.object({
+  id: z.number(),
+  lot_number: z.string(),
+  expires_on: z.string().nullable(), // yyyy-mm-dd; null for lots that don't expire
+  quantity: z.number().positive()
+});
+
+export type ItemLot = z.infer<typeof itemLotSchema>;
+
+const serialNumberSchema = z.string().trim().min(1, "Serial number cannot be empty").max(100, "Serial number is too long");
+
+// Lifecycle of one serialized unit; only units in stock count towards the item's quantity
+export const serialUnitStatusSchema = z.enum(['in_stock', 'checked_out', 'retired']);
+
+export type SerialUnitStatus = z.infer<typeof serialUnitStatusSchema>;
+
+// One individually identified unit of a serialized item
+export const serialUnitSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  serial_number: z.string(),
+  status: serialUnitStatusSchema,
+  location_id: z.number().nullable(), // Where the unit is kept; null when unassigned
+  created_at: z.coerce.date(),
+  retired_at: z.coerce.date().nullable()
+});
+
+export type SerialUnit = z.infer<typeof serialUnitSchema>;
+
+// Units of measure are free text ("each", "m", "box"), compared exactly
+const unitNameSchema = z.string().trim().min(1, "Unit cannot be empty").max(32, "Unit name is too long");
+
+// An alternative unit an item is bought or used in, e.g. a box of 100 when the base unit is "each"
+export const itemUnitSchema = z.object({
+  name: unitNameSchema,
+  factor: z.number().positive("Factor must be positive").multipleOf(0.000001, "Factors have at most six decimal places") // Base units in one of this unit
+});
+
+export type ItemUnit = z.infer<typeof itemUnitSchema>;
+
+// One line of a kit's bill of materials
+export const kitComponentSchema = z.object({
+  item_id: z.number(),
+  item_name: z.string(),
+  base_unit: z.string(), // Unit of the component, which the quantity is counted in
+  quantity: z.number().positive() // Needed for one kit
+});
+
+export type KitComponent = z.infer<typeof kitComponentSchema>;
+
 // Item schema for output/response
 export const itemSchema = z.object({
   id: z.number(),
   name: z.string(),
+  sku: z.string().nullable(), // Unique among active items; null when not assigned
+  barcodes: z.array(barcodeSchema),
   description: z.string().nullable(), // Drizzle text() is nullable by default
-  quantity: z.number().int().nonnegative(), // Drizzle integer, non-negative
-  created_at: z.coerce.date() // Drizzle timestamp
+  base_unit: z.string(), // What every quantity of the item is counted in
+  units: z.array(itemUnitSchema), // Alternative units stock can be received or issued in, smallest first
+  on_hand: z.number().nonnegative(), // Physically in stock: the total across all locations, including unassigned stock
+  reserved: z.number().nonnegative(), // Part of on_hand committed to open sales orders
+  available: z.number(), // on_hand minus reserved: what can still be sold or issued; negative when a stock take found less than is reserved
+  on_loan: z.number().nonnegative(), // Lent out and not yet returned; not part of on_hand
+  reorder_point: z.number().int().nonnegative().nullable(), // Alert when available stock is at or below this level
+  reorder_quantity: z.number().int().positive().nullable(), // Suggested amount to order when restocking
+  category_id: z.number().nullable(), // Null for uncategorised items
+  tags: z.array(z.string()), // Sorted by name
+  costing_method: costingMethodSchema,
+  lot_tracked: z.boolean(), // Receipts must name a lot; issues take the lot that expires first
+  lots: z.array(itemLotSchema), // First to expire first; lot quantities can add up to less than on_hand
+  serialized: z.boolean(), // Stock is tracked unit by unit; on_hand is the number of units in stock
+  serial_numbers: z.array(z.string()), // Units in stock, sorted; empty for items that are not serialized
+  components: z.array(kitComponentSchema), // Bill of materials, sorted by component name; empty for items that are not kits
+  buildable: z.number().int().nonnegative().nullable(), // Kits that could be assembled from available component stock; null for items that are not kits
+  created_at: z.coerce.date(), // Drizzle timestamp
+  deleted_at: z.coerce.date().nullable(), // Set while the item is in the trash
+  version: z.number().int().positive(), // Changes with every write; send it back with updates
+  locations: z.array(itemLocationStockSchema), // Per-location breakdown, only locations holding stock
+  unassigned_quantity: z.number().nonnegative() // Part of the total not held at any location
 });
 
 export type Item = z.infer<typeof itemSchema>;
@@ -15,8 +158,21 @@ export type Item = z.infer<typeof itemSchema>;
 // Input schema for creating items
 export const createItemInputSchema = z.object({
   name: z.string().min(1, "Name cannot be empty"),
+  sku: skuSchema.nullable().default(null),
+  barcodes: z.array(barcodeSchema).default([]),
   description: z.string().nullable(), // Explicitly allow null
-  quantity: z.number().int().nonnegative().default(0) // Non-negative integer, with a default for creation if not provided
+  quantity: quantitySchema.default(0), // Opening stock in the base unit
+  base_unit: unitNameSchema.default('each'),
+  units: z.array(itemUnitSchema).default([]),
+  reorder_point: z.number().int().nonnegative().nullable().default(null), // Null disables low-stock alerts
+  reorder_quantity: z.number().int().positive().nullable().default(null),
+  category_id: z.number().int().positive().nullable().default(null),
+  tags: z.array(tagNameSchema).default([]),
+  costing_method: costingMethodSchema.default('average'),
+  lot_tracked: z.boolean().default(false),
+  serialized: z.boolean().default(false),
+  serial_numbers: z.array(serialNumberSchema).default([]), // Opening units of a serialized item; quantity must match their count
+  unit_cost_cents: centsSchema.nullable().default(null) // Cost of each unit of the opening quantity
 });
 
 export type CreateItemInput = z.infer<typeof createItemInputSchema>;
@@ -24,9 +180,756 @@ export type CreateItemInput = z.infer<typeof createItemInputSchema>;
 // Input schema for updating items
 export const updateItemInputSchema = z.object({
   id: z.number().int().positive(), // Must be a positive integer ID
+  version: z.number().int().positive(), // Version the edit was based on; stale versions are rejected
   name: z.string().min(1, "Name cannot be empty").optional(), // Optional, can be undefined if not changing name
+  sku: skuSchema.nullable().optional(), // Null removes the SKU
+  barcodes: z.array(barcodeSchema).optional(), // Replaces the item's barcodes as a whole
   description: z.string().nullable().optional(), // Can be null or undefined
-  quantity: z.number().int().nonnegative().optional() // Optional non-negative integer
+  quantity: quantitySchema.optional(), // New on-hand quantity; cannot drop below what is reserved
+  base_unit: unitNameSchema.optional(), // Renames the unit; existing quantities are not converted
+  units: z.array(itemUnitSchema).optional(), // Replaces the item's alternative units as a whole
+  reorder_point: z.number().int().nonnegative().nullable().optional(), // Null clears the threshold
+  reorder_quantity: z.number().int().positive().nullable().optional(),
+  category_id: z.number().int().positive().nullable().optional(), // Null removes the item from its category
+  tags: z.array(tagNameSchema).optional(), // Replaces the item's tags as a whole
+  costing_method: costingMethodSchema.optional(), // Applies to the whole history, past valuations included
+  lot_tracked: z.boolean().optional(), // Existing stock stays unlotted when tracking is switched on
+  serialized: z.boolean().optional(), // Can only change while the item has no stock
+  serial_numbers: z.array(serialNumberSchema).optional() // Units in stock as a whole: new serials are added, missing ones retired
 });
 
 export type UpdateItemInput = z.infer<typeof updateItemInputSchema>;
+
+// Sorting and filtering options shared by the list query and the export endpoint
+const itemListOptionsSchema = z.object({
+  sortBy: z.enum(['name', 'quantity', 'created_at']).default('created_at'), // Quantity sorts and filters use on-hand stock
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  name: z.string().optional(), // Case-insensitive substring match on the item name
+  minQuantity: quantitySchema.optional(),
+  maxQuantity: quantitySchema.optional(),
+  locationId: z.number().int().positive().optional(), // Only items with stock at this location
+  categoryId: z.number().int().positive().optional(), // Only items in this category or one of its subcategories
+  tags: z.array(tagNameSchema).optional() // Only items carrying every one of these tags
+});
+
+const hasValidQuantityRange = (input: z.infer<typeof itemListOptionsSchema>): boolean =>
+  input.minQuantity === undefined || input.maxQuantity === undefined || input.minQuantity <= input.maxQuantity;
+
+const quantityRangeError = { message: "minQuantity cannot be greater than maxQuantity", path: ['maxQuantity'] };
+
+// Input schema for listing items with cursor-based pagination, sorting and filtering
+export const getItemsInputSchema = itemListOptionsSchema.extend({
+  cursor: z.number().int().positive().nullish(), // ID of the last item on the previous page
+  limit: z.number().int().positive().max(100).default(20)
+}).refine(hasValidQuantityRange, quantityRangeError);
+
+export type GetItemsInput = z.infer<typeof getItemsInputSchema>;
+
+// A single page of items returned by the list query
+export const itemPageSchema = z.object({
+  items: z.array(itemSchema),
+  nextCursor: z.number().nullable() // null when there are no more pages
+});
+
+export type ItemPage = z.infer<typeof itemPageSchema>;
+
+// Input schema for exporting every item matching the list filters
+export const exportItemsInputSchema = itemListOptionsSchema.extend({
+  format: z.enum(['csv', 'ndjson', 'xlsx']).default('csv')
+}).refine(hasValidQuantityRange, quantityRangeError);
+
+export type ExportItemsInput = z.infer<typeof exportItemsInputSchema>;
+
+// Label sheet layouts for common Avery products: US Letter (5xxx) and A4 (L7xxx)
+export const labelTemplateSchema = z.enum(['avery_5160', 'avery_5163', 'avery_l7160', 'avery_l7163', 'avery_l7165']);
+
+export type LabelTemplate = z.infer<typeof labelTemplateSchema>;
+
+// Input schema for printing a PDF sheet of item labels
+export const printLabelsInputSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1, 'Select at least one item').max(500, 'At most 500 labels can be printed at once'),
+  template: labelTemplateSchema.default('avery_5160'),
+  skip: z.number().int().nonnegative().default(0) // Labels already used at the start of a partly used sheet
+});
+
+export type PrintLabelsInput = z.infer<typeof printLabelsInputSchema>;
+
+// Change to an item pushed to subscribed clients; deleted items only carry their ID
+export const itemChangeEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), item: itemSchema }),
+  z.object({ type: z.literal('updated'), item: itemSchema }),
+  z.object({ type: z.literal('deleted'), item_id: z.number().int() }),
+]);
+
+export type ItemChangeEvent = z.infer<typeof itemChangeEventSchema>;
+
+// Reasons recorded on stock movements
+export const movementReasonSchema = z.enum(['receipt', 'sale', 'adjustment', 'damage', 'transfer', 'checkout', 'checkin', 'assembly', 'disassembly']);
+
+export type MovementReason = z.infer<typeof movementReasonSchema>;
+
+// Stock movement schema for output/response
+export const stockMovementSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  delta: z.number(), // Signed change in the base unit
+  location_id: z.number().nullable(), // Null when the unassigned stock changed
+  reason: movementReasonSchema,
+  note: z.string().nullable(),
+  unit_cost_cents: z.number().nullable(), // Purchase price per base unit, on receipts that had one; fractional for stock bought in packs
+  lot_id: z.number().nullable(), // Lot the units went into or came out of
+  lot_number: z.string().nullable(),
+  serial_unit_id: z.number().nullable(), // Unit that came or went, for serialized items
+  serial_number: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type StockMovement = z.infer<typeof stockMovementSchema>;
+
+// Input schema for receiving stock into inventory
+export const receiveStockInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  location_id: z.number().int().positive().nullable().default(null), // Null targets the unassigned stock
+  quantity: positiveQuantitySchema,
+  unit: unitNameSchema.optional(), // Unit the quantity is counted in; the base unit when not given
+  unit_cost_cents: centsSchema.nullable().default(null), // Purchase price per unit received in; null values the receipt at the current cost
+  lot_number: lotNumberSchema.optional(), // Required for lot-tracked items; receiving into an existing lot adds to it
+  expires_on: isoDateSchema.nullable().optional(),
+  note: z.string().nullable().default(null)
+}).refine(input => input.expires_on == null || input.lot_number !== undefined, { message: "An expiry date needs a lot number", path: ['lot_number'] });
+
+export type ReceiveStockInput = z.infer<typeof receiveStockInputSchema>;
+
+// Input schema for issuing stock out of inventory
+export const issueStockInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  location_id: z.number().int().positive().nullable().default(null), // Null targets the unassigned stock
+  quantity: positiveQuantitySchema,
+  unit: unitNameSchema.optional(), // Unit the quantity is counted in; the base unit when not given
+  reason: z.enum(['sale', 'damage']).default('sale'),
+  note: z.string().nullable().default(null)
+});
+
+export type IssueStockInput = z.infer<typeof issueStockInputSchema>;
+
+// Input schema for manual stock corrections
+export const adjustStockInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  location_id: z.number().int().positive().nullable().default(null), // Null targets the unassigned stock
+  delta: z.number().multipleOf(0.001, "Quantities have at most three decimal places").refine((delta) => delta !== 0, "Adjustment cannot be zero"),
+  note: z.string().nullable().default(null)
+});
+
+export type AdjustStockInput = z.infer<typeof adjustStockInputSchema>;
+
+// Input schema for an item's movement history
+export const getItemMovementsInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  limit: z.number().int().positive().max(500).default(50)
+});
+
+export type GetItemMovementsInput = z.infer<typeof getItemMovementsInputSchema>;
+
+// Location schema for output/response
+export const locationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  parent_id: z.number().nullable(), // Warehouse containing this bin, null for top-level locations
+  created_at: z.coerce.date()
+});
+
+export type Location = z.infer<typeof locationSchema>;
+
+// Input schema for creating locations
+export const createLocationInputSchema = z.object({
+  name: z.string().min(1, "Name cannot be empty"),
+  description: z.string().nullable(),
+  parent_id: z.number().int().positive().nullable().default(null)
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationInputSchema>;
+
+// Category schema for output/response
+export const categorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  parent_id: z.number().nullable(), // Parent category, null for top-level categories
+  created_at: z.coerce.date()
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+// Input schema for creating categories
+export const createCategoryInputSchema = z.object({
+  name: z.string().min(1, "Name cannot be empty"),
+  parent_id: z.number().int().positive().nullable().default(null)
+});
+
+export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
+
+// Tag schema for output/response
+export const tagSchema = z.object({
+  id: z.number(),
+  name: z.string()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// Input schema for moving stock between locations
+export const transferStockInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  from_location_id: z.number().int().positive().nullable(), // Null transfers out of the unassigned stock
+  to_location_id: z.number().int().positive().nullable(), // Null transfers back into the unassigned stock
+  quantity: positiveQuantitySchema,
+  note: z.string().nullable().default(null)
+}).refine(
+  (input) => input.from_location_id !== input.to_location_id,
+  { message: "Source and destination must be different", path: ['to_location_id'] }
+);
+
+export type TransferStockInput = z.infer<typeof transferStockInputSchema>;
+
+// Input schema for importing items from CSV text
+export const importItemsCsvInputSchema = z.object({
+  csv: z.string().min(1, "CSV cannot be empty").max(1_000_000, "CSV is too large"),
+  mode: z.enum(['create', 'upsert']).default('create'), // 'upsert' updates existing items matched by name
+  dryRun: z.boolean().default(true) // Validate and report without writing anything
+});
+
+export type ImportItemsCsvInput = z.infer<typeof importItemsCsvInputSchema>;
+
+// Outcome of a single CSV data row
+export const importRowResultSchema = z.object({
+  row: z.number().int(), // 1-based record number in the file, counting the header as row 1
+  name: z.string().nullable(),
+  action: z.enum(['create', 'update', 'error']),
+  errors: z.array(z.string())
+});
+
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+
+// Report returned by the CSV import, for both dry runs and real imports
+export const importReportSchema = z.object({
+  dryRun: z.boolean(),
+  mode: z.enum(['create', 'upsert']),
+  committed: z.boolean(), // True only when rows were actually written
+  errors: z.array(z.string()), // File-level problems such as a bad header
+  created: z.number().int(),
+  updated: z.number().int(),
+  failed: z.number().int(),
+  rows: z.array(importRowResultSchema)
+});
+
+export type ImportReport = z.infer<typeof importReportSchema>;
+
+// Roles, from least to most privileged
+export const userRoleSchema = z.enum(['viewer', 'clerk', 'manager']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// Individual operations a role can be granted
+export const permissionSchema = z.enum([
+  'items:read', // List, view and export items, locations and movements
+  'items:create', // Create items, also through the CSV import
+  'items:edit', // Rename items and change their description, reorder thresholds, category and tags
+  'items:delete', // Move items to the trash, and restore or purge them from there
+  'stock:write', // Receive, issue, adjust and transfer stock, and edit quantities
+  'locations:manage',
+  'categories:manage',
+  'purchasing:manage', // Manage suppliers and create, send and close purchase orders; receiving them needs stock:write
+  'users:manage',
+  'audit:read', // View the audit log of item changes
+  'valuation:read', // See what the stock is worth
+  'stocktakes:manage' // Start, approve and cancel stock takes, and see expected quantities of blind counts; counting needs stock:write
+]);
+
+export type Permission = z.infer<typeof permissionSchema>;
+
+// User schema as exposed by the API; the password hash never leaves the server
+export const userSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  role: userRoleSchema,
+  created_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// The signed-in user, with the permissions of their role so the client can hide what they cannot do
+export const currentUserSchema = userSchema.extend({
+  permissions: z.array(permissionSchema)
+});
+
+export type CurrentUser = z.infer<typeof currentUserSchema>;
+
+// Input schema for creating user accounts
+export const createUserInputSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(256),
+  role: userRoleSchema.default('viewer')
+});
+
+export type CreateUserInput = z.infer<typeof createUserInputSchema>;
+
+// Input schema for signing in
+export const loginInputSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required")
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// Audit log entry as returned by the API
+export const auditOperationSchema = z.enum(['create', 'update', 'delete', 'restore', 'purge']);
+
+export type AuditOperation = z.infer<typeof auditOperationSchema>;
+
+export const auditEntrySchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  actor_id: z.number().nullable(),
+  actor_username: z.string().nullable(), // Null for changes made outside a user session, or by a deleted user
+  operation: auditOperationSchema,
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })),
+  created_at: z.coerce.date()
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+// Input schema for browsing the audit log, newest first
+export const getAuditLogInputSchema = z.object({
+  item_id: z.number().int().positive().optional(),
+  actor_id: z.number().int().positive().optional(),
+  operation: auditOperationSchema.optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  cursor: z.number().int().positive().nullish(), // ID of the last entry on the previous page
+  limit: z.number().int().positive().max(200).default(50)
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
+
+export const auditLogPageSchema = z.object({
+  entries: z.array(auditEntrySchema),
+  nextCursor: z.number().nullable()
+});
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
+
+// Supplier schema for output/response
+export const supplierSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Supplier = z.infer<typeof supplierSchema>;
+
+// Input schema for creating suppliers
+export const createSupplierInputSchema = z.object({
+  name: z.string().trim().min(1, "Name cannot be empty"),
+  email: z.string().trim().email("Invalid email address").nullable().default(null),
+  phone: z.string().trim().nullable().default(null),
+  notes: z.string().nullable().default(null)
+});
+
+export type CreateSupplierInput = z.infer<typeof createSupplierInputSchema>;
+
+// Purchase order lifecycle: draft → sent → partially_received → received → closed.
+// Only drafts can be edited; closing is possible from any state and ends the order (a short close when stock is outstanding).
+export const purchaseOrderStatusSchema = z.enum(['draft', 'sent', 'partially_received', 'received', 'closed']);
+
+export type PurchaseOrderStatus = z.infer<typeof purchaseOrderStatusSchema>;
+
+// Purchase order line as returned by the API
+export const purchaseOrderLineSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  base_unit: z.string(), // Unit the quantities and unit cost are in
+  quantity_ordered: z.number(),
+  quantity_received: z.number(),
+  unit_cost_cents: z.number().nullable() // Per base unit, so fractional for items ordered in packs
+});
+
+export type PurchaseOrderLine = z.infer<typeof purchaseOrderLineSchema>;
+
+// Purchase order as listed, with totals over its lines
+export const purchaseOrderSummarySchema = z.object({
+  id: z.number(),
+  supplier_id: z.number(),
+  supplier_name: z.string(),
+  status: purchaseOrderStatusSchema,
+  notes: z.string().nullable(),
+  line_count: z.number().int(),
+  quantity_ordered: z.number(),
+  quantity_received: z.number(),
+  created_at: z.coerce.date(),
+  sent_at: z.coerce.date().nullable(),
+  closed_at: z.coerce.date().nullable()
+});
+
+export type PurchaseOrderSummary = z.infer<typeof purchaseOrderSummarySchema>;
+
+// Purchase order with its lines, for the detail view
+export const purchaseOrderSchema = purchaseOrderSummarySchema.extend({
+  lines: z.array(purchaseOrderLineSchema)
+});
+
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>;
+
+const purchaseOrderLineInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  quantity_ordered: positiveQuantitySchema,
+  unit: unitNameSchema.optional(), // Unit the quantity and price are in; the base unit when not given
+  unit_cost_cents: centsSchema.nullable().default(null)
+});
+
+// An item appears at most once per order, so receipts can be matched to lines unambiguously
+const hasDistinctItems = (lines: { item_id: number }[] | undefined) =>
+  lines === undefined || new Set(lines.map(line => line.item_id)).size === lines.length;
+const distinctItemsError = { message: "Each item can only be ordered once per purchase order", path: ['lines'] };
+
+// Input schema for creating purchase orders, which start out as drafts
+export const createPurchaseOrderInputSchema = z.object({
+  supplier_id: z.number().int().positive(),
+  notes: z.string().nullable().default(null),
+  lines: z.array(purchaseOrderLineInputSchema).min(1, "Add at least one line")
+}).refine(input => hasDistinctItems(input.lines), distinctItemsError);
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderInputSchema>;
+
+// Input schema for editing a draft; lines, when given, replace the current ones
+export const updatePurchaseOrderInputSchema = z.object({
+  id: z.number().int().positive(),
+  supplier_id: z.number().int().positive().optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(purchaseOrderLineInputSchema).min(1, "Add at least one line").optional()
+}).refine(input => hasDistinctItems(input.lines), distinctItemsError);
+
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderInputSchema>;
+
+// Input schema for listing purchase orders, newest first
+export const getPurchaseOrdersInputSchema = z.object({
+  status: purchaseOrderStatusSchema.optional(),
+  supplier_id: z.number().int().positive().optional()
+});
+
+export type GetPurchaseOrdersInput = z.infer<typeof getPurchaseOrdersInputSchema>;
+
+// Input schema for booking (part of) a delivery against a sent purchase order
+export const receivePurchaseOrderInputSchema = z.object({
+  purchase_order_id: z.number().int().positive(),
+  location_id: z.number().int().positive().nullable().default(null), // Null receives into the unassigned stock
+  lines: z.array(z.object({
+    line_id: z.number().int().positive(),
+    quantity: positiveQuantitySchema,
+    unit: unitNameSchema.optional(), // Unit the quantity is counted in; the base unit when not given
+    lot_number: lotNumberSchema.optional(), // Required for lot-tracked items
+    expires_on: isoDateSchema.nullable().optional()
+  })).min(1, "Receive at least one line"),
+  note: z.string().nullable().default(null)
+}).refine(
+  input => new Set(input.lines.map(line => line.line_id)).size === input.lines.length,
+  { message: "Each line can only be received once per delivery", path: ['lines'] }
+);
+
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderInputSchema>;
+
+// Sales order lifecycle: open orders hold a reservation, which fulfilment turns into issued stock and cancelling releases
+export const salesOrderStatusSchema = z.enum(['open', 'fulfilled', 'cancelled']);
+
+export type SalesOrderStatus = z.infer<typeof salesOrderStatusSchema>;
+
+// Sales order line as returned by the API
+export const salesOrderLineSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  base_unit: z.string(), // Unit the quantity is in
+  quantity: z.number()
+});
+
+export type SalesOrderLine = z.infer<typeof salesOrderLineSchema>;
+
+// Sales order with its lines
+export const salesOrderSchema = z.object({
+  id: z.number(),
+  customer_name: z.string(),
+  status: salesOrderStatusSchema,
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  fulfilled_at: z.coerce.date().nullable(),
+  cancelled_at: z.coerce.date().nullable(),
+  lines: z.array(salesOrderLineSchema)
+});
+
+export type SalesOrder = z.infer<typeof salesOrderSchema>;
+
+// Input schema for placing a sales order; its stock is reserved straight away
+export const createSalesOrderInputSchema = z.object({
+  customer_name: z.string().trim().min(1, "Customer cannot be empty"),
+  notes: z.string().nullable().default(null),
+  lines: z.array(z.object({
+    item_id: z.number().int().positive(),
+    quantity: positiveQuantitySchema,
+    unit: unitNameSchema.optional() // Unit the quantity is counted in; the base unit when not given
+  })).min(1, "Add at least one line")
+}).refine(input => hasDistinctItems(input.lines), { message: "Each item can only be ordered once per sales order", path: ['lines'] });
+
+export type CreateSalesOrderInput = z.infer<typeof createSalesOrderInputSchema>;
+
+// Input schema for listing sales orders, newest first
+export const getSalesOrdersInputSchema = z.object({
+  status: salesOrderStatusSchema.optional()
+});
+
+export type GetSalesOrdersInput = z.infer<typeof getSalesOrdersInputSchema>;
+
+// Input schema for shipping an open order
+export const fulfilSalesOrderInputSchema = z.object({
+  sales_order_id: z.number().int().positive(),
+  location_id: z.number().int().positive().nullable().default(null) // Null ships from the unassigned stock
+});
+
+export type FulfilSalesOrderInput = z.infer<typeof fulfilSalesOrderInputSchema>;
+
+// Input schema for valuing the inventory; without a date it is valued as of now
+export const getInventoryValuationInputSchema = z.object({
+  as_of: z.coerce.date().optional()
+});
+
+export type GetInventoryValuationInput = z.infer<typeof getInventoryValuationInputSchema>;
+
+// Value of one item's stock at the valuation date
+export const itemValuationSchema = z.object({
+  item_id: z.number(),
+  name: z.string(),
+  sku: z.string().nullable(),
+  costing_method: costingMethodSchema,
+  quantity: z.number(),
+  value_cents: z.number().int(),
+  unit_cost_cents: z.number().int().nullable() // Value per unit on hand, rounded; null when nothing is on hand
+});
+
+export type ItemValuation = z.infer<typeof itemValuationSchema>;
+
+export const inventoryValuationSchema = z.object({
+  as_of: z.coerce.date(),
+  items: z.array(itemValuationSchema), // Every item that existed and was not in the trash at the date, by name
+  total_value_cents: z.number().int()
+});
+
+export type InventoryValuation = z.infer<typeof inventoryValuationSchema>;
+
+// Input schema for the lots that expire soon; lots that have already expired are always included
+export const getExpiringLotsInputSchema = z.object({
+  within_days: z.number().int().nonnegative().max(3650).default(30)
+});
+
+export type GetExpiringLotsInput = z.infer<typeof getExpiringLotsInputSchema>;
+
+// A lot with stock left that expires within the requested horizon
+export const expiringLotSchema = z.object({
+  lot_id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  lot_number: z.string(),
+  expires_on: z.string(),
+  quantity: z.number(),
+  days_left: z.number().int() // Negative once the lot has expired
+});
+
+export type ExpiringLot = z.infer<typeof expiringLotSchema>;
+
+// Input schema for adding units of a serialized item to stock
+export const addSerialUnitsInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  serial_numbers: z.array(serialNumberSchema).min(1, "Enter at least one serial number").max(500, "At most 500 units can be added at once"),
+  location_id: z.number().int().positive().nullable().default(null), // Null keeps the units unassigned
+  unit_cost_cents: centsSchema.nullable().default(null),
+  note: z.string().nullable().default(null)
+});
+
+export type AddSerialUnitsInput = z.infer<typeof addSerialUnitsInputSchema>;
+
+// Input schema for taking a unit out of service for good (sold off, scrapped, lost)
+export const retireSerialUnitInputSchema = z.object({
+  serial_number: serialNumberSchema,
+  note: z.string().nullable().default(null)
+});
+
+export type RetireSerialUnitInput = z.infer<typeof retireSerialUnitInputSchema>;
+
+// A unit found by its serial number, with the item it belongs to
+export const serialUnitLookupSchema = z.object({
+  unit: serialUnitSchema,
+  item: itemSchema
+});
+
+export type SerialUnitLookup = z.infer<typeof serialUnitLookupSchema>;
+
+// Input schema for lending stock to someone: a quantity of a plain item, or specific units of a serialized one
+export const checkOutItemInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  borrower: z.string().trim().min(1, "Enter who is borrowing the item"),
+  due_on: isoDateSchema,
+  quantity: positiveQuantitySchema.optional(),
+  serial_numbers: z.array(serialNumberSchema).min(1, "Choose at least one unit").optional(),
+  location_id: z.number().int().positive().nullable().default(null), // Where the stock is taken from; ignored for units, which know their place
+  note: z.string().nullable().default(null)
+}).refine(input => (input.quantity === undefined) !== (input.serial_numbers === undefined), {
+  message: "Give either a quantity or the serial numbers of the units",
+  path: ['quantity']
+});
+
+export type CheckOutItemInput = z.infer<typeof checkOutItemInputSchema>;
+
+// Input schema for returning a loan in full (nothing but the loan ID) or in part
+export const checkInLoanInputSchema = z.object({
+  loan_id: z.number().int().positive(),
+  quantity: positiveQuantitySchema.optional(), // Defaults to everything still out
+  serial_numbers: z.array(serialNumberSchema).min(1).optional(), // Units returned, for loans of serialized items
+  location_id: z.number().int().positive().nullable().optional() // Where the stock goes back to; defaults to where it came from
+});
+
+export type CheckInLoanInput = z.infer<typeof checkInLoanInputSchema>;
+
+// Loans listed by their state; overdue loans are open loans past their due date
+export const loanStatusSchema = z.enum(['open', 'overdue', 'returned']);
+
+export type LoanStatus = z.infer<typeof loanStatusSchema>;
+
+export const getLoansInputSchema = z.object({
+  status: loanStatusSchema.optional(), // All loans when not given
+  item_id: z.number().int().positive().optional()
+});
+
+export type GetLoansInput = z.infer<typeof getLoansInputSchema>;
+
+// A unit lent on a loan of a serialized item
+export const loanUnitSchema = z.object({
+  serial_number: z.string(),
+  returned_at: z.coerce.date().nullable()
+});
+
+export type LoanUnit = z.infer<typeof loanUnitSchema>;
+
+export const loanSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  borrower: z.string(),
+  quantity: z.number(),
+  quantity_returned: z.number(),
+  outstanding: z.number(), // quantity minus quantity_returned
+  location_id: z.number().nullable(), // Where the stock was taken from
+  due_on: z.string(), // yyyy-mm-dd
+  overdue: z.boolean(), // Still out after the due date
+  note: z.string().nullable(),
+  checked_out_at: z.coerce.date(),
+  returned_at: z.coerce.date().nullable(), // Set once everything is back
+  units: z.array(loanUnitSchema) // Sorted by serial number; empty for items that are not serialized
+});
+
+export type Loan = z.infer<typeof loanSchema>;
+
+// Input schema for replacing a kit's bill of materials; an empty list turns the kit back into a plain item
+export const setKitComponentsInputSchema = z.object({
+  item_id: z.number().int().positive(),
+  components: z.array(z.object({
+    item_id: z.number().int().positive(),
+    quantity: positiveQuantitySchema // Per kit, in the component's base unit
+  })).max(100, "A kit can have at most 100 components")
+});
+
+export type SetKitComponentsInput = z.infer<typeof setKitComponentsInputSchema>;
+
+// Input schema for building kits out of their components, or taking them apart again
+export const kitAssemblyInputSchema = z.object({
+  item_id: z.number().int().positive(), // The kit
+  quantity: z.number().int().positive("Quantity must be a positive integer"), // Number of kits
+  location_id: z.number().int().positive().nullable().default(null), // Where components and kits are taken from and put; null for unassigned stock
+  note: z.string().nullable().default(null)
+});
+
+export type KitAssemblyInput = z.infer<typeof kitAssemblyInputSchema>;
+
+// A component there is not enough of to assemble the kits asked for
+export const kitShortageSchema = z.object({
+  item_id: z.number(),
+  item_name: z.string(),
+  required: z.number(),
+  available: z.number() // What can be used at the location: on hand there, less what is reserved
+});
+
+export type KitShortage = z.infer<typeof kitShortageSchema>;
+
+// Stock take lifecycle: counts are entered while counting; approval posts the variances as adjustments
+export const stockTakeStatusSchema = z.enum(['counting', 'approved', 'cancelled']);
+
+export type StockTakeStatus = z.infer<typeof stockTakeStatusSchema>;
+
+// One item of a stock take. Expected quantities (and so variances) are null for counters of a blind count.
+export const stockTakeLineSchema = z.object({
+  id: z.number(),
+  item_id: z.number(),
+  item_name: z.string(),
+  base_unit: z.string(),
+  expected_quantity: z.number().nullable(), // What the system held when the stock take started
+  counted_quantity: z.number().nullable(), // Null until counted
+  variance: z.number().nullable(), // Counted minus expected; null until counted
+  counted_by: z.string().nullable(), // Username of whoever entered the latest count
+  counted_at: z.coerce.date().nullable()
+});
+
+export type StockTakeLine = z.infer<typeof stockTakeLineSchema>;
+
+// Stock take with its lines, sorted by item name
+export const stockTakeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: stockTakeStatusSchema,
+  blind: z.boolean(),
+  location_id: z.number().nullable(), // Null when each item's total stock is counted
+  location_name: z.string().nullable(),
+  created_at: z.coerce.date(),
+  approved_at: z.coerce.date().nullable(),
+  cancelled_at: z.coerce.date().nullable(),
+  lines: z.array(stockTakeLineSchema)
+});
+
+export type StockTake = z.infer<typeof stockTakeSchema>;
+
+// Input schema for starting a stock take; the expected quantities are taken there and then
+export const createStockTakeInputSchema = z.object({
+  name: z.string().trim().min(1, "Name cannot be empty"),
+  blind: z.boolean().default(false),
+  location_id: z.number().int().positive().nullable().default(null), // Count what one location holds; null counts total stock
+  item_ids: z.array(z.number().int().positive()).min(1, "Choose at least one item").max(5000).optional() // Every item that can be counted when not given
+});
+
+export type CreateStockTakeInput = z.infer<typeof createStockTakeInputSchema>;
+
+// Input schema for listing stock takes, newest first
+export const getStockTakesInputSchema = z.object({
+  status: stockTakeStatusSchema.optional()
+});
+
+export type GetStockTakesInput = z.infer<typeof getStockTakesInputSchema>;
+
+// Input schema for entering counts. Each device sends the items it counted; a later count of an item replaces the earlier one.
+export const recordStockTakeCountsInputSchema = z.object({
+  stock_take_id: z.number().int().positive(),
+  counts: z.array(z.object({
+    item_id: z.number().int().positive(),
+    counted_quantity: quantitySchema
+  })).min(1, "Enter at least one count")
+}).refine(input => hasDistinctItems(input.counts), { message: "Each item can only be counted once per submission", path: ['counts'] });
+
+export type RecordStockTakeCountsInput = z.infer<typeof recordStockTakeCountsInputSchema>;
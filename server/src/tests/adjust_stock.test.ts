@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { type AdjustStockInput } from '../schema';
+import { adjustStock } from '../handlers/adjust_stock';
+import { eq } from 'drizzle-orm';
+
+describe('adjustStock', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should apply positive and negative adjustments', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Cable Ties', description: null, quantity: '50' })
+      .returning()
+      .execute();
+
+    const up: AdjustStockInput = { item_id: item.id, location_id: null, delta: 5, note: 'Found behind shelf' };
+    expect((await adjustStock(up)).on_hand).toEqual(55);
+
+    const down: AdjustStockInput = { item_id: item.id, location_id: null, delta: -15, note: null };
+    expect((await adjustStock(down)).on_hand).toEqual(40);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.item_id, item.id))
+      .execute();
+
+    expect(movements).toHaveLength(2);
+    movements.forEach(movement => expect(movement.reason).toEqual('adjustment'));
+    expect(movements.reduce((sum, movement) => sum + Number(movement.delta), 0)).toEqual(-10);
+  });
+
+  it('should reject an adjustment that would make the quantity negative', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Fuses', description: null, quantity: '1' })
+      .returning()
+      .execute();
+
+    await expect(adjustStock({ item_id: item.id, location_id: null, delta: -2, note: null })).rejects.toThrow(/insufficient stock/i);
+  });
+});
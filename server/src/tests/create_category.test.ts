@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { createCategory } from '../handlers/create_category';
+import { getCategories } from '../handlers/get_categories';
+import { ConflictError, NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+describe('createCategory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a top-level category and a subcategory inside it', async () => {
+    const hardware = await createCategory({ name: 'Hardware', parent_id: null });
+    const fasteners = await createCategory({ name: 'Fasteners', parent_id: hardware.id });
+
+    expect(hardware.parent_id).toBeNull();
+    expect(hardware.created_at).toBeInstanceOf(Date);
+    expect(fasteners.parent_id).toEqual(hardware.id);
+
+    const rows = await db.select().from(categoriesTable).where(eq(categoriesTable.id, fasteners.id)).execute();
+    expect(rows).toHaveLength(1);
+    expect((await getCategories()).map(category => category.name)).toEqual(['Fasteners', 'Hardware']);
+  });
+
+  it('should throw a not found error for a non-existent parent category', async () => {
+    const error = await createCategory({ name: 'Orphans', parent_id: 9999 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).field).toBe('parent_id');
+  });
+
+  it('should throw a conflict error on a duplicate name', async () => {
+    await createCategory({ name: 'Hardware', parent_id: null });
+
+    const error = await createCategory({ name: 'Hardware', parent_id: null }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).field).toBe('name');
+  });
+});
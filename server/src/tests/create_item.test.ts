@@ -2,9 +2,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { itemsTable } from '../db/schema';
+import { categoriesTable, itemsTable, stockMovementsTable } from '../db/schema';
 import { type CreateItemInput } from '../schema';
 import { createItem } from '../handlers/create_item';
+import { ConflictError, NotFoundError } from '../errors';
 import { eq } from 'drizzle-orm';
 
 describe('createItem', () => {
@@ -15,8 +16,21 @@ describe('createItem', () => {
   // A common input for testing item creation
   const baseItemInput: CreateItemInput = {
     name: 'Test Item',
+    sku: null,
+    barcodes: [],
     description: 'A detailed description of the test item.',
     quantity: 50,
+    reorder_point: null,
+    reorder_quantity: null,
+    category_id: null,
+    tags: [],
+    costing_method: 'average',
+    lot_tracked: false,
+    serialized: false,
+    serial_numbers: [],
+    base_unit: 'each',
+    units: [],
+    unit_cost_cents: null,
   };
 
   it('should create an item successfully with all provided fields', async () => {
@@ -28,7 +42,7 @@ describe('createItem', () => {
     expect(result.id).toBeGreaterThan(0); // ID should be a positive auto-incremented number
     expect(result.name).toEqual(baseItemInput.name);
     expect(result.description).toEqual(baseItemInput.description);
-    expect(result.quantity).toEqual(baseItemInput.quantity);
+    expect(result.on_hand).toEqual(baseItemInput.quantity);
     expect(result.created_at).toBeInstanceOf(Date); // created_at should be a Date object
 
     // Verify the item exists in the database
@@ -36,7 +50,7 @@ describe('createItem', () => {
     expect(itemsInDb).toHaveLength(1);
     expect(itemsInDb[0].name).toEqual(baseItemInput.name);
     expect(itemsInDb[0].description).toEqual(baseItemInput.description);
-    expect(itemsInDb[0].quantity).toEqual(baseItemInput.quantity);
+    expect(Number(itemsInDb[0].quantity)).toEqual(baseItemInput.quantity);
     expect(itemsInDb[0].created_at).toBeInstanceOf(Date);
   });
 
@@ -64,6 +78,7 @@ describe('createItem', () => {
     // The Zod default would apply if 'quantity' was optional in the schema and omitted from an API request.
     // In this direct function call, we must satisfy the CreateItemInput type.
     const inputWithZeroQuantity: CreateItemInput = {
+      ...baseItemInput,
       name: 'Item With Zero Qty', // Unique name
       description: 'This item has a quantity of zero.',
       quantity: 0, // Explicitly provide 0
@@ -72,11 +87,11 @@ describe('createItem', () => {
     const result = await createItem(inputWithZeroQuantity);
 
     // Assert that the quantity is 0
-    expect(result.quantity).toEqual(0);
+    expect(result.on_hand).toEqual(0);
 
     // Verify the quantity in the database is 0
     const itemsInDb = await db.select().from(itemsTable).where(eq(itemsTable.id, result.id)).execute();
-    expect(itemsInDb[0].quantity).toEqual(0);
+    expect(Number(itemsInDb[0].quantity)).toEqual(0);
   });
 
   it('should throw an error when attempting to create an item with a duplicate name', async () => {
@@ -90,14 +105,16 @@ describe('createItem', () => {
       quantity: 10,
     };
 
-    // Expect the promise to reject because of the unique constraint on the 'name' column
-    await expect(createItem(duplicateNameInput)).rejects.toThrow(
-      /duplicate key value violates unique constraint/i // Case-insensitive match for the Postgres error message
-    );
+    // Expect the promise to reject with a conflict on the 'name' field instead of the raw Postgres error
+    const error = await createItem(duplicateNameInput).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).field).toBe('name');
+    expect((error as ConflictError).message).toBe(`An item named "${baseItemInput.name}" already exists.`);
   });
 
   it('should handle item names with special characters correctly', async () => {
     const specialCharNameInput: CreateItemInput = {
+      ...baseItemInput,
       name: 'Item Name with !@#$%^&*()_+ special characters',
       description: null,
       quantity: 1,
@@ -109,4 +126,46 @@ describe('createItem', () => {
     const itemsInDb = await db.select().from(itemsTable).where(eq(itemsTable.id, result.id)).execute();
     expect(itemsInDb[0].name).toEqual(specialCharNameInput.name);
   });
+
+  it('should record the initial quantity in the movement ledger', async () => {
+    const result = await createItem(baseItemInput);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, result.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(baseItemInput.quantity);
+    expect(movements[0].reason).toEqual('adjustment');
+  });
+
+  it('should save reorder thresholds when provided', async () => {
+    const result = await createItem({
+      ...baseItemInput,
+      name: 'Item With Thresholds',
+      reorder_point: 5,
+      reorder_quantity: 20,
+    });
+
+    expect(result.reorder_point).toEqual(5);
+    expect(result.reorder_quantity).toEqual(20);
+
+    const itemsInDb = await db.select().from(itemsTable).where(eq(itemsTable.id, result.id)).execute();
+    expect(itemsInDb[0].reorder_point).toEqual(5);
+    expect(itemsInDb[0].reorder_quantity).toEqual(20);
+  });
+
+  it('should file the item under a category and attach its tags', async () => {
+    const [category] = await db.insert(categoriesTable).values({ name: 'Fasteners' }).returning().execute();
+
+    const result = await createItem({ ...baseItemInput, category_id: category.id, tags: ['metric', 'bulk', 'metric'] });
+
+    expect(result.category_id).toEqual(category.id);
+    expect(result.tags).toEqual(['bulk', 'metric']);
+  });
+
+  it('should reject an unknown category', async () => {
+    const error = await createItem({ ...baseItemInput, category_id: 9999 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).field).toBe('category_id');
+    expect(await db.select().from(itemsTable).execute()).toHaveLength(0);
+  });
 });
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { locationsTable } from '../db/schema';
+import { type CreateLocationInput } from '../schema';
+import { createLocation } from '../handlers/create_location';
+import { ConflictError, NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+describe('createLocation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const warehouseInput: CreateLocationInput = {
+    name: 'North Storeroom',
+    description: 'Ground floor, north wing',
+    parent_id: null
+  };
+
+  it('should create a top-level location', async () => {
+    const result = await createLocation(warehouseInput);
+
+    expect(result.id).toBeGreaterThan(0);
+    expect(result.name).toEqual('North Storeroom');
+    expect(result.description).toEqual(warehouseInput.description);
+    expect(result.parent_id).toBeNull();
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const locations = await db.select().from(locationsTable).where(eq(locationsTable.id, result.id)).execute();
+    expect(locations).toHaveLength(1);
+  });
+
+  it('should create a bin inside an existing location', async () => {
+    const warehouse = await createLocation(warehouseInput);
+
+    const bin = await createLocation({ name: 'Bin N-01', description: null, parent_id: warehouse.id });
+
+    expect(bin.parent_id).toEqual(warehouse.id);
+  });
+
+  it('should throw an error for a non-existent parent location', async () => {
+    const error = await createLocation({ name: 'Orphan Bin', description: null, parent_id: 9999 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).toCause()).toEqual({ type: 'not_found', field: 'parent_id', resource: 'location', id: 9999 });
+  });
+
+  it('should throw an error on a duplicate name', async () => {
+    await createLocation(warehouseInput);
+
+    const error = await createLocation(warehouseInput).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).field).toBe('name');
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, itemUnitsTable } from '../db/schema';
+import { createPurchaseOrderInputSchema } from '../schema';
+import { createSupplier } from '../handlers/create_supplier';
+import { createPurchaseOrder } from '../handlers/create_purchase_order';
+import { updatePurchaseOrder } from '../handlers/update_purchase_order';
+import { sendPurchaseOrder } from '../handlers/send_purchase_order';
+import { getPurchaseOrders } from '../handlers/get_purchase_orders';
+import { deleteItem } from '../handlers/delete_item';
+
+const seedItem = async (name: string) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: '0' }).returning().execute();
+  return item;
+};
+
+const seedSupplier = (name = 'Acme Fasteners') =>
+  createSupplier({ name, email: 'orders@acme.test', phone: null, notes: null });
+
+describe('createPurchaseOrder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a draft with its lines and totals', async () => {
+    const supplier = await seedSupplier();
+    const bolts = await seedItem('Bolts');
+    const nuts = await seedItem('Nuts');
+
+    const order = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      notes: 'Monthly restock',
+      lines: [{ item_id: bolts.id, quantity_ordered: 100, unit_cost_cents: null }, { item_id: nuts.id, quantity_ordered: 50, unit_cost_cents: null }]
+    });
+
+    expect(order.status).toEqual('draft');
+    expect(order.supplier_name).toEqual('Acme Fasteners');
+    expect(order.line_count).toEqual(2);
+    expect(order.quantity_ordered).toEqual(150);
+    expect(order.quantity_received).toEqual(0);
+    expect(order.sent_at).toBeNull();
+    expect(order.lines.map(line => [line.item_name, line.quantity_ordered, line.quantity_received])).toEqual([
+      ['Bolts', 100, 0],
+      ['Nuts', 50, 0]
+    ]);
+  });
+
+  it('should store lines ordered in another unit in the base unit', async () => {
+    const supplier = await seedSupplier();
+    const washers = await seedItem('Washers');
+    await db.insert(itemUnitsTable).values({ item_id: washers.id, name: 'box', factor: '1000' }).execute();
+
+    const order = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      notes: null,
+      lines: [{ item_id: washers.id, quantity_ordered: 2.5, unit: 'box', unit_cost_cents: 500 }]
+    });
+
+    expect(order.quantity_ordered).toEqual(2500);
+    expect(order.lines.map(line => [line.quantity_ordered, line.base_unit, line.unit_cost_cents])).toEqual([[2500, 'each', 0.5]]);
+  });
+
+  it('should reject unknown suppliers and trashed items', async () => {
+    const supplier = await seedSupplier();
+    const item = await seedItem('Bolts');
+    await deleteItem(item.id);
+
+    await expect(createPurchaseOrder({ supplier_id: 9999, notes: null, lines: [{ item_id: item.id, quantity_ordered: 1, unit_cost_cents: null }] }))
+      .rejects.toThrow(/supplier with ID 9999 not found/i);
+    await expect(createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: item.id, quantity_ordered: 1, unit_cost_cents: null }] }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should not accept the same item twice on one order', () => {
+    const result = createPurchaseOrderInputSchema.safeParse({
+      supplier_id: 1,
+      lines: [{ item_id: 1, quantity_ordered: 1, unit_cost_cents: null }, { item_id: 1, quantity_ordered: 2, unit_cost_cents: null }]
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should only let drafts be edited and sent', async () => {
+    const supplier = await seedSupplier();
+    const other = await seedSupplier('Bolt Barn');
+    const bolts = await seedItem('Bolts');
+    const nuts = await seedItem('Nuts');
+    const order = await createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: bolts.id, quantity_ordered: 10, unit_cost_cents: null }] });
+
+    const edited = await updatePurchaseOrder({ id: order.id, supplier_id: other.id, lines: [{ item_id: nuts.id, quantity_ordered: 20, unit_cost_cents: null }] });
+    expect(edited.supplier_name).toEqual('Bolt Barn');
+    expect(edited.lines.map(line => line.item_name)).toEqual(['Nuts']);
+
+    const sent = await sendPurchaseOrder(order.id);
+    expect(sent.status).toEqual('sent');
+    expect(sent.sent_at).toBeInstanceOf(Date);
+
+    await expect(updatePurchaseOrder({ id: order.id, notes: 'Too late' })).rejects.toThrow(/only draft orders can be edited/i);
+    await expect(sendPurchaseOrder(order.id)).rejects.toThrow(/is sent; only draft orders can be sent/i);
+  });
+
+  it('should list orders newest first, filtered by status', async () => {
+    const supplier = await seedSupplier();
+    const item = await seedItem('Bolts');
+    const first = await createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: item.id, quantity_ordered: 1, unit_cost_cents: null }] });
+    const second = await createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: item.id, quantity_ordered: 2, unit_cost_cents: null }] });
+    await sendPurchaseOrder(first.id);
+
+    expect((await getPurchaseOrders({})).map(order => order.id)).toEqual([second.id, first.id]);
+    expect((await getPurchaseOrders({ status: 'sent' })).map(order => order.id)).toEqual([first.id]);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { createUser } from '../handlers/create_user';
+import { verifyPassword } from '../helpers/auth';
+import { ConflictError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+describe('createUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const testInput: CreateUserInput = {
+    username: 'alice',
+    password: 'correct horse battery',
+    role: 'clerk'
+  };
+
+  it('should create a user without exposing the password hash', async () => {
+    const result = await createUser(testInput);
+
+    expect(result.id).toBeGreaterThan(0);
+    expect(result.username).toEqual('alice');
+    expect(result.role).toEqual('clerk');
+    expect(result.created_at).toBeInstanceOf(Date);
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should store a salted hash instead of the password', async () => {
+    const result = await createUser(testInput);
+
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, result.id)).execute();
+    expect(user.password_hash).not.toContain(testInput.password);
+    expect(user.password_hash).toStartWith('scrypt$');
+    expect(await verifyPassword(testInput.password, user.password_hash)).toBe(true);
+    expect(await verifyPassword('wrong password', user.password_hash)).toBe(false);
+  });
+
+  it('should reject a username that is already taken', async () => {
+    await createUser(testInput);
+
+    await expect(createUser({ ...testInput, password: 'another password' })).rejects.toThrow(/already taken/i);
+  });
+
+  it('should report a conflict when two users with the same name are created at once', async () => {
+    const results = await Promise.allSettled([createUser(testInput), createUser(testInput)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [failure] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(failure.reason).toBeInstanceOf(ConflictError);
+    expect((failure.reason as ConflictError).field).toBe('username');
+  });
+});
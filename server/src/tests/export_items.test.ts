@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, type NewItem } from '../db/schema';
+import { type ExportItemsInput } from '../schema';
+import { exportItems, EXPORT_COLUMNS, type ExportTarget } from '../handlers/export_items';
+import { parseCsv } from '../helpers/csv';
+
+// Default export input with every field spelled out, mirroring what Zod would produce
+const defaultInput: ExportItemsInput = {
+  format: 'csv',
+  sortBy: 'name',
+  sortOrder: 'asc'
+};
+
+const seedItems = async (inputs: NewItem[]) => {
+  for (const input of inputs) {
+    await db.insert(itemsTable).values(input).execute();
+  }
+};
+
+// Runs an export into memory and returns the headers that were set along with the body
+const runExport = async (input: ExportItemsInput) => {
+  const headers = new Map<string, string>();
+  const stream = new PassThrough();
+  const target = Object.assign(stream, {
+    setHeader(name: string, value: string) {
+      headers.set(name.toLowerCase(), value);
+      return target;
+    }
+  }) as unknown as ExportTarget;
+
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise(resolve => stream.on('end', resolve));
+
+  await exportItems(input, target);
+  await finished;
+  return { headers, body: Buffer.concat(chunks) };
+};
+
+describe('exportItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should export items as CSV with the item columns in schema order', async () => {
+    await seedItems([
+      { name: 'Bolts', description: 'Zinc, "M8"', quantity: '5' },
+      { name: 'Anchors', description: null, quantity: '10', reorder_point: 4 }
+    ]);
+
+    const { headers, body } = await runExport(defaultInput);
+    const [header, ...rows] = parseCsv(body.toString('utf-8').trimEnd());
+
+    expect(headers.get('content-type')).toStartWith('text/csv');
+    expect(headers.get('content-disposition')).toContain('.csv');
+    expect(header).toEqual(EXPORT_COLUMNS);
+    expect(rows.map(row => row[header.indexOf('name')])).toEqual(['Anchors', 'Bolts']);
+    expect(rows[0][header.indexOf('reorder_point')]).toEqual('4');
+    expect(rows[0][header.indexOf('description')]).toEqual('');
+    expect(rows[1][header.indexOf('description')]).toEqual('Zinc, "M8"');
+    expect(rows[1][header.indexOf('locations')]).toEqual('[]');
+  });
+
+  it('should export every item across batches as newline-delimited JSON', async () => {
+    await seedItems(Array.from({ length: 120 }, (_, index) => ({
+      name: `Item ${String(index).padStart(3, '0')}`,
+      description: null,
+      quantity: String(index)
+    })));
+
+    const { headers, body } = await runExport({ ...defaultInput, format: 'ndjson' });
+    const lines = body.toString('utf-8').trimEnd().split('\n');
+
+    expect(headers.get('content-type')).toStartWith('application/x-ndjson');
+    expect(lines).toHaveLength(120);
+    const first = JSON.parse(lines[0]);
+    expect(Object.keys(first)).toEqual(EXPORT_COLUMNS);
+    expect(first.name).toEqual('Item 000');
+    expect(JSON.parse(lines[119]).name).toEqual('Item 119');
+  });
+
+  it('should apply the list filters', async () => {
+    await seedItems([
+      { name: 'Red Paint', description: null, quantity: '2' },
+      { name: 'Blue paint', description: null, quantity: '40' },
+      { name: 'Brush', description: null, quantity: '6' }
+    ]);
+
+    const { body } = await runExport({ ...defaultInput, format: 'ndjson', name: 'paint', minQuantity: 10 });
+    const names = body.toString('utf-8').trimEnd().split('\n').map(line => JSON.parse(line).name);
+
+    expect(names).toEqual(['Blue paint']);
+  });
+
+  it('should export an XLSX workbook', async () => {
+    await seedItems([{ name: 'Bolts', description: null, quantity: '5' }]);
+
+    const { headers, body } = await runExport({ ...defaultInput, format: 'xlsx' });
+
+    expect(headers.get('content-type')).toEqual('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    // XLSX files are zip archives
+    expect(body.subarray(0, 2).toString('latin1')).toEqual('PK');
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, locationsTable, usersTable } from '../db/schema';
+import { type CreateItemInput, type GetAuditLogInput } from '../schema';
+import { createItem } from '../handlers/create_item';
+import { updateItem } from '../handlers/update_item';
+import { deleteItem } from '../handlers/delete_item';
+import { purgeItem } from '../handlers/purge_item';
+import { getAuditLog } from '../handlers/get_audit_log';
+import { receiveStock } from '../handlers/receive_stock';
+import { transferStock } from '../handlers/transfer_stock';
+import { createSalesOrder } from '../handlers/create_sales_order';
+import { cancelSalesOrder } from '../handlers/cancel_sales_order';
+import { setKitComponents } from '../handlers/set_kit_components';
+import { assembleKit } from '../handlers/assemble_kit';
+
+// Default audit log input with every field spelled out, mirroring what Zod would produce
+const defaultInput: GetAuditLogInput = {
+  cursor: null,
+  limit: 50
+};
+
+const itemInput: CreateItemInput = {
+  name: 'Hex Bolts',
+  sku: null,
+  barcodes: [],
+  description: 'M8',
+  quantity: 10,
+  reorder_point: null,
+  reorder_quantity: null,
+  category_id: null,
+  tags: [],
+  costing_method: 'average',
+  lot_tracked: false,
+  serialized: false,
+  serial_numbers: [],
+  base_unit: 'each',
+  units: [],
+  unit_cost_cents: null
+};
+
+const createActor = async (username: string) => {
+  const [user] = await db.insert(usersTable)
+    .values({ username, password_hash: 'scrypt$00$00', role: 'manager' })
+    .returning()
+    .execute();
+  return user;
+};
+
+describe('getAuditLog', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record creates, updates and deletes with the actor, newest first', async () => {
+    const actor = await createActor('alice');
+    const item = await createItem(itemInput, actor.id);
+    await updateItem({ id: item.id, version: item.version, description: 'M8 zinc plated', quantity: 12 }, actor.id);
+    await deleteItem(item.id, actor.id);
+
+    const result = await getAuditLog(defaultInput);
+
+    expect(result.entries.map(entry => entry.operation)).toEqual(['delete', 'update', 'create']);
+    result.entries.forEach(entry => {
+      expect(entry.item_id).toEqual(item.id);
+      expect(entry.item_name).toEqual('Hex Bolts');
+      expect(entry.actor_id).toEqual(actor.id);
+      expect(entry.actor_username).toEqual('alice');
+      expect(entry.created_at).toBeInstanceOf(Date);
+    });
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should store only the changed fields of an update', async () => {
+    const item = await createItem(itemInput);
+    await updateItem({ id: item.id, version: item.version, name: 'Hex Bolts', description: 'M8 zinc plated', quantity: 12 });
+
+    const result = await getAuditLog({ ...defaultInput, operation: 'update' });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0].changes).toEqual({
+      description: { before: 'M8', after: 'M8 zinc plated' },
+      quantity: { before: 10, after: 12 }
+    });
+    expect(result.entries[0].actor_id).toBeNull();
+    expect(result.entries[0].actor_username).toBeNull();
+  });
+
+  it('should store every field for creates and purges', async () => {
+    const item = await createItem(itemInput);
+    await deleteItem(item.id);
+    await purgeItem(item.id);
+
+    const created = await getAuditLog({ ...defaultInput, operation: 'create' });
+    const deleted = await getAuditLog({ ...defaultInput, operation: 'delete' });
+    const purged = await getAuditLog({ ...defaultInput, operation: 'purge' });
+
+    expect(created.entries[0].changes['name']).toEqual({ before: null, after: 'Hex Bolts' });
+    expect(created.entries[0].changes['description']).toEqual({ before: null, after: 'M8' });
+    // Moving to the trash only sets deleted_at
+    expect(Object.keys(deleted.entries[0].changes)).toEqual(['deleted_at']);
+    expect(purged.entries[0].changes['quantity']).toEqual({ before: 10, after: null });
+    expect(purged.entries[0].changes['created_at']).toEqual({ before: item.created_at.toISOString(), after: null });
+  });
+
+  it('should not record updates that change nothing', async () => {
+    const item = await createItem(itemInput);
+    await updateItem({ id: item.id, version: item.version, quantity: 10 });
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries.map(entry => entry.operation)).toEqual(['create']);
+  });
+
+  it('should record stock movements with the actor and the stock per location', async () => {
+    const actor = await createActor('alice');
+    const [shelf] = await db.insert(locationsTable).values({ name: 'Shelf A' }).returning().execute();
+    const item = await createItem(itemInput);
+    await receiveStock({ item_id: item.id, location_id: null, quantity: 5, unit_cost_cents: null, note: null }, actor.id);
+    await transferStock({ item_id: item.id, from_location_id: null, to_location_id: shelf.id, quantity: 4, note: null }, actor.id);
+
+    const result = await getAuditLog({ ...defaultInput, operation: 'update' });
+
+    expect(result.entries.map(entry => entry.actor_username)).toEqual(['alice', 'alice']);
+    const [transfer, receipt] = result.entries;
+    expect(receipt.changes['quantity']).toEqual({ before: 10, after: 15 });
+    expect(receipt.changes['locations']).toEqual({ before: { Unassigned: 10 }, after: { Unassigned: 15 } });
+    // A transfer leaves the total alone, so only the stock per location tells it apart
+    expect(transfer.changes).toEqual({
+      locations: { before: { Unassigned: 15 }, after: { Unassigned: 11, 'Shelf A': 4 } }
+    });
+  });
+
+  it('should record reservations and kit assemblies with the actor', async () => {
+    const actor = await createActor('alice');
+    const bolts = await createItem(itemInput);
+    const kit = await createItem({ ...itemInput, name: 'Bolt Kit', quantity: 0 });
+    await setKitComponents({ item_id: kit.id, components: [{ item_id: bolts.id, quantity: 2 }] });
+
+    const order = await createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: bolts.id, quantity: 4 }] }, actor.id);
+    await cancelSalesOrder(order.id, actor.id);
+    await assembleKit({ item_id: kit.id, location_id: null, quantity: 3, note: null }, actor.id);
+
+    const boltEntries = (await getAuditLog({ ...defaultInput, item_id: bolts.id, actor_id: actor.id })).entries;
+    expect(boltEntries.map(entry => entry.changes['reserved'] ?? entry.changes['quantity'])).toEqual([
+      { before: 10, after: 4 },
+      { before: 4, after: 0 },
+      { before: 0, after: 4 },
+    ]);
+    const kitEntries = (await getAuditLog({ ...defaultInput, item_id: kit.id, actor_id: actor.id })).entries;
+    expect(kitEntries.map(entry => entry.changes['quantity'])).toEqual([{ before: 0, after: 3 }]);
+  });
+
+  it('should record edits to tags, barcodes and units', async () => {
+    const item = await createItem({ ...itemInput, tags: ['hardware'] });
+    await updateItem({
+      id: item.id,
+      version: item.version,
+      tags: ['hardware', 'metric'],
+      barcodes: [{ symbology: 'ean13', code: '4006381333931' }],
+      units: [{ name: 'box', factor: 100 }]
+    });
+
+    const result = await getAuditLog({ ...defaultInput, operation: 'update' });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0].changes).toEqual({
+      tags: { before: ['hardware'], after: ['hardware', 'metric'] },
+      barcodes: { before: [], after: ['4006381333931 (ean13)'] },
+      units: { before: [], after: ['box = 100'] }
+    });
+  });
+
+  it('should filter by item and actor and page with the cursor', async () => {
+    const alice = await createActor('alice');
+    const bob = await createActor('bob');
+    const bolts = await createItem(itemInput, alice.id);
+    const nuts = await createItem({ ...itemInput, name: 'Hex Nuts' }, bob.id);
+    const restocked = await updateItem({ id: bolts.id, version: bolts.version, quantity: 20 }, bob.id);
+    await updateItem({ id: bolts.id, version: restocked.version, quantity: 30 }, bob.id);
+
+    const byItem = await getAuditLog({ ...defaultInput, item_id: nuts.id });
+    expect(byItem.entries.map(entry => entry.item_name)).toEqual(['Hex Nuts']);
+
+    const firstPage = await getAuditLog({ ...defaultInput, actor_id: bob.id, limit: 2 });
+    expect(firstPage.entries).toHaveLength(2);
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    const secondPage = await getAuditLog({ ...defaultInput, actor_id: bob.id, limit: 2, cursor: firstPage.nextCursor });
+    expect(secondPage.entries.map(entry => entry.item_name)).toEqual(['Hex Nuts']);
+    expect(secondPage.nextCursor).toBeNull();
+  });
+
+  it('should filter by time range', async () => {
+    await createItem(itemInput);
+
+    const future = await getAuditLog({ ...defaultInput, since: new Date(Date.now() + 60_000) });
+    const past = await getAuditLog({ ...defaultInput, until: new Date(Date.now() + 60_000) });
+
+    expect(future.entries).toHaveLength(0);
+    expect(past.entries).toHaveLength(1);
+  });
+});
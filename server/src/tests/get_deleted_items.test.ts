@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { type GetItemsInput } from '../schema';
+import { deleteItem } from '../handlers/delete_item';
+import { getDeletedItems } from '../handlers/get_deleted_items';
+import { getItems } from '../handlers/get_items';
+import { getLowStockItems } from '../handlers/get_low_stock_items';
+
+const listInput: GetItemsInput = {
+  cursor: null,
+  limit: 20,
+  sortBy: 'name',
+  sortOrder: 'asc'
+};
+
+describe('getDeletedItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list only trashed items, most recently deleted first', async () => {
+    const [bolts] = await db.insert(itemsTable).values({ name: 'Bolts', description: null, quantity: '1' }).returning().execute();
+    const [nuts] = await db.insert(itemsTable).values({ name: 'Nuts', description: null, quantity: '1' }).returning().execute();
+    await db.insert(itemsTable).values({ name: 'Washers', description: null, quantity: '1' }).execute();
+
+    await deleteItem(bolts.id);
+    await deleteItem(nuts.id);
+
+    const result = await getDeletedItems();
+
+    expect(result.map(item => item.name)).toEqual(['Nuts', 'Bolts']);
+    result.forEach(item => expect(item.deleted_at).toBeInstanceOf(Date));
+  });
+
+  it('should keep trashed items out of the list queries', async () => {
+    const [bolts] = await db.insert(itemsTable)
+      .values({ name: 'Bolts', description: null, quantity: '1', reorder_point: 5 })
+      .returning()
+      .execute();
+    await db.insert(itemsTable).values({ name: 'Nuts', description: null, quantity: '1', reorder_point: 5 }).execute();
+
+    await deleteItem(bolts.id);
+
+    const page = await getItems(listInput);
+    const lowStock = await getLowStockItems();
+    expect(page.items.map(item => item.name)).toEqual(['Nuts']);
+    expect(lowStock.map(item => item.name)).toEqual(['Nuts']);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { type CostingMethod } from '../schema';
+import { receiveStock } from '../handlers/receive_stock';
+import { issueStock } from '../handlers/issue_stock';
+import { adjustStock } from '../handlers/adjust_stock';
+import { getInventoryValuation } from '../handlers/get_inventory_valuation';
+import { valueStock } from '../helpers/valuation';
+import { eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, costing_method: CostingMethod) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: '0', costing_method }).returning().execute();
+  return item;
+};
+
+const receive = (itemId: number, quantity: number, unit_cost_cents: number | null) =>
+  receiveStock({ item_id: itemId, location_id: null, quantity, unit_cost_cents, note: null });
+
+describe('valueStock', () => {
+  it('should take the oldest receipts out first under FIFO', () => {
+    const result = valueStock('fifo', [
+      { delta: 10, unit_cost_cents: 100 },
+      { delta: 10, unit_cost_cents: 150 },
+      { delta: -15, unit_cost_cents: null },
+    ]);
+
+    expect(result).toEqual({ quantity: 5, value_cents: 750 });
+  });
+
+  it('should spread the cost over every unit under average costing', () => {
+    const result = valueStock('average', [
+      { delta: 10, unit_cost_cents: 100 },
+      { delta: 10, unit_cost_cents: 150 },
+      { delta: -15, unit_cost_cents: null },
+    ]);
+
+    expect(result).toEqual({ quantity: 5, value_cents: 625 });
+  });
+
+  it('should stay in whole cents when the average does not divide evenly', () => {
+    const result = valueStock('average', [
+      { delta: 3, unit_cost_cents: 100 },
+      { delta: 1, unit_cost_cents: 101 },
+      { delta: -1, unit_cost_cents: null },
+      { delta: -1, unit_cost_cents: null },
+    ]);
+
+    expect(Number.isInteger(result.value_cents)).toBe(true);
+    expect(result).toEqual({ quantity: 2, value_cents: 201 });
+  });
+
+  it('should value unpriced stock at the current cost', () => {
+    expect(valueStock('fifo', [{ delta: 4, unit_cost_cents: 250 }, { delta: 2, unit_cost_cents: null }]))
+      .toEqual({ quantity: 6, value_cents: 1500 });
+    expect(valueStock('average', [{ delta: 2, unit_cost_cents: 250 }, { delta: -2, unit_cost_cents: null }, { delta: 1, unit_cost_cents: null }]))
+      .toEqual({ quantity: 1, value_cents: 250 });
+  });
+});
+
+describe('getInventoryValuation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should value each item with its own costing method and add up the total', async () => {
+    const bolts = await seedItem('Bolts', 'fifo');
+    const nuts = await seedItem('Nuts', 'average');
+    for (const item of [bolts, nuts]) {
+      await receive(item.id, 10, 100);
+      await receive(item.id, 10, 150);
+      await issueStock({ item_id: item.id, location_id: null, quantity: 15, reason: 'sale', note: null });
+    }
+
+    const result = await getInventoryValuation({});
+
+    expect(result.items.map(item => [item.name, item.quantity, item.value_cents, item.unit_cost_cents])).toEqual([
+      ['Bolts', 5, 750, 150],
+      ['Nuts', 5, 625, 125],
+    ]);
+    expect(result.total_value_cents).toEqual(1375);
+  });
+
+  it('should value the stock as it was at an earlier date', async () => {
+    const bolts = await seedItem('Bolts', 'fifo');
+    await db.update(itemsTable).set({ created_at: new Date('2026-01-01') }).where(eq(itemsTable.id, bolts.id)).execute();
+    await receive(bolts.id, 10, 100);
+    await db.update(stockMovementsTable).set({ created_at: new Date('2026-02-01') }).execute();
+    await adjustStock({ item_id: bolts.id, location_id: null, delta: -4, note: null });
+
+    const before = await getInventoryValuation({ as_of: new Date('2026-01-15') });
+    const then = await getInventoryValuation({ as_of: new Date('2026-03-01') });
+    const now = await getInventoryValuation({});
+
+    expect(before.items[0]).toMatchObject({ quantity: 0, value_cents: 0, unit_cost_cents: null });
+    expect(then.items[0]).toMatchObject({ quantity: 10, value_cents: 1000 });
+    expect(now.items[0]).toMatchObject({ quantity: 6, value_cents: 600 });
+  });
+
+  it('should leave out items that were in the trash at the date', async () => {
+    const bolts = await seedItem('Bolts', 'average');
+    await receive(bolts.id, 2, 500);
+    await db.update(itemsTable).set({ deleted_at: new Date() }).where(eq(itemsTable.id, bolts.id)).execute();
+
+    const result = await getInventoryValuation({});
+
+    expect(result.items).toHaveLength(0);
+    expect(result.total_value_cents).toEqual(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { barcodeSchema, type CreateItemInput } from '../schema';
+import { createItem } from '../handlers/create_item';
+import { deleteItem } from '../handlers/delete_item';
+import { updateItem } from '../handlers/update_item';
+import { getItemByBarcode } from '../handlers/get_item_by_barcode';
+import { ConflictError, NotFoundError } from '../errors';
+
+const itemInput: CreateItemInput = {
+  name: 'Hex Bolts',
+  sku: 'BOLT-M8',
+  barcodes: [
+    { symbology: 'ean13', code: '4006381333931' },
+    { symbology: 'code128', code: 'SHELF-A1' }
+  ],
+  description: null,
+  quantity: 10,
+  reorder_point: null,
+  reorder_quantity: null,
+  category_id: null,
+  tags: [],
+  costing_method: 'average',
+  lot_tracked: false,
+  serialized: false,
+  serial_numbers: [],
+  base_unit: 'each',
+  units: [],
+  unit_cost_cents: null
+};
+
+describe('barcodeSchema', () => {
+  it('should accept codes with a valid check digit', () => {
+    expect(barcodeSchema.safeParse({ symbology: 'ean13', code: '4006381333931' }).success).toBe(true);
+    expect(barcodeSchema.safeParse({ symbology: 'upca', code: '036000291452' }).success).toBe(true);
+    expect(barcodeSchema.safeParse({ symbology: 'code128', code: 'BIN 04/A' }).success).toBe(true);
+  });
+
+  it('should reject a wrong check digit or length', () => {
+    const wrongDigit = barcodeSchema.safeParse({ symbology: 'ean13', code: '4006381333932' });
+    expect(wrongDigit.success).toBe(false);
+    expect(wrongDigit.error?.issues[0].message).toMatch(/check digit/i);
+
+    expect(barcodeSchema.safeParse({ symbology: 'upca', code: '4006381333931' }).success).toBe(false);
+    expect(barcodeSchema.safeParse({ symbology: 'code128', code: 'Ünicode' }).success).toBe(false);
+  });
+});
+
+describe('getItemByBarcode', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should find an item by any of its barcodes or its SKU', async () => {
+    const item = await createItem(itemInput);
+
+    expect(item.sku).toEqual('BOLT-M8');
+    expect(item.barcodes).toEqual(itemInput.barcodes);
+    expect((await getItemByBarcode('4006381333931')).id).toEqual(item.id);
+    expect((await getItemByBarcode(' SHELF-A1 ')).id).toEqual(item.id);
+    expect((await getItemByBarcode('BOLT-M8')).id).toEqual(item.id);
+  });
+
+  it('should throw a not found error for unknown codes and trashed items', async () => {
+    const item = await createItem(itemInput);
+    await deleteItem(item.id);
+
+    const error = await getItemByBarcode('4006381333931').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).toCause()).toEqual({ type: 'not_found', field: 'code', resource: 'item', id: '4006381333931' });
+  });
+
+  it('should refuse a barcode or SKU that belongs to another item', async () => {
+    await createItem(itemInput);
+
+    const barcodeError = await createItem({ ...itemInput, name: 'Other', sku: null, barcodes: [itemInput.barcodes[0]] }).catch((e: unknown) => e);
+    expect(barcodeError).toBeInstanceOf(ConflictError);
+    expect((barcodeError as ConflictError).field).toBe('barcodes');
+
+    const skuError = await createItem({ ...itemInput, name: 'Other', barcodes: [] }).catch((e: unknown) => e);
+    expect(skuError).toBeInstanceOf(ConflictError);
+    expect((skuError as ConflictError).field).toBe('sku');
+  });
+
+  it('should keep SKUs and barcodes of different items apart', async () => {
+    const bolts = await createItem(itemInput);
+    const nuts = await createItem({ ...itemInput, name: 'Hex Nuts', sku: 'NUT-M8', barcodes: [] });
+
+    const skuError = await createItem({ ...itemInput, name: 'Other', sku: 'SHELF-A1', barcodes: [] }).catch((e: unknown) => e);
+    expect(skuError).toBeInstanceOf(ConflictError);
+    expect((skuError as ConflictError).field).toBe('sku');
+    const barcodeError = await updateItem({ id: nuts.id, version: nuts.version, barcodes: [{ symbology: 'code128', code: 'BOLT-M8' }] })
+      .catch((e: unknown) => e);
+    expect(barcodeError).toBeInstanceOf(ConflictError);
+    expect((barcodeError as ConflictError).field).toBe('barcodes');
+
+    // An item's own SKU may also be one of its barcodes
+    await updateItem({ id: bolts.id, version: bolts.version, barcodes: [{ symbology: 'code128', code: 'BOLT-M8' }] });
+    expect((await getItemByBarcode('BOLT-M8')).id).toEqual(bolts.id);
+  });
+
+  it('should replace the barcodes on update', async () => {
+    const item = await createItem(itemInput);
+
+    const updated = await updateItem({ id: item.id, version: item.version, barcodes: [{ symbology: 'upca', code: '036000291452' }] });
+
+    expect(updated.barcodes).toEqual([{ symbology: 'upca', code: '036000291452' }]);
+    expect(updated.version).toBe(item.version + 1);
+    await expect(getItemByBarcode('SHELF-A1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -5,6 +5,7 @@ import { db } from '../db';
 import { itemsTable } from '../db/schema';
 import { type Item } from '../schema'; // Import Item type for type checking
 import { getItemById } from '../handlers/get_item_by_id';
+import { NotFoundError } from '../errors';
 import { eq } from 'drizzle-orm';
 
 describe('getItemById', () => {
@@ -23,7 +24,7 @@ describe('getItemById', () => {
       .values({
         name: testItemName,
         description: testDescription,
-        quantity: testQuantity,
+        quantity: String(testQuantity),
       })
       .returning()
       .execute();
@@ -41,7 +42,7 @@ describe('getItemById', () => {
     expect(foundItem!.id).toEqual(insertedItem.id);
     expect(foundItem!.name).toEqual(testItemName);
     expect(foundItem!.description).toEqual(testDescription);
-    expect(foundItem!.quantity).toEqual(testQuantity);
+    expect(foundItem!.on_hand).toEqual(testQuantity);
     expect(foundItem!.created_at).toBeInstanceOf(Date);
 
     // Further check if the retrieved date matches the database's date value
@@ -49,15 +50,13 @@ describe('getItemById', () => {
     expect(foundItem!.created_at.getTime()).toBeCloseTo(insertedItem.created_at.getTime(), -3);
   });
 
-  it('should return null if the item does not exist in the database', async () => {
+  it('should throw a not found error if the item does not exist in the database', async () => {
     // Arrange: Choose an ID that is highly unlikely to exist
     const nonExistentId = 999999;
 
-    // Act: Call the handler with a non-existent ID
-    const foundItem = await getItemById(nonExistentId);
-
-    // Assert: Verify that the handler returns null
-    expect(foundItem).toBeNull();
+    // Act & Assert: Verify that the handler reports the missing item
+    await expect(getItemById(nonExistentId)).rejects.toThrow(`Item with ID ${nonExistentId} not found.`);
+    await expect(getItemById(nonExistentId)).rejects.toBeInstanceOf(NotFoundError);
   });
 
   it('should return the item with correct data types as per schema', async () => {
@@ -66,7 +65,7 @@ describe('getItemById', () => {
       .values({
         name: 'Type Check Item',
         description: null, // Test handling of null description
-        quantity: 0, // Test handling of zero quantity
+        quantity: '0', // Test handling of zero quantity
       })
       .returning()
       .execute();
@@ -87,9 +86,9 @@ describe('getItemById', () => {
     expect(typeof item.name).toBe('string');
     expect(item.name).toEqual('Type Check Item'); // Check value
     expect(item.description).toBeNull(); // Ensure null is preserved
-    expect(typeof item.quantity).toBe('number');
-    expect(Number.isInteger(item.quantity)).toBe(true); // Quantity should be an integer
-    expect(item.quantity).toEqual(0); // Check value
+    expect(typeof item.on_hand).toBe('number');
+    expect(Number.isInteger(item.on_hand)).toBe(true); // Quantity should be an integer
+    expect(item.on_hand).toEqual(0); // Check value
     expect(item.created_at).toBeInstanceOf(Date); // Check Date object type
   });
 
@@ -99,7 +98,7 @@ describe('getItemById', () => {
       .values({
         name: 'Empty Desc Item',
         description: '', // Empty string, not null
-        quantity: 5,
+        quantity: '5',
       })
       .returning()
       .execute();
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { getItemMovements } from '../handlers/get_item_movements';
+
+describe('getItemMovements', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the movements of the requested item, newest first', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Tape', description: null, quantity: '0' })
+      .returning()
+      .execute();
+    const [otherItem] = await db.insert(itemsTable)
+      .values({ name: 'Glue', description: null, quantity: '0' })
+      .returning()
+      .execute();
+
+    await db.insert(stockMovementsTable).values([
+      { item_id: item.id, delta: '10', reason: 'receipt', note: null },
+      { item_id: otherItem.id, delta: '3', reason: 'receipt', note: null },
+      { item_id: item.id, delta: '-2', reason: 'sale', note: 'Order 7' }
+    ]).execute();
+
+    const result = await getItemMovements({ item_id: item.id, limit: 50 });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].delta).toEqual(-2);
+    expect(result[0].note).toEqual('Order 7');
+    expect(result[1].delta).toEqual(10);
+    result.forEach(movement => expect(movement.item_id).toEqual(item.id));
+  });
+
+  it('should respect the limit', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Nails', description: null, quantity: '0' })
+      .returning()
+      .execute();
+
+    for (let i = 0; i < 5; i++) {
+      await db.insert(stockMovementsTable).values({ item_id: item.id, delta: '1', reason: 'receipt', note: null }).execute();
+    }
+
+    const result = await getItemMovements({ item_id: item.id, limit: 3 });
+    expect(result).toHaveLength(3);
+  });
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, itemsTable, itemStockTable, locationsTable, type NewItem } from '../db/schema';
+import { type GetItemsInput } from '../schema';
+import { getItems } from '../handlers/get_items';
+import { createItem } from '../handlers/create_item';
+import { ValidationError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// Default list input with every field spelled out, mirroring what Zod would produce
+const defaultInput: GetItemsInput = {
+  cursor: null,
+  limit: 20,
+  sortBy: 'created_at',
+  sortOrder: 'desc'
+};
+
+const seedItems = async (inputs: NewItem[]) => {
+  for (const input of inputs) {
+    await db.insert(itemsTable).values(input).execute();
+  }
+};
+
+describe('getItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty page when there are no items', async () => {
+    const result = await getItems(defaultInput);
+
+    expect(result.items).toHaveLength(0);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should sort items by name in both directions', async () => {
+    await seedItems([
+      { name: 'Bolts', description: null, quantity: '5' },
+      { name: 'Anchors', description: null, quantity: '10' },
+      { name: 'Cables', description: null, quantity: '1' }
+    ]);
+
+    const ascending = await getItems({ ...defaultInput, sortBy: 'name', sortOrder: 'asc' });
+    expect(ascending.items.map(item => item.name)).toEqual(['Anchors', 'Bolts', 'Cables']);
+
+    const descending = await getItems({ ...defaultInput, sortBy: 'name', sortOrder: 'desc' });
+    expect(descending.items.map(item => item.name)).toEqual(['Cables', 'Bolts', 'Anchors']);
+  });
+
+  it('should page through all items using the cursor without gaps or duplicates', async () => {
+    // Several items share the same quantity to exercise the ID tie-breaker
+    await seedItems([
+      { name: 'Item A', description: null, quantity: '3' },
+      { name: 'Item B', description: null, quantity: '3' },
+      { name: 'Item C', description: null, quantity: '1' },
+      { name: 'Item D', description: null, quantity: '3' },
+      { name: 'Item E', description: null, quantity: '7' }
+    ]);
+
+    const seen: string[] = [];
+    let cursor: number | null = null;
+    let pages = 0;
+
+    do {
+      const page = await getItems({ ...defaultInput, limit: 2, sortBy: 'quantity', sortOrder: 'asc', cursor });
+      seen.push(...page.items.map(item => item.name));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor !== null);
+
+    expect(pages).toEqual(3);
+    expect(seen).toEqual(['Item C', 'Item A', 'Item B', 'Item D', 'Item E']);
+  });
+
+  it('should page by creation time through items created in one transaction', async () => {
+    // One transaction means one now(), so every row shares a created_at with microseconds a JS Date cannot hold
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < 7; index++) {
+        await tx.insert(itemsTable).values({ name: `Item ${index}`, description: null, quantity: '1' }).execute();
+      }
+    });
+
+    for (const sortOrder of ['asc', 'desc'] as const) {
+      const seen: string[] = [];
+      let cursor: number | null = null;
+      let pages = 0;
+
+      do {
+        const page = await getItems({ ...defaultInput, limit: 3, sortOrder, cursor });
+        seen.push(...page.items.map(item => item.name));
+        cursor = page.nextCursor;
+        pages++;
+      } while (cursor !== null && pages < 10);
+
+      expect(pages).toEqual(3);
+      expect(new Set(seen).size).toEqual(7);
+    }
+  });
+
+  it('should filter by case-insensitive name substring', async () => {
+    await seedItems([
+      { name: 'Red Paint', description: null, quantity: '2' },
+      { name: 'Blue paint', description: null, quantity: '4' },
+      { name: 'Brush', description: null, quantity: '6' }
+    ]);
+
+    const result = await getItems({ ...defaultInput, name: 'PAINT', sortBy: 'name', sortOrder: 'asc' });
+
+    expect(result.items.map(item => item.name)).toEqual(['Blue paint', 'Red Paint']);
+  });
+
+  it('should match % and _ in the name filter literally', async () => {
+    await db.insert(itemsTable).values([
+      { name: 'Cotton 50% blend', description: null, quantity: '1' },
+      { name: 'Cotton 500 blend', description: null, quantity: '1' },
+      { name: 'part_a', description: null, quantity: '1' },
+      { name: 'partxa', description: null, quantity: '1' }
+    ]).execute();
+
+    const percent = await getItems({ ...defaultInput, name: '50%', sortBy: 'name', sortOrder: 'asc' });
+    expect(percent.items.map(item => item.name)).toEqual(['Cotton 50% blend']);
+
+    const underscore = await getItems({ ...defaultInput, name: 't_a', sortBy: 'name', sortOrder: 'asc' });
+    expect(underscore.items.map(item => item.name)).toEqual(['part_a']);
+  });
+
+  it('should filter by quantity range inclusively', async () => {
+    await seedItems([
+      { name: 'Low', description: null, quantity: '1' },
+      { name: 'Middle', description: null, quantity: '5' },
+      { name: 'High', description: null, quantity: '10' }
+    ]);
+
+    const result = await getItems({ ...defaultInput, minQuantity: 5, maxQuantity: 10, sortBy: 'quantity', sortOrder: 'asc' });
+
+    expect(result.items.map(item => item.name)).toEqual(['Middle', 'High']);
+    result.items.forEach(item => {
+      expect(item.created_at).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should throw an error for an unknown cursor', async () => {
+    await expect(getItems({ ...defaultInput, cursor: 9999 })).rejects.toThrow(/not found/i);
+    await expect(getItems({ ...defaultInput, cursor: 9999 })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should filter by location and include the per-location breakdown', async () => {
+    await seedItems([
+      { name: 'Stored Item', description: null, quantity: '8' },
+      { name: 'Unassigned Item', description: null, quantity: '4' }
+    ]);
+    const [storedItem] = await db.select().from(itemsTable).where(eq(itemsTable.name, 'Stored Item')).execute();
+    const [storeroom] = await db.insert(locationsTable).values({ name: 'Storeroom', description: null }).returning().execute();
+    await db.insert(itemStockTable).values({ item_id: storedItem.id, location_id: storeroom.id, quantity: '6' }).execute();
+
+    const result = await getItems({ ...defaultInput, locationId: storeroom.id });
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].name).toEqual('Stored Item');
+    expect(result.items[0].locations).toEqual([{ location_id: storeroom.id, location_name: 'Storeroom', quantity: 6 }]);
+    expect(result.items[0].unassigned_quantity).toEqual(2);
+  });
+
+  it('should filter by category including its subcategories', async () => {
+    const [hardware] = await db.insert(categoriesTable).values({ name: 'Hardware' }).returning().execute();
+    const [fasteners] = await db.insert(categoriesTable).values({ name: 'Fasteners', parent_id: hardware.id }).returning().execute();
+    const [paint] = await db.insert(categoriesTable).values({ name: 'Paint' }).returning().execute();
+    await seedItems([
+      { name: 'Hinge', description: null, quantity: '1', category_id: hardware.id },
+      { name: 'Screw', description: null, quantity: '1', category_id: fasteners.id },
+      { name: 'Primer', description: null, quantity: '1', category_id: paint.id },
+      { name: 'Loose Item', description: null, quantity: '1' }
+    ]);
+
+    const all = await getItems({ ...defaultInput, categoryId: hardware.id, sortBy: 'name', sortOrder: 'asc' });
+    expect(all.items.map(item => item.name)).toEqual(['Hinge', 'Screw']);
+
+    const nested = await getItems({ ...defaultInput, categoryId: fasteners.id });
+    expect(nested.items.map(item => item.name)).toEqual(['Screw']);
+  });
+
+  it('should only list items carrying every requested tag', async () => {
+    const both = await createItem({ name: 'Both', sku: null, barcodes: [], description: null, quantity: 1, reorder_point: null, reorder_quantity: null, category_id: null, tags: ['fragile', 'heavy'], costing_method: 'average', lot_tracked: false, serialized: false, serial_numbers: [], base_unit: 'each', units: [], unit_cost_cents: null });
+    await createItem({ name: 'Fragile Only', sku: null, barcodes: [], description: null, quantity: 1, reorder_point: null, reorder_quantity: null, category_id: null, tags: ['fragile'], costing_method: 'average', lot_tracked: false, serialized: false, serial_numbers: [], base_unit: 'each', units: [], unit_cost_cents: null });
+
+    const result = await getItems({ ...defaultInput, tags: ['heavy', 'fragile'] });
+
+    expect(result.items.map(item => item.id)).toEqual([both.id]);
+    expect(result.items[0].tags).toEqual(['fragile', 'heavy']);
+  });
+});
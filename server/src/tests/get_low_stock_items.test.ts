@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable } from '../db/schema';
+import { getLowStockItems } from '../handlers/get_low_stock_items';
+
+describe('getLowStockItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return items at or below their reorder point, largest shortfall first', async () => {
+    await db.insert(itemsTable).values([
+      { name: 'Slightly Short', description: null, quantity: '8', reorder_point: 10, reorder_quantity: 20 },
+      { name: 'Exactly At Point', description: null, quantity: '5', reorder_point: 5, reorder_quantity: 10 },
+      { name: 'Very Short', description: null, quantity: '0', reorder_point: 25, reorder_quantity: 50 },
+      { name: 'Well Stocked', description: null, quantity: '100', reorder_point: 10, reorder_quantity: 20 },
+      { name: 'No Threshold', description: null, quantity: '0', reorder_point: null, reorder_quantity: null }
+    ]).execute();
+
+    const result = await getLowStockItems();
+
+    expect(result.map(item => item.name)).toEqual(['Very Short', 'Slightly Short', 'Exactly At Point']);
+    expect(result[0].reorder_point).toEqual(25);
+    expect(result[0].reorder_quantity).toEqual(50);
+    expect(result[0].locations).toEqual([]);
+  });
+
+  it('should return an empty array when nothing needs reordering', async () => {
+    await db.insert(itemsTable).values({ name: 'Plenty', description: null, quantity: '50', reorder_point: 5, reorder_quantity: null }).execute();
+
+    const result = await getLowStockItems();
+
+    expect(result).toHaveLength(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { type ImportItemsCsvInput } from '../schema';
+import { importItemsCsv } from '../handlers/import_items_csv';
+import { eq } from 'drizzle-orm';
+
+const validCsv = [
+  'name,description,quantity',
+  'Hex Bolts,"M8, zinc plated",100',
+  'Wing Nuts,,25',
+  '"Tape ""Heavy Duty""",Grey,0'
+].join('\r\n');
+
+describe('importItemsCsv', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report what would happen in a dry run without writing anything', async () => {
+    const input: ImportItemsCsvInput = { csv: validCsv, mode: 'create', dryRun: true };
+    const report = await importItemsCsv(input);
+
+    expect(report.dryRun).toBe(true);
+    expect(report.committed).toBe(false);
+    expect(report.errors).toHaveLength(0);
+    expect(report.created).toEqual(3);
+    expect(report.failed).toEqual(0);
+    expect(report.rows.map(row => row.name)).toEqual(['Hex Bolts', 'Wing Nuts', 'Tape "Heavy Duty"']);
+    expect(report.rows.map(row => row.row)).toEqual([2, 3, 4]);
+
+    const items = await db.select().from(itemsTable).execute();
+    expect(items).toHaveLength(0);
+  });
+
+  it('should create all rows and record opening quantities when committing', async () => {
+    const report = await importItemsCsv({ csv: validCsv, mode: 'create', dryRun: false });
+
+    expect(report.committed).toBe(true);
+
+    const items = await db.select().from(itemsTable).orderBy(itemsTable.name).execute();
+    expect(items).toHaveLength(3);
+    const bolts = items.find(item => item.name === 'Hex Bolts')!;
+    expect(bolts.description).toEqual('M8, zinc plated');
+    expect(Number(bolts.quantity)).toEqual(100);
+    expect(items.find(item => item.name === 'Wing Nuts')!.description).toBeNull();
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, bolts.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(100);
+  });
+
+  it('should report per-row validation errors and duplicate names, and write nothing', async () => {
+    await db.insert(itemsTable).values({ name: 'Existing Item', description: null, quantity: '5' }).execute();
+
+    const csv = [
+      'name,quantity',
+      'Good Item,3',
+      ',4',
+      'Negative Item,-2',
+      'Text Quantity,lots',
+      'Good Item,1',
+      'Existing Item,7'
+    ].join('\n');
+
+    const report = await importItemsCsv({ csv, mode: 'create', dryRun: false });
+
+    expect(report.committed).toBe(false);
+    expect(report.created).toEqual(1);
+    expect(report.failed).toEqual(5);
+    expect(report.rows[0].action).toEqual('create');
+    expect(report.rows[1].errors.join(' ')).toMatch(/name/i);
+    expect(report.rows[2].errors.join(' ')).toMatch(/quantity/i);
+    expect(report.rows[3].errors.join(' ')).toMatch(/quantity/i);
+    expect(report.rows[4].errors.join(' ')).toMatch(/duplicate name "Good Item" \(first used on row 2\)/i);
+    expect(report.rows[5].errors.join(' ')).toMatch(/already exists/i);
+
+    const items = await db.select().from(itemsTable).execute();
+    expect(items).toHaveLength(1);
+  });
+
+  it('should update existing items by name in upsert mode', async () => {
+    const [existing] = await db.insert(itemsTable)
+      .values({ name: 'Hex Bolts', description: 'Old description', quantity: '40' })
+      .returning()
+      .execute();
+
+    const report = await importItemsCsv({ csv: validCsv, mode: 'upsert', dryRun: false });
+
+    expect(report.committed).toBe(true);
+    expect(report.created).toEqual(2);
+    expect(report.updated).toEqual(1);
+    expect(report.rows[0].action).toEqual('update');
+
+    const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, existing.id)).execute();
+    expect(dbItem.description).toEqual('M8, zinc plated');
+    expect(Number(dbItem.quantity)).toEqual(100);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, existing.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(60);
+    expect(movements[0].note).toEqual('CSV import');
+  });
+
+  it('should reject an unknown header column', async () => {
+    const report = await importItemsCsv({ csv: 'name,colour\nWidget,blue', mode: 'create', dryRun: true });
+
+    expect(report.errors.join(' ')).toMatch(/unknown column/i);
+    expect(report.rows).toHaveLength(0);
+  });
+});
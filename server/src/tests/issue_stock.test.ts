@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { type IssueStockInput } from '../schema';
+import { issueStock } from '../handlers/issue_stock';
+import { InsufficientStockError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+describe('issueStock', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should decrease the quantity and record a negative movement', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Gloves', description: null, quantity: '10' })
+      .returning()
+      .execute();
+
+    const input: IssueStockInput = { item_id: item.id, location_id: null, quantity: 4, reason: 'damage', note: 'Torn in transit' };
+    const result = await issueStock(input);
+
+    expect(result.on_hand).toEqual(6);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.item_id, item.id))
+      .execute();
+
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(-4);
+    expect(movements[0].reason).toEqual('damage');
+  });
+
+  it('should allow issuing the entire stock', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Last Units', description: null, quantity: '3' })
+      .returning()
+      .execute();
+
+    const result = await issueStock({ item_id: item.id, location_id: null, quantity: 3, reason: 'sale', note: null });
+
+    expect(result.on_hand).toEqual(0);
+  });
+
+  it('should refuse to go below zero and leave the item untouched', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Scarce Item', description: null, quantity: '2' })
+      .returning()
+      .execute();
+
+    const input: IssueStockInput = { item_id: item.id, location_id: null, quantity: 5, reason: 'sale', note: null };
+
+    const error = await issueStock(input).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(InsufficientStockError);
+    expect((error as InsufficientStockError).toCause()).toEqual({
+      type: 'insufficient_stock',
+      field: 'quantity',
+      item_id: item.id,
+      location_id: null,
+      requested: 5
+    });
+
+    const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, item.id)).execute();
+    expect(Number(dbItem.quantity)).toEqual(2);
+
+    const movements = await db.select().from(stockMovementsTable).execute();
+    expect(movements).toHaveLength(0);
+  });
+});
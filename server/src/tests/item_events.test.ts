@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type ItemChangeEvent } from '../schema';
+import { itemChanges } from '../helpers/item_events';
+import { createItem } from '../handlers/create_item';
+import { receiveStock } from '../handlers/receive_stock';
+import { issueStock } from '../handlers/issue_stock';
+import { deleteItem } from '../handlers/delete_item';
+import { restoreItem } from '../handlers/restore_item';
+
+// Subscribes like a connected client would and collects every event until stopped
+const collectChanges = () => {
+  const controller = new AbortController();
+  const events: ItemChangeEvent[] = [];
+  const done = (async () => {
+    for await (const event of itemChanges(controller.signal)) {
+      events.push(event);
+    }
+  })();
+  return {
+    events,
+    stop: async () => {
+      controller.abort();
+      await done;
+    },
+  };
+};
+
+describe('item change events', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should publish created, updated and deleted events as items change', async () => {
+    const subscriber = collectChanges();
+
+    const item = await createItem({ name: 'Hex Bolts', sku: null, barcodes: [], description: null, quantity: 5, reorder_point: null, reorder_quantity: null, category_id: null, tags: [], costing_method: 'average', lot_tracked: false, serialized: false, serial_numbers: [], base_unit: 'each', units: [], unit_cost_cents: null });
+    const received = await receiveStock({ item_id: item.id, location_id: null, quantity: 10, unit_cost_cents: null, note: null });
+    await deleteItem(item.id);
+    const restored = await restoreItem(item.id);
+    await subscriber.stop();
+
+    expect(subscriber.events).toEqual([
+      { type: 'created', item },
+      { type: 'updated', item: received },
+      { type: 'deleted', item_id: item.id },
+      { type: 'created', item: restored },
+    ]);
+  });
+
+  it('should not publish changes that were rolled back', async () => {
+    const item = await createItem({ name: 'Washers', sku: null, barcodes: [], description: null, quantity: 1, reorder_point: null, reorder_quantity: null, category_id: null, tags: [], costing_method: 'average', lot_tracked: false, serialized: false, serial_numbers: [], base_unit: 'each', units: [], unit_cost_cents: null });
+    const subscriber = collectChanges();
+
+    await expect(issueStock({ item_id: item.id, location_id: null, quantity: 5, reason: 'sale', note: null })).rejects.toThrow(/insufficient stock/i);
+    await subscriber.stop();
+
+    expect(subscriber.events).toHaveLength(0);
+  });
+
+  it('should stop yielding once the subscriber disconnects', async () => {
+    const subscriber = collectChanges();
+    await subscriber.stop();
+
+    await createItem({ name: 'Anchors', sku: null, barcodes: [], description: null, quantity: 0, reorder_point: null, reorder_quantity: null, category_id: null, tags: [], costing_method: 'average', lot_tracked: false, serialized: false, serial_numbers: [], base_unit: 'each', units: [], unit_cost_cents: null });
+
+    expect(subscriber.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { stockMovementsTable } from '../db/schema';
+import { type CreateItemInput } from '../schema';
+import { createItem } from '../handlers/create_item';
+import { updateItem } from '../handlers/update_item';
+import { receiveStock } from '../handlers/receive_stock';
+import { issueStock } from '../handlers/issue_stock';
+import { getInventoryValuation } from '../handlers/get_inventory_valuation';
+import { toUnitCost } from '../helpers/valuation';
+import { eq } from 'drizzle-orm';
+
+const cableInput: CreateItemInput = {
+  name: 'Cable',
+  sku: null,
+  barcodes: [],
+  description: null,
+  quantity: 0,
+  reorder_point: null,
+  reorder_quantity: null,
+  category_id: null,
+  tags: [],
+  costing_method: 'average',
+  lot_tracked: false,
+  serialized: false,
+  serial_numbers: [],
+  base_unit: 'm',
+  units: [{ name: 'drum', factor: 100 }, { name: 'cm', factor: 0.01 }],
+  unit_cost_cents: null
+};
+
+describe('units of measure', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the base unit and alternative units, smallest first', async () => {
+    const cable = await createItem(cableInput);
+
+    expect(cable.base_unit).toEqual('m');
+    expect(cable.units).toEqual([{ name: 'cm', factor: 0.01 }, { name: 'drum', factor: 100 }]);
+  });
+
+  it('should book receipts and issues entered in other units in the base unit', async () => {
+    const cable = await createItem(cableInput);
+
+    await receiveStock({ item_id: cable.id, location_id: null, quantity: 2, unit: 'drum', unit_cost_cents: 15000, note: null });
+    await issueStock({ item_id: cable.id, location_id: null, quantity: 2.5, reason: 'sale', note: null });
+    const item = await issueStock({ item_id: cable.id, location_id: null, quantity: 50, unit: 'cm', reason: 'sale', note: null });
+
+    expect(item.on_hand).toEqual(197);
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, cable.id)).execute();
+    expect(movements.map(movement => [Number(movement.delta), toUnitCost(movement.unit_cost_cents)])).toEqual([[200, 150], [-2.5, null], [-0.5, null]]);
+  });
+
+  it('should value stock received in packs at exactly what was paid', async () => {
+    for (const costing_method of ['fifo', 'average'] as const) {
+      const washers = await createItem({ ...cableInput, name: `Washers (${costing_method})`, base_unit: 'each', units: [{ name: 'box', factor: 1000 }], costing_method });
+
+      await receiveStock({ item_id: washers.id, location_id: null, quantity: 1, unit: 'box', unit_cost_cents: 500, note: null });
+      await receiveStock({ item_id: washers.id, location_id: null, quantity: 3, unit: 'box', unit_cost_cents: 1000, note: null });
+      await issueStock({ item_id: washers.id, location_id: null, quantity: 1500, reason: 'sale', note: null });
+
+      const [valuation] = (await getInventoryValuation({})).items.filter(item => item.item_id === washers.id);
+      // FIFO: the 1000 washers at 0.5¢ leave first, so 2500 at 1¢ remain; average: 4000 washers cost 3500¢, 1500 were issued
+      expect(valuation).toMatchObject({ quantity: 2500, value_cents: costing_method === 'fifo' ? 2500 : 2187 });
+    }
+  });
+
+  it('should reject units the item does not have', async () => {
+    const cable = await createItem(cableInput);
+
+    await expect(receiveStock({ item_id: cable.id, location_id: null, quantity: 1, unit: 'box', unit_cost_cents: null, note: null }))
+      .rejects.toThrow(/"box" is not a unit of "Cable"/i);
+  });
+
+  it('should not let an alternative unit share the name of the base unit', async () => {
+    await expect(createItem({ ...cableInput, units: [{ name: 'm', factor: 1 }] })).rejects.toThrow(/already the base unit/i);
+
+    const cable = await createItem(cableInput);
+    await expect(updateItem({ id: cable.id, version: cable.version, base_unit: 'drum' })).rejects.toThrow(/drum/i);
+    const renamed = await updateItem({ id: cable.id, version: cable.version, base_unit: 'metre' });
+    expect(renamed.base_unit).toEqual('metre');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, itemUnitsTable, stockMovementsTable } from '../db/schema';
+import { setKitComponents } from '../handlers/set_kit_components';
+import { assembleKit } from '../handlers/assemble_kit';
+import { disassembleKit } from '../handlers/disassemble_kit';
+import { receiveStock } from '../handlers/receive_stock';
+import { getItemById } from '../handlers/get_item_by_id';
+import { getInventoryValuation } from '../handlers/get_inventory_valuation';
+import { KitShortageError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, quantity = 0) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: String(quantity) }).returning().execute();
+  return item;
+};
+
+// A repair kit made of two bolts and a nut
+const seedKit = async (bolts: number, nuts: number) => {
+  const kit = await seedItem('Repair Kit');
+  const bolt = await seedItem('Bolt', bolts);
+  const nut = await seedItem('Nut', nuts);
+  await setKitComponents({ item_id: kit.id, components: [{ item_id: bolt.id, quantity: 2 }, { item_id: nut.id, quantity: 1 }] });
+  return { kit, bolt, nut };
+};
+
+describe('kits', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the components and how many kits the stock allows', async () => {
+    const { kit, bolt, nut } = await seedKit(10, 7);
+
+    const item = await getItemById(kit.id);
+
+    expect(item!.components).toEqual([
+      { item_id: bolt.id, item_name: 'Bolt', base_unit: 'each', quantity: 2 },
+      { item_id: nut.id, item_name: 'Nut', base_unit: 'each', quantity: 1 },
+    ]);
+    expect(item!.buildable).toEqual(5);
+    expect((await getItemById(bolt.id))!.buildable).toBeNull();
+  });
+
+  it('should consume the components and add the kits', async () => {
+    const { kit, bolt, nut } = await seedKit(10, 7);
+
+    const assembled = await assembleKit({ item_id: kit.id, quantity: 3, location_id: null, note: null });
+
+    expect(assembled.on_hand).toEqual(3);
+    expect(assembled.buildable).toEqual(2);
+    expect((await getItemById(bolt.id))!.on_hand).toEqual(4);
+    expect((await getItemById(nut.id))!.on_hand).toEqual(4);
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, bolt.id)).execute();
+    expect(movements.map(movement => [Number(movement.delta), movement.reason, movement.note])).toEqual([[-6, 'assembly', 'Assembled into Repair Kit']]);
+  });
+
+  it('should value kits at the cost of their components', async () => {
+    const { kit, bolt, nut } = await seedKit(0, 0);
+    await receiveStock({ item_id: bolt.id, location_id: null, quantity: 4, unit_cost_cents: 50, note: null });
+    await receiveStock({ item_id: nut.id, location_id: null, quantity: 2, unit_cost_cents: 20, note: null });
+
+    await assembleKit({ item_id: kit.id, quantity: 2, location_id: null, note: null });
+
+    const valuation = await getInventoryValuation({});
+    expect(valuation.items.find(item => item.item_id === kit.id)).toMatchObject({ quantity: 2, value_cents: 240, unit_cost_cents: 120 });
+    expect(valuation.total_value_cents).toEqual(240);
+  });
+
+  it('should leave the total value unchanged when components cost a fraction of a cent', async () => {
+    const kit = await seedItem('Screw Pack');
+    const screw = await seedItem('Screw');
+    await db.insert(itemUnitsTable).values({ item_id: screw.id, name: 'box', factor: '1000' }).execute();
+    await setKitComponents({ item_id: kit.id, components: [{ item_id: screw.id, quantity: 100 }] });
+    await receiveStock({ item_id: screw.id, location_id: null, quantity: 1, unit: 'box', unit_cost_cents: 500, note: null });
+
+    await assembleKit({ item_id: kit.id, quantity: 1, location_id: null, note: null });
+
+    const valuation = await getInventoryValuation({});
+    expect(valuation.items.find(item => item.item_id === screw.id)).toMatchObject({ quantity: 900, value_cents: 450 });
+    expect(valuation.items.find(item => item.item_id === kit.id)).toMatchObject({ quantity: 1, value_cents: 50 });
+    expect(valuation.total_value_cents).toEqual(500);
+  });
+
+  it('should list every short component and change nothing', async () => {
+    const { kit, bolt, nut } = await seedKit(10, 2);
+
+    const attempt = assembleKit({ item_id: kit.id, quantity: 6, location_id: null, note: null });
+
+    await expect(attempt).rejects.toThrow(/Bolt \(12 needed, 10 available\), Nut \(6 needed, 2 available\)/);
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(KitShortageError);
+    expect((error as KitShortageError).shortages.map(shortage => shortage.item_id)).toEqual([bolt.id, nut.id]);
+    expect((await getItemById(kit.id))!.on_hand).toEqual(0);
+    expect((await getItemById(bolt.id))!.on_hand).toEqual(10);
+  });
+
+  it('should give the components back when a kit is taken apart', async () => {
+    const { kit, bolt, nut } = await seedKit(4, 2);
+    await assembleKit({ item_id: kit.id, quantity: 2, location_id: null, note: null });
+
+    await expect(disassembleKit({ item_id: kit.id, quantity: 3, location_id: null, note: null })).rejects.toThrow(/3 needed, 2 available/);
+    const disassembled = await disassembleKit({ item_id: kit.id, quantity: 1, location_id: null, note: null });
+
+    expect(disassembled.on_hand).toEqual(1);
+    expect((await getItemById(bolt.id))!.on_hand).toEqual(2);
+    expect((await getItemById(nut.id))!.on_hand).toEqual(1);
+  });
+
+  it('should not let a kit contain itself, directly or through another kit', async () => {
+    const { kit } = await seedKit(0, 0);
+    const toolbox = await seedItem('Toolbox');
+    await setKitComponents({ item_id: toolbox.id, components: [{ item_id: kit.id, quantity: 1 }] });
+
+    await expect(setKitComponents({ item_id: kit.id, components: [{ item_id: kit.id, quantity: 1 }] })).rejects.toThrow(/component of itself/i);
+    await expect(setKitComponents({ item_id: kit.id, components: [{ item_id: toolbox.id, quantity: 1 }] })).rejects.toThrow(/already used in one of these components/i);
+  });
+
+  it('should refuse to assemble items without components', async () => {
+    const bolt = await seedItem('Bolt', 5);
+
+    await expect(assembleKit({ item_id: bolt.id, quantity: 1, location_id: null, note: null })).rejects.toThrow(/is not a kit/i);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, loansTable, locationsTable } from '../db/schema';
+import { createItem } from '../handlers/create_item';
+import { checkOutItem } from '../handlers/check_out_item';
+import { checkInLoan } from '../handlers/check_in_loan';
+import { getLoans } from '../handlers/get_loans';
+import { getItemById } from '../handlers/get_item_by_id';
+import { getSerialUnit } from '../handlers/get_serial_unit';
+import { retireSerialUnit } from '../handlers/retire_serial_unit';
+import { deleteItem } from '../handlers/delete_item';
+import { getInventoryValuation } from '../handlers/get_inventory_valuation';
+import { receiveStock } from '../handlers/receive_stock';
+import { eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, quantity: number) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: String(quantity) }).returning().execute();
+  return item;
+};
+
+const lend = (itemId: number, quantity: number, due_on = '2099-01-01') =>
+  checkOutItem({ item_id: itemId, borrower: 'Dana', due_on, quantity, location_id: null, note: null });
+
+describe('loans', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should take lent stock off the shelf and report it as on loan', async () => {
+    const drills = await seedItem('Drill', 5);
+
+    const loan = await lend(drills.id, 2);
+
+    expect(loan).toMatchObject({ item_name: 'Drill', borrower: 'Dana', quantity: 2, outstanding: 2, overdue: false, returned_at: null });
+    const item = await getItemById(drills.id);
+    expect(item!.on_hand).toEqual(3);
+    expect(item!.on_loan).toEqual(2);
+  });
+
+  it('should not lend more than is available', async () => {
+    const drills = await seedItem('Drill', 1);
+
+    await expect(lend(drills.id, 2)).rejects.toThrow(/insufficient stock/i);
+    expect(await getLoans({})).toHaveLength(0);
+  });
+
+  it('should take partial returns and close the loan once everything is back', async () => {
+    const drills = await seedItem('Drill', 5);
+    const loan = await lend(drills.id, 3);
+
+    const partly = await checkInLoan({ loan_id: loan.id, quantity: 1 });
+    expect(partly).toMatchObject({ quantity_returned: 1, outstanding: 2, returned_at: null });
+    await expect(checkInLoan({ loan_id: loan.id, quantity: 3 })).rejects.toThrow(/only 2 are still out/i);
+
+    const closed = await checkInLoan({ loan_id: loan.id });
+    expect(closed.outstanding).toEqual(0);
+    expect(closed.returned_at).toBeInstanceOf(Date);
+    const item = await getItemById(drills.id);
+    expect(item!.on_hand).toEqual(5);
+    expect(item!.on_loan).toEqual(0);
+    await expect(checkInLoan({ loan_id: loan.id })).rejects.toThrow(/already been returned/i);
+  });
+
+  it('should lend and take back fractional quantities', async () => {
+    const cable = await seedItem('Cable', 2.5);
+
+    const loan = await lend(cable.id, 2.5);
+    expect((await getItemById(cable.id))!).toMatchObject({ on_hand: 0, on_loan: 2.5 });
+
+    const partly = await checkInLoan({ loan_id: loan.id, quantity: 0.75 });
+    expect(partly).toMatchObject({ quantity: 2.5, quantity_returned: 0.75, outstanding: 1.75, returned_at: null });
+    const closed = await checkInLoan({ loan_id: loan.id });
+    expect(closed.outstanding).toEqual(0);
+    expect((await getItemById(cable.id))!).toMatchObject({ on_hand: 2.5, on_loan: 0 });
+  });
+
+  it('should return stock to another location when asked', async () => {
+    const drills = await seedItem('Drill', 2);
+    const [shelf] = await db.insert(locationsTable).values({ name: 'Shelf A', description: null }).returning().execute();
+    const loan = await lend(drills.id, 2);
+
+    await checkInLoan({ loan_id: loan.id, location_id: shelf.id });
+
+    expect((await getItemById(drills.id))!.locations).toEqual([{ location_id: shelf.id, location_name: 'Shelf A', quantity: 2 }]);
+  });
+
+  it('should list open loans past their due date as overdue', async () => {
+    const drills = await seedItem('Drill', 5);
+    const late = await lend(drills.id, 1, '2020-01-01');
+    await lend(drills.id, 1);
+    const returned = await lend(drills.id, 1, '2020-01-01');
+    await checkInLoan({ loan_id: returned.id });
+
+    const overdue = await getLoans({ status: 'overdue' });
+
+    expect(overdue.map(loan => loan.id)).toEqual([late.id]);
+    expect(overdue[0].overdue).toBe(true);
+    expect(await getLoans({ status: 'open' })).toHaveLength(2);
+    expect(await getLoans({ status: 'returned' })).toHaveLength(1);
+  });
+
+  it('should lend and return specific units of serialized items', async () => {
+    const laptop = await createItem({
+      name: 'Laptop', sku: null, barcodes: [], description: null, quantity: 2, reorder_point: null, reorder_quantity: null,
+      category_id: null, tags: [], costing_method: 'average', lot_tracked: false, serialized: true,
+      serial_numbers: ['SN-1', 'SN-2'], base_unit: 'each', units: [], unit_cost_cents: null,
+    });
+
+    const loan = await checkOutItem({ item_id: laptop.id, borrower: 'Dana', due_on: '2099-01-01', serial_numbers: ['SN-2'], location_id: null, note: null });
+
+    expect(loan.quantity).toEqual(1);
+    expect(loan.units).toEqual([{ serial_number: 'SN-2', returned_at: null }]);
+    expect((await getSerialUnit('SN-2')).unit.status).toEqual('checked_out');
+    expect((await getItemById(laptop.id))!.serial_numbers).toEqual(['SN-1']);
+    await expect(checkOutItem({ item_id: laptop.id, borrower: 'Sam', due_on: '2099-01-01', serial_numbers: ['SN-2'], location_id: null, note: null }))
+      .rejects.toThrow(/already checked out/i);
+    await expect(retireSerialUnit({ serial_number: 'SN-2', note: null })).rejects.toThrow(/check it in before retiring/i);
+
+    const closed = await checkInLoan({ loan_id: loan.id, serial_numbers: ['SN-2'] });
+
+    expect(closed.returned_at).toBeInstanceOf(Date);
+    expect((await getSerialUnit('SN-2')).unit.status).toEqual('in_stock');
+    expect((await getItemById(laptop.id))!.on_hand).toEqual(2);
+  });
+
+  it('should keep lent stock in the valuation and items on loan out of the trash', async () => {
+    const drills = await seedItem('Drill', 0);
+    await receiveStock({ item_id: drills.id, location_id: null, quantity: 2, unit_cost_cents: 5000, note: null });
+    const loan = await lend(drills.id, 1);
+
+    expect((await getInventoryValuation({})).items[0]).toMatchObject({ quantity: 2, value_cents: 10000 });
+    await expect(deleteItem(drills.id)).rejects.toThrow(/out on loan/i);
+
+    await checkInLoan({ loan_id: loan.id });
+    const [stored] = await db.select().from(loansTable).where(eq(loansTable.id, loan.id)).execute();
+    expect(stored.quantity_returned).toEqual('1.000');
+  });
+});
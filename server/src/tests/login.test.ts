@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type CreateUserInput, type LoginInput } from '../schema';
+import { createUser } from '../handlers/create_user';
+import { login } from '../handlers/login';
+import { logout } from '../handlers/logout';
+import { getSessionUser, hashSessionToken } from '../helpers/auth';
+import { AuthenticationError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const credentials: LoginInput = {
+    username: 'alice',
+    password: 'correct horse battery'
+  };
+  const userInput: CreateUserInput = { ...credentials, role: 'clerk' };
+
+  it('should start a session that resolves to the user', async () => {
+    const user = await createUser(userInput);
+
+    const result = await login(credentials);
+
+    expect(result.user).toEqual(user);
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(await getSessionUser(result.token)).toEqual(user);
+  });
+
+  it('should only store a hash of the session token', async () => {
+    await createUser(userInput);
+
+    const result = await login(credentials);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+  });
+
+  it('should reject a wrong password and an unknown user with the same message', async () => {
+    await createUser(userInput);
+
+    await expect(login({ ...credentials, password: 'wrong password' })).rejects.toThrow('Invalid username or password.');
+    await expect(login({ ...credentials, username: 'mallory' })).rejects.toThrow('Invalid username or password.');
+  });
+
+  it('should reject bad credentials with an authentication error, which the router answers as UNAUTHORIZED', async () => {
+    await createUser(userInput);
+
+    const error = await login({ ...credentials, password: 'wrong password' }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect((error as AuthenticationError).toCause()).toEqual({ type: 'unauthenticated', field: null });
+    expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should ignore expired sessions', async () => {
+    await createUser(userInput);
+    const result = await login(credentials);
+
+    await db.update(sessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(sessionsTable.token_hash, hashSessionToken(result.token)))
+      .execute();
+
+    expect(await getSessionUser(result.token)).toBeNull();
+  });
+
+  it('should end the session on logout', async () => {
+    await createUser(userInput);
+    const result = await login(credentials);
+
+    await logout(result.token);
+
+    expect(await getSessionUser(result.token)).toBeNull();
+    expect(await getSessionUser('not-a-session-token')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, lotsTable, stockMovementsTable } from '../db/schema';
+import { receiveStock } from '../handlers/receive_stock';
+import { issueStock } from '../handlers/issue_stock';
+import { getItemById } from '../handlers/get_item_by_id';
+import { getItemMovements } from '../handlers/get_item_movements';
+import { getExpiringLots } from '../handlers/get_expiring_lots';
+import { updateItem } from '../handlers/update_item';
+import { asc, eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, lot_tracked = true) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: '0', lot_tracked }).returning().execute();
+  return item;
+};
+
+const receiveLot = (itemId: number, quantity: number, lot_number: string, expires_on: string | null) =>
+  receiveStock({ item_id: itemId, location_id: null, quantity, unit_cost_cents: null, lot_number, expires_on, note: null });
+
+// yyyy-mm-dd of the day `days` from today, in UTC like the database session
+const daysFromToday = (days: number) => new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+
+describe('lots', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record receipts into lots and add to a lot received again', async () => {
+    const milk = await seedItem('Milk');
+
+    await receiveLot(milk.id, 10, 'L-100', '2030-05-01');
+    const item = await receiveLot(milk.id, 5, 'L-100', '2030-05-01');
+
+    expect(item.on_hand).toEqual(15);
+    expect(item.lots).toEqual([{ id: expect.any(Number), lot_number: 'L-100', expires_on: '2030-05-01', quantity: 15 }]);
+    const movements = await getItemMovements({ item_id: milk.id, limit: 10 });
+    expect(movements.map(movement => movement.lot_number)).toEqual(['L-100', 'L-100']);
+  });
+
+  it('should require a lot number for receipts of lot-tracked items only', async () => {
+    const milk = await seedItem('Milk');
+    const bolts = await seedItem('Bolts', false);
+
+    await expect(receiveStock({ item_id: milk.id, location_id: null, quantity: 1, unit_cost_cents: null, note: null }))
+      .rejects.toThrow(/enter the lot number/i);
+    await expect(receiveLot(bolts.id, 1, 'L-1', null)).rejects.toThrow(/not lot-tracked/i);
+    expect((await getItemById(milk.id))!.on_hand).toEqual(0);
+  });
+
+  it('should not let a receipt change the expiry date of a lot', async () => {
+    const milk = await seedItem('Milk');
+    await receiveLot(milk.id, 10, 'L-100', '2030-05-01');
+
+    await expect(receiveLot(milk.id, 5, 'L-100', '2030-06-01')).rejects.toThrow(/expires on 2030-05-01/i);
+  });
+
+  it('should issue from the lot that expires first', async () => {
+    const milk = await seedItem('Milk');
+    await receiveLot(milk.id, 10, 'LATE', '2030-09-01');
+    await receiveLot(milk.id, 4, 'NO-DATE', null);
+    await receiveLot(milk.id, 5, 'EARLY', '2030-03-01');
+
+    const item = await issueStock({ item_id: milk.id, location_id: null, quantity: 8, reason: 'sale', note: null });
+
+    expect(item.lots.map(lot => [lot.lot_number, lot.quantity])).toEqual([['LATE', 7], ['NO-DATE', 4]]);
+    const issued = await db.select({ delta: stockMovementsTable.delta, lot_number: lotsTable.lot_number })
+      .from(stockMovementsTable)
+      .innerJoin(lotsTable, eq(stockMovementsTable.lot_id, lotsTable.id))
+      .where(eq(stockMovementsTable.reason, 'sale'))
+      .orderBy(asc(stockMovementsTable.id))
+      .execute();
+    expect(issued.map(movement => [Number(movement.delta), movement.lot_number])).toEqual([[-5, 'EARLY'], [-3, 'LATE']]);
+  });
+
+  it('should take stock from before lot tracking only once the lots run out', async () => {
+    const milk = await seedItem('Milk', false);
+    await receiveStock({ item_id: milk.id, location_id: null, quantity: 3, unit_cost_cents: null, note: null });
+    await updateItem({ id: milk.id, version: (await getItemById(milk.id))!.version, lot_tracked: true });
+    await receiveLot(milk.id, 2, 'L-1', '2030-01-01');
+
+    const item = await issueStock({ item_id: milk.id, location_id: null, quantity: 4, reason: 'damage', note: null });
+
+    expect(item.on_hand).toEqual(1);
+    expect(item.lots).toEqual([]);
+    const issued = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.reason, 'damage')).execute();
+    expect(issued.map(movement => [Number(movement.delta), movement.lot_id === null])).toEqual([[-2, false], [-2, true]]);
+  });
+
+  it('should list lots expiring within the horizon, soonest first', async () => {
+    const milk = await seedItem('Milk');
+    const cheese = await seedItem('Cheese');
+    await receiveLot(milk.id, 5, 'M-SOON', daysFromToday(10));
+    await receiveLot(milk.id, 5, 'M-LATER', daysFromToday(90));
+    await receiveLot(cheese.id, 2, 'C-EXPIRED', daysFromToday(-2));
+    await receiveLot(cheese.id, 2, 'C-NEVER', null);
+
+    const result = await getExpiringLots({ within_days: 30 });
+
+    expect(result.map(lot => [lot.item_name, lot.lot_number, lot.quantity, lot.days_left])).toEqual([
+      ['Cheese', 'C-EXPIRED', 2, -2],
+      ['Milk', 'M-SOON', 5, 10],
+    ]);
+    expect((await getExpiringLots({ within_days: 365 })).map(lot => lot.lot_number)).toContain('M-LATER');
+  });
+
+  it('should leave out lots that have been used up', async () => {
+    const milk = await seedItem('Milk');
+    await receiveLot(milk.id, 5, 'M-SOON', daysFromToday(3));
+    await issueStock({ item_id: milk.id, location_id: null, quantity: 5, reason: 'sale', note: null });
+
+    expect(await getExpiringLots({ within_days: 30 })).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+import { hasPermission, permissionsForItemUpdate, rolePermissions, withPermissions } from '../helpers/permissions';
+
+describe('permissions', () => {
+  it('should only let viewers read', () => {
+    expect(rolePermissions.viewer).toEqual(['items:read']);
+    expect(hasPermission('viewer', 'items:create')).toBe(false);
+    expect(hasPermission('viewer', 'stock:write')).toBe(false);
+  });
+
+  it('should let clerks create items and move stock but not edit details or delete', () => {
+    expect(hasPermission('clerk', 'items:read')).toBe(true);
+    expect(hasPermission('clerk', 'items:create')).toBe(true);
+    expect(hasPermission('clerk', 'stock:write')).toBe(true);
+    expect(hasPermission('clerk', 'items:edit')).toBe(false);
+    expect(hasPermission('clerk', 'items:delete')).toBe(false);
+  });
+
+  it('should give managers every clerk permission and more', () => {
+    rolePermissions.clerk.forEach(permission => {
+      expect(hasPermission('manager', permission)).toBe(true);
+    });
+    expect(hasPermission('manager', 'items:edit')).toBe(true);
+    expect(hasPermission('manager', 'items:delete')).toBe(true);
+    expect(hasPermission('manager', 'users:manage')).toBe(true);
+    expect(hasPermission('manager', 'purchasing:manage')).toBe(true);
+    expect(hasPermission('clerk', 'purchasing:manage')).toBe(false);
+    expect(hasPermission('manager', 'valuation:read')).toBe(true);
+    expect(hasPermission('manager', 'stocktakes:manage')).toBe(true);
+    expect(hasPermission('clerk', 'stocktakes:manage')).toBe(false);
+    expect(hasPermission('clerk', 'valuation:read')).toBe(false);
+  });
+
+  it('should require a permission per changed field of an item update', () => {
+    expect(permissionsForItemUpdate({ id: 1, version: 1, quantity: 5 })).toEqual(['stock:write']);
+    expect(permissionsForItemUpdate({ id: 1, version: 1, name: 'Renamed' })).toEqual(['items:edit']);
+    expect(permissionsForItemUpdate({ id: 1, version: 1, description: null, quantity: 2 }).sort()).toEqual(['items:edit', 'stock:write']);
+    expect(permissionsForItemUpdate({ id: 1, version: 1 })).toEqual([]);
+  });
+
+  it('should attach the role permissions to a user', () => {
+    const user = { id: 1, username: 'alice', role: 'clerk' as const, created_at: new Date() };
+
+    expect(withPermissions(user)).toEqual({ ...user, permissions: [...rolePermissions.clerk] });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, type NewItem } from '../db/schema';
+import { type PrintLabelsInput } from '../schema';
+import { printLabels, itemUrl } from '../handlers/print_labels';
+import { type ExportTarget } from '../handlers/export_items';
+import { labelPosition, labelTemplates } from '../helpers/label_templates';
+import { deleteItem } from '../handlers/delete_item';
+
+const APP_URL = 'http://inventory.test';
+
+const seedItems = async (inputs: NewItem[]): Promise<number[]> => {
+  const ids: number[] = [];
+  for (const input of inputs) {
+    const [row] = await db.insert(itemsTable).values(input).returning().execute();
+    ids.push(row.id);
+  }
+  return ids;
+};
+
+// Renders labels into memory and returns the headers that were set along with the PDF as text
+const runPrint = async (input: PrintLabelsInput) => {
+  const headers = new Map<string, string>();
+  const stream = new PassThrough();
+  const target = Object.assign(stream, {
+    setHeader(name: string, value: string) {
+      headers.set(name.toLowerCase(), value);
+      return target;
+    }
+  }) as unknown as ExportTarget;
+
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  await printLabels(input, APP_URL, target);
+  return { headers, pdf: Buffer.concat(chunks).toString('latin1') };
+};
+
+const pageCount = (pdf: string): number => (pdf.match(/\/Type \/Page\b/g) ?? []).length;
+
+describe('printLabels', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should render a PDF with one page per sheet of labels', async () => {
+    const ids = await seedItems(Array.from({ length: 31 }, (_, index) => ({
+      name: `Item ${index}`,
+      sku: `SKU-${index}`,
+      description: null,
+      quantity: '1'
+    })));
+
+    const { headers, pdf } = await runPrint({ itemIds: ids, template: 'avery_5160', skip: 0 });
+
+    expect(headers.get('content-type')).toEqual('application/pdf');
+    expect(pdf.startsWith('%PDF')).toBe(true);
+    expect(pageCount(pdf)).toEqual(2); // 30 labels fit on a 5160 sheet
+  });
+
+  it('should start after skipped labels and continue on a new sheet', async () => {
+    const ids = await seedItems([
+      { name: 'Bolts', sku: 'BOLT-M8', description: null, quantity: '1' },
+      { name: 'Washers', sku: null, description: null, quantity: '1' }
+    ]);
+
+    const { pdf } = await runPrint({ itemIds: ids, template: 'avery_l7165', skip: 7 });
+
+    expect(pageCount(pdf)).toEqual(2); // The last of 8 labels, then the first of a new sheet
+  });
+
+  it('should reject trashed or unknown items', async () => {
+    const [id] = await seedItems([{ name: 'Bolts', sku: null, description: null, quantity: '0' }]);
+    await deleteItem(id);
+
+    await expect(runPrint({ itemIds: [id], template: 'avery_5160', skip: 0 })).rejects.toThrow(/not found/i);
+    await expect(runPrint({ itemIds: [9999], template: 'avery_5160', skip: 0 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject skipping a whole sheet', async () => {
+    const ids = await seedItems([{ name: 'Bolts', sku: null, description: null, quantity: '0' }]);
+
+    await expect(runPrint({ itemIds: ids, template: 'avery_5163', skip: 10 })).rejects.toThrow(/at most 9/);
+  });
+
+  it('should lay labels out row by row and link QR codes to the item', () => {
+    const layout = labelTemplates.avery_5160;
+
+    expect(labelPosition(layout, 0)).toEqual({ x: layout.marginLeft, y: layout.marginTop });
+    expect(labelPosition(layout, 4)).toEqual({
+      x: layout.marginLeft + layout.labelWidth + layout.columnGap,
+      y: layout.marginTop + layout.labelHeight
+    });
+    expect(itemUrl('http://inventory.test/', 42)).toEqual('http://inventory.test/?item=42');
+  });
+});
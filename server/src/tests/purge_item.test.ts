@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable, type NewItem } from '../db/schema';
+import { deleteItem } from '../handlers/delete_item';
+import { purgeItem } from '../handlers/purge_item';
+import { eq } from 'drizzle-orm';
+
+const testItem: NewItem = { name: 'Hex Bolts', description: null, quantity: '5' };
+
+describe('purgeItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should permanently delete a trashed item and its movements', async () => {
+    const [item] = await db.insert(itemsTable).values(testItem).returning().execute();
+    await db.insert(stockMovementsTable).values({ item_id: item.id, delta: '5', reason: 'adjustment', note: null }).execute();
+    await deleteItem(item.id);
+
+    await purgeItem(item.id);
+
+    const items = await db.select().from(itemsTable).where(eq(itemsTable.id, item.id)).execute();
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, item.id)).execute();
+    expect(items).toHaveLength(0);
+    expect(movements).toHaveLength(0);
+  });
+
+  it('should only purge items that are in the trash', async () => {
+    const [item] = await db.insert(itemsTable).values(testItem).returning().execute();
+
+    await expect(purgeItem(item.id)).rejects.toThrow(/not found in the trash/i);
+
+    const items = await db.select().from(itemsTable).where(eq(itemsTable.id, item.id)).execute();
+    expect(items).toHaveLength(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { createSupplier } from '../handlers/create_supplier';
+import { createPurchaseOrder } from '../handlers/create_purchase_order';
+import { sendPurchaseOrder } from '../handlers/send_purchase_order';
+import { receivePurchaseOrder } from '../handlers/receive_purchase_order';
+import { closePurchaseOrder } from '../handlers/close_purchase_order';
+import { deleteItem } from '../handlers/delete_item';
+import { purgeItem } from '../handlers/purge_item';
+import { eq } from 'drizzle-orm';
+
+// A sent order for 10 bolts at 1.25 and 5 nuts without a price, with both items starting at quantity 2
+const seedSentOrder = async () => {
+  const supplier = await createSupplier({ name: 'Acme Fasteners', email: null, phone: null, notes: null });
+  const [bolts] = await db.insert(itemsTable).values({ name: 'Bolts', description: null, quantity: '2' }).returning().execute();
+  const [nuts] = await db.insert(itemsTable).values({ name: 'Nuts', description: null, quantity: '2' }).returning().execute();
+  const draft = await createPurchaseOrder({
+    supplier_id: supplier.id,
+    notes: null,
+    lines: [{ item_id: bolts.id, quantity_ordered: 10, unit_cost_cents: 125 }, { item_id: nuts.id, quantity_ordered: 5, unit_cost_cents: null }]
+  });
+  const order = await sendPurchaseOrder(draft.id);
+  const [boltLine, nutLine] = order.lines;
+  return { order, bolts, nuts, boltLine, nutLine };
+};
+
+const quantityOf = async (itemId: number) => {
+  const [item] = await db.select().from(itemsTable).where(eq(itemsTable.id, itemId)).execute();
+  return Number(item.quantity);
+};
+
+describe('receivePurchaseOrder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add stock for a partial delivery and record receipts', async () => {
+    const { order, bolts, nuts, boltLine } = await seedSentOrder();
+
+    const result = await receivePurchaseOrder({
+      purchase_order_id: order.id,
+      location_id: null,
+      lines: [{ line_id: boltLine.id, quantity: 4 }],
+      note: 'Box 1 of 2'
+    });
+
+    expect(result.status).toEqual('partially_received');
+    expect(result.quantity_received).toEqual(4);
+    expect(result.lines[0].quantity_received).toEqual(4);
+    expect(await quantityOf(bolts.id)).toEqual(6);
+    expect(await quantityOf(nuts.id)).toEqual(2);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, bolts.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(movements[0].reason).toEqual('receipt');
+    expect(movements[0].note).toEqual(`PO #${order.id}: Box 1 of 2`);
+    expect(movements[0].unit_cost_cents).toEqual('125.000000');
+  });
+
+  it('should mark the order received once every line has arrived', async () => {
+    const { order, boltLine, nutLine } = await seedSentOrder();
+
+    await receivePurchaseOrder({ purchase_order_id: order.id, location_id: null, lines: [{ line_id: boltLine.id, quantity: 4 }], note: null });
+    const result = await receivePurchaseOrder({
+      purchase_order_id: order.id,
+      location_id: null,
+      lines: [{ line_id: boltLine.id, quantity: 6 }, { line_id: nutLine.id, quantity: 5 }],
+      note: null
+    });
+
+    expect(result.status).toEqual('received');
+    expect(result.quantity_received).toEqual(15);
+  });
+
+  it('should reject receiving more than is outstanding and roll back the whole delivery', async () => {
+    const { order, bolts, boltLine, nutLine } = await seedSentOrder();
+
+    await expect(receivePurchaseOrder({
+      purchase_order_id: order.id,
+      location_id: null,
+      lines: [{ line_id: boltLine.id, quantity: 3 }, { line_id: nutLine.id, quantity: 6 }],
+      note: null
+    })).rejects.toThrow(/only 5 of item ID \d+ are outstanding/i);
+
+    expect(await quantityOf(bolts.id)).toEqual(2);
+  });
+
+  it('should reject lines from another order', async () => {
+    const { order } = await seedSentOrder();
+
+    await expect(receivePurchaseOrder({ purchase_order_id: order.id, location_id: null, lines: [{ line_id: 9999, quantity: 1 }], note: null }))
+      .rejects.toThrow(/line 9999 is not on purchase order/i);
+  });
+
+  it('should only receive sent orders and stop receiving once closed', async () => {
+    const { order, boltLine } = await seedSentOrder();
+    const supplierId = order.supplier_id;
+    const draft = await createPurchaseOrder({ supplier_id: supplierId, notes: null, lines: [{ item_id: boltLine.item_id, quantity_ordered: 1, unit_cost_cents: null }] });
+
+    await expect(receivePurchaseOrder({ purchase_order_id: draft.id, location_id: null, lines: [{ line_id: draft.lines[0].id, quantity: 1 }], note: null }))
+      .rejects.toThrow(/is draft; only sent or partially received orders can be received/i);
+
+    const closed = await closePurchaseOrder(order.id);
+    expect(closed.status).toEqual('closed');
+    expect(closed.closed_at).toBeInstanceOf(Date);
+
+    await expect(receivePurchaseOrder({ purchase_order_id: order.id, location_id: null, lines: [{ line_id: boltLine.id, quantity: 1 }], note: null }))
+      .rejects.toThrow(/is closed/i);
+    await expect(closePurchaseOrder(order.id)).rejects.toThrow(/is closed/i);
+  });
+
+  it('should keep ordered items from being purged', async () => {
+    const { bolts } = await seedSentOrder();
+    await deleteItem(bolts.id);
+
+    await expect(purgeItem(bolts.id)).rejects.toThrow(/on purchase orders/i);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, stockMovementsTable } from '../db/schema';
+import { type ReceiveStockInput } from '../schema';
+import { receiveStock } from '../handlers/receive_stock';
+import { eq } from 'drizzle-orm';
+
+describe('receiveStock', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should increase the quantity and record a receipt movement', async () => {
+    const [item] = await db.insert(itemsTable)
+      .values({ name: 'Screws', description: null, quantity: '10' })
+      .returning()
+      .execute();
+
+    const input: ReceiveStockInput = { item_id: item.id, location_id: null, quantity: 25, unit_cost_cents: null, note: 'Delivery #42' };
+    const result = await receiveStock(input);
+
+    expect(result.id).toEqual(item.id);
+    expect(result.on_hand).toEqual(35);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.item_id, item.id))
+      .execute();
+
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(25);
+    expect(movements[0].reason).toEqual('receipt');
+    expect(movements[0].note).toEqual('Delivery #42');
+    expect(movements[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw an error for a non-existent item', async () => {
+    const input: ReceiveStockInput = { item_id: 9999, location_id: null, quantity: 5, unit_cost_cents: null, note: null };
+
+    await expect(receiveStock(input)).rejects.toThrow(/not found/i);
+
+    const movements = await db.select().from(stockMovementsTable).execute();
+    expect(movements).toHaveLength(0);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, type NewItem } from '../db/schema';
+import { deleteItem } from '../handlers/delete_item';
+import { restoreItem } from '../handlers/restore_item';
+import { getItemById } from '../handlers/get_item_by_id';
+
+const testItem: NewItem = { name: 'Hex Bolts', description: null, quantity: '5' };
+
+describe('restoreItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should bring a trashed item back', async () => {
+    const [item] = await db.insert(itemsTable).values(testItem).returning().execute();
+    await deleteItem(item.id);
+
+    const result = await restoreItem(item.id);
+
+    expect(result.id).toEqual(item.id);
+    expect(result.deleted_at).toBeNull();
+    expect(result.on_hand).toEqual(5);
+    expect(await getItemById(item.id)).not.toBeNull();
+  });
+
+  it('should throw an error for an item that is not in the trash', async () => {
+    const [item] = await db.insert(itemsTable).values(testItem).returning().execute();
+
+    await expect(restoreItem(item.id)).rejects.toThrow(/not found in the trash/i);
+    await expect(restoreItem(99999)).rejects.toThrow(/not found in the trash/i);
+  });
+
+  it('should refuse to restore when the name has been reused', async () => {
+    const [item] = await db.insert(itemsTable).values(testItem).returning().execute();
+    await deleteItem(item.id);
+    // The partial unique index lets a new item take the trashed item's name
+    await db.insert(itemsTable).values(testItem).execute();
+
+    await expect(restoreItem(item.id)).rejects.toThrow(/already named "Hex Bolts"/);
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, itemUnitsTable, salesOrdersTable, stockMovementsTable } from '../db/schema';
+import { createSalesOrder } from '../handlers/create_sales_order';
+import { cancelSalesOrder } from '../handlers/cancel_sales_order';
+import { fulfilSalesOrder } from '../handlers/fulfil_sales_order';
+import { getItemById } from '../handlers/get_item_by_id';
+import { issueStock } from '../handlers/issue_stock';
+import { deleteItem } from '../handlers/delete_item';
+import { eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, quantity: number) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: String(quantity) }).returning().execute();
+  return item;
+};
+
+const placeOrder = (itemId: number, quantity: number) =>
+  createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: itemId, quantity }] });
+
+describe('sales orders', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reserve stock when an order is placed', async () => {
+    const bolts = await seedItem('Bolts', 10);
+
+    const order = await placeOrder(bolts.id, 4);
+
+    expect(order.status).toEqual('open');
+    expect(order.lines).toEqual([{ id: expect.any(Number), item_id: bolts.id, item_name: 'Bolts', base_unit: 'each', quantity: 4 }]);
+    const item = await getItemById(bolts.id);
+    expect(item!.on_hand).toEqual(10);
+    expect(item!.reserved).toEqual(4);
+    expect(item!.available).toEqual(6);
+  });
+
+  it('should reserve and sell fractional quantities entered in any unit', async () => {
+    const [cable] = await db.insert(itemsTable).values({ name: 'Cable', description: null, quantity: '120', base_unit: 'm' }).returning().execute();
+    await db.insert(itemUnitsTable).values({ item_id: cable.id, name: 'drum', factor: '50' }).execute();
+
+    const order = await createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: cable.id, quantity: 1.05, unit: 'drum' }] });
+
+    expect(order.lines.map(line => [line.quantity, line.base_unit])).toEqual([[52.5, 'm']]);
+    expect((await getItemById(cable.id))!.reserved).toEqual(52.5);
+    await fulfilSalesOrder({ sales_order_id: order.id, location_id: null });
+    const item = await getItemById(cable.id);
+    expect(item!.on_hand).toEqual(67.5);
+    expect(item!.reserved).toEqual(0);
+  });
+
+  it('should reject overselling and create nothing', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const nuts = await seedItem('Nuts', 3);
+
+    await expect(createSalesOrder({
+      customer_name: 'Riverside Garage',
+      notes: null,
+      lines: [{ item_id: bolts.id, quantity: 2 }, { item_id: nuts.id, quantity: 5 }]
+    })).rejects.toThrow(/5 requested, but only 3 available/i);
+
+    expect(await db.select().from(salesOrdersTable).execute()).toHaveLength(0);
+    expect((await getItemById(bolts.id))!.reserved).toEqual(0);
+  });
+
+  it('should let only one of two concurrent orders take the last units', async () => {
+    const bolts = await seedItem('Bolts', 5);
+
+    const results = await Promise.allSettled([placeOrder(bolts.id, 4), placeOrder(bolts.id, 4)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    expect((await getItemById(bolts.id))!.reserved).toEqual(4);
+  });
+
+  it('should place concurrent orders listing the same items in opposite order', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const nuts = await seedItem('Nuts', 10);
+    const placeBoth = (first: number, second: number) =>
+      createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: first, quantity: 1 }, { item_id: second, quantity: 1 }] });
+
+    const orders = await Promise.all([
+      placeBoth(bolts.id, nuts.id), placeBoth(nuts.id, bolts.id),
+      placeBoth(bolts.id, nuts.id), placeBoth(nuts.id, bolts.id),
+    ]);
+
+    expect(orders[1].lines.map(line => line.item_id)).toEqual([nuts.id, bolts.id]); // Lines keep the order they were given in
+    expect((await getItemById(bolts.id))!.reserved).toEqual(4);
+    expect((await getItemById(nuts.id))!.reserved).toEqual(4);
+    await Promise.all(orders.map(order => cancelSalesOrder(order.id)));
+    expect((await getItemById(bolts.id))!.reserved).toEqual(0);
+  });
+
+  it('should keep reserved stock from being issued elsewhere', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    await placeOrder(bolts.id, 8);
+
+    await expect(issueStock({ item_id: bolts.id, location_id: null, quantity: 3, reason: 'damage', note: null }))
+      .rejects.toThrow(/8 of 10 units are reserved/i);
+    await issueStock({ item_id: bolts.id, location_id: null, quantity: 2, reason: 'damage', note: null });
+
+    expect((await getItemById(bolts.id))!.available).toEqual(0);
+  });
+
+  it('should release the reservation when an order is cancelled', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const order = await placeOrder(bolts.id, 4);
+
+    const cancelled = await cancelSalesOrder(order.id);
+
+    expect(cancelled.status).toEqual('cancelled');
+    expect(cancelled.cancelled_at).toBeInstanceOf(Date);
+    const item = await getItemById(bolts.id);
+    expect(item!.reserved).toEqual(0);
+    expect(item!.available).toEqual(10);
+    await expect(cancelSalesOrder(order.id)).rejects.toThrow(/is cancelled; only open orders can be cancelled/i);
+  });
+
+  it('should deduct stock and clear the reservation when an order is fulfilled', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const order = await placeOrder(bolts.id, 4);
+
+    const fulfilled = await fulfilSalesOrder({ sales_order_id: order.id, location_id: null });
+
+    expect(fulfilled.status).toEqual('fulfilled');
+    expect(fulfilled.fulfilled_at).toBeInstanceOf(Date);
+    const item = await getItemById(bolts.id);
+    expect(item!.on_hand).toEqual(6);
+    expect(item!.reserved).toEqual(0);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, bolts.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toEqual(-4);
+    expect(movements[0].reason).toEqual('sale');
+    expect(movements[0].note).toEqual(`SO #${order.id}`);
+    await expect(cancelSalesOrder(order.id)).rejects.toThrow(/is fulfilled/i);
+  });
+
+  it('should keep items with open orders out of the trash', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    await placeOrder(bolts.id, 4);
+
+    await expect(deleteItem(bolts.id)).rejects.toThrow(/4 units reserved for open sales orders/i);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, locationsTable, serialUnitsTable } from '../db/schema';
+import { type CreateItemInput } from '../schema';
+import { createItem } from '../handlers/create_item';
+import { updateItem } from '../handlers/update_item';
+import { addSerialUnits } from '../handlers/add_serial_units';
+import { retireSerialUnit } from '../handlers/retire_serial_unit';
+import { getSerialUnit } from '../handlers/get_serial_unit';
+import { receiveStock } from '../handlers/receive_stock';
+import { getItemById } from '../handlers/get_item_by_id';
+import { getItemMovements } from '../handlers/get_item_movements';
+import { createSalesOrder } from '../handlers/create_sales_order';
+import { createSupplier } from '../handlers/create_supplier';
+import { createPurchaseOrder } from '../handlers/create_purchase_order';
+import { eq } from 'drizzle-orm';
+
+const laptopInput: CreateItemInput = {
+  name: 'Laptop',
+  sku: null,
+  barcodes: [],
+  description: null,
+  quantity: 2,
+  reorder_point: null,
+  reorder_quantity: null,
+  category_id: null,
+  tags: [],
+  costing_method: 'average',
+  lot_tracked: false,
+  serialized: true,
+  serial_numbers: ['SN-001', 'SN-002'],
+  base_unit: 'each',
+  units: [],
+  unit_cost_cents: null,
+};
+
+const addUnits = (itemId: number, serial_numbers: string[], location_id: number | null = null) =>
+  addSerialUnits({ item_id: itemId, serial_numbers, location_id, unit_cost_cents: null, note: null });
+
+describe('serial units', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a serialized item with its opening units', async () => {
+    const laptop = await createItem(laptopInput);
+
+    expect(laptop.serialized).toBe(true);
+    expect(laptop.on_hand).toEqual(2);
+    expect(laptop.serial_numbers).toEqual(['SN-001', 'SN-002']);
+    const movements = await getItemMovements({ item_id: laptop.id, limit: 10 });
+    expect(movements.map(movement => [movement.delta, movement.serial_number]).sort()).toEqual([[1, 'SN-001'], [1, 'SN-002']]);
+  });
+
+  it('should reject a quantity that does not match the serial numbers', async () => {
+    await expect(createItem({ ...laptopInput, quantity: 3 })).rejects.toThrow(/number of its serial numbers/i);
+  });
+
+  it('should add units and keep the quantity equal to the units in stock', async () => {
+    const laptop = await createItem(laptopInput);
+    const [shelf] = await db.insert(locationsTable).values({ name: 'Shelf A', description: null }).returning().execute();
+
+    const item = await addUnits(laptop.id, ['SN-003'], shelf.id);
+
+    expect(item.on_hand).toEqual(3);
+    expect(item.serial_numbers).toEqual(['SN-001', 'SN-002', 'SN-003']);
+    expect(item.locations).toEqual([{ location_id: shelf.id, location_name: 'Shelf A', quantity: 1 }]);
+  });
+
+  it('should refuse serial numbers that are already in use, even by another item', async () => {
+    const laptop = await createItem(laptopInput);
+    const drill = await createItem({ ...laptopInput, name: 'Drill', quantity: 0, serial_numbers: [] });
+
+    await expect(addUnits(drill.id, ['SN-002'])).rejects.toThrow(/"SN-002" is already in use/i);
+    await expect(addUnits(laptop.id, ['SN-009', 'SN-009'])).rejects.toThrow(/listed more than once/i);
+    expect((await getItemById(drill.id))!.on_hand).toEqual(0);
+  });
+
+  it('should retire a unit and take it out of stock', async () => {
+    const laptop = await createItem(laptopInput);
+
+    const { unit, item } = await retireSerialUnit({ serial_number: 'SN-001', note: 'Screen broken' });
+
+    expect(unit.status).toEqual('retired');
+    expect(unit.retired_at).toBeInstanceOf(Date);
+    expect(item.on_hand).toEqual(1);
+    expect(item.serial_numbers).toEqual(['SN-002']);
+    await expect(retireSerialUnit({ serial_number: 'SN-001', note: null })).rejects.toThrow(/already been retired/i);
+    const movements = await getItemMovements({ item_id: laptop.id, limit: 1 });
+    expect(movements[0]).toMatchObject({ delta: -1, reason: 'adjustment', note: 'Retired: Screen broken', serial_number: 'SN-001' });
+  });
+
+  it('should look up a unit by its serial number', async () => {
+    const laptop = await createItem(laptopInput);
+
+    const result = await getSerialUnit(' SN-002 ');
+
+    expect(result.unit).toMatchObject({ item_id: laptop.id, serial_number: 'SN-002', status: 'in_stock' });
+    expect(result.item.name).toEqual('Laptop');
+    await expect(getSerialUnit('SN-404')).rejects.toThrow(/no unit found/i);
+  });
+
+  it('should only change stock of serialized items through their units', async () => {
+    const laptop = await createItem(laptopInput);
+
+    await expect(receiveStock({ item_id: laptop.id, location_id: null, quantity: 1, unit_cost_cents: null, note: null }))
+      .rejects.toThrow(/is serialized/i);
+    await expect(updateItem({ id: laptop.id, version: laptop.version, quantity: 5 })).rejects.toThrow(/follows its serial numbers/i);
+  });
+
+  it('should add and retire units when the serial numbers are edited', async () => {
+    const laptop = await createItem(laptopInput);
+
+    const item = await updateItem({ id: laptop.id, version: laptop.version, serial_numbers: ['SN-002', 'SN-003'] });
+
+    expect(item.on_hand).toEqual(2);
+    expect(item.serial_numbers).toEqual(['SN-002', 'SN-003']);
+    const [retired] = await db.select().from(serialUnitsTable).where(eq(serialUnitsTable.serial_number, 'SN-001')).execute();
+    expect(retired.status).toEqual('retired');
+  });
+
+  it('should only switch serial tracking on or off while the item has no stock', async () => {
+    const [bolts] = await db.insert(itemsTable).values({ name: 'Bolts', description: null, quantity: '5' }).returning().execute();
+    const laptop = await createItem({ ...laptopInput, quantity: 0, serial_numbers: [] });
+
+    await expect(updateItem({ id: bolts.id, version: bolts.version, serialized: true })).rejects.toThrow(/only be switched to serial numbers/i);
+    const switched = await updateItem({ id: laptop.id, version: laptop.version, serialized: false });
+    expect(switched.serialized).toBe(false);
+  });
+
+  it('should keep serialized items off sales and purchase orders', async () => {
+    const laptop = await createItem(laptopInput);
+    const supplier = await createSupplier({ name: 'Acme Computers', email: null, phone: null, notes: null });
+
+    await expect(createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: laptop.id, quantity: 1 }] }))
+      .rejects.toThrow(/is serialized/i);
+    await expect(createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: laptop.id, quantity_ordered: 1, unit_cost_cents: null }] }))
+      .rejects.toThrow(/is serialized/i);
+    expect((await getItemById(laptop.id))!.reserved).toEqual(0);
+  });
+
+  it('should not switch an item on an open purchase order to serial numbers', async () => {
+    const [monitor] = await db.insert(itemsTable).values({ name: 'Monitor', description: null, quantity: '0' }).returning().execute();
+    const supplier = await createSupplier({ name: 'Acme Computers', email: null, phone: null, notes: null });
+    const order = await createPurchaseOrder({ supplier_id: supplier.id, notes: null, lines: [{ item_id: monitor.id, quantity_ordered: 3, unit_cost_cents: null }] });
+
+    await expect(updateItem({ id: monitor.id, version: monitor.version, serialized: true }))
+      .rejects.toThrow(`"Monitor" is on purchase order #${order.id}`);
+  });
+});
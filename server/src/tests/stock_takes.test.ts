@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, locationsTable, stockMovementsTable, usersTable } from '../db/schema';
+import { createStockTake } from '../handlers/create_stock_take';
+import { recordStockTakeCounts } from '../handlers/record_stock_take_counts';
+import { approveStockTake } from '../handlers/approve_stock_take';
+import { cancelStockTake } from '../handlers/cancel_stock_take';
+import { getStockTakeById } from '../handlers/get_stock_take_by_id';
+import { getItemById } from '../handlers/get_item_by_id';
+import { receiveStock } from '../handlers/receive_stock';
+import { issueStock } from '../handlers/issue_stock';
+import { deleteItem } from '../handlers/delete_item';
+import { createSalesOrder } from '../handlers/create_sales_order';
+import { eq } from 'drizzle-orm';
+
+const seedItem = async (name: string, quantity: number, serialized = false) => {
+  const [item] = await db.insert(itemsTable).values({ name, description: null, quantity: String(quantity), serialized }).returning().execute();
+  return item;
+};
+
+const createCounter = async (username: string) => {
+  const [user] = await db.insert(usersTable)
+    .values({ username, password_hash: 'scrypt$00$00', role: 'clerk' })
+    .returning()
+    .execute();
+  return user;
+};
+
+describe('stock takes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should snapshot the expected quantities of every countable item', async () => {
+    await seedItem('Bolts', 10);
+    await seedItem('Nuts', 4);
+    await seedItem('Laptop', 0, true);
+
+    const stockTake = await createStockTake({ name: 'Q1 count', blind: false, location_id: null });
+
+    expect(stockTake.status).toEqual('counting');
+    expect(stockTake.lines.map(line => [line.item_name, line.expected_quantity, line.counted_quantity])).toEqual([
+      ['Bolts', 10, null],
+      ['Nuts', 4, null],
+    ]);
+  });
+
+  it('should collect counts from several counters and show the variances', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const nuts = await seedItem('Nuts', 4);
+    const ann = await createCounter('ann');
+    const ben = await createCounter('ben');
+    const stockTake = await createStockTake({ name: 'Q1 count', blind: false, location_id: null, item_ids: [bolts.id, nuts.id] });
+
+    await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 9 }] }, ann.id);
+    const counted = await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: nuts.id, counted_quantity: 4 }] }, ben.id);
+
+    expect(counted.lines.map(line => [line.item_name, line.counted_quantity, line.variance, line.counted_by])).toEqual([
+      ['Bolts', 9, -1, 'ann'],
+      ['Nuts', 4, 0, 'ben'],
+    ]);
+    await expect(recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: 9999, counted_quantity: 1 }] }))
+      .rejects.toThrow(/not part of stock take/i);
+  });
+
+  it('should hide expected quantities of blind counts from counters', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const stockTake = await createStockTake({ name: 'Blind', blind: true, location_id: null, item_ids: [bolts.id] });
+    await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 8 }] });
+
+    const asCounter = await getStockTakeById(stockTake.id, false);
+    const asManager = await getStockTakeById(stockTake.id, true);
+
+    expect(asCounter.lines[0]).toMatchObject({ expected_quantity: null, counted_quantity: 8, variance: null });
+    expect(asManager.lines[0]).toMatchObject({ expected_quantity: 10, counted_quantity: 8, variance: -2 });
+  });
+
+  it('should post the variances as adjustments on approval, keeping stock that moved meanwhile', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const nuts = await seedItem('Nuts', 4);
+    const washers = await seedItem('Washers', 6);
+    const stockTake = await createStockTake({ name: 'Q1 count', blind: false, location_id: null });
+    await recordStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: bolts.id, counted_quantity: 7 }, { item_id: nuts.id, counted_quantity: 5 }]
+    });
+    await issueStock({ item_id: bolts.id, location_id: null, quantity: 2, reason: 'sale', note: null });
+
+    const approved = await approveStockTake(stockTake.id);
+
+    expect(approved.status).toEqual('approved');
+    expect(approved.approved_at).toBeInstanceOf(Date);
+    expect((await getItemById(bolts.id))!.on_hand).toEqual(5);
+    expect((await getItemById(nuts.id))!.on_hand).toEqual(5);
+    expect((await getItemById(washers.id))!.on_hand).toEqual(6); // Never counted
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.reason, 'adjustment')).execute();
+    expect(movements.map(movement => [movement.item_id, Number(movement.delta), movement.note])).toEqual([
+      [bolts.id, -3, `Stock take #${stockTake.id}: Q1 count`],
+      [nuts.id, 1, `Stock take #${stockTake.id}: Q1 count`],
+    ]);
+    await expect(recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 1 }] }))
+      .rejects.toThrow(/is approved/i);
+  });
+
+  it('should count and adjust the stock held at one location', async () => {
+    const [shelf] = await db.insert(locationsTable).values({ name: 'Shelf A' }).returning().execute();
+    const bolts = await seedItem('Bolts', 0);
+    await seedItem('Nuts', 4);
+    await receiveStock({ item_id: bolts.id, location_id: shelf.id, quantity: 6, unit_cost_cents: null, note: null });
+    await receiveStock({ item_id: bolts.id, location_id: null, quantity: 2, unit_cost_cents: null, note: null });
+
+    const stockTake = await createStockTake({ name: 'Shelf A', blind: false, location_id: shelf.id });
+    expect(stockTake.lines.map(line => [line.item_name, line.expected_quantity])).toEqual([['Bolts', 6]]);
+
+    await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 5 }] });
+    await approveStockTake(stockTake.id);
+
+    const item = await getItemById(bolts.id);
+    expect(item!.on_hand).toEqual(7);
+    expect(item!.locations).toEqual([{ location_id: shelf.id, location_name: 'Shelf A', quantity: 5 }]);
+  });
+
+  it('should take a whole-stock shortfall from unassigned stock first, then from locations', async () => {
+    const [shelfA] = await db.insert(locationsTable).values({ name: 'Shelf A' }).returning().execute();
+    const [shelfB] = await db.insert(locationsTable).values({ name: 'Shelf B' }).returning().execute();
+    const bolts = await seedItem('Bolts', 0);
+    const nuts = await seedItem('Nuts', 0);
+    await receiveStock({ item_id: bolts.id, location_id: null, quantity: 2, unit_cost_cents: null, note: null });
+    await receiveStock({ item_id: bolts.id, location_id: shelfA.id, quantity: 3, unit_cost_cents: null, note: null });
+    await receiveStock({ item_id: bolts.id, location_id: shelfB.id, quantity: 4, unit_cost_cents: null, note: null });
+    await receiveStock({ item_id: nuts.id, location_id: shelfA.id, quantity: 10, unit_cost_cents: null, note: null });
+
+    const stockTake = await createStockTake({ name: 'Year end', blind: false, location_id: null });
+    await recordStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: bolts.id, counted_quantity: 6 }, { item_id: nuts.id, counted_quantity: 8 }]
+    });
+    await approveStockTake(stockTake.id);
+
+    const boltsAfter = await getItemById(bolts.id);
+    expect(boltsAfter!.on_hand).toEqual(6);
+    expect(boltsAfter!.unassigned_quantity).toEqual(0);
+    expect(boltsAfter!.locations).toEqual([
+      { location_id: shelfA.id, location_name: 'Shelf A', quantity: 2 },
+      { location_id: shelfB.id, location_name: 'Shelf B', quantity: 4 },
+    ]);
+    const nutsAfter = await getItemById(nuts.id);
+    expect(nutsAfter!.on_hand).toEqual(8);
+    expect(nutsAfter!.locations).toEqual([{ location_id: shelfA.id, location_name: 'Shelf A', quantity: 8 }]);
+  });
+
+  it('should approve around items that went to the trash during the count', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const nuts = await seedItem('Nuts', 4);
+    const stockTake = await createStockTake({ name: 'Q1 count', blind: false, location_id: null });
+    await recordStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: bolts.id, counted_quantity: 7 }, { item_id: nuts.id, counted_quantity: 3 }]
+    });
+    await deleteItem(nuts.id);
+
+    const approved = await approveStockTake(stockTake.id);
+
+    expect(approved.status).toEqual('approved');
+    expect((await getItemById(bolts.id))!.on_hand).toEqual(7);
+    const [trashed] = await db.select().from(itemsTable).where(eq(itemsTable.id, nuts.id)).execute();
+    expect(trashed.quantity).toEqual('4.000');
+  });
+
+  it('should record a count below what is reserved and show the shortfall', async () => {
+    const [shelf] = await db.insert(locationsTable).values({ name: 'Shelf A' }).returning().execute();
+    const bolts = await seedItem('Bolts', 0);
+    await receiveStock({ item_id: bolts.id, location_id: shelf.id, quantity: 10, unit_cost_cents: null, note: null });
+    await createSalesOrder({ customer_name: 'Riverside Garage', notes: null, lines: [{ item_id: bolts.id, quantity: 8 }] });
+    const stockTake = await createStockTake({ name: 'Year end', blind: false, location_id: null });
+    await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 3 }] });
+
+    const approved = await approveStockTake(stockTake.id);
+
+    expect(approved.status).toEqual('approved');
+    const item = await getItemById(bolts.id);
+    expect(item!.on_hand).toEqual(3);
+    expect(item!.reserved).toEqual(8);
+    expect(item!.available).toEqual(-5);
+    expect(item!.locations).toEqual([{ location_id: shelf.id, location_name: 'Shelf A', quantity: 3 }]);
+  });
+
+  it('should leave stock alone when a stock take is cancelled', async () => {
+    const bolts = await seedItem('Bolts', 10);
+    const stockTake = await createStockTake({ name: 'Q1 count', blind: false, location_id: null });
+    await recordStockTakeCounts({ stock_take_id: stockTake.id, counts: [{ item_id: bolts.id, counted_quantity: 3 }] });
+
+    const cancelled = await cancelStockTake(stockTake.id);
+
+    expect(cancelled.status).toEqual('cancelled');
+    expect((await getItemById(bolts.id))!.on_hand).toEqual(10);
+    await expect(approveStockTake(stockTake.id)).rejects.toThrow(/is cancelled; only stock takes still being counted can be approved/i);
+  });
+
+  it('should not count serialized items', async () => {
+    const laptop = await seedItem('Laptop', 0, true);
+
+    await expect(createStockTake({ name: 'Laptops', blind: false, location_id: null, item_ids: [laptop.id] }))
+      .rejects.toThrow(/serialized/i);
+  });
+});
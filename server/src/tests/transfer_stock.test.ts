@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { itemsTable, itemStockTable, locationsTable, stockMovementsTable } from '../db/schema';
+import { type TransferStockInput } from '../schema';
+import { transferStock } from '../handlers/transfer_stock';
+import { and, eq } from 'drizzle-orm';
+
+const getLocationQuantity = async (itemId: number, locationId: number): Promise<number> => {
+  const rows = await db.select()
+    .from(itemStockTable)
+    .where(and(eq(itemStockTable.item_id, itemId), eq(itemStockTable.location_id, locationId)))
+    .execute();
+  return rows.length === 0 ? 0 : Number(rows[0].quantity);
+};
+
+describe('transferStock', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should move unassigned stock into a location without changing the total', async () => {
+    const [item] = await db.insert(itemsTable).values({ name: 'Drill Bits', description: null, quantity: '20' }).returning().execute();
+    const [warehouse] = await db.insert(locationsTable).values({ name: 'Main Warehouse', description: null }).returning().execute();
+
+    const input: TransferStockInput = { item_id: item.id, from_location_id: null, to_location_id: warehouse.id, quantity: 15, note: null };
+    const result = await transferStock(input);
+
+    expect(result.on_hand).toEqual(20);
+    expect(result.unassigned_quantity).toEqual(5);
+    expect(result.locations).toEqual([{ location_id: warehouse.id, location_name: 'Main Warehouse', quantity: 15 }]);
+    expect(await getLocationQuantity(item.id, warehouse.id)).toEqual(15);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, item.id)).execute();
+    expect(movements).toHaveLength(2);
+    movements.forEach(movement => expect(movement.reason).toEqual('transfer'));
+    expect(movements.reduce((sum, movement) => sum + Number(movement.delta), 0)).toEqual(0);
+  });
+
+  it('should move stock between two locations', async () => {
+    const [item] = await db.insert(itemsTable).values({ name: 'Hinges', description: null, quantity: '10' }).returning().execute();
+    const [shelfA] = await db.insert(locationsTable).values({ name: 'Shelf A', description: null }).returning().execute();
+    const [shelfB] = await db.insert(locationsTable).values({ name: 'Shelf B', description: null }).returning().execute();
+    await db.insert(itemStockTable).values({ item_id: item.id, location_id: shelfA.id, quantity: '10' }).execute();
+
+    const result = await transferStock({ item_id: item.id, from_location_id: shelfA.id, to_location_id: shelfB.id, quantity: 4, note: 'Rebalance' });
+
+    expect(result.on_hand).toEqual(10);
+    expect(result.unassigned_quantity).toEqual(0);
+    expect(await getLocationQuantity(item.id, shelfA.id)).toEqual(6);
+    expect(await getLocationQuantity(item.id, shelfB.id)).toEqual(4);
+  });
+
+  it('should reject a transfer exceeding the stock at the source and change nothing', async () => {
+    const [item] = await db.insert(itemsTable).values({ name: 'Washers', description: null, quantity: '10' }).returning().execute();
+    const [shelfA] = await db.insert(locationsTable).values({ name: 'Shelf A', description: null }).returning().execute();
+    const [shelfB] = await db.insert(locationsTable).values({ name: 'Shelf B', description: null }).returning().execute();
+    await db.insert(itemStockTable).values({ item_id: item.id, location_id: shelfA.id, quantity: '3' }).execute();
+
+    const input: TransferStockInput = { item_id: item.id, from_location_id: shelfA.id, to_location_id: shelfB.id, quantity: 5, note: null };
+
+    await expect(transferStock(input)).rejects.toThrow(/insufficient stock/i);
+
+    expect(await getLocationQuantity(item.id, shelfA.id)).toEqual(3);
+    expect(await getLocationQuantity(item.id, shelfB.id)).toEqual(0);
+    const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, item.id)).execute();
+    expect(Number(dbItem.quantity)).toEqual(10);
+    const movements = await db.select().from(stockMovementsTable).execute();
+    expect(movements).toHaveLength(0);
+  });
+
+  it('should not take assigned stock when transferring from unassigned stock', async () => {
+    const [item] = await db.insert(itemsTable).values({ name: 'Clamps', description: null, quantity: '5' }).returning().execute();
+    const [shelfA] = await db.insert(locationsTable).values({ name: 'Shelf A', description: null }).returning().execute();
+    await db.insert(itemStockTable).values({ item_id: item.id, location_id: shelfA.id, quantity: '4' }).execute();
+
+    const input: TransferStockInput = { item_id: item.id, from_location_id: null, to_location_id: shelfA.id, quantity: 2, note: null };
+
+    await expect(transferStock(input)).rejects.toThrow(/insufficient stock/i);
+  });
+
+  it('should throw an error for a non-existent location', async () => {
+    const [item] = await db.insert(itemsTable).values({ name: 'Rivets', description: null, quantity: '5' }).returning().execute();
+
+    const input: TransferStockInput = { item_id: item.id, from_location_id: null, to_location_id: 9999, quantity: 1, note: null };
+
+    await expect(transferStock(input)).rejects.toThrow(/location with ID 9999 not found/i);
+  });
+});
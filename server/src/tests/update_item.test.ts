@@ -2,13 +2,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { itemsTable } from '../db/schema';
-import { type CreateItemInput, type Item } from '../schema';
+import { categoriesTable, itemsTable, stockMovementsTable, type Item, type NewItem } from '../db/schema';
 import { updateItem } from '../handlers/update_item';
+import { ConflictError, NotFoundError, VersionConflictError } from '../errors';
 import { eq } from 'drizzle-orm';
 
-// Helper to create an item and return the full item object
-const createTestItem = async (input: CreateItemInput): Promise<Item> => {
+// Helper to create an item and return the full database row
+const createTestItem = async (input: NewItem): Promise<Item> => {
   const [item] = await db.insert(itemsTable).values(input).returning().execute();
   // Ensure the returned item matches the schema type, especially for date
   return {
@@ -25,11 +25,12 @@ describe('updateItem', () => {
     const originalItem = await createTestItem({
       name: 'Original Item',
       description: 'Original description of the item',
-      quantity: 10
+      quantity: '10'
     });
 
     const updateInput = {
       id: originalItem.id,
+      version: originalItem.version,
       name: 'Updated Item Name',
       description: 'New description for the updated item',
       quantity: 20
@@ -41,7 +42,7 @@ describe('updateItem', () => {
     expect(updatedItem.id).toBe(originalItem.id);
     expect(updatedItem.name).toBe(updateInput.name);
     expect(updatedItem.description).toBe(updateInput.description);
-    expect(updatedItem.quantity).toBe(updateInput.quantity);
+    expect(updatedItem.on_hand).toBe(updateInput.quantity);
     // created_at should not change on update
     expect(updatedItem.created_at.getTime()).toEqual(originalItem.created_at.getTime());
 
@@ -50,7 +51,7 @@ describe('updateItem', () => {
     expect(dbItem).toBeDefined();
     expect(dbItem.name).toBe(updateInput.name);
     expect(dbItem.description).toBe(updateInput.description);
-    expect(dbItem.quantity).toBe(updateInput.quantity);
+    expect(Number(dbItem.quantity)).toBe(updateInput.quantity);
     expect(dbItem.created_at.getTime()).toEqual(originalItem.created_at.getTime());
   });
 
@@ -58,11 +59,12 @@ describe('updateItem', () => {
     const originalItem = await createTestItem({
       name: 'Item to be Renamed',
       description: 'This is an item description.',
-      quantity: 5
+      quantity: '5'
     });
 
     const updateInput = {
       id: originalItem.id,
+      version: originalItem.version,
       name: 'Renamed Item'
     };
 
@@ -72,7 +74,7 @@ describe('updateItem', () => {
     expect(updatedItem.id).toBe(originalItem.id);
     expect(updatedItem.name).toBe(updateInput.name);
     expect(updatedItem.description).toBe(originalItem.description); // Should be unchanged
-    expect(updatedItem.quantity).toBe(originalItem.quantity);     // Should be unchanged
+    expect(updatedItem.on_hand).toBe(Number(originalItem.quantity));     // Should be unchanged
     expect(updatedItem.created_at.getTime()).toEqual(originalItem.created_at.getTime());
 
     // Verify in database
@@ -87,11 +89,12 @@ describe('updateItem', () => {
     const originalItem = await createTestItem({
       name: 'Item with Description',
       description: 'A non-null description initially',
-      quantity: 15
+      quantity: '15'
     });
 
     const updateInput = {
       id: originalItem.id,
+      version: originalItem.version,
       description: null
     };
 
@@ -101,7 +104,7 @@ describe('updateItem', () => {
     expect(updatedItem.id).toBe(originalItem.id);
     expect(updatedItem.description).toBeNull();
     expect(updatedItem.name).toBe(originalItem.name);       // Unchanged
-    expect(updatedItem.quantity).toBe(originalItem.quantity); // Unchanged
+    expect(updatedItem.on_hand).toBe(Number(originalItem.quantity)); // Unchanged
 
     // Verify in database
     const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, originalItem.id)).execute();
@@ -113,11 +116,12 @@ describe('updateItem', () => {
     const originalItem = await createTestItem({
       name: 'Item for quantity update',
       description: 'Some valid description here',
-      quantity: 50
+      quantity: '50'
     });
 
     const updateInput = {
       id: originalItem.id,
+      version: originalItem.version,
       quantity: 100
     };
 
@@ -125,7 +129,7 @@ describe('updateItem', () => {
 
     // Assert quantity is updated, others unchanged
     expect(updatedItem.id).toBe(originalItem.id);
-    expect(updatedItem.quantity).toBe(updateInput.quantity);
+    expect(updatedItem.on_hand).toBe(updateInput.quantity);
     expect(updatedItem.name).toBe(originalItem.name);
     expect(updatedItem.description).toBe(originalItem.description);
     expect(updatedItem.created_at.getTime()).toEqual(originalItem.created_at.getTime());
@@ -133,32 +137,37 @@ describe('updateItem', () => {
     // Verify in database
     const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, originalItem.id)).execute();
     expect(dbItem).toBeDefined();
-    expect(dbItem.quantity).toBe(updateInput.quantity);
+    expect(Number(dbItem.quantity)).toBe(updateInput.quantity);
   });
 
   it('should throw an error if the item ID does not exist', async () => {
     const nonExistentId = 9999;
     const updateInput = {
       id: nonExistentId,
+      version: 1,
       name: 'Attempted Update'
     };
 
     // Expect the handler to reject with a specific error message
     await expect(updateItem(updateInput)).rejects.toThrow(`Item with ID ${nonExistentId} not found.`);
+    await expect(updateItem(updateInput)).rejects.toBeInstanceOf(NotFoundError);
   });
 
   it('should throw an error on unique name constraint violation', async () => {
     // Corrected to include description
-    await createTestItem({ name: 'Existing Item A', description: null, quantity: 10 });
-    const itemToUpdate = await createTestItem({ name: 'Item To Be Updated', description: null, quantity: 20 });
+    await createTestItem({ name: 'Existing Item A', description: null, quantity: '10' });
+    const itemToUpdate = await createTestItem({ name: 'Item To Be Updated', description: null, quantity: '20' });
 
     const updateInput = {
       id: itemToUpdate.id,
+      version: itemToUpdate.version,
       name: 'Existing Item A' // This name already exists
     };
 
-    // Expect the handler to reject due to unique constraint
-    await expect(updateItem(updateInput)).rejects.toThrow(/duplicate key value violates unique constraint/i);
+    // Expect the handler to report the unique constraint as a conflict on the name field
+    const error = await updateItem(updateInput).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).field).toBe('name');
 
     // Ensure the original item's name was not changed in the database
     const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, itemToUpdate.id)).execute();
@@ -169,11 +178,12 @@ describe('updateItem', () => {
     const originalItem = await createTestItem({
       name: 'No fields updated test',
       description: 'Initial description',
-      quantity: 10
+      quantity: '10'
     });
 
     const updateInput = {
       id: originalItem.id,
+      version: originalItem.version,
       // No other fields provided, only ID
     };
 
@@ -183,7 +193,7 @@ describe('updateItem', () => {
     expect(updatedItem.id).toBe(originalItem.id);
     expect(updatedItem.name).toBe(originalItem.name);
     expect(updatedItem.description).toBe(originalItem.description);
-    expect(updatedItem.quantity).toBe(originalItem.quantity);
+    expect(updatedItem.on_hand).toBe(Number(originalItem.quantity));
     expect(updatedItem.created_at.getTime()).toEqual(originalItem.created_at.getTime());
 
     // Verify the state in the database remains unchanged
@@ -192,4 +202,90 @@ describe('updateItem', () => {
     expect(dbItem.description).toBe(originalItem.description);
     expect(dbItem.quantity).toBe(originalItem.quantity);
   });
+
+  it('should record an adjustment movement when the quantity is edited', async () => {
+    const originalItem = await createTestItem({
+      name: 'Ledger Item',
+      description: null,
+      quantity: '30'
+    });
+
+    const edited = await updateItem({ id: originalItem.id, version: originalItem.version, quantity: 12 });
+    // Changing only the description must not add to the ledger
+    await updateItem({ id: originalItem.id, version: edited.version, description: 'Still 12 units' });
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.item_id, originalItem.id)).execute();
+    expect(movements).toHaveLength(1);
+    expect(Number(movements[0].delta)).toBe(-18);
+    expect(movements[0].reason).toBe('adjustment');
+  });
+
+  it('should set and clear reorder thresholds', async () => {
+    const originalItem = await createTestItem({
+      name: 'Threshold Item',
+      description: null,
+      quantity: '10'
+    });
+
+    const withThresholds = await updateItem({ id: originalItem.id, version: originalItem.version, reorder_point: 4, reorder_quantity: 12 });
+    expect(withThresholds.reorder_point).toBe(4);
+    expect(withThresholds.reorder_quantity).toBe(12);
+
+    const cleared = await updateItem({ id: originalItem.id, version: withThresholds.version, reorder_point: null });
+    expect(cleared.reorder_point).toBeNull();
+    expect(cleared.reorder_quantity).toBe(12); // Unchanged
+  });
+
+  it('should bump the version on every successful update', async () => {
+    const originalItem = await createTestItem({ name: 'Versioned Item', description: null, quantity: '1' });
+    expect(originalItem.version).toBe(1);
+
+    const updatedItem = await updateItem({ id: originalItem.id, version: originalItem.version, quantity: 2 });
+
+    expect(updatedItem.version).toBe(2);
+  });
+
+  it('should reject a stale version with the current item and leave it untouched', async () => {
+    const originalItem = await createTestItem({ name: 'Contested Item', description: null, quantity: '10' });
+    // Another user saves first
+    await updateItem({ id: originalItem.id, version: originalItem.version, description: 'Saved first' });
+
+    const error = await updateItem({ id: originalItem.id, version: originalItem.version, quantity: 99 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect((error as VersionConflictError).current.version).toBe(2);
+    expect((error as VersionConflictError).current.description).toBe('Saved first');
+
+    const [dbItem] = await db.select().from(itemsTable).where(eq(itemsTable.id, originalItem.id)).execute();
+    expect(Number(dbItem.quantity)).toBe(10);
+    expect(dbItem.version).toBe(2);
+  });
+
+  it('should replace the tags and bump the version even when no other field changes', async () => {
+    const item = await createTestItem({ name: 'Tagged Item', description: null, quantity: '1' });
+
+    const tagged = await updateItem({ id: item.id, version: item.version, tags: ['heavy', 'fragile'] });
+    expect(tagged.tags).toEqual(['fragile', 'heavy']);
+    expect(tagged.version).toBe(item.version + 1);
+
+    const retagged = await updateItem({ id: item.id, version: tagged.version, tags: ['heavy'] });
+    expect(retagged.tags).toEqual(['heavy']);
+
+    // The same set of tags is not a change
+    const unchanged = await updateItem({ id: item.id, version: retagged.version, tags: ['heavy'] });
+    expect(unchanged.version).toBe(retagged.version);
+  });
+
+  it('should move the item between categories and out of them', async () => {
+    const [category] = await db.insert(categoriesTable).values({ name: 'Tools' }).returning().execute();
+    const item = await createTestItem({ name: 'Hammer', description: null, quantity: '1' });
+
+    const filed = await updateItem({ id: item.id, version: item.version, category_id: category.id });
+    expect(filed.category_id).toEqual(category.id);
+
+    const unfiled = await updateItem({ id: item.id, version: filed.version, category_id: null });
+    expect(unfiled.category_id).toBeNull();
+
+    await expect(updateItem({ id: item.id, version: unfiled.version, category_id: 9999 })).rejects.toBeInstanceOf(NotFoundError);
+  });
 });